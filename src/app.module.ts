@@ -28,6 +28,7 @@ import { MediaModule } from './modules/media/media.module';
 import { AdminModule } from './modules/admin/admin.module';
 import { WebsocketModule } from './websocket/websocket.module';
 import { ScorerModule } from './modules/scorer/scorer.module';
+import { LeaguesModule } from './modules/leagues/leagues.module';
 
 @Module({
   imports: [
@@ -123,6 +124,7 @@ import { ScorerModule } from './modules/scorer/scorer.module';
     AdminModule,
     WebsocketModule,
     ScorerModule,
+    LeaguesModule,
   ],
   controllers: [AppController],
   providers: [
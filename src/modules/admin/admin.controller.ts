@@ -1,9 +1,13 @@
-import { Controller, Get, Put, Delete, Param, Body, Query, UseGuards } from '@nestjs/common';
+import { Controller, Get, Post, Put, Delete, Param, Body, Query, UseGuards } from '@nestjs/common';
 import { ApiTags, ApiOperation, ApiResponse, ApiBearerAuth } from '@nestjs/swagger';
 import { AdminService } from './admin.service';
 import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
 import { Roles } from '../auth/decorators/roles.decorator';
 import { RolesGuard } from '../auth/guards/roles.guard';
+import { CurrentUser } from '../auth/decorators/current-user.decorator';
+import { UserDocument } from '../users/schemas/user.schema';
+import { MergeLocalPlayersDto } from '../cricket/dto/local-player.dto';
+import { CreateCricketTeamDto, UpdateCricketTeamDto } from '../cricket/dto/cricket-team.dto';
 
 @ApiTags('admin')
 @Controller('admin')
@@ -153,6 +157,73 @@ export class AdminController {
     return this.adminService.getLocalMatchById(matchId);
   }
 
+  @Get('local-matches/:id/replay')
+  @ApiOperation({ summary: 'Replay a local match from its ball history up to a given delivery' })
+  @ApiResponse({ status: 200, description: 'Replayed match state retrieved successfully' })
+  @ApiResponse({ status: 400, description: 'Invalid delivery count' })
+  @ApiResponse({ status: 404, description: 'Local match not found' })
+  async replayLocalMatch(@Param('id') matchId: string, @Query('upTo') upTo?: string) {
+    return this.adminService.replayLocalMatch(
+      matchId,
+      upTo !== undefined ? parseInt(upTo, 10) : undefined,
+    );
+  }
+
+  @Get('local-matches/:id/reconciliation')
+  @ApiOperation({ summary: 'Get the dual-scorer reconciliation state of a local match' })
+  @ApiResponse({ status: 200, description: 'Reconciliation state retrieved successfully' })
+  @ApiResponse({ status: 404, description: 'Local match not found' })
+  async getLocalMatchReconciliation(@Param('id') matchId: string) {
+    return this.adminService.getLocalMatchReconciliation(matchId);
+  }
+
+  @Post('local-matches/:id/reconciliation/compare')
+  @ApiOperation({ summary: 'Compare the primary and verification streams and flag discrepancies' })
+  @ApiResponse({ status: 201, description: 'Scoring streams compared successfully' })
+  @ApiResponse({ status: 400, description: 'No verification stream or already reconciled' })
+  @ApiResponse({ status: 404, description: 'Local match not found' })
+  async compareLocalMatchStreams(@Param('id') matchId: string) {
+    return this.adminService.compareLocalMatchStreams(matchId);
+  }
+
+  @Put('local-matches/:id/reconciliation/discrepancies/:index')
+  @ApiOperation({
+    summary: 'Resolve a discrepancy in favour of the primary or verification stream',
+  })
+  @ApiResponse({ status: 200, description: 'Discrepancy resolved successfully' })
+  @ApiResponse({ status: 404, description: 'Local match or discrepancy not found' })
+  async resolveLocalMatchDiscrepancy(
+    @Param('id') matchId: string,
+    @Param('index') index: string,
+    @Body('resolution') resolution: 'primary' | 'secondary',
+    @CurrentUser() user: UserDocument,
+  ) {
+    return this.adminService.resolveLocalMatchDiscrepancy(
+      matchId,
+      parseInt(index, 10),
+      resolution,
+      user._id.toString(),
+    );
+  }
+
+  @Post('local-matches/:id/reconciliation/finalize')
+  @ApiOperation({
+    summary: 'Apply the resolved record, verify the match and update scorer accuracy',
+  })
+  @ApiResponse({ status: 201, description: 'Reconciliation finalized successfully' })
+  @ApiResponse({ status: 400, description: 'Unresolved discrepancies remain' })
+  @ApiResponse({ status: 409, description: 'Scoring streams changed since the comparison' })
+  async finalizeLocalMatchReconciliation(
+    @Param('id') matchId: string,
+    @CurrentUser() user: UserDocument,
+  ) {
+    return this.adminService.finalizeLocalMatchReconciliation(
+      matchId,
+      user._id.toString(),
+      user.name,
+    );
+  }
+
   @Put('local-matches/:id/verify')
   @ApiOperation({ summary: 'Verify or unverify a local match' })
   @ApiResponse({ status: 200, description: 'Match verification status updated successfully' })
@@ -164,6 +235,14 @@ export class AdminController {
     return this.adminService.updateLocalMatchVerification(matchId, isVerified);
   }
 
+  @Put('local-matches/:id/reject')
+  @ApiOperation({ summary: "Reject a local match's scoring (counts against the scorer)" })
+  @ApiResponse({ status: 200, description: 'Match scoring rejected successfully' })
+  @ApiResponse({ status: 404, description: 'Local match not found' })
+  async rejectLocalMatch(@Param('id') matchId: string) {
+    return this.adminService.rejectLocalMatch(matchId);
+  }
+
   @Put('local-matches/:id/status')
   @ApiOperation({ summary: 'Update local match status (live, completed, upcoming, cancelled)' })
   @ApiResponse({ status: 200, description: 'Match status updated successfully' })
@@ -193,4 +272,53 @@ export class AdminController {
   async deleteLocalMatch(@Param('id') matchId: string) {
     return this.adminService.deleteLocalMatch(matchId);
   }
+
+  @Get('local-players/duplicates')
+  @ApiOperation({ summary: 'List local players sharing a name, as merge candidates' })
+  @ApiResponse({ status: 200, description: 'Duplicate candidates retrieved successfully' })
+  async getLocalPlayerDuplicates(@Query('limit') limit: number = 50) {
+    return this.adminService.getLocalPlayerDuplicates(limit);
+  }
+
+  @Post('local-players/:id/merge')
+  @ApiOperation({ summary: 'Merge a duplicate local player into this player' })
+  @ApiResponse({ status: 201, description: 'Players merged and career rebuilt' })
+  @ApiResponse({ status: 404, description: 'Player not found' })
+  @ApiResponse({ status: 409, description: 'Player was already merged' })
+  async mergeLocalPlayers(@Param('id') playerId: string, @Body() mergeDto: MergeLocalPlayersDto) {
+    return this.adminService.mergeLocalPlayers(playerId, mergeDto.sourcePlayerId);
+  }
+
+  @Post('local-players/:id/career/rebuild')
+  @ApiOperation({ summary: 'Rebuild a local player career from verified matches' })
+  @ApiResponse({ status: 201, description: 'Career stats rebuilt' })
+  @ApiResponse({ status: 404, description: 'Player not found' })
+  async rebuildLocalPlayerCareer(@Param('id') playerId: string) {
+    return this.adminService.rebuildLocalPlayerCareer(playerId);
+  }
+
+  @Post('cricket-teams')
+  @ApiOperation({ summary: 'Create an international team profile' })
+  @ApiResponse({ status: 201, description: 'Team created successfully' })
+  @ApiResponse({ status: 409, description: 'Slug or match key already in use' })
+  async createCricketTeam(@Body() createDto: CreateCricketTeamDto) {
+    return this.adminService.createCricketTeam(createDto);
+  }
+
+  @Put('cricket-teams/:slug')
+  @ApiOperation({ summary: 'Update an international team profile' })
+  @ApiResponse({ status: 200, description: 'Team updated successfully' })
+  @ApiResponse({ status: 404, description: 'Team not found' })
+  @ApiResponse({ status: 409, description: 'Match key already in use' })
+  async updateCricketTeam(@Param('slug') slug: string, @Body() updateDto: UpdateCricketTeamDto) {
+    return this.adminService.updateCricketTeam(slug, updateDto);
+  }
+
+  @Delete('cricket-teams/:slug')
+  @ApiOperation({ summary: 'Delete an international team profile' })
+  @ApiResponse({ status: 200, description: 'Team deleted successfully' })
+  @ApiResponse({ status: 404, description: 'Team not found' })
+  async deleteCricketTeam(@Param('slug') slug: string) {
+    return this.adminService.deleteCricketTeam(slug);
+  }
 }
@@ -9,6 +9,10 @@ import { Comment, CommentDocument } from '../comments/schemas/comment.schema';
 import { CricketMatch, CricketMatchDocument } from '../cricket/schemas/cricket-match.schema';
 import { LocalMatch, LocalMatchDocument } from '../cricket/schemas/local-match.schema';
 import { LocalMatchService } from '../cricket/services/local-match.service';
+import { LocalPlayerService } from '../cricket/services/local-player.service';
+import { CricketTeamService } from '../cricket/services/cricket-team.service';
+import { CreateCricketTeamDto, UpdateCricketTeamDto } from '../cricket/dto/cricket-team.dto';
+import { REPUTATION_SUSPEND_THRESHOLD } from '../scorer/scorer-reputation.service';
 import { WinstonLoggerService } from '../../common/logger/winston-logger.service';
 
 @Injectable()
@@ -23,6 +27,10 @@ export class AdminService {
     @InjectModel(LocalMatch.name) private localMatchModel: Model<LocalMatchDocument>,
     @Inject(forwardRef(() => LocalMatchService))
     private localMatchService: LocalMatchService,
+    @Inject(forwardRef(() => LocalPlayerService))
+    private localPlayerService: LocalPlayerService,
+    @Inject(forwardRef(() => CricketTeamService))
+    private cricketTeamService: CricketTeamService,
     private logger: WinstonLoggerService,
   ) {}
 
@@ -317,6 +325,11 @@ export class AdminService {
         createdAt: (scorer as any).createdAt || new Date(),
         lastLogin: (scorer as any).lastLogin,
       },
+      reputation: {
+        score: scorer.scorerProfile?.reputationScore ?? null,
+        suspendThreshold: REPUTATION_SUSPEND_THRESHOLD,
+        history: [...(scorer.scorerProfile?.reputationHistory || [])].reverse(),
+      },
       matches: {
         total: await this.cricketMatchModel.countDocuments({
           'scorerInfo.scorerId': (scorer as any).scorerProfile?.scorerId,
@@ -507,6 +520,70 @@ export class AdminService {
     }
   }
 
+  async replayLocalMatch(matchId: string, upTo?: number) {
+    const replay = await this.localMatchService.replayMatch(matchId, upTo);
+    return {
+      success: true,
+      data: replay,
+    };
+  }
+
+  async getLocalMatchReconciliation(matchId: string) {
+    const reconciliation = await this.localMatchService.getReconciliation(matchId);
+    return {
+      success: true,
+      data: reconciliation,
+    };
+  }
+
+  async compareLocalMatchStreams(matchId: string) {
+    const result = await this.localMatchService.compareScoringStreams(matchId);
+    return {
+      success: true,
+      data: result,
+    };
+  }
+
+  async resolveLocalMatchDiscrepancy(
+    matchId: string,
+    index: number,
+    resolution: 'primary' | 'secondary',
+    adminId: string,
+  ) {
+    if (isNaN(index) || !['primary', 'secondary'].includes(resolution)) {
+      throw new BadRequestException(
+        'A discrepancy index and a resolution of primary or secondary are required',
+      );
+    }
+
+    const reconciliation = await this.localMatchService.resolveDiscrepancy(
+      matchId,
+      index,
+      resolution,
+      adminId,
+    );
+    return {
+      success: true,
+      data: reconciliation,
+    };
+  }
+
+  async finalizeLocalMatchReconciliation(matchId: string, adminId: string, adminName?: string) {
+    const match = await this.localMatchService.finalizeReconciliation(matchId, adminId, adminName);
+
+    this.logger.log(`Local match ${matchId} reconciled and verified`, 'AdminService');
+
+    return {
+      success: true,
+      message: 'Scoring reconciled and match verified',
+      data: {
+        matchId: match.matchId,
+        isVerified: match.isVerified,
+        reconciliation: match.reconciliation,
+      },
+    };
+  }
+
   async updateLocalMatchVerification(matchId: string, isVerified: boolean) {
     const match = await this.localMatchModel.findOne({ matchId });
     
@@ -532,6 +609,33 @@ export class AdminService {
     };
   }
 
+  /**
+   * Reject a match's scoring. Unlike unverifying, this counts against the
+   * scorer's reputation.
+   */
+  async rejectLocalMatch(matchId: string) {
+    const match = await this.localMatchModel.findOne({ matchId });
+    if (!match) {
+      throw new NotFoundException(`Local match with ID ${matchId} not found`);
+    }
+
+    match.isVerified = false;
+    match.scorerInfo.verificationStatus = 'rejected';
+    await match.save();
+
+    this.logger.log(`Local match ${matchId} scoring rejected`, 'AdminService');
+
+    return {
+      success: true,
+      message: 'Match scoring rejected',
+      data: {
+        matchId: match.matchId,
+        isVerified: match.isVerified,
+        verificationStatus: match.scorerInfo.verificationStatus,
+      },
+    };
+  }
+
   async updateLocalMatchStatus(matchId: string, status: 'live' | 'completed' | 'upcoming' | 'cancelled') {
     const match = await this.localMatchModel.findOne({ matchId });
     
@@ -640,4 +744,64 @@ export class AdminService {
       message: 'Match deleted successfully',
     };
   }
+
+  async getLocalPlayerDuplicates(limit: number = 50) {
+    const duplicates = await this.localPlayerService.findDuplicates(limit);
+    return {
+      success: true,
+      data: duplicates,
+    };
+  }
+
+  async mergeLocalPlayers(targetId: string, sourceId: string) {
+    const player = await this.localPlayerService.mergePlayers(targetId, sourceId);
+
+    this.logger.log(`Local player ${sourceId} merged into ${targetId} by admin`, 'AdminService');
+
+    return {
+      success: true,
+      message: 'Players merged successfully',
+      data: player,
+    };
+  }
+
+  async rebuildLocalPlayerCareer(playerId: string) {
+    const player = await this.localPlayerService.rebuildCareerStats(playerId);
+    return {
+      success: true,
+      data: player,
+    };
+  }
+
+  async createCricketTeam(createDto: CreateCricketTeamDto) {
+    const team = await this.cricketTeamService.createTeam(createDto);
+
+    this.logger.log(`Cricket team ${team.slug} created by admin`, 'AdminService');
+
+    return {
+      success: true,
+      message: 'Team created successfully',
+      data: team,
+    };
+  }
+
+  async updateCricketTeam(slug: string, updateDto: UpdateCricketTeamDto) {
+    const team = await this.cricketTeamService.updateTeam(slug, updateDto);
+    return {
+      success: true,
+      message: 'Team updated successfully',
+      data: team,
+    };
+  }
+
+  async deleteCricketTeam(slug: string) {
+    await this.cricketTeamService.deleteTeam(slug);
+
+    this.logger.log(`Cricket team ${slug} deleted by admin`, 'AdminService');
+
+    return {
+      success: true,
+      message: 'Team deleted successfully',
+    };
+  }
 }
@@ -1,20 +1,59 @@
-import { Controller, Get, Post, Put, Delete, Param, Query, Body, UseGuards, BadRequestException, ForbiddenException, Logger, HttpCode, HttpStatus } from '@nestjs/common';
-import { ApiTags, ApiOperation, ApiResponse, ApiBearerAuth, ApiParam } from '@nestjs/swagger';
+import { Controller, Get, Post, Put, Delete, Param, Query, Body, UseGuards, BadRequestException, ForbiddenException, Logger, HttpCode, HttpStatus, UseInterceptors, UploadedFile } from '@nestjs/common';
+import { ApiTags, ApiOperation, ApiResponse, ApiBearerAuth, ApiParam, ApiQuery, ApiConsumes, ApiBody } from '@nestjs/swagger';
+import { FileInterceptor } from '@nestjs/platform-express';
+import { memoryStorage } from 'multer';
 import { CricketService } from './cricket.service';
 import { GetMatchesDto } from './dto/get-matches.dto';
 import { LocalMatchService } from './services/local-match.service';
 import { CreateLocalMatchDto } from './dto/create-local-match.dto';
 import { UpdateLocalMatchScoreDto } from './dto/update-local-match-score.dto';
 import { RecordBallDto } from './dto/record-ball.dto';
+import { RecordBallBatchDto } from './dto/record-ball-batch.dto';
+import { AddMatchScorerDto, HandoverMatchDto } from './dto/match-scorer.dto';
 import { MatchSetupDto } from './dto/match-setup.dto';
+import { EditBallDto, DeleteBallDto } from './dto/edit-ball.dto';
+import { StartInningsDto } from './dto/start-innings.dto';
+import { RecordInterruptionDto } from './dto/record-interruption.dto';
 import { UpdateLiveStateDto } from './dto/update-live-state.dto';
 import { AddCommentaryDto } from './dto/add-commentary.dto';
+import { GetWagonWheelDto, GetPitchMapDto } from './dto/shot-map.dto';
 import { CommentaryService } from './services/commentary.service';
+import { LocalPlayerService } from './services/local-player.service';
+import {
+  CreateLocalPlayerDto,
+  UpdateLocalPlayerDto,
+  GetLocalPlayersDto,
+} from './dto/local-player.dto';
+import { LocalTeamService } from './services/local-team.service';
+import { CreateLocalTeamDto, UpdateLocalTeamDto, GetLocalTeamsDto } from './dto/local-team.dto';
+import { GroundService } from './services/ground.service';
+import { CricketTeamService } from './services/cricket-team.service';
+import { GetCricketTeamsDto } from './dto/cricket-team.dto';
+import {
+  GetInternationalPlayersDto,
+  GetStatsDto,
+  GetTeamMatchesDto,
+} from './dto/cricket-stats.dto';
+import { CreateGroundDto, UpdateGroundDto, GetGroundsDto, NearbyQueryDto } from './dto/ground.dto';
 import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
 import { Public } from '../auth/decorators/public.decorator';
 import { CurrentUser } from '../auth/decorators/current-user.decorator';
 import { UserDocument } from '../users/schemas/user.schema';
 
+const logoUpload = FileInterceptor('file', {
+  storage: memoryStorage(),
+  limits: {
+    fileSize: 5 * 1024 * 1024, // 5MB
+  },
+  fileFilter: (req, file, cb) => {
+    if (['image/jpeg', 'image/png', 'image/webp'].includes(file.mimetype)) {
+      cb(null, true);
+    } else {
+      cb(new BadRequestException('Logo must be a JPEG, PNG or WebP image'), false);
+    }
+  },
+});
+
 @ApiTags('cricket')
 @Controller('cricket')
 export class CricketController {
@@ -24,8 +63,30 @@ export class CricketController {
     private readonly cricketService: CricketService,
     private readonly localMatchService: LocalMatchService,
     private readonly commentaryService: CommentaryService,
+    private readonly localPlayerService: LocalPlayerService,
+    private readonly localTeamService: LocalTeamService,
+    private readonly groundService: GroundService,
+    private readonly cricketTeamService: CricketTeamService,
   ) {}
 
+  /**
+   * Parse an innings/over/ball route position (plus optional occurrence for extras)
+   */
+  private parseDeliveryPosition(innings: string, over: string, ball: string, occurrence?: string) {
+    const position = {
+      innings: parseInt(innings, 10),
+      over: parseInt(over, 10),
+      ball: parseInt(ball, 10),
+      occurrence: occurrence !== undefined ? parseInt(occurrence, 10) : 0,
+    };
+    if (Object.values(position).some((value) => isNaN(value) || value < 0)) {
+      throw new BadRequestException(
+        'Innings, over, ball and occurrence must be non-negative integers',
+      );
+    }
+    return position;
+  }
+
   @Public()
   @Get('matches')
   @ApiOperation({ summary: 'Get all cricket matches with pagination and filters' })
@@ -71,6 +132,16 @@ export class CricketController {
     return this.cricketService.getMatchById(id);
   }
 
+  @Public()
+  @Get('matches/:id/win-probability')
+  @ApiOperation({ summary: 'Get cricket match win probability and projected score timeline' })
+  @ApiParam({ name: 'id', description: 'Match ID' })
+  @ApiResponse({ status: 200, description: 'Win probability retrieved successfully' })
+  @ApiResponse({ status: 404, description: 'No win probability recorded for this match' })
+  async getWinProbability(@Param('id') id: string) {
+    return this.cricketService.getWinProbability(id);
+  }
+
   @Public()
   @Get('matches/:id/commentary')
   @ApiOperation({ summary: 'Get cricket match commentary (merged with in-house commentary)' })
@@ -192,39 +263,354 @@ export class CricketController {
 
   @Public()
   @Get('series')
-  @ApiOperation({ summary: 'Get cricket series list' })
+  @ApiOperation({ summary: 'Get cricket series list with standings' })
+  @ApiQuery({
+    name: 'tieBreakers',
+    required: false,
+    description: 'Comma-separated: wins, netRunRate, headToHead, runsFor',
+  })
+  @ApiResponse({ status: 200, description: 'Series retrieved successfully' })
+  async getSeries(
+    @Query('page') page: number = 1,
+    @Query('limit') limit: number = 20,
+    @Query('tieBreakers') tieBreakers?: string,
+  ) {
+    return this.cricketService.getSeries(page, limit, tieBreakers);
+  }
+
+  @Public()
+  @Get('series/:id')
+  @ApiOperation({ summary: 'Get a series with its results and points table' })
+  @ApiParam({ name: 'id', description: 'Series ID' })
+  @ApiQuery({
+    name: 'tieBreakers',
+    required: false,
+    description: 'Comma-separated: wins, netRunRate, headToHead, runsFor',
+  })
   @ApiResponse({ status: 200, description: 'Series retrieved successfully' })
-  async getSeries(@Query('page') page: number = 1, @Query('limit') limit: number = 20) {
-    return this.cricketService.getSeries(page, limit);
+  @ApiResponse({ status: 404, description: 'Series not found' })
+  async getSeriesById(@Param('id') id: string, @Query('tieBreakers') tieBreakers?: string) {
+    return this.cricketService.getSeriesById(id, tieBreakers);
   }
 
   @Public()
   @Get('players')
-  @ApiOperation({ summary: 'Get cricket players' })
+  @ApiOperation({ summary: 'Get local players with career stats' })
   @ApiResponse({ status: 200, description: 'Players retrieved successfully' })
-  async getPlayers(
-    @Query('page') page: number = 1,
-    @Query('limit') limit: number = 20,
-    @Query('q') query?: string,
-  ) {
-    return this.cricketService.getPlayers(page, limit, query);
+  async getPlayers(@Query() query: GetLocalPlayersDto) {
+    return this.cricketService.getPlayers(query);
+  }
+
+  @Public()
+  @Get('players/international')
+  @ApiOperation({ summary: 'Search international players by name' })
+  @ApiResponse({ status: 200, description: 'Players retrieved successfully' })
+  async getInternationalPlayers(@Query() query: GetInternationalPlayersDto) {
+    return this.cricketService.getInternationalPlayers(query);
+  }
+
+  @Public()
+  @Get('players/international/:id')
+  @ApiOperation({ summary: 'Get an international player profile with career stats' })
+  @ApiParam({ name: 'id', description: 'SportsMonks player ID' })
+  @ApiResponse({ status: 200, description: 'Player retrieved successfully' })
+  @ApiResponse({ status: 404, description: 'Player not found' })
+  async getInternationalPlayerById(@Param('id') id: string) {
+    return this.cricketService.getInternationalPlayerById(id);
+  }
+
+  @Public()
+  @Get('players/:id')
+  @ApiOperation({ summary: 'Get a local player profile with career stats' })
+  @ApiParam({ name: 'id', description: 'Player ID' })
+  @ApiResponse({ status: 200, description: 'Player retrieved successfully' })
+  @ApiResponse({ status: 404, description: 'Player not found' })
+  async getPlayerById(@Param('id') id: string) {
+    return this.cricketService.getPlayerById(id);
   }
 
   @Public()
   @Get('stats')
-  @ApiOperation({ summary: 'Get cricket statistics' })
+  @ApiOperation({ summary: 'Get batting and bowling leaderboards' })
   @ApiResponse({ status: 200, description: 'Statistics retrieved successfully' })
-  async getStats() {
-    return this.cricketService.getStats();
+  async getStats(@Query() query: GetStatsDto) {
+    return this.cricketService.getStats(query);
+  }
+
+  @Public()
+  @Get('teams')
+  @ApiOperation({ summary: 'Get international team profiles' })
+  @ApiResponse({ status: 200, description: 'Teams retrieved successfully' })
+  async getCricketTeams(@Query() query: GetCricketTeamsDto) {
+    const data = await this.cricketTeamService.getTeams(query);
+    return {
+      success: true,
+      data,
+    };
+  }
+
+  @Public()
+  @Get('teams/:slug')
+  @ApiOperation({ summary: 'Get a team hub: profile, recent results and news' })
+  @ApiParam({ name: 'slug', description: 'Team slug' })
+  @ApiResponse({ status: 200, description: 'Team retrieved successfully' })
+  @ApiResponse({ status: 404, description: 'Team not found' })
+  async getCricketTeam(@Param('slug') slug: string) {
+    const team = await this.cricketTeamService.getTeamHub(slug);
+    return {
+      success: true,
+      data: team,
+    };
   }
 
   @Public()
   @Get('teams/:teamName/matches')
-  @ApiOperation({ summary: 'Get team match statistics' })
-  @ApiParam({ name: 'teamName', description: 'Team name' })
+  @ApiOperation({ summary: 'Get team match history and record' })
+  @ApiParam({ name: 'teamName', description: 'Team name or ID' })
   @ApiResponse({ status: 200, description: 'Team match statistics retrieved successfully' })
-  async getTeamMatches(@Param('teamName') teamName: string) {
-    return this.cricketService.getTeamMatches(teamName);
+  async getTeamMatches(@Param('teamName') teamName: string, @Query() query: GetTeamMatchesDto) {
+    return this.cricketService.getTeamMatches(teamName, query);
+  }
+
+  // Local Player Endpoints
+  @Post('local/players')
+  @UseGuards(JwtAuthGuard)
+  @ApiBearerAuth('JWT-auth')
+  @ApiOperation({ summary: 'Register a local player' })
+  @ApiResponse({ status: 201, description: 'Player registered successfully' })
+  @ApiResponse({ status: 403, description: 'User is not a registered scorer' })
+  async createLocalPlayer(
+    @Body() createDto: CreateLocalPlayerDto,
+    @CurrentUser() user: UserDocument,
+  ) {
+    if (!user.scorerProfile?.isScorer || !user.scorerProfile?.scorerId) {
+      throw new ForbiddenException('User is not a registered scorer');
+    }
+
+    const player = await this.localPlayerService.createPlayer(
+      createDto,
+      user.scorerProfile.scorerId,
+    );
+
+    return {
+      success: true,
+      data: player,
+    };
+  }
+
+  @Put('local/players/:id')
+  @UseGuards(JwtAuthGuard)
+  @ApiBearerAuth('JWT-auth')
+  @ApiOperation({ summary: 'Update a local player profile' })
+  @ApiParam({ name: 'id', description: 'Player ID' })
+  @ApiResponse({ status: 200, description: 'Player updated successfully' })
+  @ApiResponse({ status: 403, description: 'User is not a registered scorer' })
+  @ApiResponse({ status: 404, description: 'Player not found' })
+  async updateLocalPlayer(
+    @Param('id') id: string,
+    @Body() updateDto: UpdateLocalPlayerDto,
+    @CurrentUser() user: UserDocument,
+  ) {
+    if (!user.scorerProfile?.isScorer || !user.scorerProfile?.scorerId) {
+      throw new ForbiddenException('User is not a registered scorer');
+    }
+
+    const player = await this.localPlayerService.updatePlayer(id, updateDto);
+
+    return {
+      success: true,
+      data: player,
+    };
+  }
+
+  // Local Team Endpoints
+  @Get('local/teams')
+  @Public()
+  @ApiOperation({ summary: 'Get registered local teams' })
+  @ApiResponse({ status: 200, description: 'Teams retrieved successfully' })
+  async getLocalTeams(@Query() query: GetLocalTeamsDto) {
+    const data = await this.localTeamService.getTeams(query);
+    return {
+      success: true,
+      data,
+    };
+  }
+
+  @Get('local/teams/:id')
+  @Public()
+  @ApiOperation({ summary: 'Get a local team with its squad, fixtures and results' })
+  @ApiParam({ name: 'id', description: 'Team ID' })
+  @ApiResponse({ status: 200, description: 'Team retrieved successfully' })
+  @ApiResponse({ status: 404, description: 'Team not found' })
+  async getLocalTeam(@Param('id') id: string) {
+    const data = await this.localTeamService.getTeamPage(id);
+    return {
+      success: true,
+      data,
+    };
+  }
+
+  @Post('local/teams')
+  @UseGuards(JwtAuthGuard)
+  @ApiBearerAuth('JWT-auth')
+  @ApiOperation({ summary: 'Register a local team' })
+  @ApiResponse({ status: 201, description: 'Team registered successfully' })
+  @ApiResponse({ status: 400, description: 'Unknown squad players' })
+  @ApiResponse({ status: 403, description: 'User is not a registered scorer' })
+  async createLocalTeam(@Body() createDto: CreateLocalTeamDto, @CurrentUser() user: UserDocument) {
+    if (!user.scorerProfile?.isScorer || !user.scorerProfile?.scorerId) {
+      throw new ForbiddenException('User is not a registered scorer');
+    }
+
+    const team = await this.localTeamService.createTeam(createDto, user.scorerProfile.scorerId);
+
+    return {
+      success: true,
+      data: team,
+    };
+  }
+
+  @Put('local/teams/:id')
+  @UseGuards(JwtAuthGuard)
+  @ApiBearerAuth('JWT-auth')
+  @ApiOperation({ summary: 'Update a local team and its squad' })
+  @ApiParam({ name: 'id', description: 'Team ID' })
+  @ApiResponse({ status: 200, description: 'Team updated successfully' })
+  @ApiResponse({ status: 403, description: 'Forbidden - not the team creator' })
+  @ApiResponse({ status: 404, description: 'Team not found' })
+  async updateLocalTeam(
+    @Param('id') id: string,
+    @Body() updateDto: UpdateLocalTeamDto,
+    @CurrentUser() user: UserDocument,
+  ) {
+    const team = await this.localTeamService.updateTeam(id, updateDto, {
+      scorerId: user.scorerProfile?.scorerId,
+      isAdmin: user.role === 'admin',
+    });
+
+    return {
+      success: true,
+      data: team,
+    };
+  }
+
+  @Post('local/teams/:id/logo')
+  @UseGuards(JwtAuthGuard)
+  @UseInterceptors(logoUpload)
+  @ApiBearerAuth('JWT-auth')
+  @ApiOperation({ summary: 'Upload a local team logo' })
+  @ApiConsumes('multipart/form-data')
+  @ApiBody({
+    schema: {
+      type: 'object',
+      properties: {
+        file: {
+          type: 'string',
+          format: 'binary',
+        },
+      },
+    },
+  })
+  @ApiParam({ name: 'id', description: 'Team ID' })
+  @ApiResponse({ status: 201, description: 'Logo uploaded successfully' })
+  @ApiResponse({ status: 403, description: 'Forbidden - not the team creator' })
+  @ApiResponse({ status: 404, description: 'Team not found' })
+  async uploadLocalTeamLogo(
+    @Param('id') id: string,
+    @UploadedFile() file: Express.Multer.File,
+    @CurrentUser() user: UserDocument,
+  ) {
+    const team = await this.localTeamService.uploadLogo(id, file, {
+      scorerId: user.scorerProfile?.scorerId,
+      isAdmin: user.role === 'admin',
+    });
+
+    return {
+      success: true,
+      data: team,
+    };
+  }
+
+  // Local Ground Endpoints
+  @Get('local/grounds')
+  @Public()
+  @ApiOperation({ summary: 'Get registered grounds' })
+  @ApiResponse({ status: 200, description: 'Grounds retrieved successfully' })
+  async getGrounds(@Query() query: GetGroundsDto) {
+    const data = await this.groundService.getGrounds(query);
+    return {
+      success: true,
+      data,
+    };
+  }
+
+  @Get('local/grounds/nearby')
+  @Public()
+  @ApiOperation({ summary: 'Get grounds within a radius, nearest first' })
+  @ApiResponse({ status: 200, description: 'Nearby grounds retrieved successfully' })
+  async getNearbyGrounds(@Query() query: NearbyQueryDto) {
+    const grounds = await this.groundService.getNearbyGrounds(query);
+    return {
+      success: true,
+      data: grounds,
+    };
+  }
+
+  @Get('local/grounds/:id')
+  @Public()
+  @ApiOperation({ summary: 'Get a ground with its records' })
+  @ApiParam({ name: 'id', description: 'Ground ID' })
+  @ApiResponse({ status: 200, description: 'Ground retrieved successfully' })
+  @ApiResponse({ status: 404, description: 'Ground not found' })
+  async getGroundById(@Param('id') id: string) {
+    const ground = await this.groundService.getGroundById(id);
+    return {
+      success: true,
+      data: ground,
+    };
+  }
+
+  @Post('local/grounds')
+  @UseGuards(JwtAuthGuard)
+  @ApiBearerAuth('JWT-auth')
+  @ApiOperation({ summary: 'Register a ground' })
+  @ApiResponse({ status: 201, description: 'Ground registered successfully' })
+  @ApiResponse({ status: 403, description: 'User is not a registered scorer' })
+  async createGround(@Body() createDto: CreateGroundDto, @CurrentUser() user: UserDocument) {
+    if (!user.scorerProfile?.isScorer || !user.scorerProfile?.scorerId) {
+      throw new ForbiddenException('User is not a registered scorer');
+    }
+
+    const ground = await this.groundService.createGround(createDto, user.scorerProfile.scorerId);
+
+    return {
+      success: true,
+      data: ground,
+    };
+  }
+
+  @Put('local/grounds/:id')
+  @UseGuards(JwtAuthGuard)
+  @ApiBearerAuth('JWT-auth')
+  @ApiOperation({ summary: 'Update a ground' })
+  @ApiParam({ name: 'id', description: 'Ground ID' })
+  @ApiResponse({ status: 200, description: 'Ground updated successfully' })
+  @ApiResponse({ status: 403, description: 'Forbidden - not the ground creator' })
+  @ApiResponse({ status: 404, description: 'Ground not found' })
+  async updateGround(
+    @Param('id') id: string,
+    @Body() updateDto: UpdateGroundDto,
+    @CurrentUser() user: UserDocument,
+  ) {
+    const ground = await this.groundService.updateGround(id, updateDto, {
+      scorerId: user.scorerProfile?.scorerId,
+      isAdmin: user.role === 'admin',
+    });
+
+    return {
+      success: true,
+      data: ground,
+    };
   }
 
   // Local Match Endpoints
@@ -308,6 +694,18 @@ export class CricketController {
     };
   }
 
+  @Get('local/matches/nearby')
+  @Public()
+  @ApiOperation({ summary: 'Get live and upcoming local matches near a location, nearest first' })
+  @ApiResponse({ status: 200, description: 'Nearby matches retrieved successfully' })
+  async getNearbyLocalMatches(@Query() query: NearbyQueryDto) {
+    const matches = await this.groundService.getNearbyMatches(query);
+    return {
+      success: true,
+      data: matches,
+    };
+  }
+
   @Get('local/matches/:id')
   @Public()
   @ApiOperation({ summary: 'Get local match by ID (only verified matches)' })
@@ -323,6 +721,87 @@ export class CricketController {
     };
   }
 
+  @Get('local/matches/:id/analytics')
+  @Public()
+  @ApiOperation({
+    summary:
+      'Get local match analytics (partnerships, fall of wickets, Manhattan, worm, extras, phases)',
+  })
+  @ApiParam({ name: 'id', description: 'Match ID' })
+  @ApiResponse({ status: 200, description: 'Analytics retrieved successfully' })
+  @ApiResponse({ status: 404, description: 'Match not found' })
+  async getLocalMatchAnalytics(@Param('id') id: string) {
+    // Public endpoint only covers verified matches
+    const analytics = await this.localMatchService.getMatchAnalytics(id, false);
+    return {
+      success: true,
+      data: analytics,
+    };
+  }
+
+  @Get('local/matches/:id/wagon-wheel')
+  @Public()
+  @ApiOperation({ summary: 'Get local match wagon wheels per batter' })
+  @ApiParam({ name: 'id', description: 'Match ID' })
+  @ApiResponse({ status: 200, description: 'Wagon wheels retrieved successfully' })
+  @ApiResponse({ status: 404, description: 'Match not found' })
+  async getLocalMatchWagonWheels(@Param('id') id: string, @Query() query: GetWagonWheelDto) {
+    // Public endpoint only covers verified matches
+    const wagonWheels = await this.localMatchService.getWagonWheels(id, query, false);
+    return {
+      success: true,
+      data: wagonWheels,
+    };
+  }
+
+  @Get('local/matches/:id/pitch-map')
+  @Public()
+  @ApiOperation({ summary: 'Get local match pitch maps per bowler' })
+  @ApiParam({ name: 'id', description: 'Match ID' })
+  @ApiResponse({ status: 200, description: 'Pitch maps retrieved successfully' })
+  @ApiResponse({ status: 404, description: 'Match not found' })
+  async getLocalMatchPitchMaps(@Param('id') id: string, @Query() query: GetPitchMapDto) {
+    // Public endpoint only covers verified matches
+    const pitchMaps = await this.localMatchService.getPitchMaps(id, query, false);
+    return {
+      success: true,
+      data: pitchMaps,
+    };
+  }
+
+  @Get('local/matches/:id/win-probability')
+  @Public()
+  @ApiOperation({ summary: 'Get local match win probability and projected score per ball' })
+  @ApiParam({ name: 'id', description: 'Match ID' })
+  @ApiResponse({ status: 200, description: 'Win probability retrieved successfully' })
+  @ApiResponse({ status: 400, description: 'Match is not a limited-overs match' })
+  @ApiResponse({ status: 404, description: 'Match not found' })
+  async getLocalMatchWinProbability(@Param('id') id: string) {
+    // Public endpoint only covers verified matches
+    const winProbability = await this.localMatchService.getWinProbability(id, false);
+    return {
+      success: true,
+      data: winProbability,
+    };
+  }
+
+  @Get('local/matches/:id/commentary')
+  @Public()
+  @ApiOperation({
+    summary: 'Get local match ball-by-ball commentary (generated, merged with in-house commentary)',
+  })
+  @ApiParam({ name: 'id', description: 'Match ID' })
+  @ApiResponse({ status: 200, description: 'Commentary retrieved successfully' })
+  @ApiResponse({ status: 404, description: 'Match not found' })
+  async getLocalMatchCommentary(@Param('id') id: string) {
+    // Public endpoint only covers verified matches
+    const commentary = await this.localMatchService.getMatchCommentary(id, false);
+    return {
+      success: true,
+      data: commentary,
+    };
+  }
+
   @Put('local/matches/:id/score')
   @UseGuards(JwtAuthGuard)
   @ApiBearerAuth('JWT-auth')
@@ -388,8 +867,10 @@ export class CricketController {
   @ApiOperation({ summary: 'Record a ball (ball-by-ball scoring)' })
   @ApiParam({ name: 'id', description: 'Match ID' })
   @ApiResponse({ status: 200, description: 'Ball recorded successfully' })
+  @ApiResponse({ status: 400, description: 'Delivery breaks the Laws (see code and violations)' })
   @ApiResponse({ status: 404, description: 'Match not found' })
   @ApiResponse({ status: 403, description: 'Forbidden - not match owner' })
+  @ApiResponse({ status: 409, description: 'Out of sequence, or delivery ID reused' })
   async recordBall(
     @Param('id') id: string,
     @Body() ballDto: RecordBallDto,
@@ -412,6 +893,37 @@ export class CricketController {
     };
   }
 
+  @Post('local/matches/:id/balls/batch')
+  @UseGuards(JwtAuthGuard)
+  @ApiBearerAuth('JWT-auth')
+  @ApiOperation({ summary: 'Record a queue of balls scored offline' })
+  @ApiParam({ name: 'id', description: 'Match ID' })
+  @ApiResponse({ status: 200, description: 'Batch applied (resent balls are skipped)' })
+  @ApiResponse({ status: 404, description: 'Match not found' })
+  @ApiResponse({ status: 403, description: 'Forbidden - not match owner' })
+  @ApiResponse({ status: 409, description: 'Batch conflicts with recorded balls; nothing saved' })
+  async recordBallBatch(
+    @Param('id') id: string,
+    @Body() batchDto: RecordBallBatchDto,
+    @CurrentUser() user: UserDocument,
+  ) {
+    if (!user.scorerProfile?.isScorer || !user.scorerProfile?.scorerId) {
+      throw new ForbiddenException('User is not a registered scorer');
+    }
+
+    batchDto.balls.forEach((ball) => (ball.matchId = id));
+    const result = await this.localMatchService.recordBallBatch(
+      id,
+      batchDto,
+      user.scorerProfile.scorerId,
+    );
+
+    return {
+      success: true,
+      data: result,
+    };
+  }
+
   @Post('local/matches/:id/undo')
   @UseGuards(JwtAuthGuard)
   @ApiBearerAuth('JWT-auth')
@@ -431,6 +943,99 @@ export class CricketController {
     const match = await this.localMatchService.undoLastBall(
       id,
       user.scorerProfile.scorerId,
+      user.name,
+    );
+
+    return {
+      success: true,
+      data: match,
+    };
+  }
+
+  @Put('local/matches/:id/balls/:innings/:over/:ball')
+  @UseGuards(JwtAuthGuard)
+  @ApiBearerAuth('JWT-auth')
+  @ApiOperation({
+    summary: 'Edit any recorded delivery (later deliveries and stats are recomputed)',
+  })
+  @ApiParam({ name: 'id', description: 'Match ID' })
+  @ApiParam({ name: 'innings', description: 'Innings number' })
+  @ApiParam({ name: 'over', description: 'Over number' })
+  @ApiParam({ name: 'ball', description: 'Ball number in over' })
+  @ApiQuery({
+    name: 'occurrence',
+    required: false,
+    type: Number,
+    description: 'Which delivery at this position (for wides/no-balls), default 0',
+  })
+  @ApiResponse({ status: 200, description: 'Delivery updated successfully' })
+  @ApiResponse({ status: 404, description: 'Match or delivery not found' })
+  @ApiResponse({ status: 403, description: 'Forbidden - not match owner' })
+  async editBall(
+    @Param('id') id: string,
+    @Param('innings') innings: string,
+    @Param('over') over: string,
+    @Param('ball') ball: string,
+    @Body() editDto: EditBallDto,
+    @CurrentUser() user: UserDocument,
+    @Query('occurrence') occurrence?: string,
+  ) {
+    if (!user.scorerProfile?.isScorer || !user.scorerProfile?.scorerId) {
+      throw new ForbiddenException('User is not a registered scorer');
+    }
+
+    const match = await this.localMatchService.editBall(
+      id,
+      this.parseDeliveryPosition(innings, over, ball, occurrence),
+      editDto,
+      user.scorerProfile.scorerId,
+      user.name,
+    );
+
+    return {
+      success: true,
+      data: match,
+    };
+  }
+
+  @Delete('local/matches/:id/balls/:innings/:over/:ball')
+  @UseGuards(JwtAuthGuard)
+  @ApiBearerAuth('JWT-auth')
+  @ApiOperation({
+    summary: 'Delete any recorded delivery (later deliveries and stats are recomputed)',
+  })
+  @ApiParam({ name: 'id', description: 'Match ID' })
+  @ApiParam({ name: 'innings', description: 'Innings number' })
+  @ApiParam({ name: 'over', description: 'Over number' })
+  @ApiParam({ name: 'ball', description: 'Ball number in over' })
+  @ApiQuery({
+    name: 'occurrence',
+    required: false,
+    type: Number,
+    description: 'Which delivery at this position (for wides/no-balls), default 0',
+  })
+  @ApiResponse({ status: 200, description: 'Delivery deleted successfully' })
+  @ApiResponse({ status: 404, description: 'Match or delivery not found' })
+  @ApiResponse({ status: 403, description: 'Forbidden - not match owner' })
+  async deleteBall(
+    @Param('id') id: string,
+    @Param('innings') innings: string,
+    @Param('over') over: string,
+    @Param('ball') ball: string,
+    @Body() deleteDto: DeleteBallDto,
+    @CurrentUser() user: UserDocument,
+    @Query('occurrence') occurrence?: string,
+  ) {
+    if (!user.scorerProfile?.isScorer || !user.scorerProfile?.scorerId) {
+      throw new ForbiddenException('User is not a registered scorer');
+    }
+
+    const match = await this.localMatchService.deleteBall(
+      id,
+      this.parseDeliveryPosition(innings, over, ball, occurrence),
+      user.scorerProfile.scorerId,
+      user.name,
+      deleteDto?.reason,
     );
 
     return {
@@ -470,6 +1075,277 @@ export class CricketController {
     };
   }
 
+  @Post('local/matches/:id/innings')
+  @UseGuards(JwtAuthGuard)
+  @ApiBearerAuth('JWT-auth')
+  @ApiOperation({ summary: 'Start the next innings (follow-on, or a super over after a tie)' })
+  @ApiParam({ name: 'id', description: 'Match ID' })
+  @ApiResponse({ status: 200, description: 'Innings started successfully' })
+  @ApiResponse({ status: 400, description: 'No innings left or follow-on not available' })
+  @ApiResponse({ status: 404, description: 'Match not found' })
+  @ApiResponse({ status: 403, description: 'Forbidden - not match owner' })
+  async startNextInnings(
+    @Param('id') id: string,
+    @Body() startDto: StartInningsDto,
+    @CurrentUser() user: UserDocument,
+  ) {
+    if (!user.scorerProfile?.isScorer || !user.scorerProfile?.scorerId) {
+      throw new ForbiddenException('User is not a registered scorer');
+    }
+
+    const match = await this.localMatchService.startNextInnings(
+      id,
+      startDto,
+      user.scorerProfile.scorerId,
+    );
+
+    return {
+      success: true,
+      data: match,
+    };
+  }
+
+  @Post('local/matches/:id/declare')
+  @UseGuards(JwtAuthGuard)
+  @ApiBearerAuth('JWT-auth')
+  @ApiOperation({ summary: 'Declare the current innings closed (Test/first-class)' })
+  @ApiParam({ name: 'id', description: 'Match ID' })
+  @ApiResponse({ status: 200, description: 'Innings declared successfully' })
+  @ApiResponse({ status: 400, description: 'Declarations not allowed for this match' })
+  @ApiResponse({ status: 404, description: 'Match not found' })
+  @ApiResponse({ status: 403, description: 'Forbidden - not match owner' })
+  async declareInnings(@Param('id') id: string, @CurrentUser() user: UserDocument) {
+    if (!user.scorerProfile?.isScorer || !user.scorerProfile?.scorerId) {
+      throw new ForbiddenException('User is not a registered scorer');
+    }
+
+    const match = await this.localMatchService.declareInnings(id, user.scorerProfile.scorerId);
+
+    return {
+      success: true,
+      data: match,
+    };
+  }
+
+  @Post('local/matches/:id/interruptions')
+  @UseGuards(JwtAuthGuard)
+  @ApiBearerAuth('JWT-auth')
+  @ApiOperation({ summary: 'Record overs lost to a stoppage (revises the DLS target)' })
+  @ApiParam({ name: 'id', description: 'Match ID' })
+  @ApiResponse({ status: 200, description: 'Interruption recorded successfully' })
+  @ApiResponse({ status: 400, description: 'Not a limited-overs match or too many overs lost' })
+  @ApiResponse({ status: 404, description: 'Match not found' })
+  @ApiResponse({ status: 403, description: 'Forbidden - not match owner' })
+  async recordInterruption(
+    @Param('id') id: string,
+    @Body() interruptionDto: RecordInterruptionDto,
+    @CurrentUser() user: UserDocument,
+  ) {
+    if (!user.scorerProfile?.isScorer || !user.scorerProfile?.scorerId) {
+      throw new ForbiddenException('User is not a registered scorer');
+    }
+
+    const match = await this.localMatchService.recordInterruption(
+      id,
+      interruptionDto,
+      user.scorerProfile.scorerId,
+    );
+
+    return {
+      success: true,
+      data: match,
+    };
+  }
+
+  @Get('local/matches/:id/squads')
+  @UseGuards(JwtAuthGuard)
+  @ApiBearerAuth('JWT-auth')
+  @ApiOperation({ summary: 'Get the registered squads of both teams to preload match setup' })
+  @ApiParam({ name: 'id', description: 'Match ID' })
+  @ApiResponse({ status: 200, description: 'Squads retrieved (null for unregistered teams)' })
+  @ApiResponse({ status: 404, description: 'Match not found' })
+  async getLocalMatchSquads(@Param('id') id: string, @CurrentUser() user: UserDocument) {
+    if (!user.scorerProfile?.isScorer || !user.scorerProfile?.scorerId) {
+      throw new ForbiddenException('User is not a registered scorer');
+    }
+
+    const squads = await this.localTeamService.getMatchSquads(id);
+
+    return {
+      success: true,
+      data: squads,
+    };
+  }
+
+  @Get('local/matches/:id/scorers')
+  @UseGuards(JwtAuthGuard)
+  @ApiBearerAuth('JWT-auth')
+  @ApiOperation({ summary: 'Get the scorer roster of a match' })
+  @ApiParam({ name: 'id', description: 'Match ID' })
+  @ApiResponse({ status: 200, description: 'Roster retrieved successfully' })
+  @ApiResponse({ status: 404, description: 'Match not found' })
+  @ApiResponse({ status: 403, description: 'Forbidden - not on the match roster' })
+  async getMatchScorers(@Param('id') id: string, @CurrentUser() user: UserDocument) {
+    if (!user.scorerProfile?.isScorer || !user.scorerProfile?.scorerId) {
+      throw new ForbiddenException('User is not a registered scorer');
+    }
+
+    const scorers = await this.localMatchService.getMatchScorers(id, user.scorerProfile.scorerId);
+
+    return {
+      success: true,
+      data: scorers,
+    };
+  }
+
+  @Post('local/matches/:id/scorers')
+  @UseGuards(JwtAuthGuard)
+  @ApiBearerAuth('JWT-auth')
+  @ApiOperation({ summary: 'Add a co-scorer or verifier to a match (primary scorer only)' })
+  @ApiParam({ name: 'id', description: 'Match ID' })
+  @ApiResponse({ status: 200, description: 'Scorer added successfully' })
+  @ApiResponse({ status: 404, description: 'Match or scorer not found' })
+  @ApiResponse({ status: 403, description: 'Forbidden - not the primary scorer' })
+  @ApiResponse({ status: 409, description: 'Scorer already on the match' })
+  async addMatchScorer(
+    @Param('id') id: string,
+    @Body() addDto: AddMatchScorerDto,
+    @CurrentUser() user: UserDocument,
+  ) {
+    if (!user.scorerProfile?.isScorer || !user.scorerProfile?.scorerId) {
+      throw new ForbiddenException('User is not a registered scorer');
+    }
+
+    const match = await this.localMatchService.addMatchScorer(
+      id,
+      addDto,
+      user.scorerProfile.scorerId,
+      user.name,
+    );
+
+    return {
+      success: true,
+      data: match,
+    };
+  }
+
+  @Delete('local/matches/:id/scorers/:scorerId')
+  @UseGuards(JwtAuthGuard)
+  @ApiBearerAuth('JWT-auth')
+  @ApiOperation({ summary: 'Remove a co-scorer or verifier from a match (primary scorer only)' })
+  @ApiParam({ name: 'id', description: 'Match ID' })
+  @ApiParam({ name: 'scorerId', description: 'Scorer ID to remove' })
+  @ApiResponse({ status: 200, description: 'Scorer removed successfully' })
+  @ApiResponse({ status: 404, description: 'Match not found or scorer not on it' })
+  @ApiResponse({ status: 403, description: 'Forbidden - not the primary scorer' })
+  async removeMatchScorer(
+    @Param('id') id: string,
+    @Param('scorerId') scorerId: string,
+    @CurrentUser() user: UserDocument,
+  ) {
+    if (!user.scorerProfile?.isScorer || !user.scorerProfile?.scorerId) {
+      throw new ForbiddenException('User is not a registered scorer');
+    }
+
+    const match = await this.localMatchService.removeMatchScorer(
+      id,
+      scorerId,
+      user.scorerProfile.scorerId,
+      user.name,
+    );
+
+    return {
+      success: true,
+      data: match,
+    };
+  }
+
+  @Post('local/matches/:id/handover')
+  @UseGuards(JwtAuthGuard)
+  @ApiBearerAuth('JWT-auth')
+  @ApiOperation({ summary: 'Hand a match over to another scorer (primary scorer only)' })
+  @ApiParam({ name: 'id', description: 'Match ID' })
+  @ApiResponse({ status: 200, description: 'Match handed over successfully' })
+  @ApiResponse({ status: 404, description: 'Match or scorer not found' })
+  @ApiResponse({ status: 403, description: 'Forbidden - not the primary scorer' })
+  async handoverMatch(
+    @Param('id') id: string,
+    @Body() handoverDto: HandoverMatchDto,
+    @CurrentUser() user: UserDocument,
+  ) {
+    if (!user.scorerProfile?.isScorer || !user.scorerProfile?.scorerId) {
+      throw new ForbiddenException('User is not a registered scorer');
+    }
+
+    const match = await this.localMatchService.handoverMatch(
+      id,
+      handoverDto,
+      user.scorerProfile.scorerId,
+      user.name,
+    );
+
+    return {
+      success: true,
+      data: match,
+    };
+  }
+
+  @Post('local/matches/:id/verification/ball')
+  @UseGuards(JwtAuthGuard)
+  @ApiBearerAuth('JWT-auth')
+  @ApiOperation({
+    summary: 'Record a ball in the independent verification stream (verifier only)',
+  })
+  @ApiParam({ name: 'id', description: 'Match ID' })
+  @ApiResponse({ status: 201, description: 'Ball recorded in the verification stream' })
+  @ApiResponse({ status: 404, description: 'Match not found' })
+  @ApiResponse({ status: 403, description: 'Forbidden - not a verifier on this match' })
+  @ApiResponse({ status: 409, description: 'Out of sequence or stream kept by another verifier' })
+  async recordVerificationBall(
+    @Param('id') id: string,
+    @Body() ballDto: RecordBallDto,
+    @CurrentUser() user: UserDocument,
+  ) {
+    if (!user.scorerProfile?.isScorer || !user.scorerProfile?.scorerId) {
+      throw new ForbiddenException('User is not a registered scorer');
+    }
+
+    const stream = await this.localMatchService.recordVerificationBall(
+      id,
+      ballDto,
+      user.scorerProfile.scorerId,
+    );
+
+    return {
+      success: true,
+      data: stream,
+    };
+  }
+
+  @Post('local/matches/:id/verification/undo')
+  @UseGuards(JwtAuthGuard)
+  @ApiBearerAuth('JWT-auth')
+  @ApiOperation({ summary: 'Undo the last ball in the verification stream' })
+  @ApiParam({ name: 'id', description: 'Match ID' })
+  @ApiResponse({ status: 200, description: 'Last verification ball undone successfully' })
+  @ApiResponse({ status: 404, description: 'Match not found' })
+  @ApiResponse({ status: 403, description: 'Forbidden - not keeping the verification stream' })
+  async undoVerificationBall(@Param('id') id: string, @CurrentUser() user: UserDocument) {
+    if (!user.scorerProfile?.isScorer || !user.scorerProfile?.scorerId) {
+      throw new ForbiddenException('User is not a registered scorer');
+    }
+
+    const stream = await this.localMatchService.undoVerificationBall(
+      id,
+      user.scorerProfile.scorerId,
+    );
+
+    return {
+      success: true,
+      data: stream,
+    };
+  }
+
   @Post('local/matches/:id/complete')
   @UseGuards(JwtAuthGuard)
   @ApiBearerAuth('JWT-auth')
@@ -481,9 +1357,10 @@ export class CricketController {
   async completeMatch(
     @Param('id') id: string,
     @Body() body: {
-      winner?: 'home' | 'away' | 'tie' | 'no_result';
+      winner?: 'home' | 'away' | 'tie' | 'draw' | 'no_result';
       margin?: string;
       keyPerformers?: Array<{ playerId: string; playerName: string; role: string; performance: string }>;
+      playerOfMatchId?: string;
       notes?: string;
     },
     @CurrentUser() user: UserDocument,
@@ -7,7 +7,21 @@ import { LiveMatch, LiveMatchSchema } from './schemas/live-match.schema';
 import { CompletedMatch, CompletedMatchSchema } from './schemas/completed-match.schema';
 import { CricketTeam, CricketTeamSchema } from './schemas/cricket-team.schema';
 import { LocalMatch, LocalMatchSchema } from './schemas/local-match.schema';
+import { LocalPlayer, LocalPlayerSchema } from './schemas/local-player.schema';
+import { LocalTeam, LocalTeamSchema } from './schemas/local-team.schema';
+import { Ground, GroundSchema } from './schemas/ground.schema';
+import { CricketSeries, CricketSeriesSchema } from './schemas/cricket-series.schema';
+import { NewsArticle, NewsArticleSchema } from '../news/schemas/news-article.schema';
 import { MatchCommentary, MatchCommentarySchema } from './schemas/match-commentary.schema';
+import {
+  WinProbabilityModel,
+  WinProbabilityModelSchema,
+} from './schemas/win-probability-model.schema';
+import {
+  WinProbabilityTimeline,
+  WinProbabilityTimelineSchema,
+} from './schemas/win-probability-timeline.schema';
+import { User, UserSchema } from '../users/schemas/user.schema';
 import { CricketApiService } from './services/cricket-api.service';
 import { SportsMonksService } from './services/sportsmonks.service';
 import { CricketDataService } from './services/cricketdata.service';
@@ -17,8 +31,17 @@ import { MatchTransitionService } from './services/match-transition.service';
 import { MatchSchedulerService } from './services/match-scheduler.service';
 import { LocalMatchService } from './services/local-match.service';
 import { CommentaryService } from './services/commentary.service';
+import { StandingsService } from './services/standings.service';
+import { LocalPlayerService } from './services/local-player.service';
+import { LocalTeamService } from './services/local-team.service';
+import { GroundService } from './services/ground.service';
+import { SeriesService } from './services/series.service';
+import { CricketStatsService } from './services/cricket-stats.service';
+import { CricketTeamService } from './services/cricket-team.service';
+import { WinProbabilityService } from './services/win-probability.service';
 import { RedisModule } from '../../redis/redis.module';
 import { LoggerModule } from '../../common/logger/logger.module';
+import { MediaModule } from '../media/media.module';
 
 @Module({
   imports: [
@@ -27,11 +50,20 @@ import { LoggerModule } from '../../common/logger/logger.module';
       { name: CompletedMatch.name, schema: CompletedMatchSchema },
       { name: CricketTeam.name, schema: CricketTeamSchema },
       { name: LocalMatch.name, schema: LocalMatchSchema },
+      { name: LocalPlayer.name, schema: LocalPlayerSchema },
+      { name: LocalTeam.name, schema: LocalTeamSchema },
+      { name: Ground.name, schema: GroundSchema },
+      { name: CricketSeries.name, schema: CricketSeriesSchema },
+      { name: NewsArticle.name, schema: NewsArticleSchema },
       { name: MatchCommentary.name, schema: MatchCommentarySchema },
+      { name: WinProbabilityModel.name, schema: WinProbabilityModelSchema },
+      { name: WinProbabilityTimeline.name, schema: WinProbabilityTimelineSchema },
+      { name: User.name, schema: UserSchema },
     ]),
     HttpModule,
     RedisModule,
     LoggerModule,
+    MediaModule,
   ],
   controllers: [CricketController],
   providers: [
@@ -45,8 +77,16 @@ import { LoggerModule } from '../../common/logger/logger.module';
     MatchSchedulerService,
     LocalMatchService,
     CommentaryService,
+    StandingsService,
+    LocalPlayerService,
+    LocalTeamService,
+    GroundService,
+    SeriesService,
+    CricketStatsService,
+    CricketTeamService,
+    WinProbabilityService,
   ],
-  exports: [CricketService, LiveMatchService, CompletedMatchService, MatchTransitionService, MatchSchedulerService, LocalMatchService, CommentaryService],
+  exports: [CricketService, LiveMatchService, CompletedMatchService, MatchTransitionService, MatchSchedulerService, LocalMatchService, CommentaryService, StandingsService, LocalPlayerService, LocalTeamService, GroundService, SeriesService, CricketStatsService, CricketTeamService, WinProbabilityService],
 })
 export class CricketModule {}
 
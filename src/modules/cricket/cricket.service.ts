@@ -1,4 +1,4 @@
-import { Injectable, NotFoundException } from '@nestjs/common';
+import { BadRequestException, Injectable, NotFoundException } from '@nestjs/common';
 import { ConfigService } from '@nestjs/config';
 import { WinstonLoggerService } from '../../common/logger/winston-logger.service';
 import { LiveMatchService } from './services/live-match.service';
@@ -6,8 +6,22 @@ import { CompletedMatchService } from './services/completed-match.service';
 import { MatchTransitionService } from './services/match-transition.service';
 import { SportsMonksService } from './services/sportsmonks.service';
 import { CommentaryService } from './services/commentary.service';
+import { StandingsService } from './services/standings.service';
+import { LocalPlayerService } from './services/local-player.service';
+import { SeriesService } from './services/series.service';
+import { CricketStatsService } from './services/cricket-stats.service';
+import { WinProbabilityService } from './services/win-probability.service';
 import { GetMatchesDto } from './dto/get-matches.dto';
+import { GetLocalPlayersDto } from './dto/local-player.dto';
+import {
+  GetInternationalPlayersDto,
+  GetStatsDto,
+  GetTeamMatchesDto,
+} from './dto/cricket-stats.dto';
 import { determineMatchStatus } from './utils/status-determiner';
+import { TieBreaker } from './utils/points-table';
+
+const TIE_BREAKERS: TieBreaker[] = ['wins', 'netRunRate', 'headToHead', 'runsFor'];
 
 @Injectable()
 export class CricketService {
@@ -17,6 +31,11 @@ export class CricketService {
     private matchTransitionService: MatchTransitionService,
     private sportsMonksService: SportsMonksService,
     private commentaryService: CommentaryService,
+    private standingsService: StandingsService,
+    private localPlayerService: LocalPlayerService,
+    private seriesService: SeriesService,
+    private cricketStatsService: CricketStatsService,
+    private winProbabilityService: WinProbabilityService,
     private logger: WinstonLoggerService,
     private configService: ConfigService,
   ) {}
@@ -197,6 +216,17 @@ export class CricketService {
     };
   }
 
+  /**
+   * Get the win probability timeline recorded for a match
+   */
+  async getWinProbability(id: string) {
+    const data = await this.winProbabilityService.getMatchWinProbability(id);
+    return {
+      success: true,
+      data,
+    };
+  }
+
   /**
    * Get commentary for a match (merged with in-house commentary)
    */
@@ -232,60 +262,109 @@ export class CricketService {
   }
 
   /**
-   * Get series list - placeholder
+   * Parse a comma-separated tie-break order, e.g. "headToHead,netRunRate"
    */
-  async getSeries(page: number = 1, limit: number = 20) {
+  private parseTieBreakers(tieBreakers?: string): TieBreaker[] | undefined {
+    if (!tieBreakers) return undefined;
+    const order = tieBreakers.split(',').map((value) => value.trim()) as TieBreaker[];
+    const invalid = order.filter((value) => !TIE_BREAKERS.includes(value));
+    if (invalid.length > 0) {
+      throw new BadRequestException(
+        `Invalid tie-breakers: ${invalid.join(', ')}. Use ${TIE_BREAKERS.join(', ')}`,
+      );
+    }
+    return order;
+  }
+
+  /**
+   * Get series synced from SportsMonks with points tables
+   */
+  async getSeries(page: number = 1, limit: number = 20, tieBreakers?: string) {
+    const data = await this.seriesService.getSeries(page, limit, {
+      tieBreakers: this.parseTieBreakers(tieBreakers),
+    });
     return {
       success: true,
-      data: {
-        series: [],
-        pagination: {
-          current: page,
-          pages: 0,
-          total: 0,
-          limit,
-        },
-      },
+      data,
     };
   }
 
   /**
-   * Get players - placeholder
+   * Get a series with its results and points table
    */
-  async getPlayers(page: number = 1, limit: number = 20, query?: string) {
+  async getSeriesById(seriesId: string, tieBreakers?: string) {
+    const series = await this.seriesService.getSeriesById(seriesId, {
+      tieBreakers: this.parseTieBreakers(tieBreakers),
+    });
     return {
       success: true,
-      data: {
-        players: [],
-        pagination: {
-          current: page,
-          pages: 0,
-          total: 0,
-          limit,
-        },
-      },
+      data: series,
     };
   }
 
   /**
-   * Get stats - placeholder
+   * Get local players from the registry with their career stats
    */
-  async getStats() {
+  async getPlayers(query: GetLocalPlayersDto) {
+    const data = await this.localPlayerService.getPlayers(query);
     return {
       success: true,
-      data: {},
+      data,
     };
   }
 
   /**
-   * Get team matches - placeholder
+   * Get a local player profile with career stats
    */
-  async getTeamMatches(teamName: string) {
+  async getPlayerById(playerId: string) {
+    const player = await this.localPlayerService.getPlayerById(playerId);
     return {
       success: true,
-      data: {
-        matches: [],
-      },
+      data: player,
+    };
+  }
+
+  /**
+   * Search international players from match scorecards
+   */
+  async getInternationalPlayers(query: GetInternationalPlayersDto) {
+    const data = await this.cricketStatsService.searchPlayers(query);
+    return {
+      success: true,
+      data,
+    };
+  }
+
+  /**
+   * Get an international player profile with career stats
+   */
+  async getInternationalPlayerById(playerId: string) {
+    const player = await this.cricketStatsService.getPlayerProfile(playerId);
+    return {
+      success: true,
+      data: player,
+    };
+  }
+
+  /**
+   * Get batting and bowling leaderboards
+   */
+  async getStats(query: GetStatsDto) {
+    const data = await this.cricketStatsService.getLeaderboards(query);
+    return {
+      success: true,
+      data,
+    };
+  }
+
+  /**
+   * Get a team's match history and record
+   */
+  async getTeamMatches(teamName: string, query: GetTeamMatchesDto) {
+    const data = await this.cricketStatsService.getTeamMatches(teamName, query);
+    return {
+      success: true,
+      data,
     };
   }
 }
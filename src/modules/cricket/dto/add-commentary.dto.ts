@@ -2,10 +2,14 @@ import { IsString, IsNumber, IsEnum, IsOptional, Min, Max, MaxLength, IsNotEmpty
 import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
 
 export class AddCommentaryDto {
-  @ApiProperty({ description: 'Innings number (1 or 2)', minimum: 1, maximum: 2 })
+  @ApiProperty({
+    description: 'Innings number (1 or 2; up to 4 and super overs for local matches)',
+    minimum: 1,
+    maximum: 10,
+  })
   @IsNumber()
   @Min(1)
-  @Max(2)
+  @Max(10)
   innings: number;
 
   @ApiProperty({ description: 'Over number', minimum: 0 })
@@ -13,10 +17,14 @@ export class AddCommentaryDto {
   @Min(0)
   over: number;
 
-  @ApiPropertyOptional({ description: 'Ball number in over (0-5), null for pre/post commentary', minimum: 0, maximum: 5 })
+  @ApiPropertyOptional({
+    description: 'Ball number in over (0-5, up to 9 for longer local overs), null for pre/post commentary',
+    minimum: 0,
+    maximum: 9,
+  })
   @IsNumber()
   @Min(0)
-  @Max(5)
+  @Max(9)
   @IsOptional()
   ball: number | null;
 
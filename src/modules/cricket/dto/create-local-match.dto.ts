@@ -1,6 +1,8 @@
-import { IsString, IsEnum, IsDateString, IsObject, IsOptional, ValidateNested, IsNotEmpty, MinLength } from 'class-validator';
+import { IsString, IsEnum, IsDateString, IsObject, IsOptional, ValidateNested, IsNotEmpty, MinLength, ValidateIf } from 'class-validator';
 import { Type } from 'class-transformer';
 import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { MatchRulesDto } from './match-rules.dto';
+import { CoordinatesDto } from './ground.dto';
 
 class VenueDto {
   @ApiProperty({ description: 'Venue name' })
@@ -20,17 +22,29 @@ class VenueDto {
 }
 
 class TeamsDto {
-  @ApiProperty({ description: 'Home team name' })
+  @ApiPropertyOptional({ description: 'Home team name (required unless homeTeamId is given)' })
+  @ValidateIf((o) => !o.homeTeamId)
   @IsString()
   @IsNotEmpty()
   @MinLength(1)
-  home: string;
+  home?: string;
 
-  @ApiProperty({ description: 'Away team name' })
+  @ApiPropertyOptional({ description: 'Away team name (required unless awayTeamId is given)' })
+  @ValidateIf((o) => !o.awayTeamId)
   @IsString()
   @IsNotEmpty()
   @MinLength(1)
-  away: string;
+  away?: string;
+
+  @ApiPropertyOptional({ description: 'Registered local team ID for the home side' })
+  @IsString()
+  @IsOptional()
+  homeTeamId?: string;
+
+  @ApiPropertyOptional({ description: 'Registered local team ID for the away side' })
+  @IsString()
+  @IsOptional()
+  awayTeamId?: string;
 }
 
 class LeagueDto {
@@ -84,6 +98,12 @@ class LocationDto {
   @IsString()
   @IsOptional()
   area?: string;
+
+  @ApiPropertyOptional({ type: CoordinatesDto, description: 'Where the match is played' })
+  @ValidateNested()
+  @Type(() => CoordinatesDto)
+  @IsOptional()
+  coordinates?: CoordinatesDto;
 }
 
 export class CreateLocalMatchDto {
@@ -101,11 +121,17 @@ export class CreateLocalMatchDto {
   @IsDateString()
   startTime: string;
 
-  @ApiProperty({ type: VenueDto })
+  @ApiPropertyOptional({ type: VenueDto, description: 'Venue (required unless groundId is given)' })
+  @ValidateIf((o) => !o.groundId)
   @ValidateNested()
   @Type(() => VenueDto)
   @IsObject()
-  venue: VenueDto;
+  venue?: VenueDto;
+
+  @ApiPropertyOptional({ description: 'Registered ground; its name and position fill the venue' })
+  @IsString()
+  @IsOptional()
+  groundId?: string;
 
   @ApiProperty({ type: TeamsDto })
   @ValidateNested()
@@ -125,6 +151,15 @@ export class CreateLocalMatchDto {
   @Type(() => LocationDto)
   @IsObject()
   location: LocationDto;
+
+  @ApiPropertyOptional({
+    type: MatchRulesDto,
+    description: 'Playing conditions (overs, balls per over, extras)',
+  })
+  @ValidateNested()
+  @Type(() => MatchRulesDto)
+  @IsOptional()
+  rules?: MatchRulesDto;
 }
 
 
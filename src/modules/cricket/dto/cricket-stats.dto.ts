@@ -0,0 +1,69 @@
+import { IsOptional, IsString, IsEnum, IsInt, Min, Max } from 'class-validator';
+import { Type } from 'class-transformer';
+import { ApiPropertyOptional } from '@nestjs/swagger';
+
+const FORMATS = ['test', 'odi', 't20i', 't20', 'first-class', 'list-a'];
+
+export class GetInternationalPlayersDto {
+  @ApiPropertyOptional({ default: 1 })
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  page?: number = 1;
+
+  @ApiPropertyOptional({ default: 20 })
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  @Max(100)
+  limit?: number = 20;
+
+  @ApiPropertyOptional({ description: 'Search by name' })
+  @IsOptional()
+  @IsString()
+  q?: string;
+}
+
+export class GetStatsDto {
+  @ApiPropertyOptional({ enum: FORMATS })
+  @IsOptional()
+  @IsEnum(FORMATS)
+  format?: string;
+
+  @ApiPropertyOptional({ description: 'Series ID to limit the leaderboards to' })
+  @IsOptional()
+  @IsString()
+  seriesId?: string;
+
+  @ApiPropertyOptional({ default: 10, description: 'Entries per leaderboard' })
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  @Max(50)
+  limit?: number = 10;
+}
+
+export class GetTeamMatchesDto {
+  @ApiPropertyOptional({ default: 1 })
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  page?: number = 1;
+
+  @ApiPropertyOptional({ default: 20 })
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  @Max(100)
+  limit?: number = 20;
+
+  @ApiPropertyOptional({ enum: FORMATS })
+  @IsOptional()
+  @IsEnum(FORMATS)
+  format?: string;
+}
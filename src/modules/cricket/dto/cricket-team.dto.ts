@@ -0,0 +1,561 @@
+import {
+  IsString,
+  IsOptional,
+  IsNotEmpty,
+  IsInt,
+  IsNumber,
+  IsArray,
+  Min,
+  Max,
+  MaxLength,
+  Matches,
+  ArrayMaxSize,
+  ValidateNested,
+} from 'class-validator';
+import { Type } from 'class-transformer';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+
+class FormatCaptainsDto {
+  @ApiPropertyOptional()
+  @IsString()
+  @IsOptional()
+  test?: string;
+
+  @ApiPropertyOptional()
+  @IsString()
+  @IsOptional()
+  odi?: string;
+
+  @ApiPropertyOptional()
+  @IsString()
+  @IsOptional()
+  t20?: string;
+}
+
+class FormatRankingDto {
+  @ApiPropertyOptional()
+  @IsInt()
+  @Min(1)
+  @IsOptional()
+  test?: number;
+
+  @ApiPropertyOptional()
+  @IsInt()
+  @Min(1)
+  @IsOptional()
+  odi?: number;
+
+  @ApiPropertyOptional()
+  @IsInt()
+  @Min(1)
+  @IsOptional()
+  t20?: number;
+}
+
+class TeamColorsDto {
+  @ApiProperty()
+  @IsString()
+  @IsNotEmpty()
+  primary: string;
+
+  @ApiProperty()
+  @IsString()
+  @IsNotEmpty()
+  secondary: string;
+
+  @ApiPropertyOptional()
+  @IsString()
+  @IsOptional()
+  accent?: string;
+}
+
+class FanPulseDto {
+  @ApiProperty({ minimum: 0, maximum: 5 })
+  @IsNumber()
+  @Min(0)
+  @Max(5)
+  rating: number;
+
+  @ApiProperty()
+  @IsInt()
+  @Min(0)
+  votes: number;
+}
+
+class IccTitleDto {
+  @ApiProperty({ description: 'Tournament name' })
+  @IsString()
+  @IsNotEmpty()
+  name: string;
+
+  @ApiProperty()
+  @IsInt()
+  @Min(1800)
+  @Max(2100)
+  year: number;
+
+  @ApiPropertyOptional({ description: 'e.g. Winners, Runners-up' })
+  @IsString()
+  @IsOptional()
+  result?: string;
+}
+
+class KeyPlayerStatsDto {
+  @ApiPropertyOptional()
+  @IsInt()
+  @Min(0)
+  @IsOptional()
+  matches?: number;
+
+  @ApiPropertyOptional()
+  @IsInt()
+  @Min(0)
+  @IsOptional()
+  runs?: number;
+
+  @ApiPropertyOptional()
+  @IsInt()
+  @Min(0)
+  @IsOptional()
+  wickets?: number;
+
+  @ApiPropertyOptional()
+  @IsNumber()
+  @Min(0)
+  @IsOptional()
+  average?: number;
+
+  @ApiPropertyOptional()
+  @IsNumber()
+  @Min(0)
+  @IsOptional()
+  strikeRate?: number;
+}
+
+class KeyPlayerDto {
+  @ApiProperty()
+  @IsString()
+  @IsNotEmpty()
+  name: string;
+
+  @ApiProperty({ description: 'e.g. Batter, All-rounder' })
+  @IsString()
+  @IsNotEmpty()
+  role: string;
+
+  @ApiPropertyOptional()
+  @IsString()
+  @IsOptional()
+  image?: string;
+
+  @ApiPropertyOptional()
+  @IsString()
+  @IsOptional()
+  spotlight?: string;
+
+  @ApiPropertyOptional({ type: KeyPlayerStatsDto })
+  @ValidateNested()
+  @Type(() => KeyPlayerStatsDto)
+  @IsOptional()
+  stats?: KeyPlayerStatsDto;
+}
+
+class BattingLeaderDto {
+  @ApiProperty()
+  @IsString()
+  @IsNotEmpty()
+  name: string;
+
+  @ApiPropertyOptional()
+  @IsInt()
+  @Min(0)
+  @IsOptional()
+  runs?: number;
+
+  @ApiPropertyOptional()
+  @IsInt()
+  @Min(0)
+  @IsOptional()
+  innings?: number;
+
+  @ApiPropertyOptional()
+  @IsNumber()
+  @Min(0)
+  @IsOptional()
+  average?: number;
+
+  @ApiPropertyOptional()
+  @IsNumber()
+  @Min(0)
+  @IsOptional()
+  strikeRate?: number;
+
+  @ApiPropertyOptional()
+  @IsString()
+  @IsOptional()
+  description?: string;
+}
+
+class BowlingLeaderDto {
+  @ApiProperty()
+  @IsString()
+  @IsNotEmpty()
+  name: string;
+
+  @ApiPropertyOptional()
+  @IsInt()
+  @Min(0)
+  @IsOptional()
+  wickets?: number;
+
+  @ApiPropertyOptional()
+  @IsInt()
+  @Min(0)
+  @IsOptional()
+  innings?: number;
+
+  @ApiPropertyOptional()
+  @IsNumber()
+  @Min(0)
+  @IsOptional()
+  average?: number;
+
+  @ApiPropertyOptional()
+  @IsNumber()
+  @Min(0)
+  @IsOptional()
+  economy?: number;
+
+  @ApiPropertyOptional()
+  @IsString()
+  @IsOptional()
+  description?: string;
+}
+
+class StatLeadersDto {
+  @ApiPropertyOptional({ type: [BattingLeaderDto] })
+  @IsArray()
+  @ArrayMaxSize(20)
+  @ValidateNested({ each: true })
+  @Type(() => BattingLeaderDto)
+  @IsOptional()
+  batting?: BattingLeaderDto[];
+
+  @ApiPropertyOptional({ type: [BowlingLeaderDto] })
+  @IsArray()
+  @ArrayMaxSize(20)
+  @ValidateNested({ each: true })
+  @Type(() => BowlingLeaderDto)
+  @IsOptional()
+  bowling?: BowlingLeaderDto[];
+}
+
+class RecordLinkDto {
+  @ApiProperty()
+  @IsString()
+  @IsNotEmpty()
+  label: string;
+
+  @ApiPropertyOptional()
+  @IsString()
+  @IsOptional()
+  format?: string;
+
+  @ApiPropertyOptional()
+  @IsString()
+  @IsOptional()
+  url?: string;
+}
+
+class TimelineEntryDto {
+  @ApiProperty()
+  @IsInt()
+  @Min(1800)
+  @Max(2100)
+  year: number;
+
+  @ApiProperty()
+  @IsString()
+  @IsNotEmpty()
+  title: string;
+
+  @ApiPropertyOptional()
+  @IsString()
+  @IsOptional()
+  description?: string;
+}
+
+export class CreateCricketTeamDto {
+  @ApiProperty({ description: 'URL slug, e.g. "new-zealand"' })
+  @IsString()
+  @Matches(/^[a-z0-9]+(?:-[a-z0-9]+)*$/, {
+    message: 'slug must be lowercase words separated by hyphens',
+  })
+  slug: string;
+
+  @ApiProperty()
+  @IsString()
+  @IsNotEmpty()
+  name: string;
+
+  @ApiProperty()
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(10)
+  shortName: string;
+
+  @ApiProperty({ description: 'Team ID or name used by match data' })
+  @IsString()
+  @IsNotEmpty()
+  matchKey: string;
+
+  @ApiProperty({ description: 'Flag image URL' })
+  @IsString()
+  @IsNotEmpty()
+  flag: string;
+
+  @ApiPropertyOptional()
+  @IsString()
+  @IsOptional()
+  crest?: string;
+
+  @ApiPropertyOptional()
+  @IsString()
+  @IsOptional()
+  heroImage?: string;
+
+  @ApiPropertyOptional()
+  @IsString()
+  @IsOptional()
+  @MaxLength(600)
+  summary?: string;
+
+  @ApiPropertyOptional()
+  @IsString()
+  @IsOptional()
+  board?: string;
+
+  @ApiPropertyOptional()
+  @IsString()
+  @IsOptional()
+  coach?: string;
+
+  @ApiPropertyOptional({ type: FormatCaptainsDto })
+  @ValidateNested()
+  @Type(() => FormatCaptainsDto)
+  @IsOptional()
+  captains?: FormatCaptainsDto;
+
+  @ApiPropertyOptional({ type: FormatRankingDto })
+  @ValidateNested()
+  @Type(() => FormatRankingDto)
+  @IsOptional()
+  ranking?: FormatRankingDto;
+
+  @ApiPropertyOptional()
+  @IsInt()
+  @Min(1800)
+  @Max(2100)
+  @IsOptional()
+  firstTestYear?: number;
+
+  @ApiPropertyOptional({ type: TeamColorsDto })
+  @ValidateNested()
+  @Type(() => TeamColorsDto)
+  @IsOptional()
+  colors?: TeamColorsDto;
+
+  @ApiPropertyOptional({ type: FanPulseDto })
+  @ValidateNested()
+  @Type(() => FanPulseDto)
+  @IsOptional()
+  fanPulse?: FanPulseDto;
+
+  @ApiPropertyOptional({ type: [IccTitleDto] })
+  @IsArray()
+  @ValidateNested({ each: true })
+  @Type(() => IccTitleDto)
+  @IsOptional()
+  iccTitles?: IccTitleDto[];
+
+  @ApiPropertyOptional({ type: [KeyPlayerDto] })
+  @IsArray()
+  @ArrayMaxSize(20)
+  @ValidateNested({ each: true })
+  @Type(() => KeyPlayerDto)
+  @IsOptional()
+  keyPlayers?: KeyPlayerDto[];
+
+  @ApiPropertyOptional({ type: StatLeadersDto })
+  @ValidateNested()
+  @Type(() => StatLeadersDto)
+  @IsOptional()
+  statLeaders?: StatLeadersDto;
+
+  @ApiPropertyOptional({ type: [RecordLinkDto] })
+  @IsArray()
+  @ValidateNested({ each: true })
+  @Type(() => RecordLinkDto)
+  @IsOptional()
+  recordLinks?: RecordLinkDto[];
+
+  @ApiPropertyOptional({ type: [TimelineEntryDto] })
+  @IsArray()
+  @ValidateNested({ each: true })
+  @Type(() => TimelineEntryDto)
+  @IsOptional()
+  timeline?: TimelineEntryDto[];
+
+  @ApiPropertyOptional({ type: [String], description: 'News tags shown on the team hub' })
+  @IsArray()
+  @IsString({ each: true })
+  @IsOptional()
+  newsTags?: string[];
+}
+
+export class UpdateCricketTeamDto {
+  @ApiPropertyOptional()
+  @IsString()
+  @IsNotEmpty()
+  @IsOptional()
+  name?: string;
+
+  @ApiPropertyOptional()
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(10)
+  @IsOptional()
+  shortName?: string;
+
+  @ApiPropertyOptional({ description: 'Team ID or name used by match data' })
+  @IsString()
+  @IsNotEmpty()
+  @IsOptional()
+  matchKey?: string;
+
+  @ApiPropertyOptional({ description: 'Flag image URL' })
+  @IsString()
+  @IsNotEmpty()
+  @IsOptional()
+  flag?: string;
+
+  @ApiPropertyOptional()
+  @IsString()
+  @IsOptional()
+  crest?: string;
+
+  @ApiPropertyOptional()
+  @IsString()
+  @IsOptional()
+  heroImage?: string;
+
+  @ApiPropertyOptional()
+  @IsString()
+  @IsOptional()
+  @MaxLength(600)
+  summary?: string;
+
+  @ApiPropertyOptional()
+  @IsString()
+  @IsOptional()
+  board?: string;
+
+  @ApiPropertyOptional()
+  @IsString()
+  @IsOptional()
+  coach?: string;
+
+  @ApiPropertyOptional({ type: FormatCaptainsDto })
+  @ValidateNested()
+  @Type(() => FormatCaptainsDto)
+  @IsOptional()
+  captains?: FormatCaptainsDto;
+
+  @ApiPropertyOptional({ type: FormatRankingDto })
+  @ValidateNested()
+  @Type(() => FormatRankingDto)
+  @IsOptional()
+  ranking?: FormatRankingDto;
+
+  @ApiPropertyOptional()
+  @IsInt()
+  @Min(1800)
+  @Max(2100)
+  @IsOptional()
+  firstTestYear?: number;
+
+  @ApiPropertyOptional({ type: TeamColorsDto })
+  @ValidateNested()
+  @Type(() => TeamColorsDto)
+  @IsOptional()
+  colors?: TeamColorsDto;
+
+  @ApiPropertyOptional({ type: FanPulseDto })
+  @ValidateNested()
+  @Type(() => FanPulseDto)
+  @IsOptional()
+  fanPulse?: FanPulseDto;
+
+  @ApiPropertyOptional({ type: [IccTitleDto], description: 'Replaces the list' })
+  @IsArray()
+  @ValidateNested({ each: true })
+  @Type(() => IccTitleDto)
+  @IsOptional()
+  iccTitles?: IccTitleDto[];
+
+  @ApiPropertyOptional({ type: [KeyPlayerDto], description: 'Replaces the list' })
+  @IsArray()
+  @ArrayMaxSize(20)
+  @ValidateNested({ each: true })
+  @Type(() => KeyPlayerDto)
+  @IsOptional()
+  keyPlayers?: KeyPlayerDto[];
+
+  @ApiPropertyOptional({ type: StatLeadersDto })
+  @ValidateNested()
+  @Type(() => StatLeadersDto)
+  @IsOptional()
+  statLeaders?: StatLeadersDto;
+
+  @ApiPropertyOptional({ type: [RecordLinkDto], description: 'Replaces the list' })
+  @IsArray()
+  @ValidateNested({ each: true })
+  @Type(() => RecordLinkDto)
+  @IsOptional()
+  recordLinks?: RecordLinkDto[];
+
+  @ApiPropertyOptional({ type: [TimelineEntryDto], description: 'Replaces the list' })
+  @IsArray()
+  @ValidateNested({ each: true })
+  @Type(() => TimelineEntryDto)
+  @IsOptional()
+  timeline?: TimelineEntryDto[];
+
+  @ApiPropertyOptional({ type: [String], description: 'News tags shown on the team hub' })
+  @IsArray()
+  @IsString({ each: true })
+  @IsOptional()
+  newsTags?: string[];
+}
+
+export class GetCricketTeamsDto {
+  @ApiPropertyOptional({ default: 1 })
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  page?: number = 1;
+
+  @ApiPropertyOptional({ default: 50 })
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  @Max(100)
+  limit?: number = 50;
+
+  @ApiPropertyOptional({ description: 'Search by name' })
+  @IsOptional()
+  @IsString()
+  q?: string;
+}
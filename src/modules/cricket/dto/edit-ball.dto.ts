@@ -0,0 +1,40 @@
+import { IsString, IsOptional, ValidateNested, MaxLength } from 'class-validator';
+import { Type } from 'class-transformer';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { DeliveryDto } from './record-ball.dto';
+
+export class EditBallDto {
+  @ApiProperty({ type: DeliveryDto, description: 'Corrected delivery details' })
+  @ValidateNested()
+  @Type(() => DeliveryDto)
+  delivery: DeliveryDto;
+
+  @ApiPropertyOptional({ description: 'Corrected batter on strike ID' })
+  @IsString()
+  @IsOptional()
+  strikerId?: string;
+
+  @ApiPropertyOptional({ description: 'Corrected batter off strike ID' })
+  @IsString()
+  @IsOptional()
+  nonStrikerId?: string;
+
+  @ApiPropertyOptional({ description: 'Corrected bowler ID' })
+  @IsString()
+  @IsOptional()
+  bowlerId?: string;
+
+  @ApiPropertyOptional({ description: 'Reason for the correction', maxLength: 500 })
+  @IsString()
+  @IsOptional()
+  @MaxLength(500)
+  reason?: string;
+}
+
+export class DeleteBallDto {
+  @ApiPropertyOptional({ description: 'Reason for removing the delivery', maxLength: 500 })
+  @IsString()
+  @IsOptional()
+  @MaxLength(500)
+  reason?: string;
+}
@@ -0,0 +1,204 @@
+import {
+  IsString,
+  IsEnum,
+  IsOptional,
+  IsNotEmpty,
+  IsInt,
+  IsNumber,
+  IsBoolean,
+  Min,
+  Max,
+  MaxLength,
+  ValidateNested,
+} from 'class-validator';
+import { Type } from 'class-transformer';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { PITCH_TYPES, PitchType } from '../schemas/ground.schema';
+
+export class CoordinatesDto {
+  @ApiProperty({ description: 'Latitude' })
+  @IsNumber()
+  @Min(-90)
+  @Max(90)
+  lat: number;
+
+  @ApiProperty({ description: 'Longitude' })
+  @IsNumber()
+  @Min(-180)
+  @Max(180)
+  lng: number;
+}
+
+class GroundLocalityDto {
+  @ApiProperty({ description: 'Country' })
+  @IsString()
+  @IsNotEmpty()
+  country: string;
+
+  @ApiPropertyOptional({ description: 'State/Province' })
+  @IsString()
+  @IsOptional()
+  state?: string;
+
+  @ApiProperty({ description: 'City' })
+  @IsString()
+  @IsNotEmpty()
+  city: string;
+
+  @ApiPropertyOptional({ description: 'District' })
+  @IsString()
+  @IsOptional()
+  district?: string;
+
+  @ApiPropertyOptional({ description: 'Area/Neighborhood' })
+  @IsString()
+  @IsOptional()
+  area?: string;
+}
+
+export class CreateGroundDto {
+  @ApiProperty({ description: 'Ground name' })
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(150)
+  name: string;
+
+  @ApiPropertyOptional({ description: 'Street address' })
+  @IsString()
+  @IsOptional()
+  @MaxLength(300)
+  address?: string;
+
+  @ApiProperty({ type: GroundLocalityDto })
+  @ValidateNested()
+  @Type(() => GroundLocalityDto)
+  locality: GroundLocalityDto;
+
+  @ApiProperty({ type: CoordinatesDto })
+  @ValidateNested()
+  @Type(() => CoordinatesDto)
+  coordinates: CoordinatesDto;
+
+  @ApiPropertyOptional({ enum: PITCH_TYPES })
+  @IsEnum(PITCH_TYPES)
+  @IsOptional()
+  pitchType?: PitchType;
+
+  @ApiPropertyOptional({ default: false })
+  @IsBoolean()
+  @IsOptional()
+  hasFloodlights?: boolean;
+
+  @ApiPropertyOptional({ description: 'Spectator capacity' })
+  @IsInt()
+  @Min(0)
+  @IsOptional()
+  capacity?: number;
+}
+
+export class UpdateGroundDto {
+  @ApiPropertyOptional()
+  @IsString()
+  @IsNotEmpty()
+  @IsOptional()
+  @MaxLength(150)
+  name?: string;
+
+  @ApiPropertyOptional()
+  @IsString()
+  @IsOptional()
+  @MaxLength(300)
+  address?: string;
+
+  @ApiPropertyOptional({ type: GroundLocalityDto })
+  @ValidateNested()
+  @Type(() => GroundLocalityDto)
+  @IsOptional()
+  locality?: GroundLocalityDto;
+
+  @ApiPropertyOptional({ type: CoordinatesDto })
+  @ValidateNested()
+  @Type(() => CoordinatesDto)
+  @IsOptional()
+  coordinates?: CoordinatesDto;
+
+  @ApiPropertyOptional({ enum: PITCH_TYPES })
+  @IsEnum(PITCH_TYPES)
+  @IsOptional()
+  pitchType?: PitchType;
+
+  @ApiPropertyOptional()
+  @IsBoolean()
+  @IsOptional()
+  hasFloodlights?: boolean;
+
+  @ApiPropertyOptional()
+  @IsInt()
+  @Min(0)
+  @IsOptional()
+  capacity?: number;
+
+  @ApiPropertyOptional({ enum: ['active', 'archived'] })
+  @IsEnum(['active', 'archived'])
+  @IsOptional()
+  status?: 'active' | 'archived';
+}
+
+export class GetGroundsDto {
+  @ApiPropertyOptional({ default: 1 })
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  page?: number = 1;
+
+  @ApiPropertyOptional({ default: 20 })
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  @Max(100)
+  limit?: number = 20;
+
+  @ApiPropertyOptional({ description: 'Search by name' })
+  @IsOptional()
+  @IsString()
+  q?: string;
+
+  @ApiPropertyOptional()
+  @IsOptional()
+  @IsString()
+  city?: string;
+}
+
+export class NearbyQueryDto {
+  @ApiProperty({ description: 'Latitude' })
+  @Type(() => Number)
+  @IsNumber()
+  @Min(-90)
+  @Max(90)
+  lat: number;
+
+  @ApiProperty({ description: 'Longitude' })
+  @Type(() => Number)
+  @IsNumber()
+  @Min(-180)
+  @Max(180)
+  lng: number;
+
+  @ApiPropertyOptional({ description: 'Search radius in kilometres', default: 10 })
+  @IsOptional()
+  @Type(() => Number)
+  @IsNumber()
+  @Min(0.1)
+  @Max(200)
+  radiusKm?: number = 10;
+
+  @ApiPropertyOptional({ default: 20 })
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  @Max(100)
+  limit?: number = 20;
+}
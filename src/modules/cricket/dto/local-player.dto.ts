@@ -0,0 +1,209 @@
+import {
+  IsString,
+  IsEnum,
+  IsOptional,
+  IsNotEmpty,
+  IsInt,
+  IsArray,
+  IsBoolean,
+  IsDateString,
+  Min,
+  Max,
+  MaxLength,
+  ArrayMaxSize,
+  ValidateNested,
+} from 'class-validator';
+import { Type } from 'class-transformer';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import {
+  BATTING_STYLES,
+  BOWLING_STYLES,
+  PLAYER_ROLES,
+  BattingStyle,
+  BowlingStyle,
+  PlayerRole,
+} from '../schemas/local-player.schema';
+
+class PlayerClubDto {
+  @ApiProperty({ description: 'Club name' })
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(100)
+  name: string;
+
+  @ApiPropertyOptional({
+    description: 'Whether the player still plays for the club',
+    default: true,
+  })
+  @IsBoolean()
+  @IsOptional()
+  isCurrent?: boolean;
+
+  @ApiPropertyOptional({ description: 'Date the player joined (ISO 8601)' })
+  @IsDateString()
+  @IsOptional()
+  joinedAt?: string;
+}
+
+class PlayerLocationDto {
+  @ApiPropertyOptional()
+  @IsString()
+  @IsOptional()
+  country?: string;
+
+  @ApiPropertyOptional()
+  @IsString()
+  @IsOptional()
+  state?: string;
+
+  @ApiPropertyOptional()
+  @IsString()
+  @IsOptional()
+  city?: string;
+
+  @ApiPropertyOptional()
+  @IsString()
+  @IsOptional()
+  district?: string;
+}
+
+export class CreateLocalPlayerDto {
+  @ApiProperty({ description: 'Full name' })
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(100)
+  name: string;
+
+  @ApiPropertyOptional({ description: 'Name the player is known by at the ground' })
+  @IsString()
+  @IsOptional()
+  @MaxLength(50)
+  nickname?: string;
+
+  @ApiPropertyOptional({ type: [PlayerClubDto] })
+  @IsArray()
+  @ArrayMaxSize(20)
+  @ValidateNested({ each: true })
+  @Type(() => PlayerClubDto)
+  @IsOptional()
+  clubs?: PlayerClubDto[];
+
+  @ApiPropertyOptional({ enum: PLAYER_ROLES })
+  @IsEnum(PLAYER_ROLES)
+  @IsOptional()
+  role?: PlayerRole;
+
+  @ApiPropertyOptional({ enum: BATTING_STYLES })
+  @IsEnum(BATTING_STYLES)
+  @IsOptional()
+  battingStyle?: BattingStyle;
+
+  @ApiPropertyOptional({ enum: BOWLING_STYLES })
+  @IsEnum(BOWLING_STYLES)
+  @IsOptional()
+  bowlingStyle?: BowlingStyle;
+
+  @ApiPropertyOptional({ description: 'Date of birth (ISO 8601)' })
+  @IsDateString()
+  @IsOptional()
+  dateOfBirth?: string;
+
+  @ApiPropertyOptional({ type: PlayerLocationDto })
+  @ValidateNested()
+  @Type(() => PlayerLocationDto)
+  @IsOptional()
+  location?: PlayerLocationDto;
+}
+
+export class UpdateLocalPlayerDto {
+  @ApiPropertyOptional()
+  @IsString()
+  @IsNotEmpty()
+  @IsOptional()
+  @MaxLength(100)
+  name?: string;
+
+  @ApiPropertyOptional()
+  @IsString()
+  @IsOptional()
+  @MaxLength(50)
+  nickname?: string;
+
+  @ApiPropertyOptional({ type: [PlayerClubDto], description: 'Replaces the club list' })
+  @IsArray()
+  @ArrayMaxSize(20)
+  @ValidateNested({ each: true })
+  @Type(() => PlayerClubDto)
+  @IsOptional()
+  clubs?: PlayerClubDto[];
+
+  @ApiPropertyOptional({ enum: PLAYER_ROLES })
+  @IsEnum(PLAYER_ROLES)
+  @IsOptional()
+  role?: PlayerRole;
+
+  @ApiPropertyOptional({ enum: BATTING_STYLES })
+  @IsEnum(BATTING_STYLES)
+  @IsOptional()
+  battingStyle?: BattingStyle;
+
+  @ApiPropertyOptional({ enum: BOWLING_STYLES })
+  @IsEnum(BOWLING_STYLES)
+  @IsOptional()
+  bowlingStyle?: BowlingStyle;
+
+  @ApiPropertyOptional()
+  @IsDateString()
+  @IsOptional()
+  dateOfBirth?: string;
+
+  @ApiPropertyOptional({ type: PlayerLocationDto })
+  @ValidateNested()
+  @Type(() => PlayerLocationDto)
+  @IsOptional()
+  location?: PlayerLocationDto;
+}
+
+export class GetLocalPlayersDto {
+  @ApiPropertyOptional({ default: 1 })
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  page?: number = 1;
+
+  @ApiPropertyOptional({ default: 20 })
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  @Max(100)
+  limit?: number = 20;
+
+  @ApiPropertyOptional({ description: 'Search by name, nickname or club' })
+  @IsOptional()
+  @IsString()
+  q?: string;
+
+  @ApiPropertyOptional()
+  @IsOptional()
+  @IsString()
+  club?: string;
+
+  @ApiPropertyOptional()
+  @IsOptional()
+  @IsString()
+  city?: string;
+
+  @ApiPropertyOptional({ enum: PLAYER_ROLES })
+  @IsOptional()
+  @IsEnum(PLAYER_ROLES)
+  role?: PlayerRole;
+}
+
+export class MergeLocalPlayersDto {
+  @ApiProperty({ description: 'Duplicate player to merge into the target player' })
+  @IsString()
+  @IsNotEmpty()
+  sourcePlayerId: string;
+}
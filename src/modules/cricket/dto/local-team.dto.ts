@@ -0,0 +1,193 @@
+import {
+  IsString,
+  IsEnum,
+  IsOptional,
+  IsNotEmpty,
+  IsInt,
+  IsArray,
+  IsBoolean,
+  Min,
+  Max,
+  MaxLength,
+  ArrayMaxSize,
+  ValidateNested,
+} from 'class-validator';
+import { Type } from 'class-transformer';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+
+class HomeGroundDto {
+  @ApiProperty({ description: 'Ground name' })
+  @IsString()
+  @IsNotEmpty()
+  name: string;
+
+  @ApiProperty({ description: 'Ground city' })
+  @IsString()
+  @IsNotEmpty()
+  city: string;
+
+  @ApiPropertyOptional({ description: 'Ground address' })
+  @IsString()
+  @IsOptional()
+  address?: string;
+}
+
+class TeamLocationDto {
+  @ApiProperty({ description: 'Country' })
+  @IsString()
+  @IsNotEmpty()
+  country: string;
+
+  @ApiPropertyOptional({ description: 'State/Province' })
+  @IsString()
+  @IsOptional()
+  state?: string;
+
+  @ApiProperty({ description: 'City' })
+  @IsString()
+  @IsNotEmpty()
+  city: string;
+
+  @ApiPropertyOptional({ description: 'District' })
+  @IsString()
+  @IsOptional()
+  district?: string;
+
+  @ApiPropertyOptional({ description: 'Area/Neighborhood' })
+  @IsString()
+  @IsOptional()
+  area?: string;
+}
+
+class SquadMemberDto {
+  @ApiProperty({ description: 'Registered local player ID' })
+  @IsString()
+  @IsNotEmpty()
+  playerId: string;
+
+  @ApiPropertyOptional({ description: 'Shirt number' })
+  @IsInt()
+  @Min(0)
+  @Max(999)
+  @IsOptional()
+  jerseyNumber?: number;
+
+  @ApiPropertyOptional({ default: false })
+  @IsBoolean()
+  @IsOptional()
+  isCaptain?: boolean;
+
+  @ApiPropertyOptional({ default: false })
+  @IsBoolean()
+  @IsOptional()
+  isWicketKeeper?: boolean;
+}
+
+export class CreateLocalTeamDto {
+  @ApiProperty({ description: 'Team name' })
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(100)
+  name: string;
+
+  @ApiPropertyOptional({ description: 'Short name (defaults to initials)' })
+  @IsString()
+  @IsOptional()
+  @MaxLength(10)
+  shortName?: string;
+
+  @ApiPropertyOptional({ type: HomeGroundDto })
+  @ValidateNested()
+  @Type(() => HomeGroundDto)
+  @IsOptional()
+  homeGround?: HomeGroundDto;
+
+  @ApiProperty({ type: TeamLocationDto })
+  @ValidateNested()
+  @Type(() => TeamLocationDto)
+  location: TeamLocationDto;
+
+  @ApiPropertyOptional({ description: 'League the team belongs to' })
+  @IsString()
+  @IsOptional()
+  leagueId?: string;
+
+  @ApiPropertyOptional({ type: [SquadMemberDto] })
+  @IsArray()
+  @ArrayMaxSize(40)
+  @ValidateNested({ each: true })
+  @Type(() => SquadMemberDto)
+  @IsOptional()
+  squad?: SquadMemberDto[];
+}
+
+export class UpdateLocalTeamDto {
+  @ApiPropertyOptional()
+  @IsString()
+  @IsNotEmpty()
+  @IsOptional()
+  @MaxLength(10)
+  shortName?: string;
+
+  @ApiPropertyOptional({ type: HomeGroundDto })
+  @ValidateNested()
+  @Type(() => HomeGroundDto)
+  @IsOptional()
+  homeGround?: HomeGroundDto;
+
+  @ApiPropertyOptional({ type: TeamLocationDto })
+  @ValidateNested()
+  @Type(() => TeamLocationDto)
+  @IsOptional()
+  location?: TeamLocationDto;
+
+  @ApiPropertyOptional({ description: 'League the team belongs to' })
+  @IsString()
+  @IsOptional()
+  leagueId?: string;
+
+  @ApiPropertyOptional({ type: [SquadMemberDto], description: 'Replaces the squad' })
+  @IsArray()
+  @ArrayMaxSize(40)
+  @ValidateNested({ each: true })
+  @Type(() => SquadMemberDto)
+  @IsOptional()
+  squad?: SquadMemberDto[];
+
+  @ApiPropertyOptional({ enum: ['active', 'archived'] })
+  @IsEnum(['active', 'archived'])
+  @IsOptional()
+  status?: 'active' | 'archived';
+}
+
+export class GetLocalTeamsDto {
+  @ApiPropertyOptional({ default: 1 })
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  page?: number = 1;
+
+  @ApiPropertyOptional({ default: 20 })
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  @Max(100)
+  limit?: number = 20;
+
+  @ApiPropertyOptional({ description: 'Search by name' })
+  @IsOptional()
+  @IsString()
+  q?: string;
+
+  @ApiPropertyOptional()
+  @IsOptional()
+  @IsString()
+  city?: string;
+
+  @ApiPropertyOptional()
+  @IsOptional()
+  @IsString()
+  leagueId?: string;
+}
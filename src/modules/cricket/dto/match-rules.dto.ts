@@ -0,0 +1,59 @@
+import { IsInt, IsBoolean, IsOptional, Min, Max } from 'class-validator';
+import { ApiPropertyOptional } from '@nestjs/swagger';
+
+export class MatchRulesDto {
+  @ApiPropertyOptional({
+    description: 'Overs per innings (defaults to the format: 20 for T20, 50 for ODI/List A)',
+    minimum: 1,
+    maximum: 100,
+  })
+  @IsInt()
+  @Min(1)
+  @Max(100)
+  @IsOptional()
+  oversPerInnings?: number;
+
+  @ApiPropertyOptional({
+    description: 'Legal deliveries per over',
+    minimum: 4,
+    maximum: 10,
+    default: 6,
+  })
+  @IsInt()
+  @Min(4)
+  @Max(10)
+  @IsOptional()
+  ballsPerOver?: number;
+
+  @ApiPropertyOptional({
+    description: 'Penalty runs for a wide',
+    minimum: 0,
+    maximum: 5,
+    default: 1,
+  })
+  @IsInt()
+  @Min(0)
+  @Max(5)
+  @IsOptional()
+  wideRuns?: number;
+
+  @ApiPropertyOptional({
+    description: 'Penalty runs for a no-ball',
+    minimum: 0,
+    maximum: 5,
+    default: 1,
+  })
+  @IsInt()
+  @Min(0)
+  @Max(5)
+  @IsOptional()
+  noBallRuns?: number;
+
+  @ApiPropertyOptional({
+    description:
+      'Whether a no-ball is followed by a free hit (defaults to limited-overs matches only)',
+  })
+  @IsBoolean()
+  @IsOptional()
+  freeHit?: boolean;
+}
@@ -0,0 +1,36 @@
+import { IsString, IsOptional, IsEnum, MaxLength } from 'class-validator';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+
+export class AddMatchScorerDto {
+  @ApiProperty({ description: 'Scorer ID of the registered scorer to add' })
+  @IsString()
+  scorerId: string;
+
+  @ApiProperty({
+    enum: ['co_scorer', 'verifier'],
+    description:
+      'Co-scorers can record and correct balls; verifiers keep an independent stream for reconciliation',
+  })
+  @IsEnum(['co_scorer', 'verifier'])
+  role: 'co_scorer' | 'verifier';
+}
+
+export class HandoverMatchDto {
+  @ApiProperty({ description: 'Scorer ID of the registered scorer taking over as primary' })
+  @IsString()
+  toScorerId: string;
+
+  @ApiPropertyOptional({
+    enum: ['co_scorer', 'verifier'],
+    description: 'Role the outgoing primary keeps (default: leaves the roster)',
+  })
+  @IsEnum(['co_scorer', 'verifier'])
+  @IsOptional()
+  stayAs?: 'co_scorer' | 'verifier';
+
+  @ApiPropertyOptional({ description: 'Reason for the handover', maxLength: 500 })
+  @IsString()
+  @IsOptional()
+  @MaxLength(500)
+  reason?: string;
+}
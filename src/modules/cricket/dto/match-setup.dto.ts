@@ -1,9 +1,10 @@
 import { IsString, IsArray, IsEnum, IsOptional, ValidateNested, ArrayMinSize, ArrayMaxSize } from 'class-validator';
 import { Type } from 'class-transformer';
 import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { MatchRulesDto } from './match-rules.dto';
 
 class PlayerDto {
-  @ApiProperty({ description: 'Player ID' })
+  @ApiProperty({ description: 'Player ID (local player registry ID where registered)' })
   @IsString()
   id: string;
 
@@ -66,6 +67,15 @@ export class MatchSetupDto {
   @IsString()
   @IsOptional()
   firstBowlerId?: string;
+
+  @ApiPropertyOptional({
+    type: MatchRulesDto,
+    description: 'Playing conditions (optional, can be updated later)',
+  })
+  @ValidateNested()
+  @Type(() => MatchRulesDto)
+  @IsOptional()
+  rules?: MatchRulesDto;
 }
 
 
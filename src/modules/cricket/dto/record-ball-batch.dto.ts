@@ -0,0 +1,34 @@
+import {
+  IsArray,
+  IsEnum,
+  IsOptional,
+  ValidateNested,
+  ArrayMinSize,
+  ArrayMaxSize,
+} from 'class-validator';
+import { Type } from 'class-transformer';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { RecordBallDto } from './record-ball.dto';
+
+export class RecordBallBatchDto {
+  @ApiProperty({
+    type: [RecordBallDto],
+    description: 'Balls recorded offline, in the order they were bowled. Each needs a deliveryId.',
+  })
+  @IsArray()
+  @ArrayMinSize(1)
+  @ArrayMaxSize(300)
+  @ValidateNested({ each: true })
+  @Type(() => RecordBallDto)
+  balls: RecordBallDto[];
+
+  @ApiPropertyOptional({
+    enum: ['reject', 'reconcile'],
+    description:
+      'On a sequence conflict, reject the whole batch (default) or renumber the queued balls ' +
+      'to follow on from the balls already recorded',
+  })
+  @IsEnum(['reject', 'reconcile'])
+  @IsOptional()
+  onConflict?: 'reject' | 'reconcile';
+}
@@ -1,6 +1,25 @@
-import { IsNumber, IsString, IsOptional, IsEnum, IsBoolean, Min, Max, ValidateNested } from 'class-validator';
+import {
+  IsNumber,
+  IsString,
+  IsOptional,
+  IsEnum,
+  IsBoolean,
+  IsIn,
+  Min,
+  Max,
+  MaxLength,
+  ValidateNested,
+} from 'class-validator';
 import { Type } from 'class-transformer';
 import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import {
+  SHOT_ZONES,
+  PITCH_LINES,
+  PITCH_LENGTHS,
+  ShotZone,
+  PitchLine,
+  PitchLength,
+} from '../schemas/local-match.schema';
 
 export enum BallType {
   NORMAL = 'normal',
@@ -8,6 +27,7 @@ export enum BallType {
   NO_BALL = 'no_ball',
   BYE = 'bye',
   LEG_BYE = 'leg_bye',
+  DEAD_BALL = 'dead_ball',
 }
 
 export enum DismissalType {
@@ -24,7 +44,7 @@ export enum DismissalType {
   TIMED_OUT = 'timed_out',
 }
 
-class DeliveryDto {
+export class DeliveryDto {
   @ApiProperty({ description: 'Runs scored from this ball', minimum: 0, maximum: 6 })
   @IsNumber()
   @Min(0)
@@ -35,6 +55,16 @@ class DeliveryDto {
   @IsEnum(BallType)
   ballType: BallType;
 
+  @ApiPropertyOptional({
+    description:
+      'Penalty runs awarded to the batting side (record on a dead ball when no ball was bowled)',
+    enum: [0, 5, 10],
+    default: 0,
+  })
+  @IsIn([0, 5, 10])
+  @IsOptional()
+  penaltyRuns?: number;
+
   @ApiPropertyOptional({ description: 'Is this a wicket ball?' })
   @IsBoolean()
   @IsOptional()
@@ -75,10 +105,49 @@ class DeliveryDto {
   @IsOptional()
   isSix?: boolean;
 
-  @ApiPropertyOptional({ description: 'Is this a free hit delivery?' })
+  @ApiPropertyOptional({
+    description: 'Set automatically after a no-ball; a submitted value is ignored',
+  })
   @IsBoolean()
   @IsOptional()
   isFreeHit?: boolean;
+
+  @ApiPropertyOptional({ enum: SHOT_ZONES, description: 'Where the shot went (wagon wheel zone)' })
+  @IsEnum(SHOT_ZONES)
+  @IsOptional()
+  shotZone?: ShotZone;
+
+  @ApiPropertyOptional({
+    description: 'Shot direction in degrees, clockwise from straight down the ground',
+    minimum: 0,
+    maximum: 359,
+  })
+  @IsNumber()
+  @Min(0)
+  @Max(359)
+  @IsOptional()
+  shotAngle?: number;
+
+  @ApiPropertyOptional({
+    description: "Shot distance in metres from the striker's stumps",
+    minimum: 0,
+    maximum: 150,
+  })
+  @IsNumber()
+  @Min(0)
+  @Max(150)
+  @IsOptional()
+  shotDistance?: number;
+
+  @ApiPropertyOptional({ enum: PITCH_LINES, description: 'Line the ball pitched on' })
+  @IsEnum(PITCH_LINES)
+  @IsOptional()
+  pitchLine?: PitchLine;
+
+  @ApiPropertyOptional({ enum: PITCH_LENGTHS, description: 'Length the ball pitched on' })
+  @IsEnum(PITCH_LENGTHS)
+  @IsOptional()
+  pitchLength?: PitchLength;
 }
 
 export class RecordBallDto {
@@ -86,10 +155,23 @@ export class RecordBallDto {
   @IsString()
   matchId: string;
 
-  @ApiProperty({ description: 'Innings number (1 or 2)', minimum: 1, maximum: 2 })
+  @ApiPropertyOptional({
+    description: 'Client-generated delivery ID (e.g. a UUID); resending the same ID is ignored',
+    maxLength: 64,
+  })
+  @IsString()
+  @IsOptional()
+  @MaxLength(64)
+  deliveryId?: string;
+
+  @ApiProperty({
+    description: 'Innings number (1-2, 1-4 for Test/first-class, 3+ for super overs)',
+    minimum: 1,
+    maximum: 10,
+  })
   @IsNumber()
   @Min(1)
-  @Max(2)
+  @Max(10)
   innings: number;
 
   @ApiProperty({ description: 'Team batting (home or away)' })
@@ -101,10 +183,14 @@ export class RecordBallDto {
   @Min(0)
   over: number;
 
-  @ApiProperty({ description: 'Ball number in current over (0-5)', minimum: 0, maximum: 5 })
+  @ApiProperty({
+    description: 'Ball number in current over (0 to balls per over - 1)',
+    minimum: 0,
+    maximum: 9,
+  })
   @IsNumber()
   @Min(0)
-  @Max(5)
+  @Max(9)
   ball: number;
 
   @ApiProperty({ description: 'Batter on strike ID' })
@@ -129,4 +215,3 @@ export class RecordBallDto {
   @IsOptional()
   timestamp?: string;
 }
-
@@ -0,0 +1,15 @@
+import { IsInt, IsString, IsOptional, Min, MaxLength } from 'class-validator';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+
+export class RecordInterruptionDto {
+  @ApiProperty({ description: 'Overs lost from the current innings', minimum: 1 })
+  @IsInt()
+  @Min(1)
+  oversLost: number;
+
+  @ApiPropertyOptional({ description: 'Reason for the stoppage (e.g. rain, bad light)' })
+  @IsString()
+  @IsOptional()
+  @MaxLength(200)
+  reason?: string;
+}
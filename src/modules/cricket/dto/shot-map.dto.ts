@@ -0,0 +1,33 @@
+import { IsOptional, IsString, IsInt, Min, Max } from 'class-validator';
+import { Type } from 'class-transformer';
+import { ApiPropertyOptional } from '@nestjs/swagger';
+
+export class GetWagonWheelDto {
+  @ApiPropertyOptional({ description: 'Only this innings', minimum: 1, maximum: 10 })
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  @Max(10)
+  innings?: number;
+
+  @ApiPropertyOptional({ description: 'Only this batter' })
+  @IsOptional()
+  @IsString()
+  batterId?: string;
+}
+
+export class GetPitchMapDto {
+  @ApiPropertyOptional({ description: 'Only this innings', minimum: 1, maximum: 10 })
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  @Max(10)
+  innings?: number;
+
+  @ApiPropertyOptional({ description: 'Only this bowler' })
+  @IsOptional()
+  @IsString()
+  bowlerId?: string;
+}
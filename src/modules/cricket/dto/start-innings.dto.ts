@@ -0,0 +1,23 @@
+import { IsString, IsOptional, IsBoolean } from 'class-validator';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+
+export class StartInningsDto {
+  @ApiProperty({ description: 'Opening batter on strike ID' })
+  @IsString()
+  openingBatter1Id: string;
+
+  @ApiProperty({ description: 'Opening batter off strike ID' })
+  @IsString()
+  openingBatter2Id: string;
+
+  @ApiProperty({ description: 'Opening bowler ID' })
+  @IsString()
+  firstBowlerId: string;
+
+  @ApiPropertyOptional({
+    description: 'Enforce the follow-on (third innings of a Test/first-class match only)',
+  })
+  @IsBoolean()
+  @IsOptional()
+  enforceFollowOn?: boolean;
+}
@@ -23,10 +23,14 @@ export class UpdateLiveStateDto {
   @IsOptional()
   currentOver?: number;
 
-  @ApiPropertyOptional({ description: 'Current ball number (0-5)', minimum: 0, maximum: 5 })
+  @ApiPropertyOptional({
+    description: 'Current ball number (0 to balls per over - 1)',
+    minimum: 0,
+    maximum: 9,
+  })
   @IsNumber()
   @Min(0)
-  @Max(5)
+  @Max(9)
   @IsOptional()
   currentBall?: number;
 }
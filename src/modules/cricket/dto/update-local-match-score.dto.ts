@@ -20,10 +20,14 @@ class TeamScoreDto {
   @Min(0)
   overs: number;
 
-  @ApiPropertyOptional({ description: 'Balls in current over', minimum: 0, maximum: 5 })
+  @ApiPropertyOptional({
+    description: 'Balls in current over (0 to balls per over - 1)',
+    minimum: 0,
+    maximum: 9,
+  })
   @IsNumber()
   @Min(0)
-  @Max(5)
+  @Max(9)
   @IsOptional()
   balls?: number;
 }
@@ -11,6 +11,10 @@ export class CompletedMatch {
   @Prop({ required: true, index: true })
   series: string;
 
+  // SportsMonks season, the synced CricketSeries this match belongs to
+  @Prop({ index: true })
+  seasonId?: string;
+
   @Prop({
     type: {
       home: {
@@ -221,6 +225,10 @@ export class CompletedMatch {
   @Prop()
   manOfMatchId?: string;
 
+  // 'calculated' when proposed from impact scores because the API had none
+  @Prop({ enum: ['api', 'calculated'] })
+  manOfMatchSource?: 'api' | 'calculated';
+
   @Prop()
   manOfSeriesId?: string;
 
@@ -0,0 +1,35 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { Document } from 'mongoose';
+
+export type CricketSeriesDocument = CricketSeries & Document;
+
+// Series synced from SportsMonks: one document per league season. Completed
+// matches reference it through seasonId.
+@Schema({ timestamps: true, collection: 'cricket_series' })
+export class CricketSeries {
+  @Prop({ required: true, unique: true, index: true })
+  seriesId: string;
+
+  @Prop({ required: true, index: true })
+  leagueId: string;
+
+  // League name, as stored in CompletedMatch.series
+  @Prop({ required: true, index: true })
+  name: string;
+
+  @Prop({ required: true })
+  season: string;
+
+  @Prop()
+  code?: string;
+
+  @Prop()
+  type?: string;
+
+  @Prop({ required: true, default: Date.now })
+  syncedAt: Date;
+}
+
+export const CricketSeriesSchema = SchemaFactory.createForClass(CricketSeries);
+
+CricketSeriesSchema.index({ season: -1, name: 1 });
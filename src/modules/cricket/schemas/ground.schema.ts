@@ -0,0 +1,73 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { Document } from 'mongoose';
+
+export type GroundDocument = Ground & Document;
+
+export const PITCH_TYPES = ['turf', 'matting', 'astroturf', 'concrete'] as const;
+export type PitchType = (typeof PITCH_TYPES)[number];
+
+/** GeoJSON point; coordinates are [longitude, latitude] */
+export interface GeoPoint {
+  type: 'Point';
+  coordinates: [number, number];
+}
+
+export const GEO_POINT_FIELDS = {
+  type: { type: String, enum: ['Point'], required: true },
+  coordinates: { type: [Number], required: true },
+};
+
+// Cricket grounds local matches are played at. Matches link to a ground via
+// venue.groundId and copy its position for "near me" searches.
+@Schema({ timestamps: true, collection: 'local_grounds' })
+export class Ground {
+  @Prop({ required: true, unique: true, index: true })
+  groundId: string;
+
+  @Prop({ required: true, trim: true, maxlength: 150, index: true })
+  name: string;
+
+  @Prop({ trim: true, maxlength: 300 })
+  address?: string;
+
+  @Prop({
+    type: {
+      country: { type: String, required: true },
+      state: { type: String },
+      city: { type: String, required: true },
+      district: { type: String },
+      area: { type: String },
+    },
+    required: true,
+  })
+  locality: {
+    country: string;
+    state?: string;
+    city: string;
+    district?: string;
+    area?: string;
+  };
+
+  @Prop({ type: GEO_POINT_FIELDS, required: true })
+  location: GeoPoint;
+
+  @Prop({ enum: PITCH_TYPES })
+  pitchType?: PitchType;
+
+  @Prop({ default: false })
+  hasFloodlights: boolean;
+
+  @Prop()
+  capacity?: number;
+
+  @Prop({ enum: ['active', 'archived'], default: 'active', index: true })
+  status: 'active' | 'archived';
+
+  @Prop({ required: true })
+  createdBy: string;
+}
+
+export const GroundSchema = SchemaFactory.createForClass(Ground);
+
+GroundSchema.index({ location: '2dsphere' });
+GroundSchema.index({ 'locality.city': 1, status: 1 });
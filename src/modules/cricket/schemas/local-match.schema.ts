@@ -1,9 +1,103 @@
 import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
 import { Document } from 'mongoose';
+import { GEO_POINT_FIELDS, GeoPoint } from './ground.schema';
 
 export type LocalMatchDocument = LocalMatch & Document;
 
-@Schema({ timestamps: true, collection: 'local_cricket_matches' })
+export type MatchScorerRole = 'primary' | 'co_scorer' | 'verifier';
+
+// Wagon wheel zones, clockwise from fine leg for a right-hander
+export const SHOT_ZONES = [
+  'fine_leg',
+  'square_leg',
+  'mid_wicket',
+  'long_on',
+  'long_off',
+  'cover',
+  'point',
+  'third_man',
+] as const;
+export const PITCH_LINES = ['wide_outside_off', 'outside_off', 'on_stumps', 'down_leg'] as const;
+export const PITCH_LENGTHS = [
+  'full_toss',
+  'yorker',
+  'full',
+  'good',
+  'short_of_good',
+  'short',
+] as const;
+
+export type ShotZone = (typeof SHOT_ZONES)[number];
+export type PitchLine = (typeof PITCH_LINES)[number];
+export type PitchLength = (typeof PITCH_LENGTHS)[number];
+
+// One recorded delivery (ballHistory and the verification stream share this shape)
+const DELIVERY_FIELDS = {
+  deliveryId: { type: String },
+  innings: { type: Number, required: true },
+  battingTeam: { type: String, enum: ['home', 'away'] },
+  over: { type: Number, required: true },
+  ball: { type: Number, required: true },
+  strikerId: { type: String, required: true },
+  nonStrikerId: { type: String, required: true },
+  bowlerId: { type: String, required: true },
+  runs: { type: Number, default: 0 },
+  ballType: {
+    type: String,
+    enum: ['normal', 'wide', 'no_ball', 'bye', 'leg_bye', 'dead_ball'],
+    default: 'normal',
+  },
+  isWicket: { type: Boolean, default: false },
+  dismissalType: { type: String, enum: ['bowled', 'caught', 'lbw', 'run_out', 'stumped', 'hit_wicket', 'retired_hurt', 'retired_out', 'handled_ball', 'obstructing_field', 'timed_out'] },
+  dismissedBatterId: { type: String },
+  fielderId: { type: String },
+  incomingBatterId: { type: String },
+  isBoundary: { type: Boolean, default: false },
+  isSix: { type: Boolean, default: false },
+  penaltyRuns: { type: Number, default: 0 },
+  isFreeHit: { type: Boolean, default: false },
+  shotZone: { type: String, enum: SHOT_ZONES },
+  shotAngle: { type: Number },
+  shotDistance: { type: Number },
+  pitchLine: { type: String, enum: PITCH_LINES },
+  pitchLength: { type: String, enum: PITCH_LENGTHS },
+  commentary: { type: String },
+  recordedBy: { type: String },
+  timestamp: { type: Date, default: Date.now },
+};
+
+export interface LocalDelivery {
+  deliveryId?: string; // Client-generated, used to ignore resends
+  innings: number;
+  battingTeam?: 'home' | 'away';
+  over: number;
+  ball: number;
+  strikerId: string;
+  nonStrikerId: string;
+  bowlerId: string;
+  runs: number;
+  ballType: 'normal' | 'wide' | 'no_ball' | 'bye' | 'leg_bye' | 'dead_ball';
+  isWicket: boolean;
+  dismissalType?: string;
+  dismissedBatterId?: string;
+  fielderId?: string;
+  incomingBatterId?: string;
+  isBoundary: boolean;
+  isSix: boolean;
+  penaltyRuns?: number; // Awarded to the batting side, on top of runs
+  isFreeHit?: boolean; // Derived: the delivery followed a no-ball
+  shotZone?: ShotZone;
+  shotAngle?: number; // Degrees clockwise from straight down the ground
+  shotDistance?: number; // Metres from the striker's stumps
+  pitchLine?: PitchLine;
+  pitchLength?: PitchLength;
+  commentary?: string; // Auto-generated line for this delivery
+  recordedBy?: string; // Scorer ID of whoever recorded the ball
+  timestamp: Date;
+}
+
+// optimisticConcurrency: a save fails if another device changed the match since it was loaded
+@Schema({ timestamps: true, collection: 'local_cricket_matches', optimisticConcurrency: true })
 export class LocalMatch {
   @Prop({ required: true, unique: true, index: true })
   matchId: string;
@@ -39,6 +133,7 @@ export class LocalMatch {
       city: { type: String, required: true },
       country: { type: String, required: true },
       address: { type: String },
+      groundId: { type: String },
     },
     required: true,
   })
@@ -47,8 +142,14 @@ export class LocalMatch {
     city: string;
     country: string;
     address?: string;
+    /** Registered ground, if the match was linked to one */
+    groundId?: string;
   };
 
+  // Position of the ground (or of the supplied coordinates) for geo search
+  @Prop({ type: GEO_POINT_FIELDS })
+  geoPoint?: GeoPoint;
+
   @Prop({
     enum: ['live', 'completed', 'upcoming', 'cancelled'],
     required: true,
@@ -91,6 +192,49 @@ export class LocalMatch {
     away: { runs: number; wickets: number; overs: number; balls: number };
   };
 
+  // Per-innings totals (up to four innings for Test/first-class matches)
+  @Prop({
+    type: [{
+      number: { type: Number, required: true },
+      battingTeam: { type: String, enum: ['home', 'away'], required: true },
+      runs: { type: Number, default: 0 },
+      wickets: { type: Number, default: 0 },
+      overs: { type: Number, default: 0 },
+      balls: { type: Number, default: 0 },
+      extras: {
+        wides: { type: Number, default: 0 },
+        noBalls: { type: Number, default: 0 },
+        byes: { type: Number, default: 0 },
+        legByes: { type: Number, default: 0 },
+        penalties: { type: Number, default: 0 },
+      },
+      isDeclared: { type: Boolean, default: false },
+      isFollowOn: { type: Boolean, default: false },
+      isComplete: { type: Boolean, default: false },
+      isSuperOver: { type: Boolean, default: false },
+    }],
+    default: [],
+  })
+  innings?: Array<{
+    number: number;
+    battingTeam: 'home' | 'away';
+    runs: number;
+    wickets: number;
+    overs: number;
+    balls: number;
+    extras: {
+      wides: number;
+      noBalls: number;
+      byes: number;
+      legByes: number;
+      penalties: number;
+    };
+    isDeclared: boolean;
+    isFollowOn: boolean;
+    isComplete: boolean;
+    isSuperOver: boolean;
+  }>;
+
   // Local match specific fields
   @Prop({
     type: {
@@ -163,6 +307,27 @@ export class LocalMatch {
     verificationStatus: 'pending' | 'verified' | 'rejected';
   };
 
+  // Scorers allowed on this match. Primary and co-scorers can score; verifiers
+  // keep a separate verification stream. scorerInfo always describes the
+  // current primary scorer.
+  @Prop({
+    type: [{
+      scorerId: { type: String, required: true },
+      scorerName: { type: String, required: true },
+      role: { type: String, enum: ['primary', 'co_scorer', 'verifier'], required: true },
+      addedBy: { type: String },
+      addedAt: { type: Date, default: Date.now },
+    }],
+    default: [],
+  })
+  scorers?: Array<{
+    scorerId: string;
+    scorerName: string;
+    role: MatchScorerRole;
+    addedBy?: string;
+    addedAt: Date;
+  }>;
+
   @Prop({ default: false, index: true })
   isVerified: boolean;
 
@@ -179,6 +344,25 @@ export class LocalMatch {
   })
   matchType: 'international' | 'franchise' | 'local' | 'hyper-local';
 
+  // Playing conditions honoured by the scoring engine
+  @Prop({
+    type: {
+      oversPerInnings: { type: Number },
+      ballsPerOver: { type: Number, default: 6 },
+      wideRuns: { type: Number, default: 1 },
+      noBallRuns: { type: Number, default: 1 },
+      // Unset: free hits in limited-overs matches only
+      freeHit: { type: Boolean },
+    },
+  })
+  rules?: {
+    oversPerInnings?: number;
+    ballsPerOver: number;
+    wideRuns: number;
+    noBallRuns: number;
+    freeHit?: boolean;
+  };
+
   // Ball-by-ball scoring fields
   @Prop({
     type: {
@@ -220,6 +404,10 @@ export class LocalMatch {
       currentRunRate: { type: Number, default: 0 },
       requiredRunRate: { type: Number },
       target: { type: Number },
+      lead: { type: Number },
+      oversLimit: { type: Number },
+      parScore: { type: Number },
+      isFreeHit: { type: Boolean, default: false },
     },
   })
   liveState?: {
@@ -236,47 +424,111 @@ export class LocalMatch {
     currentRunRate?: number;
     requiredRunRate?: number;
     target?: number;
+    lead?: number;
+    oversLimit?: number;
+    parScore?: number;
+    isFreeHit?: boolean;
   };
 
+  // Weather interruptions in limited-overs matches (drive the DLS target)
   @Prop({
     type: [{
       innings: { type: Number, required: true },
-      over: { type: Number, required: true },
-      ball: { type: Number, required: true },
-      strikerId: { type: String, required: true },
-      nonStrikerId: { type: String, required: true },
-      bowlerId: { type: String, required: true },
-      runs: { type: Number, default: 0 },
-      ballType: { type: String, enum: ['normal', 'wide', 'no_ball', 'bye', 'leg_bye'], default: 'normal' },
-      isWicket: { type: Boolean, default: false },
-      dismissalType: { type: String, enum: ['bowled', 'caught', 'lbw', 'run_out', 'stumped', 'hit_wicket', 'retired_hurt', 'retired_out', 'handled_ball', 'obstructing_field', 'timed_out'] },
-      dismissedBatterId: { type: String },
-      fielderId: { type: String },
-      incomingBatterId: { type: String },
-      isBoundary: { type: Boolean, default: false },
-      isSix: { type: Boolean, default: false },
-      timestamp: { type: Date, default: Date.now },
+      ballsBowled: { type: Number, required: true },
+      wickets: { type: Number, default: 0 },
+      oversLost: { type: Number, required: true },
+      reason: { type: String },
+      recordedBy: { type: String },
+      recordedAt: { type: Date, default: Date.now },
     }],
+    default: [],
   })
-  ballHistory?: Array<{
+  interruptions?: Array<{
     innings: number;
-    over: number;
-    ball: number;
-    strikerId: string;
-    nonStrikerId: string;
-    bowlerId: string;
-    runs: number;
-    ballType: 'normal' | 'wide' | 'no_ball' | 'bye' | 'leg_bye';
-    isWicket: boolean;
-    dismissalType?: string;
-    dismissedBatterId?: string;
-    fielderId?: string;
-    incomingBatterId?: string;
-    isBoundary: boolean;
-    isSix: boolean;
-    timestamp: Date;
+    ballsBowled: number;
+    wickets: number;
+    oversLost: number;
+    reason?: string;
+    recordedBy?: string;
+    recordedAt: Date;
   }>;
 
+  @Prop({ type: [DELIVERY_FIELDS] })
+  ballHistory?: LocalDelivery[];
+
+  // Independent ball stream kept by the verifier in dual-scorer mode
+  @Prop({
+    type: {
+      scorerId: { type: String, required: true },
+      scorerName: { type: String },
+      deliveries: { type: [DELIVERY_FIELDS], default: [] },
+    },
+    required: false,
+  })
+  verificationStream?: {
+    scorerId: string;
+    scorerName?: string;
+    deliveries: LocalDelivery[];
+  };
+
+  // Admin reconciliation of ballHistory against the verification stream
+  @Prop({
+    type: {
+      status: { type: String, enum: ['pending', 'finalized'], default: 'pending' },
+      comparedAt: { type: Date },
+      discrepancies: {
+        type: [
+          {
+            innings: { type: Number, required: true },
+            over: { type: Number, required: true },
+            ball: { type: Number, required: true },
+            occurrence: { type: Number, default: 0 },
+            differences: { type: [String], default: [] },
+            primary: { type: Object },
+            secondary: { type: Object },
+            resolution: { type: String, enum: ['primary', 'secondary'] },
+            resolvedBy: { type: String },
+            resolvedAt: { type: Date },
+          },
+        ],
+        default: [],
+      },
+      accuracy: {
+        type: [
+          {
+            scorerId: { type: String, required: true },
+            matched: { type: Number, default: 0 },
+            total: { type: Number, default: 0 },
+            score: { type: Number, default: 100 },
+          },
+        ],
+        default: [],
+      },
+      finalizedBy: { type: String },
+      finalizedAt: { type: Date },
+    },
+    required: false,
+  })
+  reconciliation?: {
+    status: 'pending' | 'finalized';
+    comparedAt?: Date;
+    discrepancies: Array<{
+      innings: number;
+      over: number;
+      ball: number;
+      occurrence: number;
+      differences: string[];
+      primary?: Record<string, unknown>;
+      secondary?: Record<string, unknown>;
+      resolution?: 'primary' | 'secondary';
+      resolvedBy?: string;
+      resolvedAt?: Date;
+    }>;
+    accuracy: Array<{ scorerId: string; matched: number; total: number; score: number }>;
+    finalizedBy?: string;
+    finalizedAt?: Date;
+  };
+
   @Prop({
     type: [{
       innings: { type: Number, required: true },
@@ -289,6 +541,7 @@ export class LocalMatch {
       sixes: { type: Number, default: 0 },
       strikeRate: { type: Number, default: 0 },
       isOut: { type: Boolean, default: false },
+      isRetiredHurt: { type: Boolean, default: false },
       dismissalType: { type: String },
       dismissedBy: { type: String },
       fielderId: { type: String },
@@ -307,6 +560,7 @@ export class LocalMatch {
     sixes: number;
     strikeRate: number;
     isOut: boolean;
+    isRetiredHurt?: boolean;
     dismissalType?: string;
     dismissedBy?: string;
     fielderId?: string;
@@ -345,26 +599,91 @@ export class LocalMatch {
     noBalls: number;
   }>;
 
+  @Prop({
+    type: [{
+      action: { type: String, enum: ['edit_ball', 'delete_ball', 'undo_ball', 'add_scorer', 'remove_scorer', 'handover', 'reconcile'], required: true },
+      innings: { type: Number },
+      over: { type: Number },
+      ball: { type: Number },
+      before: { type: Object },
+      after: { type: Object },
+      reason: { type: String },
+      changedBy: { type: String, required: true },
+      changedByName: { type: String },
+      changedAt: { type: Date, default: Date.now },
+    }],
+    default: [],
+  })
+  auditLog?: Array<{
+    action:
+      | 'edit_ball'
+      | 'delete_ball'
+      | 'undo_ball'
+      | 'add_scorer'
+      | 'remove_scorer'
+      | 'handover'
+      | 'reconcile';
+    innings?: number;
+    over?: number;
+    ball?: number;
+    before?: Record<string, unknown>;
+    after?: Record<string, unknown>;
+    reason?: string;
+    changedBy: string;
+    changedByName?: string;
+    changedAt: Date;
+  }>;
+
   @Prop({ default: false })
   isLocked: boolean;
 
   @Prop({
     type: {
-      winner: { type: String, enum: ['home', 'away', 'tie', 'no_result'] },
+      winner: { type: String, enum: ['home', 'away', 'tie', 'draw', 'no_result'] },
+      winnerName: { type: String },
       margin: { type: String },
+      marginType: { type: String, enum: ['runs', 'wickets', 'innings'] },
+      ballsRemaining: { type: Number },
+      resultText: { type: String },
+      superOver: { type: Boolean, default: false },
       keyPerformers: [{
         playerId: { type: String },
         playerName: { type: String },
         role: { type: String },
         performance: { type: String },
+        impactScore: { type: Number },
       }],
+      playerOfMatch: {
+        playerId: { type: String },
+        playerName: { type: String },
+        impactScore: { type: Number },
+        isAutomatic: { type: Boolean, default: false },
+      },
       notes: { type: String },
     },
   })
   matchResult?: {
-    winner?: 'home' | 'away' | 'tie' | 'no_result';
+    winner?: 'home' | 'away' | 'tie' | 'draw' | 'no_result';
+    winnerName?: string;
     margin?: string;
-    keyPerformers?: Array<{ playerId: string; playerName: string; role: string; performance: string }>;
+    marginType?: 'runs' | 'wickets' | 'innings';
+    ballsRemaining?: number;
+    resultText?: string;
+    superOver?: boolean;
+    keyPerformers?: Array<{
+      playerId: string;
+      playerName: string;
+      role: string;
+      performance: string;
+      impactScore?: number;
+    }>;
+    // Proposed from impact scores unless chosen by the scorer
+    playerOfMatch?: {
+      playerId: string;
+      playerName: string;
+      impactScore?: number;
+      isAutomatic: boolean;
+    };
     notes?: string;
   };
 }
@@ -373,8 +692,15 @@ export const LocalMatchSchema = SchemaFactory.createForClass(LocalMatch);
 
 // Indexes for better query performance
 LocalMatchSchema.index({ 'scorerInfo.scorerId': 1, status: 1 });
+LocalMatchSchema.index({ 'scorers.scorerId': 1, status: 1 });
 LocalMatchSchema.index({ 'localLocation.city': 1, status: 1 });
 LocalMatchSchema.index({ 'localLocation.district': 1, status: 1 });
 LocalMatchSchema.index({ 'localLocation.area': 1, status: 1 });
 LocalMatchSchema.index({ startTime: -1 });
+LocalMatchSchema.index({ geoPoint: '2dsphere' });
+LocalMatchSchema.index({ 'venue.groundId': 1, status: 1 });
+LocalMatchSchema.index({ 'teams.home.id': 1, startTime: -1 });
+LocalMatchSchema.index({ 'teams.away.id': 1, startTime: -1 });
+LocalMatchSchema.index({ 'battingStats.playerId': 1, isVerified: 1 });
+LocalMatchSchema.index({ 'bowlingStats.playerId': 1, isVerified: 1 });
 
@@ -0,0 +1,101 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { Document } from 'mongoose';
+import { CareerStats } from '../utils/career-stats';
+
+export type LocalPlayerDocument = LocalPlayer & Document;
+
+export const PLAYER_ROLES = ['batter', 'bowler', 'all_rounder', 'wicket_keeper'] as const;
+export const BATTING_STYLES = ['right_hand', 'left_hand'] as const;
+export const BOWLING_STYLES = [
+  'right_arm_fast',
+  'right_arm_medium',
+  'right_arm_off_spin',
+  'right_arm_leg_spin',
+  'left_arm_fast',
+  'left_arm_medium',
+  'left_arm_orthodox',
+  'left_arm_wrist_spin',
+] as const;
+
+export type PlayerRole = (typeof PLAYER_ROLES)[number];
+export type BattingStyle = (typeof BATTING_STYLES)[number];
+export type BowlingStyle = (typeof BOWLING_STYLES)[number];
+
+// Local cricketers. Playing XIs reference players by playerId, so the same
+// player keeps one identity across matches.
+@Schema({ timestamps: true, collection: 'local_players' })
+export class LocalPlayer {
+  @Prop({ required: true, unique: true, index: true })
+  playerId: string;
+
+  @Prop({ required: true, trim: true, maxlength: 100, index: true })
+  name: string;
+
+  @Prop({ trim: true, maxlength: 50 })
+  nickname?: string;
+
+  @Prop({
+    type: [
+      {
+        name: { type: String, required: true },
+        isCurrent: { type: Boolean, default: true },
+        joinedAt: { type: Date },
+      },
+    ],
+    default: [],
+  })
+  clubs: Array<{ name: string; isCurrent: boolean; joinedAt?: Date }>;
+
+  @Prop({ enum: PLAYER_ROLES })
+  role?: PlayerRole;
+
+  @Prop({ enum: BATTING_STYLES })
+  battingStyle?: BattingStyle;
+
+  @Prop({ enum: BOWLING_STYLES })
+  bowlingStyle?: BowlingStyle;
+
+  @Prop()
+  dateOfBirth?: Date;
+
+  @Prop({
+    type: {
+      country: { type: String },
+      state: { type: String },
+      city: { type: String },
+      district: { type: String },
+    },
+  })
+  location?: {
+    country?: string;
+    state?: string;
+    city?: string;
+    district?: string;
+  };
+
+  // IDs of duplicate profiles merged into this one; their scorecards count
+  // towards this player's career
+  @Prop({ type: [String], default: [], index: true })
+  aliases: string[];
+
+  @Prop({ enum: ['active', 'merged'], default: 'active', index: true })
+  status: 'active' | 'merged';
+
+  @Prop()
+  mergedInto?: string;
+
+  @Prop({ required: true })
+  createdBy: string;
+
+  // Rebuilt from verified local matches
+  @Prop({ type: Object })
+  careerStats?: CareerStats;
+
+  @Prop()
+  careerRebuiltAt?: Date;
+}
+
+export const LocalPlayerSchema = SchemaFactory.createForClass(LocalPlayer);
+
+LocalPlayerSchema.index({ 'clubs.name': 1, status: 1 });
+LocalPlayerSchema.index({ 'location.city': 1, status: 1 });
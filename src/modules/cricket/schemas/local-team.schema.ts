@@ -0,0 +1,93 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { Document } from 'mongoose';
+import { PLAYER_ROLES, PlayerRole } from './local-player.schema';
+
+export type LocalTeamDocument = LocalTeam & Document;
+
+export interface SquadMember {
+  playerId: string;
+  name: string;
+  role?: PlayerRole;
+  jerseyNumber?: number;
+  isCaptain: boolean;
+  isWicketKeeper: boolean;
+}
+
+// Local clubs and teams. Matches reference a registered team by teamId in
+// teams.home.id / teams.away.id, and its squad preloads match setup.
+@Schema({ timestamps: true, collection: 'local_teams' })
+export class LocalTeam {
+  @Prop({ required: true, unique: true, index: true })
+  teamId: string;
+
+  @Prop({ required: true, trim: true, maxlength: 100, index: true })
+  name: string;
+
+  @Prop({ required: true, trim: true, maxlength: 10 })
+  shortName: string;
+
+  @Prop({
+    type: {
+      url: { type: String },
+      thumbnailUrl: { type: String },
+    },
+  })
+  logo?: { url: string; thumbnailUrl?: string };
+
+  @Prop({
+    type: {
+      name: { type: String, required: true },
+      city: { type: String, required: true },
+      address: { type: String },
+    },
+  })
+  homeGround?: { name: string; city: string; address?: string };
+
+  @Prop({
+    type: {
+      country: { type: String, required: true },
+      state: { type: String },
+      city: { type: String, required: true },
+      district: { type: String },
+      area: { type: String },
+    },
+    required: true,
+  })
+  location: {
+    country: string;
+    state?: string;
+    city: string;
+    district?: string;
+    area?: string;
+  };
+
+  // League the team belongs to, if any
+  @Prop({ index: true })
+  leagueId?: string;
+
+  @Prop({
+    type: [
+      {
+        playerId: { type: String, required: true },
+        name: { type: String, required: true },
+        role: { type: String, enum: PLAYER_ROLES },
+        jerseyNumber: { type: Number },
+        isCaptain: { type: Boolean, default: false },
+        isWicketKeeper: { type: Boolean, default: false },
+      },
+    ],
+    default: [],
+  })
+  squad: SquadMember[];
+
+  @Prop({ enum: ['active', 'archived'], default: 'active', index: true })
+  status: 'active' | 'archived';
+
+  @Prop({ required: true })
+  createdBy: string;
+}
+
+export const LocalTeamSchema = SchemaFactory.createForClass(LocalTeam);
+
+LocalTeamSchema.index({ 'location.city': 1, status: 1 });
+LocalTeamSchema.index({ 'squad.playerId': 1 });
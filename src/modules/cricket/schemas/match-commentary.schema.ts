@@ -8,13 +8,13 @@ export class MatchCommentary {
   @Prop({ required: true, index: true })
   matchId: string;
 
-  @Prop({ required: true, min: 1, max: 2, index: true })
+  @Prop({ required: true, min: 1, max: 10, index: true })
   innings: number;
 
   @Prop({ required: true, min: 0, index: true })
   over: number;
 
-  @Prop({ type: Number, required: false, min: 0, max: 5, default: null })
+  @Prop({ type: Number, required: false, min: 0, max: 9, default: null })
   ball: number | null; // null for pre/post commentary
 
   @Prop({
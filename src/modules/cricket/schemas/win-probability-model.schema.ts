@@ -0,0 +1,30 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { Document } from 'mongoose';
+
+export type WinProbabilityModelDocument = WinProbabilityModel & Document;
+
+// Win probability model per limited-overs format, refitted nightly from the
+// first-innings totals of completed matches
+@Schema({ timestamps: true, collection: 'cricket_win_probability_models' })
+export class WinProbabilityModel {
+  @Prop({ required: true, unique: true, enum: ['t20', 'odi'] })
+  format: 't20' | 'odi';
+
+  @Prop({ required: true })
+  overs: number;
+
+  @Prop({ required: true })
+  averageTotal: number;
+
+  @Prop({ required: true })
+  standardDeviation: number;
+
+  // Completed first innings the model was fitted on (0 = defaults)
+  @Prop({ required: true, default: 0 })
+  matches: number;
+
+  @Prop({ required: true, default: Date.now })
+  fittedAt: Date;
+}
+
+export const WinProbabilityModelSchema = SchemaFactory.createForClass(WinProbabilityModel);
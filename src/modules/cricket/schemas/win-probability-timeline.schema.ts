@@ -0,0 +1,50 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { Document } from 'mongoose';
+
+export type WinProbabilityTimelineDocument = WinProbabilityTimeline & Document;
+
+// Win probability recorded for an API match each time its score moves on.
+// Kept apart from the live match so it outlives the move to completed matches.
+@Schema({ timestamps: true, collection: 'cricket_win_probability_timelines' })
+export class WinProbabilityTimeline {
+  @Prop({ required: true, unique: true, index: true })
+  matchId: string;
+
+  @Prop({ required: true })
+  format: string;
+
+  @Prop({
+    type: [
+      {
+        innings: { type: Number, required: true },
+        battingTeam: { type: String, enum: ['home', 'away'], required: true },
+        over: { type: Number, required: true },
+        ball: { type: Number, required: true },
+        runs: { type: Number, required: true },
+        wickets: { type: Number, required: true },
+        target: { type: Number },
+        projectedScore: { type: Number, required: true },
+        winProbability: {
+          home: { type: Number, required: true },
+          away: { type: Number, required: true },
+        },
+        recordedAt: { type: Date, default: Date.now },
+      },
+    ],
+    default: [],
+  })
+  points: Array<{
+    innings: number;
+    battingTeam: 'home' | 'away';
+    over: number;
+    ball: number;
+    runs: number;
+    wickets: number;
+    target?: number;
+    projectedScore: number;
+    winProbability: { home: number; away: number };
+    recordedAt: Date;
+  }>;
+}
+
+export const WinProbabilityTimelineSchema = SchemaFactory.createForClass(WinProbabilityTimeline);
@@ -32,8 +32,8 @@ export class CommentaryService {
     if ((addDto.commentaryType === 'pre-ball' || addDto.commentaryType === 'post-ball') && addDto.ball !== null) {
       // Allow ball number for pre/post, but it's optional
       // If provided, validate it
-      if (addDto.ball !== null && (addDto.ball < 0 || addDto.ball > 5)) {
-        throw new BadRequestException('Ball number must be between 0 and 5');
+      if (addDto.ball !== null && (addDto.ball < 0 || addDto.ball > 9)) {
+        throw new BadRequestException('Ball number must be between 0 and 9');
       }
     }
 
@@ -210,12 +210,75 @@ export class CommentaryService {
     };
   }
 
+  /**
+   * Merge auto-generated local match commentary with in-house commentary.
+   * An in-house 'ball' entry for the same innings/over/ball overrides the
+   * generated line; pre-ball and post-ball entries are added around it.
+   * Wides and no-balls share a position with the legal delivery that follows
+   * them, so only the last delivery at a position (the legal one) is replaced.
+   */
+  async mergeLocalCommentary(
+    matchId: string,
+    autoEntries: any[],
+  ): Promise<{
+    firstInnings: any[];
+    secondInnings: any[];
+    all: any[];
+    sources: { sportsMonk: number; inHouse: number; auto: number };
+  }> {
+    const inHouseCommentary = await this.getInHouseCommentary(matchId);
+
+    const overridden = new Set(
+      inHouseCommentary
+        .filter((c) => c.commentaryType === 'ball')
+        .map((c) => `${c.innings}-${c.over}-${c.ball}`),
+    );
+    const lastAtPosition = new Map<string, number>();
+    autoEntries.forEach((entry, index) =>
+      lastAtPosition.set(`${entry.innings}-${entry.over}-${entry.ball}`, index),
+    );
+    const generated = autoEntries.filter((entry, index) => {
+      const key = `${entry.innings}-${entry.over}-${entry.ball}`;
+      return !overridden.has(key) || lastAtPosition.get(key) !== index;
+    });
+
+    const inningsNumbers = [
+      ...new Set([...generated, ...inHouseCommentary].map((entry) => entry.innings)),
+    ].sort((a, b) => a - b);
+    const byInnings = new Map<number, any[]>();
+    inningsNumbers.forEach((innings) => {
+      byInnings.set(
+        innings,
+        this.mergeInningsCommentary(
+          generated.filter((entry) => entry.innings === innings),
+          inHouseCommentary.filter((c) => c.innings === innings),
+          'auto',
+        ),
+      );
+    });
+
+    // Latest innings first, each already newest-first
+    const all = [...inningsNumbers].reverse().flatMap((innings) => byInnings.get(innings)!);
+
+    return {
+      firstInnings: byInnings.get(1) || [],
+      secondInnings: byInnings.get(2) || [],
+      all,
+      sources: {
+        sportsMonk: 0,
+        inHouse: inHouseCommentary.length,
+        auto: generated.length,
+      },
+    };
+  }
+
   /**
    * Merge commentary for a single innings
    */
   private mergeInningsCommentary(
     sportsMonkEntries: any[],
     inHouseEntries: any[],
+    feedSource: 'sportsmonk' | 'auto' = 'sportsmonk',
   ): any[] {
     const merged: any[] = [];
 
@@ -230,7 +293,7 @@ export class CommentaryService {
       }
       grouped[key].push({
         ...entry,
-        source: 'sportsmonk',
+        source: feedSource,
         commentaryType: 'ball',
         order: 0,
       });
@@ -10,6 +10,11 @@ import { determineMatchStatus, isCompleted } from '../utils/status-determiner';
 import { isValidMatchId, sanitizeMatchId, validateCompletedMatch } from '../utils/validation';
 import { WinstonLoggerService } from '../../../common/logger/winston-logger.service';
 import { GetMatchesDto } from '../dto/get-matches.dto';
+import {
+  calculateImpactScores,
+  createContribution,
+  PlayerContribution,
+} from '../utils/impact-score';
 
 @Injectable()
 export class CompletedMatchService {
@@ -203,6 +208,7 @@ export class CompletedMatchService {
       const completedMatch: CompletedMatch = {
         matchId: transformed.matchId,
         series: transformed.series,
+        seasonId: transformed.seasonId,
         teams: transformed.teams,
         venue: transformed.venue,
         format: transformed.format,
@@ -287,6 +293,7 @@ export class CompletedMatchService {
       
       // Ensure matchId is consistent
       match.matchId = sanitizedMatchId;
+      this.proposeManOfMatch(match);
 
       // Atomic upsert operation - prevents race conditions
       const result = await this.completedMatchModel.findOneAndUpdate(
@@ -335,6 +342,51 @@ export class CompletedMatchService {
     }
   }
 
+  /**
+   * Fill in the player of the match from impact scores when the API has none.
+   * API scorecards carry no fielding, so only batting and bowling count.
+   */
+  private proposeManOfMatch(match: CompletedMatch): void {
+    if (match.manOfMatchId) {
+      match.manOfMatchSource = 'api';
+      return;
+    }
+
+    const players = new Map<string, PlayerContribution>();
+    const get = (entry: { playerId?: string; playerName: string; teamName: string }) => {
+      let player = players.get(entry.playerId!);
+      if (!player) {
+        player = createContribution(entry.playerId!, entry.playerName, entry.teamName);
+        players.set(entry.playerId!, player);
+      }
+      return player;
+    };
+
+    for (const entry of (match.batting || []).filter((e) => e.playerId)) {
+      const player = get(entry);
+      player.runs += entry.runs;
+      player.balls += entry.balls;
+      player.isOut = player.isOut || entry.isOut;
+    }
+    for (const entry of (match.bowling || []).filter((e) => e.playerId)) {
+      const player = get(entry);
+      // Overs notation: 3.4 is three overs and four balls
+      const overs = Math.floor(entry.overs);
+      player.ballsBowled += overs * 6 + Math.round((entry.overs - overs) * 10);
+      player.runsConceded += entry.runs;
+      player.wickets += entry.wickets;
+      player.maidens += entry.maidens;
+    }
+    if (players.size === 0) return;
+
+    const winner = match.result?.winner;
+    const [best] = calculateImpactScores([...players.values()], {
+      winningTeam: winner === 'home' || winner === 'away' ? match.teams[winner].name : undefined,
+    });
+    match.manOfMatchId = best.playerId;
+    match.manOfMatchSource = 'calculated';
+  }
+
   /**
    * Get completed match by ID
    */
@@ -540,6 +592,7 @@ export class CompletedMatchService {
       const completedMatch: CompletedMatch = {
         matchId: transformed.matchId,
         series: transformed.series,
+        seasonId: transformed.seasonId,
         teams: transformed.teams,
         venue: transformed.venue,
         format: transformed.format,
@@ -0,0 +1,356 @@
+import { Injectable, NotFoundException } from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { Model, PipelineStage } from 'mongoose';
+import { CompletedMatch, CompletedMatchDocument } from '../schemas/completed-match.schema';
+import { SportsMonksService } from './sportsmonks.service';
+import { buildCareerStats, CareerMatch } from '../utils/career-stats';
+import {
+  GetInternationalPlayersDto,
+  GetStatsDto,
+  GetTeamMatchesDto,
+} from '../dto/cricket-stats.dto';
+
+/**
+ * Player search and profiles, leaderboards and team match history for
+ * international cricket, from the scorecards of completed API matches
+ */
+@Injectable()
+export class CricketStatsService {
+  constructor(
+    @InjectModel(CompletedMatch.name) private completedMatchModel: Model<CompletedMatchDocument>,
+    private sportsMonksService: SportsMonksService,
+  ) {}
+
+  private escapeRegex(value: string): string {
+    return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+  }
+
+  /**
+   * Scorecard of a completed match in career-stats form. API bowling figures
+   * are in overs notation (9.4).
+   */
+  private toCareerMatch(match: CompletedMatch & { matchId: string }): CareerMatch {
+    return {
+      matchId: match.matchId,
+      startTime: match.startTime,
+      battingStats: (match.batting || [])
+        .filter((entry) => entry.playerId)
+        .map((entry) => ({
+          playerId: entry.playerId as string,
+          runs: entry.runs,
+          balls: entry.balls,
+          fours: entry.fours,
+          sixes: entry.sixes,
+          isOut: entry.isOut,
+        })),
+      bowlingStats: (match.bowling || [])
+        .filter((entry) => entry.playerId)
+        .map((entry) => {
+          const overs = Math.floor(entry.overs);
+          return {
+            playerId: entry.playerId as string,
+            overs,
+            balls: Math.round((entry.overs - overs) * 10),
+            maidens: entry.maidens,
+            runs: entry.runs,
+            wickets: entry.wickets,
+          };
+        }),
+    };
+  }
+
+  /**
+   * Players who appear in completed match scorecards, most matches first
+   */
+  async searchPlayers(query: GetInternationalPlayersDto = {}) {
+    const { page = 1, limit = 20 } = query;
+    const name = query.q ? new RegExp(this.escapeRegex(query.q.trim()), 'i') : null;
+    const entry = (field: string) => ({
+      $map: {
+        input: { $ifNull: [`$${field}`, []] },
+        as: 'entry',
+        in: {
+          playerId: '$$entry.playerId',
+          playerName: '$$entry.playerName',
+          teamName: '$$entry.teamName',
+        },
+      },
+    });
+
+    const [result] = await this.completedMatchModel.aggregate([
+      ...(name
+        ? [{ $match: { $or: [{ 'batting.playerName': name }, { 'bowling.playerName': name }] } }]
+        : []),
+      { $sort: { startTime: -1 } },
+      {
+        $project: {
+          matchId: 1,
+          format: 1,
+          startTime: 1,
+          entries: { $concatArrays: [entry('batting'), entry('bowling')] },
+        },
+      },
+      { $unwind: '$entries' },
+      {
+        $match: {
+          'entries.playerId': { $nin: [null, ''] },
+          ...(name ? { 'entries.playerName': name } : {}),
+        },
+      },
+      {
+        $group: {
+          _id: '$entries.playerId',
+          name: { $first: '$entries.playerName' },
+          teams: { $addToSet: '$entries.teamName' },
+          formats: { $addToSet: '$format' },
+          matchIds: { $addToSet: '$matchId' },
+          lastMatchAt: { $first: '$startTime' },
+        },
+      },
+      {
+        $project: {
+          _id: 0,
+          playerId: '$_id',
+          name: 1,
+          teams: 1,
+          formats: 1,
+          matches: { $size: '$matchIds' },
+          lastMatchAt: 1,
+        },
+      },
+      { $sort: { matches: -1, name: 1 } },
+      {
+        $facet: {
+          players: [{ $skip: (page - 1) * limit }, { $limit: limit }],
+          total: [{ $count: 'count' }],
+        },
+      },
+    ]);
+    const total = result?.total[0]?.count ?? 0;
+
+    return {
+      players: result?.players ?? [],
+      pagination: {
+        current: page,
+        pages: Math.ceil(total / limit),
+        total,
+        limit,
+      },
+    };
+  }
+
+  /**
+   * Player profile from SportsMonks with career stats, overall and per
+   * format, from completed matches
+   */
+  async getPlayerProfile(playerId: string) {
+    const [details, matches] = await Promise.all([
+      this.sportsMonksService.getPlayerDetails(playerId),
+      this.completedMatchModel
+        .find({ $or: [{ 'batting.playerId': playerId }, { 'bowling.playerId': playerId }] })
+        .select('matchId series format startTime teams batting bowling')
+        .sort({ startTime: -1 })
+        .lean(),
+    ]);
+    if (!details && matches.length === 0) {
+      throw new NotFoundException(`Player ${playerId} not found`);
+    }
+
+    const ids = new Set([playerId]);
+    const careerMatches = matches.map((match) => ({
+      format: match.format,
+      career: this.toCareerMatch(match),
+    }));
+    const careerOf = (entries: typeof careerMatches) =>
+      buildCareerStats(
+        entries.map((entry) => entry.career),
+        ids,
+      );
+    const formats = [...new Set(matches.map((match) => match.format))];
+    const scorecardName = matches
+      .flatMap((match) => [...(match.batting || []), ...(match.bowling || [])])
+      .find((entry) => entry.playerId === playerId && entry.playerName)?.playerName;
+
+    return {
+      playerId,
+      name: details?.fullname || scorecardName || null,
+      profile: details
+        ? {
+            firstName: details.firstname,
+            lastName: details.lastname,
+            dateOfBirth: details.dateofbirth,
+            gender: details.gender,
+            battingStyle: details.battingstyle,
+            bowlingStyle: details.bowlingstyle,
+            position: details.position?.name,
+            countryId: details.country_id?.toString(),
+            imagePath: details.image_path,
+          }
+        : null,
+      career: careerOf(careerMatches),
+      careerByFormat: Object.fromEntries(
+        formats.map((format) => [
+          format,
+          careerOf(careerMatches.filter((entry) => entry.format === format)),
+        ]),
+      ),
+      recentMatches: matches.slice(0, 10).map((match) => ({
+        matchId: match.matchId,
+        series: match.series,
+        format: match.format,
+        startTime: match.startTime,
+        teams: match.teams,
+        batting: (match.batting || []).filter((entry) => entry.playerId === playerId),
+        bowling: (match.bowling || []).filter((entry) => entry.playerId === playerId),
+      })),
+    };
+  }
+
+  /**
+   * Batting and bowling leaderboards across completed matches
+   */
+  async getLeaderboards(query: GetStatsDto = {}) {
+    const { limit = 10 } = query;
+    const filter: any = {};
+    if (query.format) filter.format = query.format;
+    if (query.seriesId) filter.seasonId = query.seriesId;
+
+    const player = (field: 'batting' | 'bowling'): PipelineStage.FacetPipelineStage[] => [
+      { $unwind: `$${field}` },
+      { $match: { [`${field}.playerId`]: { $nin: [null, ''] } } },
+    ];
+    const totals = (
+      field: 'batting' | 'bowling',
+      stat: string,
+      extra: Record<string, any>,
+    ): PipelineStage.FacetPipelineStage[] => [
+      ...player(field),
+      {
+        $group: {
+          _id: `$${field}.playerId`,
+          playerName: { $first: `$${field}.playerName` },
+          teamName: { $first: `$${field}.teamName` },
+          [stat]: { $sum: `$${field}.${stat}` },
+          innings: { $sum: 1 },
+          ...extra,
+        },
+      },
+      { $sort: { [stat]: -1, innings: 1 } },
+      { $limit: limit },
+      { $addFields: { playerId: '$_id' } },
+      { $project: { _id: 0 } },
+    ];
+    const match = { matchId: 1, series: 1, startTime: 1 };
+
+    const [leaderboards] = await this.completedMatchModel.aggregate([
+      { $match: filter },
+      { $sort: { startTime: -1 } },
+      {
+        $facet: {
+          mostRuns: totals('batting', 'runs', {
+            balls: { $sum: '$batting.balls' },
+            notOuts: { $sum: { $cond: ['$batting.isOut', 0, 1] } },
+          }),
+          mostWickets: totals('bowling', 'wickets', {
+            runsConceded: { $sum: '$bowling.runs' },
+          }),
+          mostSixes: totals('batting', 'sixes', {}),
+          highestScores: [
+            ...player('batting'),
+            { $sort: { 'batting.runs': -1, 'batting.balls': 1 } },
+            { $limit: limit },
+            {
+              $project: {
+                _id: 0,
+                ...match,
+                playerId: '$batting.playerId',
+                playerName: '$batting.playerName',
+                teamName: '$batting.teamName',
+                runs: '$batting.runs',
+                balls: '$batting.balls',
+                isOut: '$batting.isOut',
+              },
+            },
+          ],
+          bestBowling: [
+            ...player('bowling'),
+            { $sort: { 'bowling.wickets': -1, 'bowling.runs': 1 } },
+            { $limit: limit },
+            {
+              $project: {
+                _id: 0,
+                ...match,
+                playerId: '$bowling.playerId',
+                playerName: '$bowling.playerName',
+                teamName: '$bowling.teamName',
+                wickets: '$bowling.wickets',
+                runs: '$bowling.runs',
+                overs: '$bowling.overs',
+              },
+            },
+          ],
+        },
+      },
+    ]);
+
+    return leaderboards;
+  }
+
+  /**
+   * A team's completed matches, most recent first, with its record. The team
+   * is matched by ID or, case-insensitively, by name.
+   */
+  async getTeamMatches(team: string, query: GetTeamMatchesDto = {}) {
+    const { page = 1, limit = 20 } = query;
+    const name = new RegExp(`^${this.escapeRegex(team.trim())}$`, 'i');
+    const filter: any = {
+      $or: [
+        { 'teams.home.id': team },
+        { 'teams.away.id': team },
+        { 'teams.home.name': name },
+        { 'teams.away.name': name },
+      ],
+    };
+    if (query.format) filter.format = query.format;
+
+    const [matches, outcomes] = await Promise.all([
+      this.completedMatchModel
+        .find(filter)
+        .select('-batting -bowling')
+        .sort({ startTime: -1 })
+        .skip((page - 1) * limit)
+        .limit(limit)
+        .lean(),
+      this.completedMatchModel
+        .find(filter)
+        .select('teams result drawNoResult')
+        .sort({ startTime: -1 })
+        .lean(),
+    ]);
+
+    const sideOf = (match: { teams: CompletedMatch['teams'] }) =>
+      match.teams.home.id === team || name.test(match.teams.home.name) ? 'home' : 'away';
+    const record = { played: 0, won: 0, lost: 0, drawn: 0, noResult: 0 };
+    for (const match of outcomes) {
+      const winner = match.result?.winner;
+      record.played += 1;
+      if (match.drawNoResult) record.noResult += 1;
+      else if (winner === 'draw') record.drawn += 1;
+      else if (winner === sideOf(match)) record.won += 1;
+      else if (winner === 'home' || winner === 'away') record.lost += 1;
+      else record.noResult += 1;
+    }
+
+    return {
+      team: outcomes.length > 0 ? outcomes[0].teams[sideOf(outcomes[0])] : null,
+      record,
+      matches,
+      pagination: {
+        current: page,
+        pages: Math.ceil(outcomes.length / limit),
+        total: outcomes.length,
+        limit,
+      },
+    };
+  }
+}
@@ -0,0 +1,124 @@
+import { Injectable, NotFoundException, ConflictException } from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { Model } from 'mongoose';
+import { CricketTeam, CricketTeamDocument } from '../schemas/cricket-team.schema';
+import { NewsArticle, NewsArticleDocument } from '../../news/schemas/news-article.schema';
+import { CricketStatsService } from './cricket-stats.service';
+import {
+  CreateCricketTeamDto,
+  UpdateCricketTeamDto,
+  GetCricketTeamsDto,
+} from '../dto/cricket-team.dto';
+
+const HUB_RESULTS = 5;
+const HUB_NEWS = 6;
+
+/**
+ * International team profiles. A team's hub page joins its recent results,
+ * found through `matchKey`, and published news tagged with its `newsTags`.
+ */
+@Injectable()
+export class CricketTeamService {
+  constructor(
+    @InjectModel(CricketTeam.name) private cricketTeamModel: Model<CricketTeamDocument>,
+    @InjectModel(NewsArticle.name) private newsArticleModel: Model<NewsArticleDocument>,
+    private cricketStatsService: CricketStatsService,
+  ) {}
+
+  private escapeRegex(value: string): string {
+    return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+  }
+
+  async getTeams(query: GetCricketTeamsDto = {}) {
+    const { page = 1, limit = 50 } = query;
+    const filter: any = {};
+    if (query.q) filter.name = new RegExp(this.escapeRegex(query.q.trim()), 'i');
+
+    const [teams, total] = await Promise.all([
+      this.cricketTeamModel
+        .find(filter)
+        .select('slug name shortName flag crest colors ranking')
+        .sort({ name: 1 })
+        .skip((page - 1) * limit)
+        .limit(limit)
+        .lean(),
+      this.cricketTeamModel.countDocuments(filter),
+    ]);
+
+    return {
+      teams,
+      pagination: {
+        current: page,
+        pages: Math.ceil(total / limit),
+        total,
+        limit,
+      },
+    };
+  }
+
+  /**
+   * Team hub: profile, record and recent results, and related news
+   */
+  async getTeamHub(slug: string) {
+    const team = await this.cricketTeamModel.findOne({ slug }).lean();
+    if (!team) {
+      throw new NotFoundException(`Team ${slug} not found`);
+    }
+
+    const [history, news] = await Promise.all([
+      this.cricketStatsService.getTeamMatches(team.matchKey, { limit: HUB_RESULTS }),
+      team.newsTags?.length
+        ? this.newsArticleModel
+            .find({ tags: { $in: team.newsTags }, state: 'published', isDeleted: false })
+            .select('title slug summary heroImage type tags publishedAt')
+            .sort({ publishedAt: -1 })
+            .limit(HUB_NEWS)
+            .lean()
+        : Promise.resolve([]),
+    ]);
+
+    return {
+      ...team,
+      record: history.record,
+      recentResults: history.matches,
+      news,
+    };
+  }
+
+  async createTeam(createDto: CreateCricketTeamDto) {
+    const taken = await this.cricketTeamModel.exists({
+      $or: [{ slug: createDto.slug }, { matchKey: createDto.matchKey }],
+    });
+    if (taken) {
+      throw new ConflictException('A team with this slug or match key already exists');
+    }
+
+    const team = new this.cricketTeamModel(createDto);
+    await team.save();
+    return team.toObject();
+  }
+
+  async updateTeam(slug: string, updateDto: UpdateCricketTeamDto) {
+    const team = await this.cricketTeamModel.findOne({ slug });
+    if (!team) {
+      throw new NotFoundException(`Team ${slug} not found`);
+    }
+    if (updateDto.matchKey && updateDto.matchKey !== team.matchKey) {
+      const taken = await this.cricketTeamModel.exists({ matchKey: updateDto.matchKey });
+      if (taken) {
+        throw new ConflictException(`Match key ${updateDto.matchKey} is used by another team`);
+      }
+    }
+
+    Object.assign(team, updateDto);
+    await team.save();
+    return team.toObject();
+  }
+
+  async deleteTeam(slug: string) {
+    const result = await this.cricketTeamModel.deleteOne({ slug });
+    if (result.deletedCount === 0) {
+      throw new NotFoundException(`Team ${slug} not found`);
+    }
+  }
+}
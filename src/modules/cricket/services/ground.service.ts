@@ -0,0 +1,292 @@
+import { Injectable, NotFoundException, ForbiddenException } from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { Model } from 'mongoose';
+import * as crypto from 'crypto';
+import { Ground, GroundDocument, GeoPoint } from '../schemas/ground.schema';
+import { LocalMatch, LocalMatchDocument } from '../schemas/local-match.schema';
+import {
+  CreateGroundDto,
+  UpdateGroundDto,
+  GetGroundsDto,
+  NearbyQueryDto,
+  CoordinatesDto,
+} from '../dto/ground.dto';
+
+/** Who is editing a ground: its creator or an admin may */
+export interface GroundEditor {
+  scorerId?: string;
+  isAdmin: boolean;
+}
+
+/**
+ * Registry of local cricket grounds, "near me" search for grounds and for
+ * live and upcoming matches, and ground records from verified matches
+ */
+@Injectable()
+export class GroundService {
+  constructor(
+    @InjectModel(Ground.name) private groundModel: Model<GroundDocument>,
+    @InjectModel(LocalMatch.name) private localMatchModel: Model<LocalMatchDocument>,
+  ) {}
+
+  private toGeoPoint(coordinates: CoordinatesDto): GeoPoint {
+    return { type: 'Point', coordinates: [coordinates.lng, coordinates.lat] };
+  }
+
+  private escapeRegex(value: string): string {
+    return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+  }
+
+  async createGround(createDto: CreateGroundDto, createdBy: string) {
+    const { coordinates, ...fields } = createDto;
+    const ground = new this.groundModel({
+      ...fields,
+      groundId: `GRD-${crypto.randomBytes(4).toString('hex').toUpperCase()}`,
+      name: createDto.name.trim(),
+      location: this.toGeoPoint(coordinates),
+      createdBy,
+    });
+    await ground.save();
+    return ground.toObject();
+  }
+
+  /**
+   * Update a ground. A moved ground also moves its live and upcoming matches.
+   */
+  async updateGround(groundId: string, updateDto: UpdateGroundDto, editor: GroundEditor) {
+    const ground = await this.groundModel.findOne({ groundId });
+    if (!ground) {
+      throw new NotFoundException(`Ground ${groundId} not found`);
+    }
+    if (!editor.isAdmin && ground.createdBy !== editor.scorerId) {
+      throw new ForbiddenException('Only the ground creator or an admin can edit this ground');
+    }
+
+    const { coordinates, ...fields } = updateDto;
+    Object.assign(ground, fields);
+    if (fields.name !== undefined) ground.name = fields.name.trim();
+    if (coordinates) ground.location = this.toGeoPoint(coordinates);
+    await ground.save();
+
+    if (coordinates) {
+      await this.localMatchModel.updateMany(
+        { 'venue.groundId': groundId, status: { $in: ['upcoming', 'live'] } },
+        {
+          $set: {
+            geoPoint: ground.location,
+            'localLocation.coordinates': coordinates,
+          },
+        },
+      );
+    }
+    return ground.toObject();
+  }
+
+  async getGrounds(query: GetGroundsDto = {}) {
+    const { page = 1, limit = 20 } = query;
+    const filter: any = { status: 'active' };
+    if (query.q) filter.name = new RegExp(this.escapeRegex(query.q.trim()), 'i');
+    if (query.city) {
+      filter['locality.city'] = new RegExp(`^${this.escapeRegex(query.city.trim())}$`, 'i');
+    }
+
+    const [grounds, total] = await Promise.all([
+      this.groundModel
+        .find(filter)
+        .sort({ name: 1 })
+        .skip((page - 1) * limit)
+        .limit(limit)
+        .lean(),
+      this.groundModel.countDocuments(filter),
+    ]);
+
+    return {
+      grounds,
+      pagination: {
+        current: page,
+        pages: Math.ceil(total / limit),
+        total,
+        limit,
+      },
+    };
+  }
+
+  /**
+   * Grounds within the radius, nearest first, with distance in kilometres
+   */
+  async getNearbyGrounds(query: NearbyQueryDto) {
+    const { lat, lng, radiusKm = 10, limit = 20 } = query;
+    return this.groundModel.aggregate([
+      {
+        $geoNear: {
+          near: this.toGeoPoint({ lat, lng }),
+          distanceField: 'distance',
+          maxDistance: radiusKm * 1000,
+          spherical: true,
+          query: { status: 'active' },
+        },
+      },
+      { $limit: limit },
+      { $addFields: { distanceKm: { $round: [{ $divide: ['$distance', 1000] }, 2] } } },
+      { $project: { distance: 0 } },
+    ]);
+  }
+
+  /**
+   * Verified live and upcoming local matches within the radius, nearest
+   * first. Matches without a ground or coordinates cannot be placed and are
+   * left out.
+   */
+  async getNearbyMatches(query: NearbyQueryDto) {
+    const { lat, lng, radiusKm = 10, limit = 20 } = query;
+    return this.localMatchModel.aggregate([
+      {
+        $geoNear: {
+          near: this.toGeoPoint({ lat, lng }),
+          distanceField: 'distance',
+          maxDistance: radiusKm * 1000,
+          spherical: true,
+          query: { isLocalMatch: true, isVerified: true, status: { $in: ['live', 'upcoming'] } },
+        },
+      },
+      { $limit: limit },
+      {
+        $project: {
+          _id: 0,
+          matchId: 1,
+          series: 1,
+          format: 1,
+          status: 1,
+          startTime: 1,
+          teams: 1,
+          venue: 1,
+          localLocation: 1,
+          currentScore: 1,
+          distanceKm: { $round: [{ $divide: ['$distance', 1000] }, 2] },
+        },
+      },
+    ]);
+  }
+
+  /**
+   * Ground profile with records from its verified, completed matches
+   */
+  async getGroundById(groundId: string) {
+    const ground = await this.groundModel.findOne({ groundId }).lean();
+    if (!ground) {
+      throw new NotFoundException(`Ground ${groundId} not found`);
+    }
+    return { ...ground, records: await this.getGroundRecords(groundId) };
+  }
+
+  private async getGroundRecords(groundId: string) {
+    const teamName = (side: string) => ({
+      $cond: [{ $eq: [side, 'home'] }, '$teams.home.name', '$teams.away.name'],
+    });
+    const [records] = await this.localMatchModel.aggregate([
+      { $match: { 'venue.groundId': groundId, status: 'completed', isVerified: true } },
+      // Scorecard entries from a super over are not individual records
+      {
+        $addFields: {
+          superOverInnings: {
+            $map: {
+              input: {
+                $filter: {
+                  input: { $ifNull: ['$innings', []] },
+                  as: 'innings',
+                  cond: '$$innings.isSuperOver',
+                },
+              },
+              as: 'innings',
+              in: '$$innings.number',
+            },
+          },
+        },
+      },
+      {
+        $facet: {
+          matches: [{ $count: 'count' }],
+          highestTotal: [
+            { $unwind: '$innings' },
+            { $match: { 'innings.isSuperOver': { $ne: true } } },
+            { $sort: { 'innings.runs': -1, 'innings.wickets': 1 } },
+            { $limit: 1 },
+            {
+              $project: {
+                _id: 0,
+                matchId: 1,
+                date: '$startTime',
+                team: teamName('$innings.battingTeam'),
+                runs: '$innings.runs',
+                wickets: '$innings.wickets',
+                overs: '$innings.overs',
+                balls: '$innings.balls',
+              },
+            },
+          ],
+          averageFirstInnings: [
+            { $unwind: '$innings' },
+            { $match: { 'innings.number': 1 } },
+            { $group: { _id: null, runs: { $avg: '$innings.runs' } } },
+            { $project: { _id: 0, runs: { $round: ['$runs', 0] } } },
+          ],
+          highestIndividual: [
+            { $unwind: '$battingStats' },
+            {
+              $match: {
+                $expr: { $not: [{ $in: ['$battingStats.innings', '$superOverInnings'] }] },
+              },
+            },
+            { $sort: { 'battingStats.runs': -1, 'battingStats.balls': 1 } },
+            { $limit: 1 },
+            {
+              $project: {
+                _id: 0,
+                matchId: 1,
+                date: '$startTime',
+                playerId: '$battingStats.playerId',
+                playerName: '$battingStats.playerName',
+                team: teamName('$battingStats.team'),
+                runs: '$battingStats.runs',
+                balls: '$battingStats.balls',
+                isOut: '$battingStats.isOut',
+              },
+            },
+          ],
+          bestBowling: [
+            { $unwind: '$bowlingStats' },
+            {
+              $match: {
+                $expr: { $not: [{ $in: ['$bowlingStats.innings', '$superOverInnings'] }] },
+              },
+            },
+            { $sort: { 'bowlingStats.wickets': -1, 'bowlingStats.runs': 1 } },
+            { $limit: 1 },
+            {
+              $project: {
+                _id: 0,
+                matchId: 1,
+                date: '$startTime',
+                playerId: '$bowlingStats.playerId',
+                playerName: '$bowlingStats.playerName',
+                team: teamName('$bowlingStats.team'),
+                wickets: '$bowlingStats.wickets',
+                runs: '$bowlingStats.runs',
+                overs: '$bowlingStats.overs',
+                balls: '$bowlingStats.balls',
+              },
+            },
+          ],
+        },
+      },
+    ]);
+
+    return {
+      matches: records.matches[0]?.count ?? 0,
+      averageFirstInningsScore: records.averageFirstInnings[0]?.runs ?? null,
+      highestTotal: records.highestTotal[0] ?? null,
+      highestIndividualScore: records.highestIndividual[0] ?? null,
+      bestBowling: records.bestBowling[0] ?? null,
+    };
+  }
+}
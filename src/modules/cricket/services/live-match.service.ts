@@ -4,6 +4,7 @@ import { Model } from 'mongoose';
 import { ConfigService } from '@nestjs/config';
 import { LiveMatch, LiveMatchDocument } from '../schemas/live-match.schema';
 import { SportsMonksService } from './sportsmonks.service';
+import { WinProbabilityService } from './win-probability.service';
 import { transformSportsMonksMatchToFrontend } from '../utils/match-transformers';
 import { determineMatchStatus } from '../utils/status-determiner';
 import { isValidMatchId, sanitizeMatchId, validateMatchData } from '../utils/validation';
@@ -14,6 +15,7 @@ export class LiveMatchService {
   constructor(
     @InjectModel(LiveMatch.name) private liveMatchModel: Model<LiveMatchDocument>,
     private sportsMonksService: SportsMonksService,
+    private winProbabilityService: WinProbabilityService,
     private configService: ConfigService,
     private logger: WinstonLoggerService,
   ) {}
@@ -246,6 +248,7 @@ export class LiveMatchService {
           
           // Save or update in database
           await this.saveOrUpdateLiveMatch(liveMatch);
+          await this.winProbabilityService.recordLiveMatch(liveMatch);
           liveMatches.push(liveMatch);
         } catch (error: any) {
           this.logger.error(`Error processing match ${apiMatch.id}: ${error.message}`, error.stack, 'LiveMatchService');
@@ -1,19 +1,86 @@
-import { Injectable, NotFoundException, BadRequestException, ForbiddenException, Logger } from '@nestjs/common';
+import {
+  Injectable,
+  NotFoundException,
+  BadRequestException,
+  ConflictException,
+  ForbiddenException,
+  Logger,
+} from '@nestjs/common';
 import { InjectModel } from '@nestjs/mongoose';
-import { Model } from 'mongoose';
-import { LocalMatch, LocalMatchDocument } from '../schemas/local-match.schema';
+import { Model, Error as MongooseError } from 'mongoose';
+import {
+  LocalDelivery,
+  LocalMatch,
+  LocalMatchDocument,
+  MatchScorerRole,
+} from '../schemas/local-match.schema';
+import { User, UserDocument } from '../../users/schemas/user.schema';
+import { LocalTeam, LocalTeamDocument } from '../schemas/local-team.schema';
+import { Ground, GroundDocument, GeoPoint } from '../schemas/ground.schema';
 import { CreateLocalMatchDto } from '../dto/create-local-match.dto';
 import { UpdateLocalMatchScoreDto } from '../dto/update-local-match-score.dto';
 import { RecordBallDto } from '../dto/record-ball.dto';
+import { RecordBallBatchDto } from '../dto/record-ball-batch.dto';
 import { MatchSetupDto } from '../dto/match-setup.dto';
+import { EditBallDto } from '../dto/edit-ball.dto';
+import { StartInningsDto } from '../dto/start-innings.dto';
+import { RecordInterruptionDto } from '../dto/record-interruption.dto';
+import { AddMatchScorerDto, HandoverMatchDto } from '../dto/match-scorer.dto';
+import { GetWagonWheelDto, GetPitchMapDto } from '../dto/shot-map.dto';
+import {
+  DeliveryRecord,
+  getAllottedOvers,
+  getChaseTarget,
+  getFollowOnMargin,
+  getFormatInnings,
+  getFormatMaxOvers,
+  getLead,
+  getMatchOutcome,
+  InningsMeta,
+  isSuperOverInnings,
+  LiveSnapshot,
+  MatchOutcome,
+  oppositeTeam,
+  realignDeliveries,
+  replayDeliveries,
+  ScoringContext,
+  toDeliveryRecord,
+} from '../utils/local-scoring-engine';
+import {
+  buildMatchAnalytics,
+  buildPitchMaps,
+  buildWagonWheels,
+} from '../utils/local-match-analytics';
+import { validateDelivery } from '../utils/local-delivery-rules';
+import { calculateImpactScores, getLocalContributions } from '../utils/impact-score';
+import { generateDeliveryCommentary, getLocalPlayerName } from '../utils/local-commentary';
+import {
+  alignDeliveryStreams,
+  getStreamAccuracy,
+  resolveDeliveryStreams,
+} from '../utils/local-reconciliation';
+import { getRunRateTotals, StandingsResult } from '../utils/points-table';
+import { generateTeamId, getTeamShortName } from '../utils/team-identity';
+import { buildLocalWinProbability, WinProbabilityPoint } from '../utils/win-probability';
+import { CommentaryService } from './commentary.service';
+import { WinProbabilityService } from './win-probability.service';
+import { formatResultNote } from '../utils/match-transformers';
 import * as crypto from 'crypto';
 
+// Key performers proposed when a match is completed
+const KEY_PERFORMERS = 3;
+
 @Injectable()
 export class LocalMatchService {
   private readonly logger = new Logger(LocalMatchService.name);
 
   constructor(
     @InjectModel(LocalMatch.name) private localMatchModel: Model<LocalMatchDocument>,
+    @InjectModel(User.name) private userModel: Model<UserDocument>,
+    @InjectModel(LocalTeam.name) private localTeamModel: Model<LocalTeamDocument>,
+    @InjectModel(Ground.name) private groundModel: Model<GroundDocument>,
+    private commentaryService: CommentaryService,
+    private winProbabilityService: WinProbabilityService,
   ) {}
 
   /**
@@ -26,23 +93,446 @@ export class LocalMatchService {
   }
 
   /**
-   * Generate team ID from team name
+   * A match side from a registered local team, or from a free-form team name
+   */
+  private async resolveMatchTeam(
+    teamId: string | undefined,
+    teamName: string | undefined,
+  ): Promise<LocalMatch['teams']['home']> {
+    if (teamId) {
+      const team = await this.localTeamModel.findOne({ teamId, status: 'active' }).lean();
+      if (!team) {
+        throw new NotFoundException(`Team ${teamId} not found`);
+      }
+      return {
+        id: team.teamId,
+        name: team.name,
+        flag: team.logo?.url || '',
+        shortName: team.shortName,
+      };
+    }
+    if (!teamName?.trim()) {
+      throw new BadRequestException('Each side needs a team name or a registered team ID');
+    }
+    return {
+      id: generateTeamId(teamName),
+      name: teamName.trim(),
+      flag: '',
+      shortName: getTeamShortName(teamName),
+    };
+  }
+
+  /**
+   * Team batting first - from the toss if available, otherwise home
+   */
+  private resolveFirstBattingTeam(match: LocalMatch): 'home' | 'away' {
+    const setup = match.matchSetup;
+    if (!setup?.tossDecision || !setup.tossWinner) {
+      return 'home';
+    }
+    return setup.tossDecision === 'bat' ? setup.tossWinner : oppositeTeam(setup.tossWinner);
+  }
+
+  private getInningsMeta(match: LocalMatch): InningsMeta[] {
+    return (match.innings || []).map((innings) => ({
+      number: innings.number,
+      battingTeam: innings.battingTeam,
+      isDeclared: innings.isDeclared,
+      isFollowOn: innings.isFollowOn,
+    }));
+  }
+
+  private buildScoringContext(match: LocalMatch): ScoringContext {
+    const maxOvers = match.rules?.oversPerInnings ?? getFormatMaxOvers(match.format);
+    return {
+      firstBattingTeam: this.resolveFirstBattingTeam(match),
+      maxOvers,
+      ballsPerOver: match.rules?.ballsPerOver,
+      wideRuns: match.rules?.wideRuns,
+      noBallRuns: match.rules?.noBallRuns,
+      // Free hits apply in limited-overs cricket unless the rules say otherwise
+      freeHits: match.rules?.freeHit ?? maxOvers !== undefined,
+      totalInnings: getFormatInnings(match.format),
+      inningsMeta: this.getInningsMeta(match),
+      interruptions: match.interruptions?.map((i) => ({
+        innings: i.innings,
+        ballsBowled: i.ballsBowled,
+        wickets: i.wickets,
+        oversLost: i.oversLost,
+      })),
+      playingXI: {
+        home: match.matchSetup?.homePlayingXI,
+        away: match.matchSetup?.awayPlayingXI,
+      },
+    };
+  }
+
+  /**
+   * Rebuild currentScore, innings, battingStats, bowlingStats and the derived
+   * parts of liveState from ballHistory. Innings transitions (current innings,
+   * batting team, openers, declarations, follow-on) stay as set by the scorer.
+   * An innings that is all out, out of overs or has reached its target puts the
+   * match into an innings break, and a decided match is settled.
+   */
+  private rebuildFromHistory(match: LocalMatchDocument): void {
+    const context = this.buildScoringContext(match);
+    const state = replayDeliveries(match.ballHistory || [], context);
+
+    match.currentScore = state.currentScore;
+    match.innings = state.innings;
+    match.battingStats = state.battingStats;
+    match.bowlingStats = state.bowlingStats;
+    this.settleOutcome(match, getMatchOutcome(state, context));
+
+    if (!match.liveState) {
+      return;
+    }
+
+    const currentInnings = state.innings.find((i) => i.number === match.liveState!.currentInnings);
+    match.liveState.isInningsBreak = !!currentInnings?.isComplete;
+
+    const derived = state.liveState;
+    if (derived && derived.currentInnings === match.liveState.currentInnings) {
+      match.liveState.battingTeam = derived.battingTeam;
+      match.liveState.strikerId = derived.strikerId;
+      match.liveState.nonStrikerId = derived.nonStrikerId;
+      if (derived.bowlerId) {
+        match.liveState.bowlerId = derived.bowlerId;
+      }
+      match.liveState.currentOver = derived.currentOver;
+      match.liveState.currentBall = derived.currentBall;
+      match.liveState.partnershipRuns = derived.partnershipRuns;
+      match.liveState.partnershipBalls = derived.partnershipBalls;
+      match.liveState.currentRunRate = derived.currentRunRate;
+      match.liveState.requiredRunRate = derived.requiredRunRate;
+      match.liveState.target = derived.target;
+      match.liveState.lead = derived.lead;
+      match.liveState.oversLimit = derived.oversLimit;
+      match.liveState.parScore = derived.parScore;
+      match.liveState.isFreeHit = !!derived.isFreeHit;
+    } else {
+      // Current innings has no deliveries yet
+      const { currentInnings, battingTeam } = match.liveState;
+      match.liveState.currentOver = 0;
+      match.liveState.currentBall = 0;
+      match.liveState.partnershipRuns = 0;
+      match.liveState.partnershipBalls = 0;
+      match.liveState.currentRunRate = 0;
+      match.liveState.oversLimit = getAllottedOvers(context, currentInnings);
+      match.liveState.parScore = undefined;
+      match.liveState.isFreeHit = false;
+      if (battingTeam) {
+        match.liveState.lead =
+          currentInnings > 1 && !isSuperOverInnings(context, currentInnings)
+            ? getLead(state.innings, battingTeam)
+            : undefined;
+        match.liveState.target = getChaseTarget(
+          state.innings,
+          currentInnings,
+          battingTeam,
+          context,
+        );
+      }
+    }
+  }
+
+  /**
+   * Mark a match decided on the field as completed with its winner, or reopen
+   * one whose deciding delivery has since been undone or corrected
+   */
+  private settleOutcome(match: LocalMatchDocument, outcome: MatchOutcome): void {
+    if (outcome.isComplete && outcome.winner) {
+      const result = this.describeResult(match, outcome.winner, outcome);
+      if (match.status !== 'completed') {
+        match.status = 'completed';
+        match.endTime = new Date();
+        this.logger.log(`Match ${match.matchId} decided: ${result.resultText}`);
+      }
+      match.matchResult = {
+        ...result,
+        keyPerformers: match.matchResult?.keyPerformers || [],
+        playerOfMatch: match.matchResult?.playerOfMatch,
+        notes: match.matchResult?.notes,
+      };
+    } else if (match.status === 'completed' && !match.isLocked) {
+      match.status = 'live';
+      match.endTime = undefined;
+      match.matchResult = {
+        keyPerformers: match.matchResult?.keyPerformers || [],
+        notes: match.matchResult?.notes,
+      };
+    }
+  }
+
+  /**
+   * Winner name, margin and result text for a result. The margin comes from
+   * the scorecard only when the scorecard agrees on the winner.
+   */
+  private describeResult(
+    match: LocalMatch,
+    winner: 'home' | 'away' | 'tie' | 'draw' | 'no_result',
+    outcome?: MatchOutcome,
+  ) {
+    const winnerName =
+      winner === 'home' || winner === 'away' ? match.teams[winner].name : undefined;
+    const decided = outcome?.isComplete && outcome.winner === winner ? outcome : undefined;
+    const margin = decided?.margin;
+    const marginType = decided?.marginType;
+
+    let marginText: string | undefined;
+    if (margin !== undefined && marginType) {
+      const unit = marginType === 'wickets' ? 'wicket' : 'run';
+      marginText = `${margin} ${unit}${margin !== 1 ? 's' : ''}`;
+      if (marginType === 'innings') {
+        marginText = `an innings and ${marginText}`;
+      }
+    }
+
+    return {
+      winner,
+      winnerName,
+      margin: marginText,
+      marginType,
+      ballsRemaining: decided?.ballsRemaining,
+      resultText: formatResultNote(
+        winner,
+        winnerName,
+        margin,
+        marginType,
+        decided?.ballsRemaining,
+        decided?.method,
+        decided?.superOver,
+      ),
+      superOver: !!decided?.superOver,
+    };
+  }
+
+  /**
+   * Margin typed by a scorer: "25 runs", "6 wickets" or "an innings and 12 runs"
+   */
+  private parseMargin(text: string): Required<Pick<MatchOutcome, 'margin' | 'marginType'>> {
+    const found = /^(an innings and )?(\d+) (run|wicket)s?$/i.exec(text.trim());
+    if (!found || (found[1] && found[3].toLowerCase() !== 'run')) {
+      throw new BadRequestException(
+        'Margin must read like "25 runs", "6 wickets" or "an innings and 12 runs"',
+      );
+    }
+    const unit = found[3].toLowerCase();
+    return {
+      margin: Number(found[2]),
+      marginType: found[1] ? 'innings' : unit === 'run' ? 'runs' : 'wickets',
+    };
+  }
+
+  /**
+   * Re-derive later over/ball numbering and strike ends after a delivery was
+   * edited or removed, then rebuild the scorecard
+   */
+  private realignAndRebuild(match: LocalMatchDocument): void {
+    const history = match.ballHistory || [];
+    for (const correction of realignDeliveries(history, this.buildScoringContext(match))) {
+      const delivery = history[correction.index];
+      delivery.over = correction.over;
+      delivery.ball = correction.ball;
+      delivery.strikerId = correction.strikerId;
+      delivery.nonStrikerId = correction.nonStrikerId;
+      delivery.isFreeHit = correction.isFreeHit;
+    }
+    // Strike corrections and edits change who faced, so refresh every line
+    const context = this.buildScoringContext(match);
+    for (const delivery of history) {
+      delivery.commentary = generateDeliveryCommentary(toDeliveryRecord(delivery), context);
+    }
+    this.rebuildFromHistory(match);
+  }
+
+  /**
+   * Locate a delivery by innings/over/ball. Wides and no-balls share the slot of
+   * the legal ball that follows them, so `occurrence` picks among deliveries at
+   * the same position (0 = first).
+   */
+  private findDeliveryIndex(
+    match: LocalMatch,
+    position: { innings: number; over: number; ball: number; occurrence?: number },
+  ): number {
+    const candidates: number[] = [];
+    (match.ballHistory || []).forEach((delivery, index) => {
+      if (
+        delivery.innings === position.innings &&
+        delivery.over === position.over &&
+        delivery.ball === position.ball
+      ) {
+        candidates.push(index);
+      }
+    });
+
+    const index = candidates[position.occurrence ?? 0];
+    if (index === undefined) {
+      throw new NotFoundException(
+        `No delivery found at innings ${position.innings}, over ${position.over}, ball ${position.ball}`,
+      );
+    }
+    return index;
+  }
+
+  private createInningsEntry(
+    number: number,
+    battingTeam: 'home' | 'away',
+    isSuperOver: boolean = false,
+  ): NonNullable<LocalMatch['innings']>[number] {
+    return {
+      number,
+      battingTeam,
+      runs: 0,
+      wickets: 0,
+      overs: 0,
+      balls: 0,
+      extras: { wides: 0, noBalls: 0, byes: 0, legByes: 0, penalties: 0 },
+      isDeclared: false,
+      isFollowOn: false,
+      isComplete: false,
+      isSuperOver,
+    };
+  }
+
+  private snapshotDelivery(delivery: DeliveryRecord): Record<string, unknown> {
+    const snapshot: Record<string, unknown> = { ...toDeliveryRecord(delivery) };
+    delete snapshot.timestamp;
+    return snapshot;
+  }
+
+  private recordAudit(
+    match: LocalMatchDocument,
+    entry: Omit<NonNullable<LocalMatch['auditLog']>[number], 'changedAt'>,
+  ): void {
+    if (!match.auditLog) {
+      match.auditLog = [];
+    }
+    match.auditLog.push({ ...entry, changedAt: new Date() });
+  }
+
+  /**
+   * The match's scorer roster. Matches created before rosters existed have
+   * their creator as the only (primary) scorer.
+   */
+  private getRoster(match: LocalMatch): NonNullable<LocalMatch['scorers']> {
+    if (match.scorers?.length) {
+      return match.scorers;
+    }
+    return [
+      {
+        scorerId: match.scorerInfo.scorerId,
+        scorerName: match.scorerInfo.scorerName,
+        role: 'primary',
+        addedAt: (match as any).createdAt || new Date(),
+      },
+    ];
+  }
+
+  /**
+   * Role `scorerId` holds on the match, if any
+   */
+  getScorerRole(match: LocalMatch, scorerId: string): MatchScorerRole | undefined {
+    return this.getRoster(match).find((s) => s.scorerId === scorerId)?.role;
+  }
+
+  /**
+   * Throw unless `scorerId` holds one of `roles` (default: primary or co-scorer)
    */
-  private generateTeamId(teamName: string): string {
-    const normalized = teamName.toLowerCase().replace(/\s+/g, '-');
-    const hash = crypto.createHash('md5').update(teamName).digest('hex').substring(0, 8);
-    return `TEAM-${normalized}-${hash}`;
+  private assertScorerRole(
+    match: LocalMatch,
+    scorerId: string,
+    message: string,
+    roles: MatchScorerRole[] = ['primary', 'co_scorer'],
+  ): void {
+    const role = this.getScorerRole(match, scorerId);
+    if (!role || !roles.includes(role)) {
+      throw new ForbiddenException(message);
+    }
+  }
+
+  /**
+   * Save with optimistic concurrency: if another device changed the match
+   * since it was loaded, the save fails instead of overwriting that change
+   */
+  private async saveMatch(match: LocalMatchDocument): Promise<void> {
+    try {
+      await match.save();
+    } catch (error) {
+      if (error instanceof MongooseError.VersionError) {
+        throw new ConflictException(
+          'Match was updated from another device. Reload it and try again.',
+        );
+      }
+      throw error;
+    }
+  }
+
+  private getWinProbabilityPoints(match: LocalMatch): WinProbabilityPoint[] {
+    const context = this.buildScoringContext(match);
+    const model = this.winProbabilityService.getModel(match.format, context.maxOvers);
+    return model ? buildLocalWinProbability(match.ballHistory || [], context, model) : [];
+  }
+
+  /**
+   * Push the latest win probability to live viewers. Like getWinProbability,
+   * only verified matches are public, so an unverified match is not pushed
+   * even while live. Failures are logged so they never fail the write that
+   * has already been saved.
+   * @param revised - Earlier deliveries were undone, corrected or re-targeted
+   */
+  private publishWinProbability(match: LocalMatch, revised: boolean = false): void {
+    if (!match.isVerified) return;
+    try {
+      const points = this.getWinProbabilityPoints(match);
+      if (points.length === 0) return;
+      this.winProbabilityService.publish({
+        matchId: match.matchId,
+        source: 'local',
+        point: points[points.length - 1],
+        revised,
+      });
+    } catch (error) {
+      this.logger.error(
+        `Failed to publish win probability for match ${match.matchId}: ${error.message}`,
+        error.stack,
+      );
+    }
   }
 
   /**
-   * Get short name from team name
+   * Replay a match from ballHistory up to a given delivery (admin)
+   * @param upTo - Number of deliveries to replay (default: all)
    */
-  private getShortName(teamName: string): string {
-    const words = teamName.trim().split(/\s+/);
-    if (words.length === 1) {
-      return words[0].substring(0, 3).toUpperCase();
+  async replayMatch(matchId: string, upTo?: number) {
+    const match = await this.localMatchModel.findOne({ matchId }).lean();
+    if (!match) {
+      throw new NotFoundException(`Match with ID ${matchId} not found`);
     }
-    return words.map(w => w[0]).join('').toUpperCase().substring(0, 4);
+
+    const deliveries = match.ballHistory || [];
+    const count = upTo ?? deliveries.length;
+    if (!Number.isInteger(count) || count < 0 || count > deliveries.length) {
+      throw new BadRequestException(`upTo must be between 0 and ${deliveries.length}`);
+    }
+
+    const state = replayDeliveries(
+      deliveries,
+      this.buildScoringContext(match as LocalMatch),
+      count,
+    );
+
+    return {
+      matchId,
+      totalDeliveries: deliveries.length,
+      upTo: count,
+      lastDelivery: count > 0 ? deliveries[count - 1] : null,
+      currentScore: state.currentScore,
+      innings: state.innings,
+      liveState: state.liveState,
+      battingStats: state.battingStats,
+      bowlingStats: state.bowlingStats,
+    };
   }
 
   /**
@@ -52,12 +542,12 @@ export class LocalMatchService {
     // Generate match ID
     const matchId = this.generateMatchId();
 
-    // Generate team IDs and short names
-    const homeTeamId = this.generateTeamId(createDto.teams.home);
-    const awayTeamId = this.generateTeamId(createDto.teams.away);
+    // Registered teams, or team IDs and short names generated from the names
+    const home = await this.resolveMatchTeam(createDto.teams.homeTeamId, createDto.teams.home);
+    const away = await this.resolveMatchTeam(createDto.teams.awayTeamId, createDto.teams.away);
 
     // Validate teams are different
-    if (createDto.teams.home.toLowerCase().trim() === createDto.teams.away.toLowerCase().trim()) {
+    if (home.id === away.id || home.name.toLowerCase() === away.name.toLowerCase()) {
       throw new BadRequestException('Home and away teams must be different');
     }
 
@@ -67,6 +557,39 @@ export class LocalMatchService {
       throw new BadRequestException('Invalid start time format');
     }
 
+    // A registered ground supplies the venue and its position
+    let venue: LocalMatch['venue'];
+    let geoPoint: GeoPoint | undefined;
+    const coordinates = createDto.location.coordinates;
+    if (createDto.groundId) {
+      const ground = await this.groundModel
+        .findOne({ groundId: createDto.groundId, status: 'active' })
+        .lean();
+      if (!ground) {
+        throw new NotFoundException(`Ground ${createDto.groundId} not found`);
+      }
+      venue = {
+        name: ground.name,
+        city: ground.locality.city,
+        country: ground.locality.country,
+        address: ground.address,
+        groundId: ground.groundId,
+      };
+      geoPoint = ground.location;
+    } else if (createDto.venue) {
+      venue = {
+        name: createDto.venue.name.trim(),
+        city: createDto.venue.city.trim(),
+        country: (createDto.venue as any).country?.trim() || createDto.location.country.trim(),
+        address: createDto.venue.address?.trim(),
+      };
+      if (coordinates) {
+        geoPoint = { type: 'Point', coordinates: [coordinates.lng, coordinates.lat] };
+      }
+    } else {
+      throw new BadRequestException('A venue or a registered ground is required');
+    }
+
     // Create match document
     const matchData: Partial<LocalMatch> = {
       matchId,
@@ -74,32 +597,18 @@ export class LocalMatchService {
       format: createDto.format,
       startTime,
       status: 'upcoming', // Always start as upcoming - scorer will set to live when ready
-      teams: {
-        home: {
-          id: homeTeamId,
-          name: createDto.teams.home.trim(),
-          flag: '',
-          shortName: this.getShortName(createDto.teams.home),
-        },
-        away: {
-          id: awayTeamId,
-          name: createDto.teams.away.trim(),
-          flag: '',
-          shortName: this.getShortName(createDto.teams.away),
-        },
-      },
-      venue: {
-        name: createDto.venue.name.trim(),
-        city: createDto.venue.city.trim(),
-        country: (createDto.venue as any).country?.trim() || createDto.location.country.trim(),
-        address: createDto.venue.address?.trim(),
-      },
+      teams: { home, away },
+      venue,
+      geoPoint,
       localLocation: {
         country: createDto.location.country.trim(),
         state: createDto.location.state?.trim(),
         city: createDto.location.city.trim(),
         district: createDto.location.district?.trim(),
         area: createDto.location.area?.trim(),
+        coordinates: geoPoint
+          ? { lat: geoPoint.coordinates[1], lng: geoPoint.coordinates[0] }
+          : undefined,
       },
       localLeague: createDto.league ? {
         id: createDto.league.id,
@@ -115,6 +624,7 @@ export class LocalMatchService {
         lastUpdate: new Date(),
         verificationStatus: 'pending',
       },
+      scorers: [{ scorerId, scorerName, role: 'primary', addedBy: scorerId, addedAt: new Date() }],
       isVerified: false,
       isLocalMatch: true,
       matchType: 'local',
@@ -122,6 +632,13 @@ export class LocalMatchService {
         home: { runs: 0, wickets: 0, overs: 0, balls: 0 },
         away: { runs: 0, wickets: 0, overs: 0, balls: 0 },
       },
+      rules: {
+        oversPerInnings: createDto.rules?.oversPerInnings ?? getFormatMaxOvers(createDto.format),
+        ballsPerOver: createDto.rules?.ballsPerOver ?? 6,
+        wideRuns: createDto.rules?.wideRuns ?? 1,
+        noBallRuns: createDto.rules?.noBallRuns ?? 1,
+        freeHit: createDto.rules?.freeHit,
+      },
     };
 
     this.logger.log(`Creating match document with matchId: ${matchId}`);
@@ -166,6 +683,114 @@ export class LocalMatchService {
     return match as LocalMatch;
   }
 
+  /**
+   * Partnerships, fall of wickets, Manhattan, worm, extras and phase splits
+   * per innings, derived from ballHistory
+   */
+  async getMatchAnalytics(matchId: string, includeUnverified: boolean = false) {
+    const match = await this.getMatchById(matchId, includeUnverified);
+
+    return {
+      matchId,
+      teams: {
+        home: match.teams.home.name,
+        away: match.teams.away.name,
+      },
+      innings: buildMatchAnalytics(match.ballHistory || [], this.buildScoringContext(match)),
+    };
+  }
+
+  /**
+   * Per-batter wagon wheels from the shot directions recorded in ballHistory
+   */
+  async getWagonWheels(
+    matchId: string,
+    query: GetWagonWheelDto = {},
+    includeUnverified: boolean = false,
+  ) {
+    const match = await this.getMatchById(matchId, includeUnverified);
+    const wheels = buildWagonWheels(match.ballHistory || [], this.buildScoringContext(match));
+
+    return {
+      matchId,
+      wagonWheels: wheels.filter(
+        (wheel) =>
+          (!query.innings || wheel.innings === query.innings) &&
+          (!query.batterId || wheel.playerId === query.batterId),
+      ),
+    };
+  }
+
+  /**
+   * Per-bowler pitch maps from the lines and lengths recorded in ballHistory
+   */
+  async getPitchMaps(
+    matchId: string,
+    query: GetPitchMapDto = {},
+    includeUnverified: boolean = false,
+  ) {
+    const match = await this.getMatchById(matchId, includeUnverified);
+    const maps = buildPitchMaps(match.ballHistory || [], this.buildScoringContext(match));
+
+    return {
+      matchId,
+      pitchMaps: maps.filter(
+        (map) =>
+          (!query.innings || map.innings === query.innings) &&
+          (!query.bowlerId || map.playerId === query.bowlerId),
+      ),
+    };
+  }
+
+  /**
+   * Win probability and projected score after every delivery of a
+   * limited-overs match, replayed from ballHistory
+   */
+  async getWinProbability(matchId: string, includeUnverified: boolean = false) {
+    const match = await this.getMatchById(matchId, includeUnverified);
+    const context = this.buildScoringContext(match);
+    const model = this.winProbabilityService.getModel(match.format, context.maxOvers);
+    if (!model) {
+      throw new BadRequestException('Win probability is only available for limited-overs matches');
+    }
+
+    const timeline = buildLocalWinProbability(match.ballHistory || [], context, model);
+    return {
+      matchId,
+      format: match.format,
+      model,
+      current: timeline[timeline.length - 1] ?? null,
+      timeline,
+    };
+  }
+
+  /**
+   * Ball-by-ball commentary in the same shape as CommentaryService.mergeCommentary:
+   * the generated line for each delivery, merged with in-house commentary
+   */
+  async getMatchCommentary(matchId: string, includeUnverified: boolean = false) {
+    const match = await this.getMatchById(matchId, includeUnverified);
+    const context = this.buildScoringContext(match);
+
+    const autoEntries = (match.ballHistory || []).map((delivery, index) => ({
+      id: `${matchId}-${index}`,
+      innings: delivery.innings,
+      over: delivery.over,
+      ball: delivery.ball,
+      ballNumber: delivery.ball,
+      runs: delivery.runs,
+      wickets: delivery.isWicket ? 1 : 0,
+      isWicket: delivery.isWicket,
+      batsman: getLocalPlayerName(context, delivery.strikerId),
+      bowler: getLocalPlayerName(context, delivery.bowlerId),
+      // Deliveries recorded before commentary existed get theirs generated here
+      commentary: delivery.commentary || generateDeliveryCommentary(delivery, context),
+      timestamp: (delivery.timestamp ? new Date(delivery.timestamp) : new Date()).toISOString(),
+    }));
+
+    return this.commentaryService.mergeLocalCommentary(matchId, autoEntries);
+  }
+
   /**
    * Update match score
    */
@@ -179,10 +804,8 @@ export class LocalMatchService {
       throw new NotFoundException(`Match with ID ${matchId} not found`);
     }
 
-    // Check if scorer owns this match
-    if (match.scorerInfo.scorerId !== scorerId) {
-      throw new ForbiddenException('You can only update matches you created');
-    }
+    // Check the scorer is on this match's roster
+    this.assertScorerRole(match, scorerId, 'You are not a scorer on this match');
 
     // Prevent updating score on completed matches
     if (match.status === 'completed' || match.isLocked) {
@@ -194,12 +817,13 @@ export class LocalMatchService {
       throw new BadRequestException('Wickets cannot exceed 10');
     }
 
-    if (updateDto.home.balls !== undefined && updateDto.home.balls > 5) {
-      throw new BadRequestException('Balls in over cannot exceed 5');
+    const ballsPerOver = match.rules?.ballsPerOver ?? 6;
+    if (updateDto.home.balls !== undefined && updateDto.home.balls >= ballsPerOver) {
+      throw new BadRequestException(`Balls in over cannot exceed ${ballsPerOver - 1}`);
     }
 
-    if (updateDto.away.balls !== undefined && updateDto.away.balls > 5) {
-      throw new BadRequestException('Balls in over cannot exceed 5');
+    if (updateDto.away.balls !== undefined && updateDto.away.balls >= ballsPerOver) {
+      throw new BadRequestException(`Balls in over cannot exceed ${ballsPerOver - 1}`);
     }
 
     // Update score
@@ -247,7 +871,7 @@ export class LocalMatchService {
     // Update scorer info
     match.scorerInfo.lastUpdate = new Date();
 
-    await match.save();
+    await this.saveMatch(match);
 
     return match.toObject();
   }
@@ -269,7 +893,10 @@ export class LocalMatchService {
     const limit = filters?.limit || 10;
     const skip = (page - 1) * limit;
 
-    const query: any = { 'scorerInfo.scorerId': scorerId };
+    // Matches the scorer created or is on the roster of
+    const query: any = {
+      $or: [{ 'scorerInfo.scorerId': scorerId }, { 'scorers.scorerId': scorerId }],
+    };
 
     if (filters?.status) {
       query.status = filters.status;
@@ -361,9 +988,7 @@ export class LocalMatchService {
       throw new NotFoundException(`Match with ID ${matchId} not found`);
     }
 
-    if (match.scorerInfo.scorerId !== scorerId) {
-      throw new ForbiddenException('You can only setup matches you created');
-    }
+    this.assertScorerRole(match, scorerId, 'You are not a scorer on this match');
 
     // Allow setup/updates for upcoming or live matches (scorer can update details anytime)
     if (match.status === 'completed' || match.status === 'cancelled') {
@@ -379,14 +1004,22 @@ export class LocalMatchService {
       awayPlayingXI: setupDto.awayPlayingXI || match.matchSetup?.awayPlayingXI || [],
     };
 
-    // Determine batting team - use toss if available, otherwise default to home
-    let battingTeam: 'home' | 'away' = 'home';
-    if (match.matchSetup.tossDecision && match.matchSetup.tossWinner) {
-      battingTeam = match.matchSetup.tossDecision === 'bat' 
-        ? match.matchSetup.tossWinner 
-        : match.matchSetup.tossWinner === 'home' ? 'away' : 'home';
+    if (setupDto.rules) {
+      match.rules = {
+        oversPerInnings:
+          setupDto.rules.oversPerInnings ??
+          match.rules?.oversPerInnings ??
+          getFormatMaxOvers(match.format),
+        ballsPerOver: setupDto.rules.ballsPerOver ?? match.rules?.ballsPerOver ?? 6,
+        wideRuns: setupDto.rules.wideRuns ?? match.rules?.wideRuns ?? 1,
+        noBallRuns: setupDto.rules.noBallRuns ?? match.rules?.noBallRuns ?? 1,
+        freeHit: setupDto.rules.freeHit ?? match.rules?.freeHit,
+      };
     }
 
+    // Determine batting team - use toss if available, otherwise default to home
+    const battingTeam = this.resolveFirstBattingTeam(match);
+
     // Initialize live state (use provided values or defaults)
     match.liveState = {
       currentInnings: 1,
@@ -399,54 +1032,77 @@ export class LocalMatchService {
       isInningsBreak: false,
     };
 
-    // Initialize batting and bowling stats
-    match.battingStats = [];
-    match.bowlingStats = [];
+    // Innings 1 follows the toss
+    const firstInnings = match.innings?.find((i) => i.number === 1);
+    if (firstInnings) {
+      firstInnings.battingTeam = battingTeam;
+    } else {
+      match.innings = [...(match.innings || []), this.createInningsEntry(1, battingTeam)];
+    }
+
+    // Rebuild batting and bowling stats (player names may have changed)
+    this.rebuildFromHistory(match);
 
     // Don't auto-change status - scorer controls when match goes live
     match.scorerInfo.lastUpdate = new Date();
 
-    await match.save();
+    await this.saveMatch(match);
     return match.toObject();
   }
 
   /**
-   * Record a ball (ball-by-ball scoring)
+   * Where the next delivery goes: the current innings, at the over and ball
+   * reached by the legal deliveries already recorded in it
    */
-  async recordBall(matchId: string, ballDto: RecordBallDto, scorerId: string): Promise<LocalMatch> {
-    try {
-      this.logger.log(`Recording ball for match ${matchId} by scorer ${scorerId}`);
-      
-      const match = await this.localMatchModel.findOne({ matchId });
-      if (!match) {
-        this.logger.error(`Match not found: ${matchId}`);
-        throw new NotFoundException(`Match with ID ${matchId} not found`);
-      }
-
-      if (match.scorerInfo.scorerId !== scorerId) {
-        this.logger.error(`Scorer mismatch: ${scorerId} vs ${match.scorerInfo.scorerId}`);
-        throw new ForbiddenException('You can only score matches you created');
-      }
-
-      if (match.isLocked) {
-        this.logger.warn(`Attempted to score locked match: ${matchId}`);
-        throw new BadRequestException('Match is locked and cannot be edited');
-      }
-
-      if (!match.liveState) {
-        this.logger.error(`Match setup not completed: ${matchId}`);
-        throw new BadRequestException('Match setup must be completed before scoring');
-      }
+  private getExpectedPosition(match: LocalMatch): { innings: number; over: number; ball: number } {
+    const innings = match.liveState?.currentInnings || 1;
+    const summary = match.innings?.find((i) => i.number === innings);
+    return { innings, over: summary?.overs ?? 0, ball: summary?.balls ?? 0 };
+  }
 
-      // Validate ball data
-      if (ballDto.ball < 0 || ballDto.ball > 5) {
-        this.logger.error(`Invalid ball number: ${ballDto.ball}`);
-        throw new BadRequestException('Ball number must be between 0 and 5');
-      }
+  /**
+   * Whether a resent delivery (same client delivery ID) is already in `history`.
+   * Reusing an ID for a different delivery is a conflict.
+   */
+  private isDuplicateDelivery(
+    history: DeliveryRecord[] | undefined,
+    ballDto: RecordBallDto,
+  ): boolean {
+    if (!ballDto.deliveryId) return false;
+    const existing = history?.find((d) => d.deliveryId === ballDto.deliveryId);
+    if (!existing) return false;
+
+    if (
+      existing.innings !== ballDto.innings ||
+      existing.runs !== ballDto.delivery.runs ||
+      existing.ballType !== ballDto.delivery.ballType ||
+      existing.isWicket !== (ballDto.delivery.isWicket || false)
+    ) {
+      throw new ConflictException(
+        `Delivery ${ballDto.deliveryId} was already recorded with different details`,
+      );
+    }
+    return true;
+  }
 
-    // Create ball record
-    const ballRecord = {
+  /**
+   * Delivery record for a submitted ball
+   * @param scorerId - Scorer recording the ball
+   * @param live - Live state of the stream the ball is added to (default: the match's)
+   */
+  private toBallRecord(
+    match: LocalMatch,
+    ballDto: RecordBallDto,
+    scorerId: string,
+    live: Partial<Pick<LiveSnapshot, 'battingTeam' | 'isFreeHit'>> | undefined = match.liveState,
+  ): LocalDelivery {
+    return {
+      deliveryId: ballDto.deliveryId,
       innings: ballDto.innings,
+      battingTeam:
+        match.innings?.find((i) => i.number === ballDto.innings)?.battingTeam ||
+        live?.battingTeam ||
+        'home',
       over: ballDto.over,
       ball: ballDto.ball,
       strikerId: ballDto.strikerId,
@@ -454,6 +1110,8 @@ export class LocalMatchService {
       bowlerId: ballDto.bowlerId,
       runs: ballDto.delivery.runs,
       ballType: ballDto.delivery.ballType,
+      penaltyRuns: ballDto.delivery.penaltyRuns ?? 0,
+      isFreeHit: !!live?.isFreeHit,
       isWicket: ballDto.delivery.isWicket || false,
       dismissalType: ballDto.delivery.dismissalType,
       dismissedBatterId: ballDto.delivery.dismissedBatterId,
@@ -461,372 +1119,575 @@ export class LocalMatchService {
       incomingBatterId: ballDto.delivery.incomingBatterId,
       isBoundary: ballDto.delivery.isBoundary || false,
       isSix: ballDto.delivery.isSix || false,
+      shotZone: ballDto.delivery.shotZone,
+      shotAngle: ballDto.delivery.shotAngle,
+      shotDistance: ballDto.delivery.shotDistance,
+      pitchLine: ballDto.delivery.pitchLine,
+      pitchLength: ballDto.delivery.pitchLength,
+      recordedBy: scorerId,
       timestamp: ballDto.timestamp ? new Date(ballDto.timestamp) : new Date(),
     };
+  }
 
-    // Add to ball history
-    if (!match.ballHistory) {
-      match.ballHistory = [];
+  /**
+   * Check a delivery against the Laws at its place in ballHistory (`index`,
+   * default the end). Every broken rule is returned in `violations` with its
+   * code; the first one is the message.
+   */
+  private assertValidDelivery(
+    match: LocalMatch,
+    delivery: LocalDelivery,
+    index: number = match.ballHistory?.length ?? 0,
+  ): void {
+    const history = (match.ballHistory || []).slice(0, index);
+    const context = this.buildScoringContext(match);
+    const { valid, errors } = validateDelivery(
+      toDeliveryRecord(delivery),
+      history,
+      replayDeliveries(history, context),
+      context,
+    );
+    if (!valid) {
+      throw new BadRequestException({
+        statusCode: 400,
+        error: 'Bad Request',
+        message: errors[0].message,
+        code: errors[0].code,
+        violations: errors,
+      });
     }
-    match.ballHistory.push(ballRecord);
-
-    // Update current score
-    const battingTeam = match.liveState.battingTeam || 'home';
-    const bowlingTeam = battingTeam === 'home' ? 'away' : 'home';
+  }
 
-    if (!match.currentScore) {
-      match.currentScore = {
-        home: { runs: 0, wickets: 0, overs: 0, balls: 0 },
-        away: { runs: 0, wickets: 0, overs: 0, balls: 0 },
-      };
+  /**
+   * Validate a delivery against the match state and its expected position,
+   * then append it to ballHistory and rebuild
+   */
+  private appendDelivery(
+    match: LocalMatchDocument,
+    ballDto: RecordBallDto,
+    scorerId: string,
+  ): void {
+    if (!match.liveState) {
+      this.logger.error(`Match setup not completed: ${match.matchId}`);
+      throw new BadRequestException('Match setup must be completed before scoring');
     }
 
-    // Calculate runs to add
-    // Wide/No-ball: The runs value includes base 1 + additional runs (e.g., wide 4 = 5 total runs)
-    // Normal/Bye/Leg-bye: Use the run value as-is
-    let runsToAdd = ballDto.delivery.runs;
-
-    // Update batting team score
-    match.currentScore[battingTeam].runs += runsToAdd;
-    if (ballDto.delivery.isWicket) {
-      match.currentScore[battingTeam].wickets += 1;
+    const totalInnings = Math.max(getFormatInnings(match.format), match.liveState.currentInnings);
+    if (ballDto.innings > totalInnings) {
+      throw new BadRequestException(
+        `A ${match.format} match has at most ${totalInnings} innings`,
+      );
     }
 
-    // Update overs and balls
-    // Wides and no-balls don't count as legal deliveries
-    if (ballDto.delivery.ballType !== 'wide' && ballDto.delivery.ballType !== 'no_ball') {
-      match.currentScore[battingTeam].balls += 1;
-      if (match.currentScore[battingTeam].balls >= 6) {
-        match.currentScore[battingTeam].overs += 1;
-        match.currentScore[battingTeam].balls = 0;
-      }
+    const expected = this.getExpectedPosition(match);
+    if (
+      ballDto.innings !== expected.innings ||
+      ballDto.over !== expected.over ||
+      ballDto.ball !== expected.ball
+    ) {
+      throw new ConflictException(
+        `Out of sequence: expected innings ${expected.innings} ball ${expected.over}.${expected.ball}, ` +
+          `received innings ${ballDto.innings} ball ${ballDto.over}.${ballDto.ball}`,
+      );
     }
 
-    // Update live state
-    let nextOver = ballDto.over;
-    let nextBall = ballDto.ball;
-
-    // Handle strike rotation
-    let newStrikerId = ballDto.strikerId;
-    let newNonStrikerId = ballDto.nonStrikerId;
-
-    // Handle wicket: incoming batter position depends on runs
-    if (ballDto.delivery.isWicket && ballDto.delivery.incomingBatterId) {
-      // In cricket, when a wicket falls:
-      // - If odd runs: incoming batter comes in at non-striker's end (current non-striker becomes striker)
-      // - If even runs: incoming batter comes in at striker's end (becomes striker)
-      if (ballDto.delivery.runs % 2 === 1) {
-        // Odd runs: incoming batter at non-striker's end
-        newStrikerId = ballDto.nonStrikerId;
-        newNonStrikerId = ballDto.delivery.incomingBatterId;
-      } else {
-        // Even runs: incoming batter at striker's end
-        newStrikerId = ballDto.delivery.incomingBatterId;
-        // Non-striker stays the same
-      }
-    } else {
-      // Strike rotation based on total runs (for all delivery types)
-      // Wide and no-ball: Strike rotates if total runs are odd (e.g., wide 4 = 5 runs = odd = rotate)
-      // Normal, bye, leg_bye: Strike rotates if runs are odd
-      if (ballDto.delivery.runs % 2 === 1) {
-        // Odd runs - swap strike
-        [newStrikerId, newNonStrikerId] = [newNonStrikerId, newStrikerId];
-      }
+    const innings = match.innings?.find((i) => i.number === ballDto.innings);
+    if (innings?.isDeclared) {
+      throw new BadRequestException(`Innings ${ballDto.innings} has been declared`);
+    }
+    if (innings?.isComplete) {
+      throw new BadRequestException(`Innings ${ballDto.innings} is complete`);
     }
 
-    // Increment ball (if not wide/no-ball)
-    if (ballDto.delivery.ballType !== 'wide' && ballDto.delivery.ballType !== 'no_ball') {
-      nextBall += 1;
-      if (nextBall >= 6) {
-        nextOver += 1;
-        nextBall = 0;
-        // End of over - swap strike
-        [newStrikerId, newNonStrikerId] = [newNonStrikerId, newStrikerId];
-      }
+    const ballRecord = this.toBallRecord(match, ballDto, scorerId);
+    this.assertValidDelivery(match, ballRecord);
+
+    // Add to ball history and rebuild score, live state and stats from it
+    if (!match.ballHistory) {
+      match.ballHistory = [];
     }
+    const commentary = generateDeliveryCommentary(ballRecord, this.buildScoringContext(match));
+    match.ballHistory.push({ ...ballRecord, commentary });
+    this.rebuildFromHistory(match);
+  }
 
-    match.liveState.currentOver = nextOver;
-    match.liveState.currentBall = nextBall;
-    match.liveState.strikerId = newStrikerId;
-    match.liveState.nonStrikerId = newNonStrikerId;
+  /**
+   * Record a ball (ball-by-ball scoring)
+   */
+  async recordBall(matchId: string, ballDto: RecordBallDto, scorerId: string): Promise<LocalMatch> {
+    try {
+      this.logger.log(`Recording ball for match ${matchId} by scorer ${scorerId}`);
+      
+      const match = await this.localMatchModel.findOne({ matchId });
+      if (!match) {
+        this.logger.error(`Match not found: ${matchId}`);
+        throw new NotFoundException(`Match with ID ${matchId} not found`);
+      }
+
+      const role = this.getScorerRole(match, scorerId);
+      if (role !== 'primary' && role !== 'co_scorer') {
+        this.logger.error(`Scorer ${scorerId} is not on the roster of match ${matchId}`);
+        throw new ForbiddenException('You are not a scorer on this match');
+      }
+
+      if (match.isLocked) {
+        this.logger.warn(`Attempted to score locked match: ${matchId}`);
+        throw new BadRequestException('Match is locked and cannot be edited');
+      }
 
-    // Calculate current run rate
-    const teamTotalOvers = match.currentScore[battingTeam].overs + (match.currentScore[battingTeam].balls / 6);
-    match.liveState.currentRunRate = teamTotalOvers > 0 
-      ? (match.currentScore[battingTeam].runs / teamTotalOvers) 
-      : 0;
+      if (this.isDuplicateDelivery(match.ballHistory, ballDto)) {
+        this.logger.log(`Delivery ${ballDto.deliveryId} already recorded for match ${matchId}`);
+        return match.toObject();
+      }
 
-    // Calculate partnership (will be updated after batting stats are updated below)
+      this.appendDelivery(match, ballDto, scorerId);
 
-    // Calculate required run rate for chases (second innings)
-    if (ballDto.innings === 2) {
-      // Get first innings total
-      const firstInningsBattingTeam = battingTeam === 'home' ? 'away' : 'home';
-      const firstInningsTotal = match.currentScore[firstInningsBattingTeam]?.runs || 0;
-      match.liveState.target = firstInningsTotal + 1; // Target is first innings total + 1
+    // Update scorer info
+    match.scorerInfo.lastUpdate = new Date();
 
-      const currentRuns = match.currentScore[battingTeam].runs;
-      const runsNeeded = Math.max(0, match.liveState.target - currentRuns);
-      const maxOvers = match.format?.toLowerCase().includes('t20') ? 20 : 
-                      match.format?.toLowerCase().includes('odi') ? 50 : undefined;
-      
-      if (maxOvers) {
-        const oversRemaining = maxOvers - teamTotalOvers;
-        match.liveState.requiredRunRate = oversRemaining > 0 
-          ? (runsNeeded / oversRemaining) 
-          : 0;
+      await this.saveMatch(match);
+      this.publishWinProbability(match);
+      this.logger.log(`Ball recorded successfully for match ${matchId}`);
+      return match.toObject();
+    } catch (error) {
+      this.logger.error(`Error recording ball for match ${matchId}:`, error);
+      if (error instanceof NotFoundException || 
+          error instanceof ForbiddenException || 
+          error instanceof BadRequestException ||
+          error instanceof ConflictException) {
+        throw error; // Re-throw known errors
       }
-    } else {
-      // First innings - no required rate
-      match.liveState.requiredRunRate = undefined;
-      match.liveState.target = undefined;
+      // Wrap unknown errors
+      throw new BadRequestException(`Failed to record ball: ${error.message}`);
     }
+  }
 
-    // Update batting stats
-    if (!match.battingStats) {
-      match.battingStats = [];
+  /**
+   * Record a queue of balls scored offline. Balls already in ballHistory (same
+   * deliveryId) are skipped. On a sequence conflict the whole batch is rejected,
+   * or with onConflict 'reconcile' the queued balls are renumbered to follow on
+   * from what is already recorded. Nothing is saved unless every ball applies.
+   */
+  async recordBallBatch(matchId: string, batchDto: RecordBallBatchDto, scorerId: string) {
+    const match = await this.localMatchModel.findOne({ matchId });
+    if (!match) {
+      throw new NotFoundException(`Match with ID ${matchId} not found`);
     }
 
-    // Helper function to get player name from match setup
-    const getPlayerName = (playerId: string, team: 'home' | 'away'): string => {
-      if (!match.matchSetup) return 'Unknown Player';
-      const playingXI = team === 'home' ? match.matchSetup.homePlayingXI : match.matchSetup.awayPlayingXI;
-      const player = playingXI?.find((p: any) => p.id === playerId);
-      return player?.name || 'Unknown Player';
-    };
+    this.assertScorerRole(match, scorerId, 'You are not a scorer on this match');
 
-    // Update striker stats
-    let strikerStats = match.battingStats.find(
-      (s) => s.playerId === ballDto.strikerId && s.innings === ballDto.innings && s.team === battingTeam,
-    );
-    if (!strikerStats) {
-      strikerStats = {
-        innings: ballDto.innings,
-        team: battingTeam,
-        playerId: ballDto.strikerId,
-        playerName: getPlayerName(ballDto.strikerId, battingTeam),
-        runs: 0,
-        balls: 0,
-        fours: 0,
-        sixes: 0,
-        strikeRate: 0,
-        isOut: false,
-      };
-      match.battingStats.push(strikerStats);
-    } else {
-      // Update playerName if it's missing (for existing stats)
-      if (!strikerStats.playerName || strikerStats.playerName === '') {
-        strikerStats.playerName = getPlayerName(ballDto.strikerId, battingTeam);
-      }
+    if (match.isLocked) {
+      throw new BadRequestException('Match is locked and cannot be edited');
     }
 
-    // Update striker stats for legal deliveries (normal, bye, leg_bye)
-    // Wides and no-balls don't count as balls faced by batter
-    if (ballDto.delivery.ballType === 'normal' || ballDto.delivery.ballType === 'bye' || ballDto.delivery.ballType === 'leg_bye') {
-      // For bye and leg_bye, runs don't count to batter (only team gets runs)
-      // For normal deliveries, batter gets the runs
-      if (ballDto.delivery.ballType === 'normal') {
-        strikerStats.runs += ballDto.delivery.runs;
-        
-        // Auto-detect boundaries (only for normal deliveries)
-        if (ballDto.delivery.isSix || ballDto.delivery.runs === 6) {
-          strikerStats.sixes += 1;
-        } else if (ballDto.delivery.isBoundary || ballDto.delivery.runs === 4) {
-          strikerStats.fours += 1;
+    const reconcile = batchDto.onConflict === 'reconcile';
+    const applied: string[] = [];
+    const duplicates: string[] = [];
+    const renumbered: Array<{ deliveryId: string; from: string; to: string }> = [];
+
+    batchDto.balls.forEach((ballDto, index) => {
+      if (!ballDto.deliveryId) {
+        throw new BadRequestException(`Ball ${index + 1} has no deliveryId`);
+      }
+
+      try {
+        if (this.isDuplicateDelivery(match.ballHistory, ballDto)) {
+          duplicates.push(ballDto.deliveryId);
+          return;
+        }
+
+        const expected = this.getExpectedPosition(match);
+        if (
+          reconcile &&
+          ballDto.innings === expected.innings &&
+          (ballDto.over !== expected.over || ballDto.ball !== expected.ball)
+        ) {
+          renumbered.push({
+            deliveryId: ballDto.deliveryId,
+            from: `${ballDto.over}.${ballDto.ball}`,
+            to: `${expected.over}.${expected.ball}`,
+          });
+          ballDto.over = expected.over;
+          ballDto.ball = expected.ball;
+        }
+
+        this.appendDelivery(match, ballDto, scorerId);
+        applied.push(ballDto.deliveryId);
+      } catch (error) {
+        if (error instanceof BadRequestException || error instanceof ConflictException) {
+          // Keep the rule code of a delivery that breaks the Laws
+          const { code, violations } = error.getResponse() as {
+            code?: string;
+            violations?: unknown[];
+          };
+          throw new ConflictException({
+            statusCode: 409,
+            error: 'Conflict',
+            message:
+              `Ball ${index + 1} (${ballDto.deliveryId}) rejected: ${error.message}. ` +
+              'No balls from this batch were saved.',
+            code,
+            violations,
+          });
         }
+        throw error;
       }
-      // Bye and leg_bye: runs don't count to batter, but ball counts
-      strikerStats.balls += 1;
-      
-      strikerStats.strikeRate = strikerStats.balls > 0 ? (strikerStats.runs / strikerStats.balls) * 100 : 0;
-    }
-    // Wides and no-balls: No ball faced, no runs to batter (only team gets runs)
+    });
 
-    if (ballDto.delivery.isWicket && ballDto.delivery.dismissedBatterId === ballDto.strikerId) {
-      strikerStats.isOut = true;
-      strikerStats.dismissalType = ballDto.delivery.dismissalType;
-      strikerStats.dismissedBy = ballDto.bowlerId;
-      strikerStats.fielderId = ballDto.delivery.fielderId;
-      strikerStats.fowScore = match.currentScore[battingTeam].runs;
-      strikerStats.fowBalls = match.currentScore[battingTeam].overs * 6 + match.currentScore[battingTeam].balls;
+    if (applied.length > 0) {
+      match.scorerInfo.lastUpdate = new Date();
+      await this.saveMatch(match);
+      this.publishWinProbability(match);
     }
 
-    // Update non-striker stats (for partnership calculation)
-    let nonStrikerStats = match.battingStats.find(
-      (s) => s.playerId === ballDto.nonStrikerId && s.innings === ballDto.innings && s.team === battingTeam,
+    this.logger.log(
+      `Batch for match ${matchId}: ${applied.length} applied, ${duplicates.length} duplicates, ` +
+        `${renumbered.length} renumbered`,
     );
-    if (!nonStrikerStats) {
-      nonStrikerStats = {
-        innings: ballDto.innings,
-        team: battingTeam,
-        playerId: ballDto.nonStrikerId,
-        playerName: getPlayerName(ballDto.nonStrikerId, battingTeam),
-        runs: 0,
-        balls: 0,
-        fours: 0,
-        sixes: 0,
-        strikeRate: 0,
-        isOut: false,
-      };
-      match.battingStats.push(nonStrikerStats);
-    } else {
-      // Update playerName if it's missing (for existing stats)
-      if (!nonStrikerStats.playerName || nonStrikerStats.playerName === '') {
-        nonStrikerStats.playerName = getPlayerName(ballDto.nonStrikerId, battingTeam);
-      }
+    return {
+      match: match.toObject(),
+      applied,
+      duplicates,
+      renumbered,
+    };
+  }
+
+  /**
+   * Undo last ball
+   */
+  async undoLastBall(matchId: string, scorerId: string, scorerName?: string): Promise<LocalMatch> {
+    const match = await this.localMatchModel.findOne({ matchId });
+    if (!match) {
+      throw new NotFoundException(`Match with ID ${matchId} not found`);
     }
 
-    // Calculate partnership from updated stats
-    // Partnership runs = sum of both current batters' runs in this innings
-    match.liveState.partnershipRuns = (strikerStats.runs || 0) + (nonStrikerStats.runs || 0);
-    // Partnership balls = total balls faced by both batters
-    match.liveState.partnershipBalls = (strikerStats.balls || 0) + (nonStrikerStats.balls || 0);
+    this.assertScorerRole(match, scorerId, 'You are not a scorer on this match');
 
-    // Update bowling stats
-    if (!match.bowlingStats) {
-      match.bowlingStats = [];
+    if (match.isLocked) {
+      throw new BadRequestException('Match is locked and cannot be edited');
     }
 
-    let bowlerStats = match.bowlingStats.find(
-      (s) => s.playerId === ballDto.bowlerId && s.innings === ballDto.innings && s.team === bowlingTeam,
-    );
-    if (!bowlerStats) {
-      bowlerStats = {
-        innings: ballDto.innings,
-        team: bowlingTeam,
-        playerId: ballDto.bowlerId,
-        playerName: getPlayerName(ballDto.bowlerId, bowlingTeam),
-        overs: 0,
-        balls: 0,
-        maidens: 0,
-        runs: 0,
-        wickets: 0,
-        economy: 0,
-        wides: 0,
-        noBalls: 0,
-      };
-      match.bowlingStats.push(bowlerStats);
-    } else {
-      // Update playerName if it's missing (for existing stats)
-      if (!bowlerStats.playerName || bowlerStats.playerName === '') {
-        bowlerStats.playerName = getPlayerName(ballDto.bowlerId, bowlingTeam);
-      }
+    if (!match.ballHistory || match.ballHistory.length === 0) {
+      throw new BadRequestException('No balls to undo');
     }
 
-    // Update bowler stats
-    // All runs (including extras) count towards bowler's economy
-    bowlerStats.runs += runsToAdd;
-    
-    if (ballDto.delivery.ballType === 'wide') {
-      bowlerStats.wides += 1;
-      // Wide doesn't count as a ball bowled
-    } else if (ballDto.delivery.ballType === 'no_ball') {
-      bowlerStats.noBalls += 1;
-      // No-ball doesn't count as a ball bowled
-    } else {
-      // Normal delivery (normal, bye, leg_bye) - increment balls, then calculate overs
-      bowlerStats.balls = (bowlerStats.balls || 0) + 1;
-      if (bowlerStats.balls >= 6) {
-        bowlerStats.overs += 1;
-        bowlerStats.balls = 0;
-      }
-    }
+    // Remove last ball and rebuild everything from the remaining history
+    const lastBall = match.ballHistory.pop()!;
+    this.rebuildFromHistory(match);
 
-    if (ballDto.delivery.isWicket && ballDto.delivery.bowlerId === ballDto.bowlerId) {
-      bowlerStats.wickets += 1;
+    // The undone ball is the next one to be bowled
+    if (match.liveState && match.liveState.currentInnings === lastBall.innings) {
+      match.liveState.strikerId = lastBall.strikerId;
+      match.liveState.nonStrikerId = lastBall.nonStrikerId;
+      match.liveState.bowlerId = lastBall.bowlerId;
     }
 
-    // Calculate economy rate
-    const totalOvers = bowlerStats.overs + ((bowlerStats.balls || 0) / 6);
-    bowlerStats.economy = totalOvers > 0 ? (bowlerStats.runs / totalOvers) : 0;
+    this.recordAudit(match, {
+      action: 'undo_ball',
+      innings: lastBall.innings,
+      over: lastBall.over,
+      ball: lastBall.ball,
+      before: this.snapshotDelivery(lastBall),
+      changedBy: scorerId,
+      changedByName: scorerName,
+    });
 
-    // Update scorer info
     match.scorerInfo.lastUpdate = new Date();
+    await this.saveMatch(match);
+    this.publishWinProbability(match, true);
+    return match.toObject();
+  }
 
-      await match.save();
-      this.logger.log(`Ball recorded successfully for match ${matchId}`);
-      return match.toObject();
-    } catch (error) {
-      this.logger.error(`Error recording ball for match ${matchId}:`, error);
-      if (error instanceof NotFoundException || 
-          error instanceof ForbiddenException || 
-          error instanceof BadRequestException) {
-        throw error; // Re-throw known errors
-      }
-      // Wrap unknown errors
-      throw new BadRequestException(`Failed to record ball: ${error.message}`);
+  /**
+   * Amend any recorded delivery. Later strike rotation, partnerships,
+   * fall-of-wicket figures and bowler figures are recomputed from the history.
+   */
+  async editBall(
+    matchId: string,
+    position: { innings: number; over: number; ball: number; occurrence?: number },
+    editDto: EditBallDto,
+    scorerId: string,
+    scorerName?: string,
+  ): Promise<LocalMatch> {
+    const match = await this.localMatchModel.findOne({ matchId });
+    if (!match) {
+      throw new NotFoundException(`Match with ID ${matchId} not found`);
     }
+
+    this.assertScorerRole(match, scorerId, 'You are not a scorer on this match');
+
+    if (match.isLocked) {
+      throw new BadRequestException('Match is locked and cannot be edited');
+    }
+
+    const index = this.findDeliveryIndex(match, position);
+    const delivery = match.ballHistory![index];
+    const before = this.snapshotDelivery(delivery);
+
+    delivery.strikerId = editDto.strikerId ?? delivery.strikerId;
+    delivery.nonStrikerId = editDto.nonStrikerId ?? delivery.nonStrikerId;
+    delivery.bowlerId = editDto.bowlerId ?? delivery.bowlerId;
+    delivery.runs = editDto.delivery.runs;
+    delivery.ballType = editDto.delivery.ballType;
+    delivery.penaltyRuns = editDto.delivery.penaltyRuns ?? 0;
+    delivery.isWicket = editDto.delivery.isWicket || false;
+    delivery.dismissalType = editDto.delivery.dismissalType;
+    delivery.dismissedBatterId = editDto.delivery.dismissedBatterId;
+    delivery.fielderId = editDto.delivery.fielderId;
+    delivery.incomingBatterId = editDto.delivery.incomingBatterId;
+    delivery.isBoundary = editDto.delivery.isBoundary || false;
+    delivery.isSix = editDto.delivery.isSix || false;
+    delivery.shotZone = editDto.delivery.shotZone;
+    delivery.shotAngle = editDto.delivery.shotAngle;
+    delivery.shotDistance = editDto.delivery.shotDistance;
+    delivery.pitchLine = editDto.delivery.pitchLine;
+    delivery.pitchLength = editDto.delivery.pitchLength;
+    this.assertValidDelivery(match, delivery, index);
+
+    this.realignAndRebuild(match);
+
+    this.recordAudit(match, {
+      action: 'edit_ball',
+      innings: position.innings,
+      over: position.over,
+      ball: position.ball,
+      before,
+      after: this.snapshotDelivery(match.ballHistory![index]),
+      reason: editDto.reason,
+      changedBy: scorerId,
+      changedByName: scorerName,
+    });
+
+    match.scorerInfo.lastUpdate = new Date();
+    await this.saveMatch(match);
+    this.publishWinProbability(match, true);
+    this.logger.log(
+      `Edited delivery ${position.innings}:${position.over}.${position.ball} in match ${matchId}`,
+    );
+    return match.toObject();
   }
 
   /**
-   * Undo last ball
+   * Remove any recorded delivery and recompute everything after it
    */
-  async undoLastBall(matchId: string, scorerId: string): Promise<LocalMatch> {
+  async deleteBall(
+    matchId: string,
+    position: { innings: number; over: number; ball: number; occurrence?: number },
+    scorerId: string,
+    scorerName?: string,
+    reason?: string,
+  ): Promise<LocalMatch> {
     const match = await this.localMatchModel.findOne({ matchId });
     if (!match) {
       throw new NotFoundException(`Match with ID ${matchId} not found`);
     }
 
-    if (match.scorerInfo.scorerId !== scorerId) {
-      throw new ForbiddenException('You can only undo balls in matches you created');
+    this.assertScorerRole(match, scorerId, 'You are not a scorer on this match');
+
+    if (match.isLocked) {
+      throw new BadRequestException('Match is locked and cannot be edited');
     }
 
+    const index = this.findDeliveryIndex(match, position);
+    const [removed] = match.ballHistory!.splice(index, 1);
+
+    this.realignAndRebuild(match);
+
+    this.recordAudit(match, {
+      action: 'delete_ball',
+      innings: position.innings,
+      over: position.over,
+      ball: position.ball,
+      before: this.snapshotDelivery(removed),
+      reason,
+      changedBy: scorerId,
+      changedByName: scorerName,
+    });
+
+    match.scorerInfo.lastUpdate = new Date();
+    await this.saveMatch(match);
+    this.publishWinProbability(match, true);
+    this.logger.log(
+      `Deleted delivery ${position.innings}:${position.over}.${position.ball} in match ${matchId}`,
+    );
+    return match.toObject();
+  }
+
+  /**
+   * Start second innings
+   */
+  async startSecondInnings(
+    matchId: string,
+    openingBatter1Id: string,
+    openingBatter2Id: string,
+    firstBowlerId: string,
+    scorerId: string,
+  ): Promise<LocalMatch> {
+    const match = await this.localMatchModel.findOne({ matchId }).lean();
+    if (!match) {
+      throw new NotFoundException(`Match with ID ${matchId} not found`);
+    }
+
+    this.assertScorerRole(match, scorerId, 'You are not a scorer on this match');
+
+    if (!match.liveState || match.liveState.currentInnings !== 1) {
+      throw new BadRequestException('Second innings can only be started after first innings');
+    }
+
+    return this.startNextInnings(
+      matchId,
+      { openingBatter1Id, openingBatter2Id, firstBowlerId },
+      scorerId,
+    );
+  }
+
+  /**
+   * Start the next innings. The sides alternate unless the follow-on is
+   * enforced, in which case the side that batted second bats again. After a
+   * tie in a limited-overs match the next innings start a super over.
+   */
+  async startNextInnings(
+    matchId: string,
+    startDto: StartInningsDto,
+    scorerId: string,
+  ): Promise<LocalMatch> {
+    const match = await this.localMatchModel.findOne({ matchId });
+    if (!match) {
+      throw new NotFoundException(`Match with ID ${matchId} not found`);
+    }
+
+    this.assertScorerRole(match, scorerId, 'You are not a scorer on this match');
+
     if (match.isLocked) {
       throw new BadRequestException('Match is locked and cannot be edited');
     }
 
-    if (!match.ballHistory || match.ballHistory.length === 0) {
-      throw new BadRequestException('No balls to undo');
+    if (!match.liveState) {
+      throw new BadRequestException('Match setup must be completed before starting an innings');
     }
 
-    // Remove last ball
-    const lastBall = match.ballHistory.pop()!;
+    const totalInnings = getFormatInnings(match.format);
+    const nextInnings = match.liveState.currentInnings + 1;
+    const isSuperOver = isSuperOverInnings(this.buildScoringContext(match), nextInnings);
+    // A tie can be broken by a super over, which starts a new pair of innings
+    const startsSuperOver = isSuperOver && nextInnings % 2 === 1;
+    const isTied = match.status === 'completed' && match.matchResult?.winner === 'tie';
+
+    if (match.status === 'completed' && !(startsSuperOver && isTied)) {
+      throw new BadRequestException('Match has already been decided');
+    }
 
-    // Revert score
-    const battingTeam = match.liveState?.battingTeam || 'home';
+    if (nextInnings > totalInnings && !isSuperOver) {
+      throw new BadRequestException(`A ${match.format} match has at most ${totalInnings} innings`);
+    }
 
-    // Calculate runs to subtract
-    let runsToSubtract = lastBall.runs;
-    if (lastBall.ballType === 'wide' || lastBall.ballType === 'no_ball') {
-      runsToSubtract = 1;
+    if (startsSuperOver && !isTied) {
+      throw new BadRequestException('A super over can only be played after a tie');
     }
 
-    if (match.currentScore) {
-      match.currentScore[battingTeam].runs = Math.max(0, match.currentScore[battingTeam].runs - runsToSubtract);
-      if (lastBall.isWicket) {
-        match.currentScore[battingTeam].wickets = Math.max(0, match.currentScore[battingTeam].wickets - 1);
+    // The side that batted second bats first in a super over
+    const previousBattingTeam = match.liveState.battingTeam || 'home';
+    let battingTeam = startsSuperOver ? previousBattingTeam : oppositeTeam(previousBattingTeam);
+
+    if (startDto.enforceFollowOn) {
+      if (nextInnings !== 3 || totalInnings !== 4) {
+        throw new BadRequestException(
+          'The follow-on can only be enforced at the start of the third innings',
+        );
       }
 
-      // Revert overs and balls
-      if (lastBall.ballType !== 'wide' && lastBall.ballType !== 'no_ball') {
-        if (match.currentScore[battingTeam].balls === 0) {
-          match.currentScore[battingTeam].overs = Math.max(0, match.currentScore[battingTeam].overs - 1);
-          match.currentScore[battingTeam].balls = 5;
-        } else {
-          match.currentScore[battingTeam].balls = Math.max(0, match.currentScore[battingTeam].balls - 1);
-        }
+      const firstTwo = (match.innings || []).filter((i) => i.number <= 2);
+      const lead = getLead(firstTwo, battingTeam);
+      const margin = getFollowOnMargin(match.format);
+      if (lead < margin) {
+        throw new BadRequestException(
+          `Follow-on requires a first-innings lead of at least ${margin} runs (current lead: ${lead})`,
+        );
       }
+
+      battingTeam = previousBattingTeam;
     }
 
-    // Revert live state
-    if (match.liveState) {
-      match.liveState.currentOver = lastBall.over;
-      match.liveState.currentBall = lastBall.ball;
+    match.innings = [
+      ...(match.innings || []).filter((i) => i.number !== nextInnings),
+      {
+        ...this.createInningsEntry(nextInnings, battingTeam, isSuperOver),
+        isFollowOn: !!startDto.enforceFollowOn,
+      },
+    ];
+
+    match.liveState.currentInnings = nextInnings;
+    match.liveState.battingTeam = battingTeam;
+    match.liveState.strikerId = startDto.openingBatter1Id;
+    match.liveState.nonStrikerId = startDto.openingBatter2Id;
+    match.liveState.bowlerId = startDto.firstBowlerId;
+    match.liveState.isInningsBreak = false;
+    this.rebuildFromHistory(match);
+
+    match.scorerInfo.lastUpdate = new Date();
+    await this.saveMatch(match);
+    this.logger.log(`Started innings ${nextInnings} (${battingTeam} batting) in match ${matchId}`);
+
+    return match.toObject();
+  }
+
+  /**
+   * Declare the current innings closed (Test/first-class only)
+   */
+  async declareInnings(matchId: string, scorerId: string): Promise<LocalMatch> {
+    const match = await this.localMatchModel.findOne({ matchId });
+    if (!match) {
+      throw new NotFoundException(`Match with ID ${matchId} not found`);
+    }
+
+    this.assertScorerRole(match, scorerId, 'You are not a scorer on this match');
+
+    if (match.isLocked) {
+      throw new BadRequestException('Match is locked and cannot be edited');
     }
 
+    if (getFormatInnings(match.format) < 4) {
+      throw new BadRequestException(
+        'Declarations are only allowed in Test and first-class matches',
+      );
+    }
+
+    if (!match.liveState) {
+      throw new BadRequestException('Match setup must be completed before declaring');
+    }
+
+    const { currentInnings, battingTeam } = match.liveState;
+    let innings = match.innings?.find((i) => i.number === currentInnings);
+    if (!innings) {
+      match.innings = [
+        ...(match.innings || []),
+        this.createInningsEntry(currentInnings, battingTeam || 'home'),
+      ];
+      innings = match.innings.find((i) => i.number === currentInnings)!;
+    }
+
+    if (innings.isDeclared) {
+      throw new BadRequestException(`Innings ${currentInnings} has already been declared`);
+    }
+
+    innings.isDeclared = true;
+    innings.isComplete = true;
+    match.liveState.isInningsBreak = true;
+
     match.scorerInfo.lastUpdate = new Date();
-    await match.save();
+    await this.saveMatch(match);
+    this.logger.log(`Innings ${currentInnings} declared in match ${matchId}`);
+
     return match.toObject();
   }
 
   /**
-   * Start second innings
+   * Record overs lost to a stoppage in the current innings of a limited-overs
+   * match. The overs limit, DLS target and par score are recomputed.
    */
-  async startSecondInnings(
+  async recordInterruption(
     matchId: string,
-    openingBatter1Id: string,
-    openingBatter2Id: string,
-    firstBowlerId: string,
+    interruptionDto: RecordInterruptionDto,
     scorerId: string,
   ): Promise<LocalMatch> {
     const match = await this.localMatchModel.findOne({ matchId });
@@ -834,44 +1695,73 @@ export class LocalMatchService {
       throw new NotFoundException(`Match with ID ${matchId} not found`);
     }
 
-    if (match.scorerInfo.scorerId !== scorerId) {
-      throw new ForbiddenException('You can only manage matches you created');
+    this.assertScorerRole(match, scorerId, 'You are not a scorer on this match');
+
+    if (match.isLocked) {
+      throw new BadRequestException('Match is locked and cannot be edited');
+    }
+
+    if (!match.liveState) {
+      throw new BadRequestException('Match setup must be completed before recording a stoppage');
     }
 
-    if (!match.liveState || match.liveState.currentInnings !== 1) {
-      throw new BadRequestException('Second innings can only be started after first innings');
+    const context = this.buildScoringContext(match);
+    const { currentInnings } = match.liveState;
+    const oversLimit = getAllottedOvers(context, currentInnings);
+    if (oversLimit === undefined || currentInnings > 2) {
+      throw new BadRequestException('Overs can only be reduced in limited-overs matches');
     }
 
-    // Determine second innings batting team (opposite of first innings)
-    const firstInningsBattingTeam = match.liveState.battingTeam || 'home';
-    const secondInningsBattingTeam = firstInningsBattingTeam === 'home' ? 'away' : 'home';
+    const innings = replayDeliveries(match.ballHistory || [], context).innings.find(
+      (i) => i.number === currentInnings,
+    );
+    const ballsPerOver = context.ballsPerOver ?? 6;
+    const ballsBowled = innings ? innings.overs * ballsPerOver + innings.balls : 0;
+    const oversLeft = oversLimit - ballsBowled / ballsPerOver;
+    if (innings?.isComplete || interruptionDto.oversLost > Math.ceil(oversLeft)) {
+      throw new BadRequestException(
+        `Only ${Math.max(0, Math.ceil(oversLeft))} over(s) remain in innings ${currentInnings}`,
+      );
+    }
 
-    // Update live state for second innings
-    match.liveState.currentInnings = 2;
-    match.liveState.battingTeam = secondInningsBattingTeam;
-    match.liveState.strikerId = openingBatter1Id;
-    match.liveState.nonStrikerId = openingBatter2Id;
-    match.liveState.bowlerId = firstBowlerId;
-    match.liveState.currentOver = 0;
-    match.liveState.currentBall = 0;
-    match.liveState.isInningsBreak = false;
+    if (!match.interruptions) {
+      match.interruptions = [];
+    }
+    match.interruptions.push({
+      innings: currentInnings,
+      ballsBowled,
+      wickets: innings?.wickets || 0,
+      oversLost: interruptionDto.oversLost,
+      reason: interruptionDto.reason,
+      recordedBy: scorerId,
+      recordedAt: new Date(),
+    });
+    this.rebuildFromHistory(match);
 
     match.scorerInfo.lastUpdate = new Date();
-    await match.save();
+    await this.saveMatch(match);
+    this.publishWinProbability(match, true);
+    this.logger.log(
+      `Recorded ${interruptionDto.oversLost} over(s) lost in innings ${currentInnings} of match ${matchId}`,
+    );
 
     return match.toObject();
   }
 
   /**
-   * Complete and lock a match
+   * Complete and lock a match. Without a winner from the scorer the result is
+   * worked out from the scorecard; an undecided match is a draw (Test and
+   * first-class) or no result (limited overs). Player of the match and the
+   * key performers are proposed from impact scores unless the scorer names them.
    */
   async completeMatch(
     matchId: string,
     scorerId: string,
     matchResult?: {
-      winner?: 'home' | 'away' | 'tie' | 'no_result';
+      winner?: 'home' | 'away' | 'tie' | 'draw' | 'no_result';
       margin?: string;
       keyPerformers?: Array<{ playerId: string; playerName: string; role: string; performance: string }>;
+      playerOfMatchId?: string;
       notes?: string;
     },
   ): Promise<LocalMatch> {
@@ -880,26 +1770,85 @@ export class LocalMatchService {
       throw new NotFoundException(`Match with ID ${matchId} not found`);
     }
 
-    // Check if scorer owns this match
-    if (match.scorerInfo.scorerId !== scorerId) {
-      throw new ForbiddenException('You can only complete matches you created');
+    // Check the scorer is on this match's roster
+    this.assertScorerRole(match, scorerId, 'Only the primary scorer can complete this match', [
+      'primary',
+    ]);
+
+    // A match decided on the scorecard is completed but stays open until locked here
+    if (match.isLocked) {
+      throw new BadRequestException('Match is already completed and locked');
+    }
+
+    if (matchResult?.winner === 'draw' && getFormatInnings(match.format) < 4) {
+      throw new BadRequestException('Only Test and first-class matches can be drawn');
+    }
+
+    const context = this.buildScoringContext(match);
+    const state = replayDeliveries(match.ballHistory || [], context);
+    const outcome = getMatchOutcome(state, context);
+    const undecided = getFormatInnings(match.format) === 4 ? 'draw' : 'no_result';
+    const winner = matchResult?.winner || (outcome.isComplete && outcome.winner) || undecided;
+
+    // A margin typed by the scorer takes precedence over the computed one,
+    // keeping the scorecard's DLS method and balls remaining where they apply
+    let decided = outcome;
+    if (matchResult?.margin && (winner === 'home' || winner === 'away')) {
+      const typed = this.parseMargin(matchResult.margin);
+      const computed = outcome.isComplete && outcome.winner === winner ? outcome : undefined;
+      decided = {
+        ...computed,
+        ...typed,
+        isComplete: true,
+        winner,
+        ballsRemaining:
+          typed.marginType === computed?.marginType ? computed?.ballsRemaining : undefined,
+      };
     }
+    const result = this.describeResult(match, winner, decided);
+
+    const impact = calculateImpactScores(
+      getLocalContributions(state, match.ballHistory || [], context),
+      { winningTeam: winner === 'home' || winner === 'away' ? winner : undefined },
+    );
+    let playerOfMatch: NonNullable<LocalMatch['matchResult']>['playerOfMatch'] = impact[0] && {
+      playerId: impact[0].playerId,
+      playerName: impact[0].playerName,
+      impactScore: impact[0].score,
+      isAutomatic: true,
+    };
+    if (matchResult?.playerOfMatchId) {
+      const playerId = matchResult.playerOfMatchId;
+      const playerName = getLocalPlayerName(context, playerId);
+      if (playerName === 'Unknown Player') {
+        throw new BadRequestException(`Player ${playerId} is not in either playing XI`);
+      }
+      const score = impact.find((p) => p.playerId === playerId)?.score;
+      playerOfMatch = { playerId, playerName, impactScore: score, isAutomatic: false };
+    }
+    const existingPerformers = match.matchResult?.keyPerformers;
 
     match.status = 'completed';
-    match.endTime = new Date();
+    match.endTime = match.endTime || new Date();
     match.isLocked = true;
-
-    if (matchResult) {
-      match.matchResult = {
-        winner: matchResult.winner,
-        margin: matchResult.margin,
-        keyPerformers: matchResult.keyPerformers || [],
-        notes: matchResult.notes,
-      };
-    }
+    match.matchResult = {
+      ...result,
+      keyPerformers:
+        matchResult?.keyPerformers ||
+        (existingPerformers?.length ? existingPerformers : undefined) ||
+        impact.slice(0, KEY_PERFORMERS).map((p) => ({
+          playerId: p.playerId,
+          playerName: p.playerName,
+          role: p.role,
+          performance: p.performance,
+          impactScore: p.score,
+        })),
+      playerOfMatch,
+      notes: matchResult?.notes ?? match.matchResult?.notes,
+    };
 
     match.scorerInfo.lastUpdate = new Date();
-    await match.save();
+    await this.saveMatch(match);
 
     return match.toObject();
   }
@@ -917,9 +1866,7 @@ export class LocalMatchService {
       throw new NotFoundException(`Match with ID ${matchId} not found`);
     }
 
-    if (match.scorerInfo.scorerId !== scorerId) {
-      throw new ForbiddenException('You can only update matches you created');
-    }
+    this.assertScorerRole(match, scorerId, 'You are not a scorer on this match');
 
     if (match.isLocked) {
       throw new BadRequestException('Match is locked and cannot be edited');
@@ -943,14 +1890,15 @@ export class LocalMatchService {
       match.liveState.currentOver = updateDto.currentOver;
     }
     if (updateDto.currentBall !== undefined) {
-      if (updateDto.currentBall < 0 || updateDto.currentBall > 5) {
-        throw new BadRequestException('Ball number must be between 0 and 5');
+      const ballsPerOver = match.rules?.ballsPerOver ?? 6;
+      if (updateDto.currentBall < 0 || updateDto.currentBall >= ballsPerOver) {
+        throw new BadRequestException(`Ball number must be between 0 and ${ballsPerOver - 1}`);
       }
       match.liveState.currentBall = updateDto.currentBall;
     }
 
     match.scorerInfo.lastUpdate = new Date();
-    await match.save();
+    await this.saveMatch(match);
     return match.toObject();
   }
 
@@ -967,10 +1915,8 @@ export class LocalMatchService {
       throw new NotFoundException(`Match with ID ${matchId} not found`);
     }
 
-    // Check if scorer owns this match
-    if (match.scorerInfo.scorerId !== scorerId) {
-      throw new ForbiddenException('You can only update matches you created');
-    }
+    // Check the scorer is on this match's roster
+    this.assertScorerRole(match, scorerId, 'You are not a scorer on this match');
 
     // Store old status before validation
     const oldStatus = match.status as 'live' | 'completed' | 'upcoming' | 'cancelled';
@@ -1003,7 +1949,7 @@ export class LocalMatchService {
 
     match.status = status;
     match.scorerInfo.lastUpdate = new Date();
-    await match.save();
+    await this.saveMatch(match);
 
     return match.toObject();
   }
@@ -1017,10 +1963,10 @@ export class LocalMatchService {
       throw new NotFoundException(`Match with ID ${matchId} not found`);
     }
 
-    // Check if scorer owns this match
-    if (match.scorerInfo.scorerId !== scorerId) {
-      throw new ForbiddenException('You can only delete matches you created');
-    }
+    // Check the scorer is on this match's roster
+    this.assertScorerRole(match, scorerId, 'Only the primary scorer can delete this match', [
+      'primary',
+    ]);
 
     // Prevent deletion of completed matches
     if (match.status === 'completed') {
@@ -1029,5 +1975,511 @@ export class LocalMatchService {
 
     await this.localMatchModel.deleteOne({ matchId });
   }
-}
 
+  /**
+   * Registered, non-suspended scorer by scorer ID
+   */
+  private async findRegisteredScorer(scorerId: string) {
+    const user = await this.userModel
+      .findOne({ 'scorerProfile.scorerId': scorerId, 'scorerProfile.isScorer': true })
+      .select('+scorerProfile')
+      .lean();
+    if (!user) {
+      throw new NotFoundException(`Scorer ${scorerId} not found`);
+    }
+    if (user.scorerProfile?.verificationStatus === 'suspended') {
+      throw new BadRequestException(`Scorer ${scorerId} is suspended`);
+    }
+    return user;
+  }
+
+  /**
+   * Scorer roster for a match (visible to anyone on it)
+   */
+  async getMatchScorers(matchId: string, scorerId: string) {
+    const match = await this.localMatchModel.findOne({ matchId }).lean();
+    if (!match) {
+      throw new NotFoundException(`Match with ID ${matchId} not found`);
+    }
+
+    this.assertScorerRole(match as LocalMatch, scorerId, 'You are not a scorer on this match', [
+      'primary',
+      'co_scorer',
+      'verifier',
+    ]);
+
+    return this.getRoster(match as LocalMatch);
+  }
+
+  /**
+   * Add a co-scorer or verifier to the roster (primary scorer only)
+   */
+  async addMatchScorer(
+    matchId: string,
+    addDto: AddMatchScorerDto,
+    scorerId: string,
+    scorerName?: string,
+  ): Promise<LocalMatch> {
+    const match = await this.localMatchModel.findOne({ matchId });
+    if (!match) {
+      throw new NotFoundException(`Match with ID ${matchId} not found`);
+    }
+
+    this.assertScorerRole(match, scorerId, 'Only the primary scorer can manage scorers', [
+      'primary',
+    ]);
+
+    if (this.getScorerRole(match, addDto.scorerId)) {
+      throw new ConflictException(`Scorer ${addDto.scorerId} is already on this match`);
+    }
+
+    const scorer = await this.findRegisteredScorer(addDto.scorerId);
+    match.scorers = [
+      ...this.getRoster(match),
+      {
+        scorerId: addDto.scorerId,
+        scorerName: scorer.name,
+        role: addDto.role,
+        addedBy: scorerId,
+        addedAt: new Date(),
+      },
+    ];
+
+    this.recordAudit(match, {
+      action: 'add_scorer',
+      after: { scorerId: addDto.scorerId, role: addDto.role },
+      changedBy: scorerId,
+      changedByName: scorerName,
+    });
+
+    await this.saveMatch(match);
+    this.logger.log(`Added ${addDto.role} ${addDto.scorerId} to match ${matchId}`);
+    return match.toObject();
+  }
+
+  /**
+   * Remove a co-scorer or verifier from the roster (primary scorer only)
+   */
+  async removeMatchScorer(
+    matchId: string,
+    targetScorerId: string,
+    scorerId: string,
+    scorerName?: string,
+  ): Promise<LocalMatch> {
+    const match = await this.localMatchModel.findOne({ matchId });
+    if (!match) {
+      throw new NotFoundException(`Match with ID ${matchId} not found`);
+    }
+
+    this.assertScorerRole(match, scorerId, 'Only the primary scorer can manage scorers', [
+      'primary',
+    ]);
+
+    const role = this.getScorerRole(match, targetScorerId);
+    if (!role) {
+      throw new NotFoundException(`Scorer ${targetScorerId} is not on this match`);
+    }
+    if (role === 'primary') {
+      throw new BadRequestException('The primary scorer must hand over before leaving');
+    }
+
+    match.scorers = this.getRoster(match).filter((s) => s.scorerId !== targetScorerId);
+
+    this.recordAudit(match, {
+      action: 'remove_scorer',
+      before: { scorerId: targetScorerId, role },
+      changedBy: scorerId,
+      changedByName: scorerName,
+    });
+
+    await this.saveMatch(match);
+    this.logger.log(`Removed ${role} ${targetScorerId} from match ${matchId}`);
+    return match.toObject();
+  }
+
+  /**
+   * Hand the match over to another scorer, who becomes primary. The outgoing
+   * primary leaves the roster unless `stayAs` keeps them on.
+   */
+  async handoverMatch(
+    matchId: string,
+    handoverDto: HandoverMatchDto,
+    scorerId: string,
+    scorerName?: string,
+  ): Promise<LocalMatch> {
+    const match = await this.localMatchModel.findOne({ matchId });
+    if (!match) {
+      throw new NotFoundException(`Match with ID ${matchId} not found`);
+    }
+
+    this.assertScorerRole(match, scorerId, 'Only the primary scorer can hand over this match', [
+      'primary',
+    ]);
+
+    if (handoverDto.toScorerId === scorerId) {
+      throw new BadRequestException('You are already the primary scorer');
+    }
+
+    const incoming = await this.findRegisteredScorer(handoverDto.toScorerId);
+    const stayAs = handoverDto.stayAs;
+    const remaining = this.getRoster(match)
+      .filter((s) => s.scorerId !== handoverDto.toScorerId)
+      .filter((s) => s.scorerId !== scorerId || stayAs)
+      .map((s) => (s.scorerId === scorerId && stayAs ? { ...s, role: stayAs } : s));
+    match.scorers = [
+      ...remaining,
+      {
+        scorerId: handoverDto.toScorerId,
+        scorerName: incoming.name,
+        role: 'primary',
+        addedBy: scorerId,
+        addedAt: new Date(),
+      },
+    ];
+
+    match.scorerInfo.scorerId = handoverDto.toScorerId;
+    match.scorerInfo.scorerName = incoming.name;
+    match.scorerInfo.scorerType = (incoming.scorerProfile?.scorerType ||
+      match.scorerInfo.scorerType) as 'official' | 'volunteer' | 'community';
+    match.scorerInfo.lastUpdate = new Date();
+
+    this.recordAudit(match, {
+      action: 'handover',
+      before: { primary: scorerId },
+      after: { primary: handoverDto.toScorerId, previousPrimaryRole: stayAs },
+      reason: handoverDto.reason,
+      changedBy: scorerId,
+      changedByName: scorerName,
+    });
+
+    await this.saveMatch(match);
+    this.logger.log(`Match ${matchId} handed over from ${scorerId} to ${handoverDto.toScorerId}`);
+    return match.toObject();
+  }
+
+  /**
+   * Record a ball in the verifier's independent stream (dual-scorer mode).
+   * The stream does not touch the live scorecard; it is only used to
+   * reconcile against ballHistory.
+   */
+  async recordVerificationBall(matchId: string, ballDto: RecordBallDto, scorerId: string) {
+    const match = await this.localMatchModel.findOne({ matchId });
+    if (!match) {
+      throw new NotFoundException(`Match with ID ${matchId} not found`);
+    }
+
+    this.assertScorerRole(match, scorerId, 'Only a verifier can keep the verification stream', [
+      'verifier',
+    ]);
+
+    if (match.reconciliation?.status === 'finalized') {
+      throw new BadRequestException('Scoring for this match has already been reconciled');
+    }
+
+    if (match.verificationStream && match.verificationStream.scorerId !== scorerId) {
+      throw new ConflictException('Another verifier is already keeping the verification stream');
+    }
+
+    if (!match.verificationStream) {
+      match.verificationStream = {
+        scorerId,
+        scorerName: this.getRoster(match).find((s) => s.scorerId === scorerId)?.scorerName,
+        deliveries: [],
+      };
+    }
+    const stream = match.verificationStream.deliveries;
+
+    if (this.isDuplicateDelivery(stream, ballDto)) {
+      return match.toObject().verificationStream;
+    }
+
+    // Same sequence rules as the primary stream, against the verifier's own balls
+    const lastInnings = stream.length > 0 ? stream[stream.length - 1].innings : 1;
+    const currentInnings = match.liveState?.currentInnings || 1;
+    if (ballDto.innings < lastInnings || ballDto.innings > currentInnings) {
+      throw new ConflictException(
+        `Out of sequence: innings must be between ${lastInnings} and ${currentInnings}`,
+      );
+    }
+    const replayed = replayDeliveries(stream, this.buildScoringContext(match));
+    const summary = replayed.innings.find((i) => i.number === ballDto.innings);
+    const expected = { over: summary?.overs ?? 0, ball: summary?.balls ?? 0 };
+    if (ballDto.over !== expected.over || ballDto.ball !== expected.ball) {
+      throw new ConflictException(
+        `Out of sequence: expected ball ${expected.over}.${expected.ball}, ` +
+          `received ball ${ballDto.over}.${ballDto.ball}`,
+      );
+    }
+
+    // Free hits follow the verifier's own no-balls, not the primary scorer's
+    const live =
+      replayed.liveState?.currentInnings === ballDto.innings ? replayed.liveState : undefined;
+    stream.push(this.toBallRecord(match, ballDto, scorerId, live));
+    await this.saveMatch(match);
+    return match.toObject().verificationStream;
+  }
+
+  /**
+   * Remove the last ball from the verifier's stream
+   */
+  async undoVerificationBall(matchId: string, scorerId: string) {
+    const match = await this.localMatchModel.findOne({ matchId });
+    if (!match) {
+      throw new NotFoundException(`Match with ID ${matchId} not found`);
+    }
+
+    if (match.verificationStream?.scorerId !== scorerId) {
+      throw new ForbiddenException('You are not keeping the verification stream for this match');
+    }
+
+    if (match.reconciliation?.status === 'finalized') {
+      throw new BadRequestException('Scoring for this match has already been reconciled');
+    }
+
+    if (match.verificationStream.deliveries.length === 0) {
+      throw new BadRequestException('No balls to undo');
+    }
+
+    match.verificationStream.deliveries.pop();
+    await this.saveMatch(match);
+    return match.toObject().verificationStream;
+  }
+
+  /**
+   * Discrepancy positions between ballHistory and the verification stream
+   */
+  private alignStreams(match: LocalMatch) {
+    return alignDeliveryStreams(
+      (match.ballHistory || []).map(toDeliveryRecord),
+      (match.verificationStream?.deliveries || []).map(toDeliveryRecord),
+    );
+  }
+
+  /**
+   * Align the primary and verification streams and flag every delivery where
+   * they disagree (admin). Comparing again discards earlier resolutions.
+   */
+  async compareScoringStreams(matchId: string) {
+    const match = await this.localMatchModel.findOne({ matchId });
+    if (!match) {
+      throw new NotFoundException(`Match with ID ${matchId} not found`);
+    }
+
+    if (!match.verificationStream?.deliveries.length) {
+      throw new BadRequestException('No verification stream has been recorded for this match');
+    }
+
+    if (match.reconciliation?.status === 'finalized') {
+      throw new BadRequestException('Scoring for this match has already been reconciled');
+    }
+
+    const aligned = this.alignStreams(match);
+    match.reconciliation = {
+      status: 'pending',
+      comparedAt: new Date(),
+      discrepancies: aligned
+        .filter((position) => position.differences.length > 0)
+        .map((position) => ({
+          innings: position.innings,
+          over: position.over,
+          ball: position.ball,
+          occurrence: position.occurrence,
+          differences: position.differences,
+          primary: position.primary ? this.snapshotDelivery(position.primary) : undefined,
+          secondary: position.secondary ? this.snapshotDelivery(position.secondary) : undefined,
+        })),
+      accuracy: [],
+    };
+
+    await this.saveMatch(match);
+    this.logger.log(
+      `Compared scoring streams for match ${matchId}: ` +
+        `${match.reconciliation.discrepancies.length} of ${aligned.length} deliveries disagree`,
+    );
+    return {
+      positions: aligned.length,
+      reconciliation: match.toObject().reconciliation,
+    };
+  }
+
+  /**
+   * Current reconciliation state with both streams (admin)
+   */
+  async getReconciliation(matchId: string) {
+    const match = await this.localMatchModel.findOne({ matchId }).lean();
+    if (!match) {
+      throw new NotFoundException(`Match with ID ${matchId} not found`);
+    }
+
+    return {
+      matchId,
+      primaryScorerId: match.scorerInfo.scorerId,
+      verifierId: match.verificationStream?.scorerId,
+      primaryDeliveries: match.ballHistory?.length || 0,
+      verificationDeliveries: match.verificationStream?.deliveries.length || 0,
+      reconciliation: match.reconciliation || null,
+    };
+  }
+
+  /**
+   * Pick which stream is right for one flagged delivery (admin)
+   */
+  async resolveDiscrepancy(
+    matchId: string,
+    index: number,
+    resolution: 'primary' | 'secondary',
+    adminId: string,
+  ) {
+    const match = await this.localMatchModel.findOne({ matchId });
+    if (!match) {
+      throw new NotFoundException(`Match with ID ${matchId} not found`);
+    }
+
+    if (!match.reconciliation) {
+      throw new BadRequestException('Compare the scoring streams first');
+    }
+    if (match.reconciliation.status === 'finalized') {
+      throw new BadRequestException('Scoring for this match has already been reconciled');
+    }
+
+    const discrepancy = match.reconciliation.discrepancies[index];
+    if (!discrepancy) {
+      throw new NotFoundException(`Discrepancy ${index} not found`);
+    }
+
+    discrepancy.resolution = resolution;
+    discrepancy.resolvedBy = adminId;
+    discrepancy.resolvedAt = new Date();
+
+    await this.saveMatch(match);
+    return match.toObject().reconciliation;
+  }
+
+  /**
+   * Apply the resolved record to ballHistory, mark the match verified and
+   * update both scorers' accuracy scores (admin)
+   */
+  async finalizeReconciliation(matchId: string, adminId: string, adminName?: string) {
+    const match = await this.localMatchModel.findOne({ matchId });
+    if (!match) {
+      throw new NotFoundException(`Match with ID ${matchId} not found`);
+    }
+
+    const reconciliation = match.reconciliation;
+    if (!reconciliation || !match.verificationStream) {
+      throw new BadRequestException('Compare the scoring streams first');
+    }
+    if (reconciliation.status === 'finalized') {
+      throw new BadRequestException('Scoring for this match has already been reconciled');
+    }
+
+    const unresolved = reconciliation.discrepancies.filter((d) => !d.resolution).length;
+    if (unresolved > 0) {
+      throw new BadRequestException(`${unresolved} discrepancies are still unresolved`);
+    }
+
+    // Either stream may have changed since the comparison
+    const keyOf = (p: { innings: number; over: number; ball: number; occurrence: number }) =>
+      `${p.innings}-${p.over}-${p.ball}-${p.occurrence}`;
+    const aligned = this.alignStreams(match);
+    const resolutions = new Map(reconciliation.discrepancies.map((d) => [keyOf(d), d.resolution]));
+    const flagged = aligned.filter((position) => position.differences.length > 0);
+    if (flagged.length !== resolutions.size || flagged.some((p) => !resolutions.has(keyOf(p)))) {
+      throw new ConflictException(
+        'Scoring streams changed since they were compared; compare again',
+      );
+    }
+
+    const resolved = resolveDeliveryStreams(aligned, (position) =>
+      resolutions.get(keyOf(position)),
+    );
+
+    const primaryScorerId = match.scorerInfo.scorerId;
+    const verifierId = match.verificationStream.scorerId;
+    reconciliation.accuracy = [
+      {
+        scorerId: primaryScorerId,
+        ...getStreamAccuracy((match.ballHistory || []).map(toDeliveryRecord), resolved),
+      },
+      {
+        scorerId: verifierId,
+        ...getStreamAccuracy(match.verificationStream.deliveries.map(toDeliveryRecord), resolved),
+      },
+    ];
+
+    const previousCount = match.ballHistory?.length || 0;
+    match.ballHistory = resolved.map((delivery) => toDeliveryRecord(delivery) as LocalDelivery);
+    this.realignAndRebuild(match);
+
+    reconciliation.status = 'finalized';
+    reconciliation.finalizedBy = adminId;
+    reconciliation.finalizedAt = new Date();
+    match.isVerified = true;
+    match.scorerInfo.verificationStatus = 'verified';
+
+    this.recordAudit(match, {
+      action: 'reconcile',
+      before: { deliveries: previousCount },
+      after: {
+        deliveries: match.ballHistory.length,
+        fromVerifier: reconciliation.discrepancies.filter((d) => d.resolution === 'secondary')
+          .length,
+      },
+      changedBy: adminId,
+      changedByName: adminName,
+    });
+
+    await this.saveMatch(match);
+    await Promise.all([
+      this.updateScorerAccuracy(primaryScorerId),
+      this.updateScorerAccuracy(verifierId),
+    ]);
+
+    this.logger.log(`Finalized scoring reconciliation for match ${matchId}`);
+    return match.toObject();
+  }
+
+  /**
+   * A scorer's accuracyScore is the average of their accuracy across every
+   * finalized reconciliation they took part in
+   */
+  private async updateScorerAccuracy(scorerId: string): Promise<void> {
+    const [result] = await this.localMatchModel.aggregate([
+      {
+        $match: {
+          'reconciliation.status': 'finalized',
+          'reconciliation.accuracy.scorerId': scorerId,
+        },
+      },
+      { $unwind: '$reconciliation.accuracy' },
+      { $match: { 'reconciliation.accuracy.scorerId': scorerId } },
+      { $group: { _id: null, score: { $avg: '$reconciliation.accuracy.score' } } },
+    ]);
+    if (!result) return;
+
+    await this.userModel.updateOne(
+      { 'scorerProfile.scorerId': scorerId },
+      { $set: { 'scorerProfile.accuracyScore': Math.round(result.score * 10) / 10 } },
+    );
+  }
+
+  /**
+   * Result and NRR totals of a finished match for league standings (null
+   * while the match is still to be decided). A cancelled match is a no result.
+   */
+  getStandingsOutcome(
+    match: LocalMatch,
+  ): Pick<StandingsResult, 'outcome' | 'runRate' | 'playedAt'> | null {
+    if (match.status === 'cancelled') {
+      return { outcome: 'no_result', playedAt: match.startTime };
+    }
+    if (match.status !== 'completed' || !match.matchResult?.winner) {
+      return null;
+    }
+    return {
+      outcome: match.matchResult.winner,
+      runRate: getRunRateTotals(match.innings || [], this.buildScoringContext(match)),
+      playedAt: match.endTime || match.startTime,
+    };
+  }
+}
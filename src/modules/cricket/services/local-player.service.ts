@@ -0,0 +1,249 @@
+import {
+  Injectable,
+  NotFoundException,
+  BadRequestException,
+  ConflictException,
+} from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { Model } from 'mongoose';
+import { Cron, CronExpression } from '@nestjs/schedule';
+import * as crypto from 'crypto';
+import { LocalPlayer, LocalPlayerDocument } from '../schemas/local-player.schema';
+import { LocalMatch, LocalMatchDocument } from '../schemas/local-match.schema';
+import {
+  CreateLocalPlayerDto,
+  UpdateLocalPlayerDto,
+  GetLocalPlayersDto,
+} from '../dto/local-player.dto';
+import { buildCareerStats, CareerMatch } from '../utils/career-stats';
+import { WinstonLoggerService } from '../../../common/logger/winston-logger.service';
+
+/**
+ * Registry of local players. Career stats are rebuilt from the scorecards of
+ * verified local matches nightly, and whenever profiles are merged.
+ */
+@Injectable()
+export class LocalPlayerService {
+  constructor(
+    @InjectModel(LocalPlayer.name) private localPlayerModel: Model<LocalPlayerDocument>,
+    @InjectModel(LocalMatch.name) private localMatchModel: Model<LocalMatchDocument>,
+    private logger: WinstonLoggerService,
+  ) {}
+
+  async createPlayer(createDto: CreateLocalPlayerDto, createdBy: string) {
+    const player = new this.localPlayerModel({
+      ...createDto,
+      playerId: `LP-${crypto.randomBytes(4).toString('hex').toUpperCase()}`,
+      name: createDto.name.trim(),
+      clubs: (createDto.clubs || []).map((club) => ({ ...club, name: club.name.trim() })),
+      createdBy,
+    });
+    await player.save();
+    return player.toObject();
+  }
+
+  async updatePlayer(playerId: string, updateDto: UpdateLocalPlayerDto) {
+    const player = await this.localPlayerModel.findOne({ playerId });
+    if (!player) {
+      throw new NotFoundException(`Player ${playerId} not found`);
+    }
+    if (player.status === 'merged') {
+      throw new BadRequestException(`Player ${playerId} was merged into ${player.mergedInto}`);
+    }
+
+    const { clubs, dateOfBirth, ...fields } = updateDto;
+    Object.assign(player, fields);
+    if (fields.name !== undefined) player.name = fields.name.trim();
+    if (dateOfBirth !== undefined) player.dateOfBirth = new Date(dateOfBirth);
+    if (clubs !== undefined) {
+      player.clubs = clubs.map((club) => ({
+        name: club.name.trim(),
+        isCurrent: club.isCurrent ?? true,
+        joinedAt: club.joinedAt ? new Date(club.joinedAt) : undefined,
+      }));
+    }
+
+    await player.save();
+    return player.toObject();
+  }
+
+  async getPlayers(query: GetLocalPlayersDto = {}) {
+    const { page = 1, limit = 20 } = query;
+    const filter: any = { status: 'active' };
+    if (query.q) {
+      const search = new RegExp(this.escapeRegex(query.q.trim()), 'i');
+      filter.$or = [{ name: search }, { nickname: search }, { 'clubs.name': search }];
+    }
+    if (query.club) {
+      filter['clubs.name'] = new RegExp(`^${this.escapeRegex(query.club.trim())}$`, 'i');
+    }
+    if (query.city) {
+      filter['location.city'] = new RegExp(`^${this.escapeRegex(query.city.trim())}$`, 'i');
+    }
+    if (query.role) filter.role = query.role;
+
+    const [players, total] = await Promise.all([
+      this.localPlayerModel
+        .find(filter)
+        .sort({ 'careerStats.matches': -1, name: 1 })
+        .skip((page - 1) * limit)
+        .limit(limit)
+        .lean(),
+      this.localPlayerModel.countDocuments(filter),
+    ]);
+
+    return {
+      players,
+      pagination: {
+        current: page,
+        pages: Math.ceil(total / limit),
+        total,
+        limit,
+      },
+    };
+  }
+
+  /**
+   * Player profile; a merged duplicate resolves to the profile it was merged into
+   */
+  async getPlayerById(playerId: string) {
+    const player = await this.localPlayerModel
+      .findOne({ $or: [{ playerId }, { aliases: playerId }], status: 'active' })
+      .lean();
+    if (!player) {
+      throw new NotFoundException(`Player ${playerId} not found`);
+    }
+    return player;
+  }
+
+  /**
+   * Active players sharing a name (case-insensitive), as merge candidates
+   */
+  async findDuplicates(limit: number = 50) {
+    const groups = await this.localPlayerModel.aggregate([
+      { $match: { status: 'active' } },
+      {
+        $group: {
+          _id: { $toLower: '$name' },
+          players: {
+            $push: {
+              playerId: '$playerId',
+              name: '$name',
+              nickname: '$nickname',
+              clubs: '$clubs.name',
+              matches: '$careerStats.matches',
+            },
+          },
+          count: { $sum: 1 },
+        },
+      },
+      { $match: { count: { $gt: 1 } } },
+      { $sort: { count: -1, _id: 1 } },
+      { $limit: limit },
+    ]);
+    return groups.map((group) => ({ name: group._id, players: group.players }));
+  }
+
+  /**
+   * Merge a duplicate profile into `targetId`. The source keeps its record,
+   * marked as merged, and its IDs become aliases of the target.
+   */
+  async mergePlayers(targetId: string, sourceId: string) {
+    if (targetId === sourceId) {
+      throw new BadRequestException('Cannot merge a player into itself');
+    }
+    const [target, source] = await Promise.all([
+      this.localPlayerModel.findOne({ playerId: targetId }),
+      this.localPlayerModel.findOne({ playerId: sourceId }),
+    ]);
+    if (!target) throw new NotFoundException(`Player ${targetId} not found`);
+    if (!source) throw new NotFoundException(`Player ${sourceId} not found`);
+    if (target.status === 'merged' || source.status === 'merged') {
+      throw new ConflictException('Merged players cannot be merged again');
+    }
+
+    target.aliases = [...new Set([...target.aliases, source.playerId, ...source.aliases])];
+    for (const club of source.clubs) {
+      if (!target.clubs.some((c) => c.name.toLowerCase() === club.name.toLowerCase())) {
+        target.clubs.push(club);
+      }
+    }
+    target.nickname = target.nickname || source.nickname;
+    target.role = target.role || source.role;
+    target.battingStyle = target.battingStyle || source.battingStyle;
+    target.bowlingStyle = target.bowlingStyle || source.bowlingStyle;
+    target.dateOfBirth = target.dateOfBirth || source.dateOfBirth;
+
+    source.status = 'merged';
+    source.mergedInto = target.playerId;
+    source.aliases = [];
+    source.careerStats = undefined;
+
+    await target.save();
+    await source.save();
+    this.logger.log(`Merged player ${sourceId} into ${targetId}`, 'LocalPlayerService');
+
+    return this.rebuildCareerStats(targetId);
+  }
+
+  /**
+   * Recompute a player's career from every verified local match they played
+   */
+  async rebuildCareerStats(playerId: string) {
+    const player = await this.localPlayerModel.findOne({ playerId, status: 'active' });
+    if (!player) {
+      throw new NotFoundException(`Player ${playerId} not found`);
+    }
+
+    const ids = [player.playerId, ...player.aliases];
+    const matches = await this.localMatchModel
+      .find({
+        isVerified: true,
+        $or: [
+          { 'matchSetup.homePlayingXI.id': { $in: ids } },
+          { 'matchSetup.awayPlayingXI.id': { $in: ids } },
+          { 'battingStats.playerId': { $in: ids } },
+          { 'bowlingStats.playerId': { $in: ids } },
+        ],
+      })
+      .select('matchId startTime rules innings matchSetup battingStats bowlingStats')
+      .lean();
+
+    player.careerStats = buildCareerStats(matches as CareerMatch[], new Set(ids));
+    player.careerRebuiltAt = new Date();
+    await player.save();
+    return player.toObject();
+  }
+
+  @Cron(CronExpression.EVERY_DAY_AT_4AM)
+  async rebuildAllCareerStats(): Promise<void> {
+    this.logger.log('Starting local player career rebuild', 'LocalPlayerService');
+
+    const players = await this.localPlayerModel
+      .find({ status: 'active' })
+      .select('playerId')
+      .lean();
+    let failed = 0;
+    for (const player of players) {
+      try {
+        await this.rebuildCareerStats(player.playerId);
+      } catch (error: any) {
+        failed += 1;
+        this.logger.error(
+          `Failed to rebuild career for player ${player.playerId}`,
+          error.stack,
+          'LocalPlayerService',
+        );
+      }
+    }
+
+    this.logger.log(
+      `Rebuilt careers for ${players.length - failed}/${players.length} players`,
+      'LocalPlayerService',
+    );
+  }
+
+  private escapeRegex(value: string): string {
+    return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+  }
+}
@@ -0,0 +1,258 @@
+import {
+  Injectable,
+  NotFoundException,
+  BadRequestException,
+  ForbiddenException,
+} from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { Model } from 'mongoose';
+import * as crypto from 'crypto';
+import { LocalTeam, LocalTeamDocument, SquadMember } from '../schemas/local-team.schema';
+import { LocalPlayer, LocalPlayerDocument } from '../schemas/local-player.schema';
+import { LocalMatch, LocalMatchDocument } from '../schemas/local-match.schema';
+import { CreateLocalTeamDto, UpdateLocalTeamDto, GetLocalTeamsDto } from '../dto/local-team.dto';
+import { generateTeamId, getTeamShortName } from '../utils/team-identity';
+import { MediaService } from '../../media/media.service';
+import { WinstonLoggerService } from '../../../common/logger/winston-logger.service';
+
+/** Who is editing a team: its creator or an admin may */
+export interface TeamEditor {
+  scorerId?: string;
+  isAdmin: boolean;
+}
+
+/**
+ * Registry of local teams with squads of registered players. A team's ID is
+ * derived from its name the same way match team IDs are, so earlier matches
+ * under that name show up on the team's page.
+ */
+@Injectable()
+export class LocalTeamService {
+  constructor(
+    @InjectModel(LocalTeam.name) private localTeamModel: Model<LocalTeamDocument>,
+    @InjectModel(LocalPlayer.name) private localPlayerModel: Model<LocalPlayerDocument>,
+    @InjectModel(LocalMatch.name) private localMatchModel: Model<LocalMatchDocument>,
+    private mediaService: MediaService,
+    private logger: WinstonLoggerService,
+  ) {}
+
+  private escapeRegex(value: string): string {
+    return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+  }
+
+  /**
+   * Squad entries with names and roles from the player registry
+   */
+  private async resolveSquad(
+    members: Array<
+      Omit<SquadMember, 'name' | 'isCaptain' | 'isWicketKeeper'> & Partial<SquadMember>
+    >,
+  ): Promise<SquadMember[]> {
+    const ids = members.map((member) => member.playerId);
+    if (new Set(ids).size !== ids.length) {
+      throw new BadRequestException('A player can only appear once in the squad');
+    }
+    if (members.filter((member) => member.isCaptain).length > 1) {
+      throw new BadRequestException('A squad can only have one captain');
+    }
+
+    const players = await this.localPlayerModel
+      .find({ playerId: { $in: ids }, status: 'active' })
+      .select('playerId name role')
+      .lean();
+    const byId = new Map(players.map((player) => [player.playerId, player]));
+    const missing = ids.filter((id) => !byId.has(id));
+    if (missing.length > 0) {
+      throw new BadRequestException(`Unknown players: ${missing.join(', ')}`);
+    }
+
+    return members.map((member) => {
+      const player = byId.get(member.playerId)!;
+      return {
+        playerId: member.playerId,
+        name: player.name,
+        role: player.role,
+        jerseyNumber: member.jerseyNumber,
+        isCaptain: member.isCaptain ?? false,
+        isWicketKeeper: member.isWicketKeeper ?? false,
+      };
+    });
+  }
+
+  private async findEditableTeam(teamId: string, editor: TeamEditor) {
+    const team = await this.localTeamModel.findOne({ teamId });
+    if (!team) {
+      throw new NotFoundException(`Team ${teamId} not found`);
+    }
+    if (!editor.isAdmin && team.createdBy !== editor.scorerId) {
+      throw new ForbiddenException('Only the team creator or an admin can edit this team');
+    }
+    return team;
+  }
+
+  async createTeam(createDto: CreateLocalTeamDto, createdBy: string) {
+    const name = createDto.name.trim();
+    let teamId = generateTeamId(name);
+    // Another club already registered under this name
+    if (await this.localTeamModel.exists({ teamId })) {
+      teamId = `${teamId}-${crypto.randomBytes(2).toString('hex')}`;
+    }
+
+    const team = new this.localTeamModel({
+      teamId,
+      name,
+      shortName: createDto.shortName?.trim().toUpperCase() || getTeamShortName(name),
+      homeGround: createDto.homeGround,
+      location: createDto.location,
+      leagueId: createDto.leagueId,
+      squad: await this.resolveSquad(createDto.squad || []),
+      createdBy,
+    });
+    await team.save();
+    return team.toObject();
+  }
+
+  async updateTeam(teamId: string, updateDto: UpdateLocalTeamDto, editor: TeamEditor) {
+    const team = await this.findEditableTeam(teamId, editor);
+
+    const { squad, shortName, ...fields } = updateDto;
+    Object.assign(team, fields);
+    if (shortName !== undefined) team.shortName = shortName.trim().toUpperCase();
+    if (squad !== undefined) team.squad = await this.resolveSquad(squad);
+
+    await team.save();
+    return team.toObject();
+  }
+
+  /**
+   * Upload a new logo, removing the previous one from storage
+   */
+  async uploadLogo(teamId: string, file: Express.Multer.File, editor: TeamEditor) {
+    if (!file) {
+      throw new BadRequestException('No logo file provided');
+    }
+    const team = await this.findEditableTeam(teamId, editor);
+    const previous = team.logo?.url;
+
+    const { url, thumbnailUrl } = await this.mediaService.uploadImage(file);
+    team.logo = { url, thumbnailUrl };
+    await team.save();
+
+    if (previous) {
+      try {
+        await this.mediaService.deleteMedia(previous);
+      } catch (error: any) {
+        this.logger.warn(
+          `Failed to delete previous logo of team ${teamId}: ${error.message}`,
+          'LocalTeamService',
+        );
+      }
+    }
+    return team.toObject();
+  }
+
+  async getTeams(query: GetLocalTeamsDto = {}) {
+    const { page = 1, limit = 20 } = query;
+    const filter: any = { status: 'active' };
+    if (query.q) filter.name = new RegExp(this.escapeRegex(query.q.trim()), 'i');
+    if (query.city) {
+      filter['location.city'] = new RegExp(`^${this.escapeRegex(query.city.trim())}$`, 'i');
+    }
+    if (query.leagueId) filter.leagueId = query.leagueId;
+
+    const [teams, total] = await Promise.all([
+      this.localTeamModel
+        .find(filter)
+        .select('-squad')
+        .sort({ name: 1 })
+        .skip((page - 1) * limit)
+        .limit(limit)
+        .lean(),
+      this.localTeamModel.countDocuments(filter),
+    ]);
+
+    return {
+      teams,
+      pagination: {
+        current: page,
+        pages: Math.ceil(total / limit),
+        total,
+        limit,
+      },
+    };
+  }
+
+  async getTeamById(teamId: string) {
+    const team = await this.localTeamModel.findOne({ teamId }).lean();
+    if (!team) {
+      throw new NotFoundException(`Team ${teamId} not found`);
+    }
+    return team;
+  }
+
+  /**
+   * Team page: profile, verified upcoming and live fixtures, and verified
+   * results with the team's record
+   */
+  async getTeamPage(teamId: string, limit: number = 20) {
+    const team = await this.getTeamById(teamId);
+    const involving = { $or: [{ 'teams.home.id': teamId }, { 'teams.away.id': teamId }] };
+    const fields =
+      'matchId series format startTime endTime status venue teams currentScore matchResult';
+
+    const [fixtures, results] = await Promise.all([
+      this.localMatchModel
+        .find({ ...involving, status: { $in: ['upcoming', 'live'] }, isVerified: true })
+        .select(fields)
+        .sort({ startTime: 1 })
+        .limit(limit)
+        .lean(),
+      this.localMatchModel
+        .find({ ...involving, status: 'completed', isVerified: true })
+        .select(fields)
+        .sort({ startTime: -1 })
+        .limit(limit)
+        .lean(),
+    ]);
+
+    const record = { played: 0, won: 0, lost: 0, tied: 0, drawn: 0, noResult: 0 };
+    const outcomes = await this.localMatchModel
+      .find({ ...involving, status: 'completed', isVerified: true })
+      .select('teams.home.id matchResult.winner')
+      .lean();
+    for (const match of outcomes) {
+      const side = match.teams.home.id === teamId ? 'home' : 'away';
+      const winner = match.matchResult?.winner;
+      record.played += 1;
+      if (winner === side) record.won += 1;
+      else if (winner === 'home' || winner === 'away') record.lost += 1;
+      else if (winner === 'tie') record.tied += 1;
+      else if (winner === 'draw') record.drawn += 1;
+      else record.noResult += 1;
+    }
+
+    return { team, record, fixtures, results };
+  }
+
+  /**
+   * Registered squads of a match's teams, to preload match setup
+   */
+  async getMatchSquads(matchId: string) {
+    const match = await this.localMatchModel.findOne({ matchId }).select('teams').lean();
+    if (!match) {
+      throw new NotFoundException(`Match with ID ${matchId} not found`);
+    }
+
+    const teams = await this.localTeamModel
+      .find({ teamId: { $in: [match.teams.home.id, match.teams.away.id] } })
+      .select('teamId name squad')
+      .lean();
+    const squadOf = (teamId: string) => teams.find((team) => team.teamId === teamId)?.squad ?? null;
+
+    return {
+      matchId,
+      home: { teamId: match.teams.home.id, squad: squadOf(match.teams.home.id) },
+      away: { teamId: match.teams.away.id, squad: squadOf(match.teams.away.id) },
+    };
+  }
+}
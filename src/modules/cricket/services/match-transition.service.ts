@@ -228,6 +228,7 @@ export class MatchTransitionService {
       const completedMatch: CompletedMatch = {
         matchId: transformed.matchId,
         series: transformed.series,
+        seasonId: transformed.seasonId,
         teams: transformed.teams,
         venue: transformed.venue,
         format: transformed.format,
@@ -0,0 +1,134 @@
+import { Injectable, NotFoundException } from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { Model } from 'mongoose';
+import { Cron, CronExpression } from '@nestjs/schedule';
+import { CricketSeries, CricketSeriesDocument } from '../schemas/cricket-series.schema';
+import { CompletedMatch, CompletedMatchDocument } from '../schemas/completed-match.schema';
+import { SportsMonksService } from './sportsmonks.service';
+import { StandingsService } from './standings.service';
+import { StandingsOptions } from '../utils/points-table';
+import { WinstonLoggerService } from '../../../common/logger/winston-logger.service';
+
+const SERIES_MATCH_FIELDS =
+  'matchId series seasonId teams venue format startTime endTime finalScore result drawNoResult';
+
+/**
+ * International series (SportsMonks league seasons) synced nightly, with
+ * points tables from their completed matches
+ */
+@Injectable()
+export class SeriesService {
+  constructor(
+    @InjectModel(CricketSeries.name) private seriesModel: Model<CricketSeriesDocument>,
+    @InjectModel(CompletedMatch.name) private completedMatchModel: Model<CompletedMatchDocument>,
+    private sportsMonksService: SportsMonksService,
+    private standingsService: StandingsService,
+    private logger: WinstonLoggerService,
+  ) {}
+
+  @Cron(CronExpression.EVERY_DAY_AT_2AM)
+  async syncSeries(): Promise<number> {
+    this.logger.log('Starting series sync from SportsMonks', 'SeriesService');
+
+    const seasons = await this.sportsMonksService.getSeasons();
+    const operations = seasons
+      .filter((season: any) => season?.id && season.league?.name)
+      .map((season: any) => ({
+        updateOne: {
+          filter: { seriesId: season.id.toString() },
+          update: {
+            $set: {
+              leagueId: (season.league_id ?? season.league.id).toString(),
+              name: season.league.name,
+              season: season.name || '',
+              code: season.code || season.league.code,
+              type: season.league.type,
+              syncedAt: new Date(),
+            },
+          },
+          upsert: true,
+        },
+      }));
+
+    if (operations.length > 0) {
+      await this.seriesModel.bulkWrite(operations, { ordered: false });
+    }
+    this.logger.log(`Synced ${operations.length} series`, 'SeriesService');
+    return operations.length;
+  }
+
+  /**
+   * Synced series, latest season first, each with its points table. Until the
+   * first sync has run, series are grouped from completed matches instead.
+   */
+  async getSeries(page: number = 1, limit: number = 20, options: StandingsOptions = {}) {
+    const total = await this.seriesModel.countDocuments();
+    if (total === 0) {
+      return this.standingsService.getSeriesStandings(page, limit, options);
+    }
+
+    const series = await this.seriesModel
+      .find()
+      .sort({ season: -1, name: 1 })
+      .skip((page - 1) * limit)
+      .limit(limit)
+      .lean();
+    const matches = (await this.completedMatchModel
+      .find({ seasonId: { $in: series.map((entry) => entry.seriesId) } })
+      .select(SERIES_MATCH_FIELDS)
+      .lean()) as CompletedMatch[];
+
+    const data = series.map((entry) => {
+      const seriesMatches = matches.filter((match) => match.seasonId === entry.seriesId);
+      return {
+        ...entry,
+        ...this.summarize(seriesMatches),
+        ...this.standingsService.getSeriesTable(seriesMatches, options),
+      };
+    });
+
+    return {
+      series: data,
+      pagination: {
+        current: page,
+        pages: Math.ceil(total / limit),
+        total,
+        limit,
+      },
+    };
+  }
+
+  /**
+   * A series with its completed matches, most recent first, and points table
+   */
+  async getSeriesById(seriesId: string, options: StandingsOptions = {}) {
+    const series = await this.seriesModel.findOne({ seriesId }).lean();
+    if (!series) {
+      throw new NotFoundException(`Series ${seriesId} not found`);
+    }
+
+    const matches = (await this.completedMatchModel
+      .find({ seasonId: seriesId })
+      .select(SERIES_MATCH_FIELDS)
+      .sort({ startTime: -1 })
+      .lean()) as CompletedMatch[];
+
+    return {
+      ...series,
+      ...this.summarize(matches),
+      ...this.standingsService.getSeriesTable(matches, options),
+      results: matches,
+    };
+  }
+
+  private summarize(matches: CompletedMatch[]) {
+    const starts = matches.map((match) => new Date(match.startTime).getTime());
+    const ends = matches.map((match) => new Date(match.endTime || match.startTime).getTime());
+    return {
+      formats: [...new Set(matches.map((match) => match.format))],
+      matches: matches.length,
+      startDate: starts.length > 0 ? new Date(Math.min(...starts)) : null,
+      endDate: ends.length > 0 ? new Date(Math.max(...ends)) : null,
+    };
+  }
+}
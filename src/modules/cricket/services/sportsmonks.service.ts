@@ -567,6 +567,26 @@ export class SportsMonksService {
     }
   }
 
+  /**
+   * All cricket league seasons with their league
+   */
+  async getSeasons(): Promise<any[]> {
+    try {
+      const response = await firstValueFrom(
+        this.httpService.get(`${this.getBaseUrl('cricket')}/seasons`, {
+          params: {
+            api_token: this.getApiToken('cricket'),
+            include: 'league',
+          },
+        }),
+      );
+      return response.data?.data || [];
+    } catch (error: any) {
+      this.logger.error('Error fetching cricket seasons', error.stack, 'SportsMonksService');
+      return [];
+    }
+  }
+
   async getCommentary(matchId: string, sport: Sport = 'cricket'): Promise<{ firstInnings: any[]; secondInnings: any[]; all: any[] }> {
     try {
       // No caching - always fetch fresh data
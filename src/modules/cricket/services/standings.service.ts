@@ -0,0 +1,161 @@
+import { Injectable } from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { Model } from 'mongoose';
+import { CompletedMatch, CompletedMatchDocument } from '../schemas/completed-match.schema';
+import { LocalMatch } from '../schemas/local-match.schema';
+import { LocalMatchService } from './local-match.service';
+import { getFormatMaxOvers } from '../utils/local-scoring-engine';
+import {
+  buildPointsTable,
+  oversToDecimal,
+  PointsTableRow,
+  RunRateTotals,
+  StandingsOptions,
+  StandingsResult,
+} from '../utils/points-table';
+
+type StandingsMatch =
+  | { source: 'local'; match: LocalMatch }
+  | { source: 'api'; match: CompletedMatch };
+
+/**
+ * Points tables for local leagues and API series. Matches from either source
+ * are reduced to StandingsResult and ranked by the points-table engine.
+ */
+@Injectable()
+export class StandingsService {
+  constructor(
+    @InjectModel(CompletedMatch.name) private completedMatchModel: Model<CompletedMatchDocument>,
+    private localMatchService: LocalMatchService,
+  ) {}
+
+  /**
+   * Standings result of a local match, null while it is still undecided
+   */
+  fromLocalMatch(match: LocalMatch): StandingsResult | null {
+    const outcome = this.localMatchService.getStandingsOutcome(match);
+    if (!outcome) return null;
+    return { homeTeamId: match.teams.home.id, awayTeamId: match.teams.away.id, ...outcome };
+  }
+
+  /**
+   * Standings result of a completed API match. Final scores are in cricket
+   * overs notation; a side bowled out is charged its full allotted overs.
+   */
+  fromCompletedMatch(match: CompletedMatch): StandingsResult {
+    const maxOvers = getFormatMaxOvers(match.format);
+    const base = {
+      homeTeamId: match.teams.home.id,
+      awayTeamId: match.teams.away.id,
+      playedAt: match.endTime || match.startTime,
+    };
+
+    if (match.drawNoResult) return { ...base, outcome: 'no_result' };
+    if (match.result?.winner === 'draw') {
+      return { ...base, outcome: maxOvers ? 'tie' : 'draw' };
+    }
+
+    const result: StandingsResult = { ...base, outcome: match.result.winner };
+    if (maxOvers && match.finalScore) {
+      const totals = (score: CompletedMatch['finalScore']['home']): RunRateTotals => ({
+        runs: score.runs,
+        overs: score.wickets >= 10 ? maxOvers : oversToDecimal(score.overs),
+      });
+      result.runRate = {
+        home: totals(match.finalScore.home),
+        away: totals(match.finalScore.away),
+      };
+    }
+    return result;
+  }
+
+  /**
+   * Points table for `teams` from a mix of local and API matches. Undecided
+   * local matches are left out.
+   */
+  computeStandings(
+    teams: Array<{ id: string; name: string }>,
+    matches: StandingsMatch[],
+    options: StandingsOptions = {},
+  ): PointsTableRow[] {
+    const results = matches
+      .map((entry) =>
+        entry.source === 'local'
+          ? this.fromLocalMatch(entry.match)
+          : this.fromCompletedMatch(entry.match),
+      )
+      .filter((result): result is StandingsResult => !!result);
+    return buildPointsTable(teams, results, options);
+  }
+
+  /**
+   * Teams and points table of a series from its completed API matches
+   */
+  getSeriesTable(matches: CompletedMatch[], options: StandingsOptions = {}) {
+    const teams = new Map<string, CompletedMatch['teams']['home']>();
+    for (const match of matches) {
+      teams.set(match.teams.home.id, match.teams.home);
+      teams.set(match.teams.away.id, match.teams.away);
+    }
+    const standings = this.computeStandings(
+      [...teams.values()].map((team) => ({ id: team.id, name: team.name })),
+      matches.map((match) => ({ source: 'api' as const, match })),
+      options,
+    );
+    return { teams: [...teams.values()], standings };
+  }
+
+  /**
+   * Series from completed API matches, most recent first, each with its
+   * points table
+   */
+  async getSeriesStandings(page: number = 1, limit: number = 20, options: StandingsOptions = {}) {
+    const skip = (page - 1) * limit;
+    const [series, totals] = await Promise.all([
+      this.completedMatchModel.aggregate([
+        {
+          $group: {
+            _id: '$series',
+            formats: { $addToSet: '$format' },
+            matches: { $sum: 1 },
+            startDate: { $min: '$startTime' },
+            endDate: { $max: '$endTime' },
+          },
+        },
+        { $sort: { endDate: -1, _id: 1 } },
+        { $skip: skip },
+        { $limit: limit },
+      ]),
+      this.completedMatchModel.aggregate([{ $group: { _id: '$series' } }, { $count: 'total' }]),
+    ]);
+    const total = totals[0]?.total || 0;
+
+    const names = series.map((entry) => entry._id);
+    const matches = (await this.completedMatchModel
+      .find({ series: { $in: names } })
+      .select('series teams format startTime endTime finalScore result drawNoResult')
+      .lean()) as CompletedMatch[];
+
+    const data = series.map((entry) => ({
+      name: entry._id,
+      formats: entry.formats,
+      matches: entry.matches,
+      startDate: entry.startDate,
+      endDate: entry.endDate,
+      ...this.getSeriesTable(
+        matches.filter((match) => match.series === entry._id),
+        options,
+      ),
+    }));
+
+    return {
+      series: data,
+      pagination: {
+        current: page,
+        pages: Math.ceil(total / limit),
+        total,
+        limit,
+      },
+    };
+  }
+}
@@ -0,0 +1,239 @@
+import { Injectable, NotFoundException, OnModuleInit } from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { Model } from 'mongoose';
+import { Cron, CronExpression } from '@nestjs/schedule';
+import { Subject } from 'rxjs';
+import {
+  WinProbabilityModel,
+  WinProbabilityModelDocument,
+} from '../schemas/win-probability-model.schema';
+import {
+  WinProbabilityTimeline,
+  WinProbabilityTimelineDocument,
+} from '../schemas/win-probability-timeline.schema';
+import { CompletedMatch, CompletedMatchDocument } from '../schemas/completed-match.schema';
+import { LiveMatch } from '../schemas/live-match.schema';
+import { getFormatMaxOvers } from '../utils/local-scoring-engine';
+import {
+  DEFAULT_WIN_PROBABILITY_MODELS,
+  fitWinProbabilityModel,
+  getWinProbabilityFormat,
+  oversToBalls,
+  toWinProbabilityPoint,
+  WIN_PROBABILITY_FORMATS,
+  WinProbabilityFormat,
+  WinProbabilityModelParams,
+  WinProbabilityPoint,
+} from '../utils/win-probability';
+import { WinstonLoggerService } from '../../../common/logger/winston-logger.service';
+
+export interface WinProbabilityUpdate {
+  matchId: string;
+  source: 'live' | 'local';
+  point: WinProbabilityPoint;
+  /** Earlier points changed (a ball was undone or corrected) */
+  revised: boolean;
+  timestamp: string;
+}
+
+// Completed match formats each model is fitted on
+const FITTED_FORMATS: Record<WinProbabilityFormat, string[]> = {
+  t20: ['t20', 't20i'],
+  odi: ['odi', 'list-a'],
+};
+// Most recent matches per fit, so the model follows scoring trends
+const FIT_SAMPLE = 500;
+
+/**
+ * Win probability and projected scores for limited-overs matches. The model's
+ * scale parameters are refitted nightly from completed first innings and held
+ * in memory. API matches get a point stored each time their score moves on;
+ * local matches are replayed from ballHistory by LocalMatchService. Every new
+ * point is published on `updates$` for the live gateway.
+ */
+@Injectable()
+export class WinProbabilityService implements OnModuleInit {
+  private models: Record<WinProbabilityFormat, WinProbabilityModelParams> = {
+    ...DEFAULT_WIN_PROBABILITY_MODELS,
+  };
+  private readonly updates = new Subject<WinProbabilityUpdate>();
+  readonly updates$ = this.updates.asObservable();
+
+  constructor(
+    @InjectModel(WinProbabilityModel.name)
+    private winProbabilityModelModel: Model<WinProbabilityModelDocument>,
+    @InjectModel(WinProbabilityTimeline.name)
+    private timelineModel: Model<WinProbabilityTimelineDocument>,
+    @InjectModel(CompletedMatch.name) private completedMatchModel: Model<CompletedMatchDocument>,
+    private logger: WinstonLoggerService,
+  ) {}
+
+  async onModuleInit() {
+    try {
+      const stored = await this.winProbabilityModelModel.find().lean();
+      for (const params of stored) {
+        this.models[params.format] = {
+          format: params.format,
+          overs: params.overs,
+          averageTotal: params.averageTotal,
+          standardDeviation: params.standardDeviation,
+          matches: params.matches,
+        };
+      }
+      if (stored.length === 0) {
+        await this.fitModels();
+      }
+    } catch (error: any) {
+      this.logger.error(
+        'Failed to load win probability models, using defaults',
+        error.stack,
+        'WinProbabilityService',
+      );
+    }
+  }
+
+  /**
+   * Model for a match, or undefined for unlimited-overs cricket
+   */
+  getModel(format?: string, maxOvers?: number): WinProbabilityModelParams | undefined {
+    const key = getWinProbabilityFormat(format, maxOvers);
+    return key ? this.models[key] : undefined;
+  }
+
+  @Cron(CronExpression.EVERY_DAY_AT_5AM)
+  async fitModels(): Promise<WinProbabilityModelParams[]> {
+    this.logger.log('Fitting win probability models', 'WinProbabilityService');
+
+    const fitted: WinProbabilityModelParams[] = [];
+    for (const format of WIN_PROBABILITY_FORMATS) {
+      const overs = DEFAULT_WIN_PROBABILITY_MODELS[format].overs;
+      const matches = await this.completedMatchModel
+        .find({ format: { $in: FITTED_FORMATS[format] }, 'innings.0': { $exists: true } })
+        .select('innings')
+        .sort({ startTime: -1 })
+        .limit(FIT_SAMPLE)
+        .lean();
+
+      // Only first innings that ran their full course: all out or out of overs
+      const totals = matches
+        .map((match) => match.innings?.find((innings) => innings.number === 1))
+        .filter(
+          (innings): innings is NonNullable<typeof innings> =>
+            !!innings && (innings.wickets >= 10 || oversToBalls(innings.overs) >= overs * 6),
+        )
+        .map((innings) => innings.runs);
+
+      const params = fitWinProbabilityModel(format, totals);
+      await this.winProbabilityModelModel.updateOne(
+        { format },
+        { $set: { ...params, fittedAt: new Date() } },
+        { upsert: true },
+      );
+      this.models[format] = params;
+      fitted.push(params);
+    }
+
+    this.logger.log(
+      `Fitted win probability models: ${fitted
+        .map((params) => `${params.format} (${params.matches} innings)`)
+        .join(', ')}`,
+      'WinProbabilityService',
+    );
+    return fitted;
+  }
+
+  publish(update: Omit<WinProbabilityUpdate, 'timestamp'>): void {
+    this.updates.next({ ...update, timestamp: new Date().toISOString() });
+  }
+
+  /**
+   * Current point for an API match from its innings scores. The chase target
+   * is the API's, or the first-innings total plus one.
+   */
+  private getLivePoint(match: LiveMatch): WinProbabilityPoint | undefined {
+    const maxOvers = getFormatMaxOvers(match.format);
+    const model = this.getModel(match.format);
+    const innings = [...(match.innings || [])].sort((a, b) => a.number - b.number);
+    const current = innings[innings.length - 1];
+    if (!model || !maxOvers || !current || current.number > 2) return undefined;
+
+    const first = innings.find((i) => i.number === 1);
+    const target =
+      current.number === 2 ? match.target || (first ? first.runs + 1 : undefined) : undefined;
+
+    return toWinProbabilityPoint(
+      {
+        inningsNumber: current.number,
+        runs: current.runs || 0,
+        wickets: current.wickets || 0,
+        balls: oversToBalls(current.overs || 0),
+        allottedOvers: maxOvers,
+        target,
+      },
+      current.team === match.teams.away.name ? 'away' : 'home',
+      model,
+    );
+  }
+
+  /**
+   * Add a point to an API match's timeline if its score has moved on, and
+   * publish it. Failures are logged so they never hold up live updates.
+   */
+  async recordLiveMatch(match: LiveMatch): Promise<void> {
+    try {
+      const point = this.getLivePoint(match);
+      if (!point) return;
+
+      const timeline = await this.timelineModel
+        .findOne({ matchId: match.matchId })
+        .select({ points: { $slice: -1 } })
+        .lean();
+      const last = timeline?.points?.[0];
+      if (
+        last &&
+        last.innings === point.innings &&
+        last.over === point.over &&
+        last.ball === point.ball &&
+        last.runs === point.runs &&
+        last.wickets === point.wickets
+      ) {
+        return;
+      }
+
+      await this.timelineModel.updateOne(
+        { matchId: match.matchId },
+        {
+          $set: { format: match.format },
+          $push: { points: { ...point, recordedAt: new Date() } },
+        },
+        { upsert: true },
+      );
+      this.publish({ matchId: match.matchId, source: 'live', point, revised: false });
+    } catch (error: any) {
+      this.logger.error(
+        `Failed to record win probability for match ${match.matchId}`,
+        error.stack,
+        'WinProbabilityService',
+      );
+    }
+  }
+
+  /**
+   * Recorded timeline of an API match with its latest point
+   */
+  async getMatchWinProbability(matchId: string) {
+    const timeline = await this.timelineModel.findOne({ matchId }).lean();
+    if (!timeline) {
+      throw new NotFoundException(`No win probability recorded for match ${matchId}`);
+    }
+
+    const points = timeline.points || [];
+    return {
+      matchId,
+      format: timeline.format,
+      model: this.getModel(timeline.format) ?? null,
+      current: points[points.length - 1] ?? null,
+      timeline: points,
+    };
+  }
+}
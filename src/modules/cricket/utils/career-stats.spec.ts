@@ -0,0 +1,52 @@
+import { buildCareerStats, CareerMatch } from './career-stats';
+
+function match(overrides: Partial<CareerMatch> = {}): CareerMatch {
+  return { matchId: 'm1', startTime: new Date('2026-05-01'), ...overrides };
+}
+
+function batting(runs: number, innings = 1) {
+  return { playerId: 'p', innings, runs, balls: runs, fours: 0, sixes: 0, isOut: true };
+}
+
+function bowling(overs: number, runs: number, wickets: number, innings = 1) {
+  return { playerId: 'p', innings, overs, balls: 0, maidens: 0, runs, wickets };
+}
+
+describe('career stats', () => {
+  it('leaves super overs out of the career figures', () => {
+    const stats = buildCareerStats(
+      [
+        match({
+          innings: [
+            { number: 1, isSuperOver: false },
+            { number: 3, isSuperOver: true },
+          ],
+          battingStats: [batting(30), batting(12, 3)],
+          bowlingStats: [bowling(4, 20, 1), bowling(1, 2, 2, 3)],
+        }),
+      ],
+      new Set(['p']),
+    );
+
+    expect(stats.batting).toMatchObject({ innings: 1, runs: 30, highest: 30 });
+    expect(stats.bowling).toMatchObject({
+      innings: 1,
+      balls: 24,
+      wickets: 1,
+      best: { wickets: 1, runs: 20 },
+    });
+  });
+
+  it('shows overs and economy per six balls when over lengths differ', () => {
+    const stats = buildCareerStats(
+      [
+        match({ matchId: 'eight', rules: { ballsPerOver: 8 }, bowlingStats: [bowling(3, 24, 0)] }),
+        match({ matchId: 'six', bowlingStats: [bowling(2, 12, 0)] }),
+      ],
+      new Set(['p']),
+    );
+
+    // 24 + 12 balls is six six-ball overs, 36 runs at 6 an over
+    expect(stats.bowling).toMatchObject({ balls: 36, overs: 6, runs: 36, economy: 6 });
+  });
+});
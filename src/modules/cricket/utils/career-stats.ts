@@ -0,0 +1,195 @@
+import { BattingEntry, BowlingEntry } from './local-scoring-engine';
+
+/**
+ * Career batting and bowling aggregates for a player from the scorecards of
+ * the matches they played. A local player may appear under several IDs once
+ * duplicates are merged. Super overs are left out. Balls bowled are counted
+ * as bowled whatever the over length, then shown as six-ball overs (12.3) with
+ * economy per six balls, so 8-ball and 6-ball matches add up.
+ */
+
+export interface CareerMatch {
+  matchId: string;
+  startTime: Date;
+  rules?: { ballsPerOver?: number };
+  innings?: Array<{ number: number; isSuperOver?: boolean }>;
+  matchSetup?: {
+    homePlayingXI?: Array<{ id: string }>;
+    awayPlayingXI?: Array<{ id: string }>;
+  };
+  battingStats?: Array<
+    Pick<BattingEntry, 'playerId' | 'runs' | 'balls' | 'fours' | 'sixes' | 'isOut'> & {
+      innings?: number;
+    }
+  >;
+  bowlingStats?: Array<
+    Pick<BowlingEntry, 'playerId' | 'overs' | 'maidens' | 'runs' | 'wickets'> & {
+      balls?: number;
+      innings?: number;
+    }
+  >;
+}
+
+export interface BattingCareer {
+  innings: number;
+  notOuts: number;
+  runs: number;
+  balls: number;
+  fours: number;
+  sixes: number;
+  highest: number;
+  highestNotOut: boolean;
+  fifties: number;
+  hundreds: number;
+  ducks: number;
+  /** Null until the player has been dismissed */
+  average: number | null;
+  strikeRate: number;
+}
+
+export interface BowlingCareer {
+  innings: number;
+  /** Legal deliveries, whatever the over length */
+  balls: number;
+  /** `balls` as six-ball overs */
+  overs: number;
+  maidens: number;
+  runs: number;
+  wickets: number;
+  best?: { wickets: number; runs: number };
+  fiveWickets: number;
+  /** Null until the player has taken a wicket */
+  average: number | null;
+  /** Runs per six balls */
+  economy: number;
+  strikeRate: number | null;
+}
+
+export interface CareerStats {
+  matches: number;
+  batting: BattingCareer;
+  bowling: BowlingCareer;
+  firstMatchAt?: Date;
+  lastMatchAt?: Date;
+}
+
+function roundTo(value: number, places: number): number {
+  const factor = Math.pow(10, places);
+  return Math.round(value * factor) / factor;
+}
+
+export function emptyCareerStats(): CareerStats {
+  return {
+    matches: 0,
+    batting: {
+      innings: 0,
+      notOuts: 0,
+      runs: 0,
+      balls: 0,
+      fours: 0,
+      sixes: 0,
+      highest: 0,
+      highestNotOut: false,
+      fifties: 0,
+      hundreds: 0,
+      ducks: 0,
+      average: null,
+      strikeRate: 0,
+    },
+    bowling: {
+      innings: 0,
+      balls: 0,
+      overs: 0,
+      maidens: 0,
+      runs: 0,
+      wickets: 0,
+      fiveWickets: 0,
+      average: null,
+      economy: 0,
+      strikeRate: null,
+    },
+  };
+}
+
+/**
+ * Career totals for the player known by `playerIds` across `matches`
+ */
+export function buildCareerStats(matches: CareerMatch[], playerIds: Set<string>): CareerStats {
+  const career = emptyCareerStats();
+  const { batting, bowling } = career;
+
+  for (const match of matches) {
+    const ballsPerOver = match.rules?.ballsPerOver ?? 6;
+    const playingXI = [
+      ...(match.matchSetup?.homePlayingXI || []),
+      ...(match.matchSetup?.awayPlayingXI || []),
+    ];
+    const superOvers = new Set(
+      (match.innings || []).filter((i) => i.isSuperOver).map((i) => i.number),
+    );
+    const counts = (entry: { playerId: string; innings?: number }) =>
+      playerIds.has(entry.playerId) &&
+      (entry.innings === undefined || !superOvers.has(entry.innings));
+    const battingEntries = (match.battingStats || []).filter(counts);
+    const bowlingEntries = (match.bowlingStats || []).filter(counts);
+    const played =
+      playingXI.some((player) => playerIds.has(player.id)) ||
+      battingEntries.length > 0 ||
+      bowlingEntries.length > 0;
+    if (!played) continue;
+
+    career.matches += 1;
+    if (!career.firstMatchAt || match.startTime < career.firstMatchAt) {
+      career.firstMatchAt = match.startTime;
+    }
+    if (!career.lastMatchAt || match.startTime > career.lastMatchAt) {
+      career.lastMatchAt = match.startTime;
+    }
+
+    for (const entry of battingEntries) {
+      batting.innings += 1;
+      batting.runs += entry.runs;
+      batting.balls += entry.balls;
+      batting.fours += entry.fours;
+      batting.sixes += entry.sixes;
+      if (!entry.isOut) batting.notOuts += 1;
+      if (entry.isOut && entry.runs === 0) batting.ducks += 1;
+      if (entry.runs >= 100) batting.hundreds += 1;
+      else if (entry.runs >= 50) batting.fifties += 1;
+      if (
+        entry.runs > batting.highest ||
+        (entry.runs === batting.highest && !entry.isOut && !batting.highestNotOut)
+      ) {
+        batting.highest = entry.runs;
+        batting.highestNotOut = !entry.isOut;
+      }
+    }
+
+    for (const entry of bowlingEntries) {
+      bowling.innings += 1;
+      bowling.balls += entry.overs * ballsPerOver + (entry.balls ?? 0);
+      bowling.maidens += entry.maidens;
+      bowling.runs += entry.runs;
+      bowling.wickets += entry.wickets;
+      if (entry.wickets >= 5) bowling.fiveWickets += 1;
+      const best = bowling.best;
+      if (
+        !best ||
+        entry.wickets > best.wickets ||
+        (entry.wickets === best.wickets && entry.runs < best.runs)
+      ) {
+        bowling.best = { wickets: entry.wickets, runs: entry.runs };
+      }
+    }
+  }
+
+  const dismissals = batting.innings - batting.notOuts;
+  batting.average = dismissals > 0 ? roundTo(batting.runs / dismissals, 2) : null;
+  batting.strikeRate = batting.balls > 0 ? roundTo((batting.runs / batting.balls) * 100, 2) : 0;
+
+  bowling.overs = roundTo(Math.floor(bowling.balls / 6) + (bowling.balls % 6) / 10, 1);
+  bowling.average = bowling.wickets > 0 ? roundTo(bowling.runs / bowling.wickets, 2) : null;
+  bowling.economy = bowling.balls > 0 ? roundTo((bowling.runs / bowling.balls) * 6, 2) : 0;
+  bowling.strikeRate = bowling.wickets > 0 ? roundTo(bowling.balls / bowling.wickets, 2) : null;
+  return career;
+}
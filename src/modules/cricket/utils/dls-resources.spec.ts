@@ -0,0 +1,38 @@
+import { DLS_G50, getResourcePercentage, scaleScore } from './dls-resources';
+
+describe('DLS resources', () => {
+  describe('getResourcePercentage', () => {
+    it('reads table rows directly', () => {
+      expect(getResourcePercentage(50, 0)).toBe(100);
+      expect(getResourcePercentage(20, 3)).toBe(49.1);
+    });
+
+    it('interpolates between rows', () => {
+      // Halfway between 20 overs (56.6) and 25 overs (66.5) with no wickets down
+      expect(getResourcePercentage(22.5, 0)).toBeCloseTo(61.55, 2);
+    });
+
+    it('has nothing left once the overs or wickets run out', () => {
+      expect(getResourcePercentage(0, 2)).toBe(0);
+      expect(getResourcePercentage(10, 10)).toBe(0);
+    });
+
+    it('caps overs at the 50-over row', () => {
+      expect(getResourcePercentage(60, 0)).toBe(100);
+    });
+  });
+
+  describe('scaleScore', () => {
+    it('scales down in proportion when the second side has fewer resources', () => {
+      expect(scaleScore(200, 100, 50)).toBe(100);
+    });
+
+    it('adds G50 per resource point when the second side has more resources', () => {
+      expect(scaleScore(200, 80, 90)).toBe(200 + (DLS_G50 * 10) / 100);
+    });
+
+    it('leaves the score alone when the first side had no resources', () => {
+      expect(scaleScore(150, 0, 40)).toBe(150);
+    });
+  });
+});
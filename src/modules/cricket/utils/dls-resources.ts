@@ -0,0 +1,62 @@
+/**
+ * Duckworth-Lewis-Stern (Standard Edition style) resource calculations for
+ * rain-affected limited-overs local matches. Runs entirely offline from the
+ * published resource percentages below.
+ */
+
+/**
+ * Runs a side is expected to score from 100% of resources in a lower-level
+ * 50-over match (the Standard Edition uses 245 for top-level ODIs)
+ */
+export const DLS_G50 = 200;
+
+// Percentage of resources remaining by overs left (rows) and wickets lost (0-9)
+const RESOURCE_TABLE: Array<{ overs: number; resources: number[] }> = [
+  { overs: 50, resources: [100.0, 93.4, 85.1, 74.9, 62.7, 49.0, 34.9, 22.0, 11.9, 4.7] },
+  { overs: 40, resources: [89.3, 84.2, 77.8, 69.6, 59.5, 47.6, 34.6, 22.0, 11.9, 4.7] },
+  { overs: 30, resources: [75.1, 71.8, 67.3, 61.6, 54.1, 44.7, 33.6, 21.8, 11.9, 4.7] },
+  { overs: 25, resources: [66.5, 63.9, 60.5, 56.0, 50.0, 42.2, 32.6, 21.6, 11.9, 4.7] },
+  { overs: 20, resources: [56.6, 54.8, 52.4, 49.1, 44.6, 38.6, 30.8, 21.2, 11.9, 4.7] },
+  { overs: 15, resources: [45.2, 44.1, 42.6, 40.5, 37.6, 33.5, 27.8, 20.0, 11.6, 4.7] },
+  { overs: 10, resources: [32.1, 31.6, 30.8, 29.8, 28.3, 26.1, 22.8, 17.9, 11.4, 4.7] },
+  { overs: 5, resources: [17.2, 17.0, 16.8, 16.5, 16.1, 15.4, 14.3, 12.5, 9.4, 4.6] },
+  { overs: 0, resources: [0, 0, 0, 0, 0, 0, 0, 0, 0, 0] },
+];
+
+/**
+ * Percentage of resources remaining with `oversLeft` overs (fractions allowed)
+ * and `wicketsLost` wickets down. Values between table rows are interpolated.
+ */
+export function getResourcePercentage(oversLeft: number, wicketsLost: number): number {
+  if (wicketsLost >= 10 || oversLeft <= 0) return 0;
+  const column = Math.max(0, Math.floor(wicketsLost));
+  const overs = Math.min(oversLeft, RESOURCE_TABLE[0].overs);
+
+  for (let i = 0; i < RESOURCE_TABLE.length - 1; i++) {
+    const upper = RESOURCE_TABLE[i];
+    const lower = RESOURCE_TABLE[i + 1];
+    if (overs <= upper.overs && overs >= lower.overs) {
+      const fraction = (overs - lower.overs) / (upper.overs - lower.overs);
+      return (
+        lower.resources[column] + fraction * (upper.resources[column] - lower.resources[column])
+      );
+    }
+  }
+  return 0;
+}
+
+/**
+ * Score equivalent to `firstInningsRuns` for a side with `teamTwoResources`
+ * against the `teamOneResources` the first side had (par score when fractional)
+ */
+export function scaleScore(
+  firstInningsRuns: number,
+  teamOneResources: number,
+  teamTwoResources: number,
+): number {
+  if (teamOneResources <= 0) return firstInningsRuns;
+  if (teamTwoResources <= teamOneResources) {
+    return (firstInningsRuns * teamTwoResources) / teamOneResources;
+  }
+  return firstInningsRuns + (DLS_G50 * (teamTwoResources - teamOneResources)) / 100;
+}
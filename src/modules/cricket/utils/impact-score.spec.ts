@@ -0,0 +1,106 @@
+import {
+  calculateImpactScores,
+  createContribution,
+  getLocalContributions,
+  PlayerContribution,
+} from './impact-score';
+import { DeliveryRecord, replayDeliveries, ScoringContext } from './local-scoring-engine';
+
+function player(id: string, team: string, stats: Partial<PlayerContribution> = {}) {
+  return { ...createContribution(id, `Player ${id}`, team), ...stats };
+}
+
+describe('impact score', () => {
+  it('ranks players highest first and rewards scoring faster than the match', () => {
+    const scores = calculateImpactScores([
+      player('slow', 'home', { runs: 10, balls: 25 }),
+      player('fast', 'home', { runs: 50, balls: 25 }),
+    ]);
+
+    // The match rate is 60 runs off 50 balls
+    expect(scores.map((s) => [s.playerId, s.score])).toEqual([
+      ['fast', 60],
+      ['slow', 0],
+    ]);
+    expect(scores[0]).toMatchObject({ role: 'batter', performance: '50* (25)' });
+  });
+
+  it('scores bowlers on wickets, maidens and runs saved', () => {
+    const [bowler] = calculateImpactScores([
+      player('x', 'away', { wickets: 3, ballsBowled: 24, runsConceded: 18, maidens: 1 }),
+    ]);
+    expect(bowler).toMatchObject({ score: 64, bowling: 64, role: 'bowler', performance: '3/18' });
+  });
+
+  it('calls a player an all-rounder when both disciplines count', () => {
+    const scores = calculateImpactScores([
+      player('ar', 'home', { runs: 30, balls: 20, wickets: 2, ballsBowled: 24, runsConceded: 24 }),
+      player('b', 'home', { runs: 10, balls: 20 }),
+    ]);
+    expect(scores.find((s) => s.playerId === 'ar')).toMatchObject({
+      batting: 35,
+      bowling: 40,
+      role: 'all_rounder',
+    });
+  });
+
+  it('gives the winning side a bonus', () => {
+    const scores = calculateImpactScores(
+      [player('h', 'home', { runs: 20, balls: 20 }), player('a', 'away', { runs: 20, balls: 20 })],
+      { winningTeam: 'away' },
+    );
+    expect(scores.map((s) => [s.playerId, s.score])).toEqual([
+      ['a', 22],
+      ['h', 20],
+    ]);
+  });
+
+  describe('getLocalContributions', () => {
+    it('credits catches to the fielder, or to the bowler for a caught and bowled', () => {
+      const context: ScoringContext = {
+        firstBattingTeam: 'home',
+        maxOvers: 20,
+        playingXI: { away: [{ id: 'f', name: 'Fielder' }] },
+      };
+      const wicket = { innings: 1, over: 0, bowlerId: 'x', runs: 0, ballType: 'normal' };
+      const deliveries = [
+        {
+          ...wicket,
+          ball: 0,
+          strikerId: 'a',
+          nonStrikerId: 'b',
+          isWicket: true,
+          dismissalType: 'caught',
+          fielderId: 'f',
+          incomingBatterId: 'c',
+        },
+        {
+          ...wicket,
+          ball: 1,
+          strikerId: 'c',
+          nonStrikerId: 'b',
+          isWicket: true,
+          dismissalType: 'caught',
+          incomingBatterId: 'd',
+        },
+      ] as DeliveryRecord[];
+
+      const contributions = getLocalContributions(
+        replayDeliveries(deliveries, context),
+        deliveries,
+        context,
+      );
+
+      expect(contributions.find((p) => p.playerId === 'f')).toMatchObject({
+        playerName: 'Fielder',
+        team: 'away',
+        catches: 1,
+      });
+      expect(contributions.find((p) => p.playerId === 'x')).toMatchObject({
+        wickets: 2,
+        ballsBowled: 2,
+        catches: 1,
+      });
+    });
+  });
+});
@@ -0,0 +1,206 @@
+import {
+  DeliveryRecord,
+  oppositeTeam,
+  resolveBattingTeam,
+  ScoringContext,
+  ScoringState,
+  TeamSide,
+} from './local-scoring-engine';
+
+/**
+ * Impact scores for proposing a player of the match. Runs count at face value,
+ * with a bonus (or deduction) for scoring faster (or slower) than the match
+ * rate; bowlers earn points per wicket and for runs saved against the match
+ * economy; catches, run-outs and stumpings earn a fixed amount. Players on the
+ * winning side get a small bonus.
+ */
+
+export interface PlayerContribution {
+  playerId: string;
+  playerName: string;
+  /** Side key or team name; compared with `winningTeam` */
+  team: string;
+  runs: number;
+  balls: number;
+  isOut: boolean;
+  wickets: number;
+  ballsBowled: number;
+  runsConceded: number;
+  maidens: number;
+  catches: number;
+  runOuts: number;
+  stumpings: number;
+}
+
+export interface ImpactScore {
+  playerId: string;
+  playerName: string;
+  team: string;
+  score: number;
+  batting: number;
+  bowling: number;
+  fielding: number;
+  role: 'batter' | 'bowler' | 'all_rounder' | 'fielder';
+  /** Short line for the scorecard, e.g. "54 (32), 2/18, 1 catch" */
+  performance: string;
+}
+
+const TEMPO_WEIGHT = 0.5;
+const WICKET_POINTS = 20;
+const MAIDEN_POINTS = 4;
+const FIELDING_POINTS = 8;
+const WINNER_BONUS = 1.1;
+// A second discipline counts towards an all-round role above this share
+const ALL_ROUND_SHARE = 0.25;
+
+export function createContribution(
+  playerId: string,
+  playerName: string,
+  team: string,
+): PlayerContribution {
+  return {
+    playerId,
+    playerName,
+    team,
+    runs: 0,
+    balls: 0,
+    isOut: false,
+    wickets: 0,
+    ballsBowled: 0,
+    runsConceded: 0,
+    maidens: 0,
+    catches: 0,
+    runOuts: 0,
+    stumpings: 0,
+  };
+}
+
+function plural(count: number, word: string, suffix: string = 's'): string {
+  return `${count} ${word}${count === 1 ? '' : suffix}`;
+}
+
+function describePerformance(player: PlayerContribution): string {
+  const parts: string[] = [];
+  if (player.balls > 0 || player.runs > 0) {
+    parts.push(`${player.runs}${player.isOut ? '' : '*'} (${player.balls})`);
+  }
+  if (player.ballsBowled > 0) parts.push(`${player.wickets}/${player.runsConceded}`);
+  if (player.catches > 0) parts.push(plural(player.catches, 'catch', 'es'));
+  if (player.runOuts > 0) parts.push(plural(player.runOuts, 'run-out'));
+  if (player.stumpings > 0) parts.push(plural(player.stumpings, 'stumping'));
+  return parts.join(', ');
+}
+
+function round(value: number): number {
+  return Math.round(value * 10) / 10;
+}
+
+/**
+ * Impact score for every player, highest first
+ */
+export function calculateImpactScores(
+  contributions: PlayerContribution[],
+  options: { winningTeam?: string } = {},
+): ImpactScore[] {
+  const totals = contributions.reduce(
+    (sum, p) => ({
+      runs: sum.runs + p.runs,
+      balls: sum.balls + p.balls,
+      conceded: sum.conceded + p.runsConceded,
+      bowled: sum.bowled + p.ballsBowled,
+    }),
+    { runs: 0, balls: 0, conceded: 0, bowled: 0 },
+  );
+  // Runs per ball for the match as a whole
+  const battingRate = totals.balls > 0 ? totals.runs / totals.balls : 0;
+  const bowlingRate = totals.bowled > 0 ? totals.conceded / totals.bowled : battingRate;
+
+  return contributions
+    .map((player) => {
+      const batting = player.runs + TEMPO_WEIGHT * (player.runs - player.balls * battingRate);
+      const bowling =
+        player.wickets * WICKET_POINTS +
+        player.maidens * MAIDEN_POINTS +
+        (player.ballsBowled * bowlingRate - player.runsConceded);
+      const fielding = (player.catches + player.runOuts + player.stumpings) * FIELDING_POINTS;
+      const bonus = options.winningTeam && player.team === options.winningTeam ? WINNER_BONUS : 1;
+      const score = (batting + bowling + fielding) * bonus;
+
+      // Strongest of the disciplines the player took part in
+      const disciplines: Array<{ role: ImpactScore['role']; value: number }> = [];
+      if (player.balls > 0 || player.runs > 0) disciplines.push({ role: 'batter', value: batting });
+      if (player.ballsBowled > 0) disciplines.push({ role: 'bowler', value: bowling });
+      if (fielding > 0) disciplines.push({ role: 'fielder', value: fielding });
+      let role = disciplines.length
+        ? disciplines.reduce((best, d) => (d.value > best.value ? d : best)).role
+        : 'fielder';
+      const total = Math.max(batting, 0) + Math.max(bowling, 0) + fielding;
+      if (total > 0 && batting / total >= ALL_ROUND_SHARE && bowling / total >= ALL_ROUND_SHARE) {
+        role = 'all_rounder';
+      }
+
+      return {
+        playerId: player.playerId,
+        playerName: player.playerName,
+        team: player.team,
+        score: round(score),
+        batting: round(batting),
+        bowling: round(bowling),
+        fielding,
+        role,
+        performance: describePerformance(player),
+      };
+    })
+    .sort((a, b) => b.score - a.score);
+}
+
+/**
+ * Contributions from a replayed local scorecard, with fielding credited from
+ * the wickets in `deliveries`. A catch without a fielder is caught and bowled.
+ */
+export function getLocalContributions(
+  state: ScoringState,
+  deliveries: DeliveryRecord[],
+  context: ScoringContext,
+): PlayerContribution[] {
+  const ballsPerOver = context.ballsPerOver ?? 6;
+  const players = new Map<string, PlayerContribution>();
+  const get = (playerId: string, playerName: string, team: TeamSide) => {
+    let player = players.get(playerId);
+    if (!player) {
+      player = createContribution(playerId, playerName, team);
+      players.set(playerId, player);
+    }
+    return player;
+  };
+
+  for (const entry of state.battingStats) {
+    const player = get(entry.playerId, entry.playerName, entry.team);
+    player.runs += entry.runs;
+    player.balls += entry.balls;
+    player.isOut = player.isOut || entry.isOut;
+  }
+  for (const entry of state.bowlingStats) {
+    const player = get(entry.playerId, entry.playerName, entry.team);
+    player.wickets += entry.wickets;
+    player.runsConceded += entry.runs;
+    player.maidens += entry.maidens;
+    player.ballsBowled += entry.overs * ballsPerOver + entry.balls;
+  }
+
+  for (const delivery of deliveries) {
+    if (!delivery.isWicket) continue;
+    const fielderId =
+      delivery.fielderId || (delivery.dismissalType === 'caught' ? delivery.bowlerId : undefined);
+    if (!fielderId) continue;
+    // Fielders who neither batted nor bowled are found in the playing XI
+    const team = oppositeTeam(resolveBattingTeam(delivery, context));
+    const name = context.playingXI?.[team]?.find((p) => p.id === fielderId)?.name;
+    const fielder = get(fielderId, name || 'Unknown Player', team);
+    if (delivery.dismissalType === 'caught') fielder.catches += 1;
+    if (delivery.dismissalType === 'run_out') fielder.runOuts += 1;
+    if (delivery.dismissalType === 'stumped') fielder.stumpings += 1;
+  }
+
+  return [...players.values()];
+}
@@ -0,0 +1,135 @@
+import { DeliveryRecord, getExtraPenalty, ScoringContext } from './local-scoring-engine';
+
+/**
+ * Templated ball-by-ball commentary for local matches, e.g.
+ * "Rahim to Karim, FOUR, races away to the boundary"
+ */
+
+const FOUR_PHRASES = [
+  'races away to the boundary',
+  'finds the gap',
+  'beats the fielder to the rope',
+  'timed beautifully',
+];
+
+const SIX_PHRASES = [
+  'clears the rope with ease',
+  'into the stands',
+  'launched high and handsome',
+  'that is a huge hit',
+];
+
+const DOT_PHRASES = [
+  'defended solidly',
+  'beaten, good ball',
+  'straight to the fielder',
+  'left alone',
+];
+
+const DISMISSAL_TEXT: Record<string, string> = {
+  bowled: 'bowled',
+  caught: 'caught',
+  lbw: 'lbw',
+  run_out: 'run out',
+  stumped: 'stumped',
+  hit_wicket: 'hit wicket',
+  retired_hurt: 'retired hurt',
+  retired_out: 'retired out',
+  handled_ball: 'handled the ball',
+  obstructing_field: 'obstructing the field',
+  timed_out: 'timed out',
+};
+
+/**
+ * Resolve a player's name from either playing XI
+ */
+export function getLocalPlayerName(context: ScoringContext, playerId?: string): string {
+  if (!playerId) return 'Unknown Player';
+  const player = [...(context.playingXI?.home || []), ...(context.playingXI?.away || [])].find(
+    (p) => p.id === playerId,
+  );
+  return player?.name || 'Unknown Player';
+}
+
+// Same delivery always gets the same phrase, so regenerating is stable
+function pickPhrase(phrases: string[], delivery: DeliveryRecord): string {
+  const seed = delivery.innings * 97 + delivery.over * 11 + delivery.ball;
+  return phrases[seed % phrases.length];
+}
+
+function plural(count: number, word: string): string {
+  return `${count} ${word}${count === 1 ? '' : 's'}`;
+}
+
+function describeRuns(delivery: DeliveryRecord, penalty: number): string {
+  const batRuns = delivery.runs - penalty;
+
+  switch (delivery.ballType) {
+    case 'wide':
+      return batRuns > 0 ? `wide, ${plural(batRuns, 'run')} taken as well` : 'wide';
+    case 'no_ball':
+      if (batRuns === 6 && delivery.isSix) return 'no ball, and SIX';
+      if (batRuns === 4 && delivery.isBoundary) return 'no ball, and FOUR';
+      return batRuns > 0 ? `no ball, ${plural(batRuns, 'run')} off the bat` : 'no ball';
+    case 'bye':
+      return delivery.runs === 4 && delivery.isBoundary
+        ? 'FOUR byes'
+        : plural(delivery.runs, 'bye');
+    case 'leg_bye':
+      return delivery.runs === 4 && delivery.isBoundary
+        ? 'FOUR leg byes'
+        : plural(delivery.runs, 'leg bye');
+    case 'dead_ball':
+      return 'dead ball';
+    default:
+      if (delivery.runs === 6 && (delivery.isSix || delivery.isBoundary)) {
+        return `SIX, ${pickPhrase(SIX_PHRASES, delivery)}`;
+      }
+      if (delivery.runs === 4 && delivery.isBoundary) {
+        return `FOUR, ${pickPhrase(FOUR_PHRASES, delivery)}`;
+      }
+      if (delivery.runs === 0) {
+        return delivery.isWicket ? '' : `no run, ${pickPhrase(DOT_PHRASES, delivery)}`;
+      }
+      return plural(delivery.runs, 'run');
+  }
+}
+
+function describeWicket(delivery: DeliveryRecord, context: ScoringContext): string {
+  const dismissed = getLocalPlayerName(context, delivery.dismissedBatterId || delivery.strikerId);
+  const fielder = delivery.fielderId ? getLocalPlayerName(context, delivery.fielderId) : undefined;
+  const bowler = getLocalPlayerName(context, delivery.bowlerId);
+  const how = DISMISSAL_TEXT[delivery.dismissalType || ''] || 'out';
+
+  if (delivery.dismissalType === 'retired_hurt') {
+    return `${dismissed} retires hurt`;
+  }
+  if (delivery.dismissalType === 'caught') {
+    return fielder && delivery.fielderId !== delivery.bowlerId
+      ? `OUT! ${dismissed} c ${fielder} b ${bowler}`
+      : `OUT! ${dismissed} c & b ${bowler}`;
+  }
+  if ((delivery.dismissalType === 'run_out' || delivery.dismissalType === 'stumped') && fielder) {
+    return `OUT! ${dismissed} ${how} (${fielder})`;
+  }
+  return `OUT! ${dismissed} ${how}`;
+}
+
+/**
+ * One line of commentary for a delivery
+ */
+export function generateDeliveryCommentary(
+  delivery: DeliveryRecord,
+  context: ScoringContext,
+): string {
+  const bowler = getLocalPlayerName(context, delivery.bowlerId);
+  const striker = getLocalPlayerName(context, delivery.strikerId);
+  const parts = [`${bowler} to ${striker}${delivery.isFreeHit ? ' (free hit)' : ''}`];
+
+  const runs = describeRuns(delivery, getExtraPenalty(delivery.ballType, context));
+  if (runs) parts.push(runs);
+  if (delivery.penaltyRuns) parts.push(`${plural(delivery.penaltyRuns, 'penalty run')} awarded`);
+  if (delivery.isWicket) parts.push(describeWicket(delivery, context));
+
+  return parts.join(', ');
+}
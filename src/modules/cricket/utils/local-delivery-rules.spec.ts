@@ -0,0 +1,140 @@
+import { getBowlerOverLimit, validateDelivery } from './local-delivery-rules';
+import { DeliveryRecord, replayDeliveries, ScoringContext } from './local-scoring-engine';
+
+const context: ScoringContext = { firstBattingTeam: 'home', maxOvers: 20 };
+
+function ball(over: number, ballNumber: number, overrides: Partial<DeliveryRecord> = {}) {
+  return {
+    innings: 1,
+    over,
+    ball: ballNumber,
+    strikerId: 'a',
+    nonStrikerId: 'b',
+    bowlerId: 'x',
+    runs: 0,
+    ballType: 'normal',
+    isWicket: false,
+    ...overrides,
+  } as DeliveryRecord;
+}
+
+function over(number: number, bowlerId: string) {
+  return [0, 1, 2, 3, 4, 5].map((b) => ball(number, b, { bowlerId }));
+}
+
+function errorCodes(
+  delivery: DeliveryRecord,
+  history: DeliveryRecord[] = [],
+  scoringContext = context,
+) {
+  const state = replayDeliveries(history, scoringContext);
+  return validateDelivery(delivery, history, state, scoringContext).errors.map((e) => e.code);
+}
+
+describe('local delivery rules', () => {
+  it('accepts a plain delivery', () => {
+    const result = validateDelivery(ball(0, 0), [], replayDeliveries([], context), context);
+    expect(result).toEqual({ valid: true, errors: [] });
+  });
+
+  it('rejects the same batter at both ends', () => {
+    expect(errorCodes(ball(0, 0, { nonStrikerId: 'a' }))).toContain('SAME_BATTER_BOTH_ENDS');
+  });
+
+  it('rejects a wide worth less than the match penalty', () => {
+    const twoRunWides: ScoringContext = { ...context, wideRuns: 2 };
+    expect(errorCodes(ball(0, 0, { ballType: 'wide', runs: 1 }), [], twoRunWides)).toEqual([
+      'EXTRA_RUNS_TOO_LOW',
+    ]);
+  });
+
+  describe('bowler', () => {
+    it('cannot bowl two overs in a row', () => {
+      expect(errorCodes(ball(1, 0, { bowlerId: 'x' }), over(0, 'x'))).toEqual([
+        'BOWLER_CONSECUTIVE_OVERS',
+      ]);
+      expect(errorCodes(ball(1, 0, { bowlerId: 'y' }), over(0, 'x'))).toEqual([]);
+    });
+
+    it('cannot start an over after bowling part of the previous one', () => {
+      // x was replaced by y after three balls
+      const history = over(0, 'x').map((d) => (d.ball >= 3 ? { ...d, bowlerId: 'y' } : d));
+
+      expect(errorCodes(ball(1, 0, { bowlerId: 'x' }), history)).toEqual([
+        'BOWLER_CONSECUTIVE_OVERS',
+      ]);
+      expect(errorCodes(ball(1, 0, { bowlerId: 'y' }), history)).toEqual([
+        'BOWLER_CONSECUTIVE_OVERS',
+      ]);
+    });
+
+    it('cannot bowl more than a fifth of the innings', () => {
+      const fiveOvers: ScoringContext = { ...context, maxOvers: 5 };
+      const history = [...over(0, 'x'), ...over(1, 'y')];
+
+      expect(errorCodes(ball(2, 0, { bowlerId: 'x' }), history, fiveOvers)).toEqual([
+        'BOWLER_OVER_LIMIT',
+      ]);
+      expect(errorCodes(ball(2, 0, { bowlerId: 'z' }), history, fiveOvers)).toEqual([]);
+    });
+  });
+
+  describe('dismissals', () => {
+    it('only allows run outs and the like off a free hit', () => {
+      const freeHits: ScoringContext = { ...context, freeHits: true };
+      const history = [ball(0, 0, { ballType: 'no_ball', runs: 1 })];
+      const wicket = { isWicket: true, incomingBatterId: 'c' };
+
+      expect(
+        errorCodes(ball(0, 0, { ...wicket, dismissalType: 'bowled' }), history, freeHits),
+      ).toEqual(['FREE_HIT_DISMISSAL']);
+      expect(
+        errorCodes(
+          ball(0, 0, { ...wicket, dismissalType: 'run_out', dismissedBatterId: 'a' }),
+          history,
+          freeHits,
+        ),
+      ).toEqual([]);
+    });
+
+    it('does not allow a stumping off a no-ball', () => {
+      const stumped = ball(0, 0, {
+        ballType: 'no_ball',
+        runs: 1,
+        isWicket: true,
+        dismissalType: 'stumped',
+        incomingBatterId: 'c',
+      });
+      expect(errorCodes(stumped)).toEqual(['STUMPED_OFF_NO_BALL']);
+    });
+
+    it('asks for the incoming batter unless the wicket ends the innings', () => {
+      const wicket = ball(0, 0, { isWicket: true, dismissalType: 'bowled' });
+      expect(errorCodes(wicket)).toEqual(['INCOMING_BATTER_REQUIRED']);
+
+      const pair = [
+        { id: 'a', name: 'Player A' },
+        { id: 'b', name: 'Player B' },
+      ];
+      const lastPair: ScoringContext = { ...context, playingXI: { home: pair } };
+      expect(errorCodes(wicket, [], lastPair)).toEqual([]);
+    });
+
+    it('does not let a batter at the crease come in again', () => {
+      const wicket = ball(0, 0, { isWicket: true, dismissalType: 'bowled', incomingBatterId: 'b' });
+      expect(errorCodes(wicket)).toEqual(['INCOMING_BATTER_UNAVAILABLE']);
+    });
+  });
+
+  describe('getBowlerOverLimit', () => {
+    it('allows a fifth of the overs, rounded up', () => {
+      expect(getBowlerOverLimit(context, 1)).toBe(4);
+      expect(getBowlerOverLimit({ ...context, maxOvers: 50 }, 1)).toBe(10);
+      expect(getBowlerOverLimit({ ...context, maxOvers: 8 }, 1)).toBe(2);
+    });
+
+    it('has no limit in unlimited-overs cricket', () => {
+      expect(getBowlerOverLimit({ firstBattingTeam: 'home', totalInnings: 4 }, 1)).toBeUndefined();
+    });
+  });
+});
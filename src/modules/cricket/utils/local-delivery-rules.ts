@@ -0,0 +1,233 @@
+import {
+  applyDelivery,
+  DeliveryRecord,
+  getAllottedOvers,
+  getExtraPenalty,
+  isFreeHitDismissal,
+  oppositeTeam,
+  resolveBattingTeam,
+  ScoringContext,
+  ScoringState,
+} from './local-scoring-engine';
+
+/**
+ * Law-based checks of a delivery against the scoring state it would be
+ * appended to. Each broken rule is reported with a stable code the scoring
+ * app can map to its own message.
+ */
+
+export type DeliveryErrorCode =
+  | 'INVALID_BALL_NUMBER'
+  | 'EXTRA_RUNS_TOO_LOW'
+  | 'DEAD_BALL_RUNS'
+  | 'DEAD_BALL_WICKET'
+  | 'FREE_HIT_DISMISSAL'
+  | 'SAME_BATTER_BOTH_ENDS'
+  | 'BATTER_NOT_IN_XI'
+  | 'BATTER_ALREADY_OUT'
+  | 'BOWLER_NOT_IN_XI'
+  | 'BOWLER_CONSECUTIVE_OVERS'
+  | 'BOWLER_OVER_LIMIT'
+  | 'DISMISSAL_TYPE_REQUIRED'
+  | 'DISMISSED_BATTER_NOT_AT_CREASE'
+  | 'STUMPED_OFF_NO_BALL'
+  | 'STUMPED_BY_NON_KEEPER'
+  | 'INCOMING_BATTER_REQUIRED'
+  | 'INCOMING_BATTER_UNAVAILABLE';
+
+export interface DeliveryViolation {
+  code: DeliveryErrorCode;
+  message: string;
+  /** Delivery field the rule applies to */
+  field?: string;
+}
+
+// Limited-overs bowlers may bowl a fifth of the innings (4 in a T20, 10 in an ODI)
+const BOWLER_OVERS_FRACTION = 5;
+
+/**
+ * Most overs one bowler may bowl in an innings, or undefined when unlimited
+ */
+export function getBowlerOverLimit(
+  context: ScoringContext,
+  inningsNumber: number,
+): number | undefined {
+  const allotted = getAllottedOvers(context, inningsNumber);
+  return allotted === undefined ? undefined : Math.ceil(allotted / BOWLER_OVERS_FRACTION);
+}
+
+function isKeeper(player: { role?: string }): boolean {
+  return /keep/i.test(player.role || '');
+}
+
+function describe(type: string): string {
+  return type.replace(/_/g, ' ');
+}
+
+/**
+ * Validate the next delivery of `history` (already replayed into `state`).
+ * Playing XI checks are skipped for a side whose XI has not been entered.
+ */
+export function validateDelivery(
+  delivery: DeliveryRecord,
+  history: DeliveryRecord[],
+  state: ScoringState,
+  context: ScoringContext,
+): { valid: boolean; errors: DeliveryViolation[] } {
+  const errors: DeliveryViolation[] = [];
+  const fail = (code: DeliveryErrorCode, message: string, field?: string) =>
+    errors.push({ code, message, field });
+
+  const ballsPerOver = context.ballsPerOver ?? 6;
+  const battingTeam = resolveBattingTeam(delivery, context);
+  const battingXI = context.playingXI?.[battingTeam] || [];
+  const fieldingXI = context.playingXI?.[oppositeTeam(battingTeam)] || [];
+  const live = state.liveState?.currentInnings === delivery.innings ? state.liveState : null;
+  const battingEntry = (playerId: string) =>
+    state.battingStats.find(
+      (s) => s.innings === delivery.innings && s.team === battingTeam && s.playerId === playerId,
+    );
+
+  if (delivery.ball < 0 || delivery.ball >= ballsPerOver) {
+    fail('INVALID_BALL_NUMBER', `Ball number must be between 0 and ${ballsPerOver - 1}`, 'ball');
+  }
+
+  // Extras and dead balls
+  const penalty = getExtraPenalty(delivery.ballType, context);
+  if (delivery.runs < penalty) {
+    fail(
+      'EXTRA_RUNS_TOO_LOW',
+      `A ${delivery.ballType.replace('_', '-')} is worth at least ${penalty} run(s) in this match`,
+      'runs',
+    );
+  }
+  const retirement =
+    delivery.dismissalType === 'retired_hurt' || delivery.dismissalType === 'retired_out';
+  if (delivery.ballType === 'dead_ball') {
+    if (delivery.runs > 0) {
+      fail(
+        'DEAD_BALL_RUNS',
+        'No runs can be scored off a dead ball; record awarded runs as penaltyRuns',
+        'runs',
+      );
+    }
+    if (delivery.isWicket && !retirement) {
+      fail('DEAD_BALL_WICKET', 'Only a retirement can be recorded on a dead ball', 'isWicket');
+    }
+  }
+
+  // Batters
+  if (delivery.strikerId === delivery.nonStrikerId) {
+    fail('SAME_BATTER_BOTH_ENDS', 'Striker and non-striker must be different batters', 'strikerId');
+  }
+  for (const [field, playerId] of [
+    ['strikerId', delivery.strikerId],
+    ['nonStrikerId', delivery.nonStrikerId],
+  ]) {
+    if (battingXI.length > 0 && !battingXI.some((p) => p.id === playerId)) {
+      fail('BATTER_NOT_IN_XI', `Batter ${playerId} is not in the batting side's XI`, field);
+    } else if (battingEntry(playerId)?.isOut) {
+      fail('BATTER_ALREADY_OUT', `Batter ${playerId} has already been dismissed`, field);
+    }
+  }
+
+  // Bowler
+  if (fieldingXI.length > 0 && !fieldingXI.some((p) => p.id === delivery.bowlerId)) {
+    fail(
+      'BOWLER_NOT_IN_XI',
+      `Bowler ${delivery.bowlerId} is not in the fielding side's XI`,
+      'bowlerId',
+    );
+  }
+  // Anyone who bowled part of the previous over counts, as when a bowler is
+  // replaced mid-over (Law 17.8)
+  if (live && live.currentOver > 0) {
+    const bowledPreviousOver = history.some(
+      (d) =>
+        d.innings === delivery.innings &&
+        d.over === live.currentOver - 1 &&
+        d.bowlerId === delivery.bowlerId,
+    );
+    if (bowledPreviousOver) {
+      fail('BOWLER_CONSECUTIVE_OVERS', 'A bowler cannot bowl two consecutive overs', 'bowlerId');
+    }
+  }
+  const overLimit = getBowlerOverLimit(context, delivery.innings);
+  const figures = state.bowlingStats.find(
+    (s) => s.innings === delivery.innings && s.playerId === delivery.bowlerId,
+  );
+  if (
+    overLimit !== undefined &&
+    figures &&
+    figures.overs * ballsPerOver + figures.balls >= overLimit * ballsPerOver
+  ) {
+    fail(
+      'BOWLER_OVER_LIMIT',
+      `A bowler may bowl at most ${overLimit} over(s) in this innings`,
+      'bowlerId',
+    );
+  }
+
+  // Dismissal
+  if (delivery.isWicket) {
+    const type = delivery.dismissalType;
+    const dismissedId = delivery.dismissedBatterId || delivery.strikerId;
+
+    if (!type) {
+      fail('DISMISSAL_TYPE_REQUIRED', 'A wicket needs a dismissal type', 'dismissalType');
+    } else if (live?.isFreeHit && !isFreeHitDismissal(type)) {
+      fail(
+        'FREE_HIT_DISMISSAL',
+        `A batter cannot be dismissed ${describe(type)} off a free hit`,
+        'dismissalType',
+      );
+    }
+    if (dismissedId !== delivery.strikerId && dismissedId !== delivery.nonStrikerId) {
+      fail(
+        'DISMISSED_BATTER_NOT_AT_CREASE',
+        `Batter ${dismissedId} is not at the crease`,
+        'dismissedBatterId',
+      );
+    }
+    if (type === 'stumped') {
+      const keepers = fieldingXI.filter(isKeeper);
+      if (delivery.ballType === 'no_ball') {
+        fail('STUMPED_OFF_NO_BALL', 'A batter cannot be stumped off a no-ball', 'dismissalType');
+      }
+      if (keepers.length > 0 && !keepers.some((p) => p.id === delivery.fielderId)) {
+        fail('STUMPED_BY_NON_KEEPER', 'Only the wicket-keeper can make a stumping', 'fielderId');
+      }
+    }
+
+    // A replacement is needed unless this ball ends the innings
+    const after = applyDelivery(state, delivery, context);
+    const ended = after.innings.find((i) => i.number === delivery.innings)?.isComplete;
+    const incomingId = delivery.incomingBatterId;
+    if (!incomingId) {
+      if (!ended) {
+        fail(
+          'INCOMING_BATTER_REQUIRED',
+          'Select the incoming batter for this wicket',
+          'incomingBatterId',
+        );
+      }
+    } else {
+      const survivorId =
+        dismissedId === delivery.strikerId ? delivery.nonStrikerId : delivery.strikerId;
+      const unavailable =
+        incomingId === dismissedId ||
+        incomingId === survivorId ||
+        (battingXI.length > 0 && !battingXI.some((p) => p.id === incomingId)) ||
+        battingEntry(incomingId)?.isOut;
+      if (unavailable) {
+        fail(
+          'INCOMING_BATTER_UNAVAILABLE',
+          `Batter ${incomingId} cannot come in to bat`,
+          'incomingBatterId',
+        );
+      }
+    }
+  }
+
+  return { valid: errors.length === 0, errors };
+}
@@ -0,0 +1,433 @@
+import {
+  bowlerRunsConceded,
+  DeliveryRecord,
+  getAllottedOvers,
+  getExtraPenalty,
+  getRunsOffBat,
+  isBowlerWicket,
+  isLegalDelivery,
+  isSuperOverInnings,
+  isTeamWicket,
+  oppositeTeam,
+  replayDeliveries,
+  ScoringContext,
+  TeamSide,
+} from './local-scoring-engine';
+
+/**
+ * Scorecard analytics for local matches (partnerships, fall of wickets,
+ * Manhattan, worm, extras and phase splits), derived from ballHistory only.
+ */
+
+export interface PartnershipSummary {
+  wicket: number;
+  batter1: { playerId: string; playerName: string; runs: number; balls: number };
+  batter2: { playerId: string; playerName: string; runs: number; balls: number };
+  runs: number;
+  balls: number;
+  isUnbroken: boolean;
+}
+
+export interface FallOfWicket {
+  wicket: number;
+  playerId: string;
+  playerName: string;
+  score: number;
+  /** Overs at the fall, e.g. "12.3" */
+  overs: string;
+  dismissalType?: string;
+}
+
+export interface OverSummary {
+  over: number;
+  runs: number;
+  wickets: number;
+  extras: number;
+  bowlerId?: string;
+}
+
+export interface WormPoint {
+  over: number;
+  runs: number;
+  wickets: number;
+}
+
+export interface PhaseSummary {
+  phase: 'powerplay' | 'middle' | 'death';
+  fromOver: number;
+  toOver: number;
+  runs: number;
+  wickets: number;
+  balls: number;
+  runRate: number;
+}
+
+export interface InningsAnalytics {
+  innings: number;
+  battingTeam: TeamSide;
+  isSuperOver: boolean;
+  partnerships: PartnershipSummary[];
+  fallOfWickets: FallOfWicket[];
+  manhattan: OverSummary[];
+  worm: WormPoint[];
+  extras: {
+    wides: number;
+    noBalls: number;
+    byes: number;
+    legByes: number;
+    penalties: number;
+    total: number;
+  };
+  phases: PhaseSummary[];
+}
+
+export interface ShotPoint {
+  over: number;
+  ball: number;
+  zone?: string;
+  angle?: number;
+  distance?: number;
+  runs: number;
+  isBoundary: boolean;
+  isSix: boolean;
+  isWicket: boolean;
+}
+
+export interface WagonWheel {
+  innings: number;
+  team: TeamSide;
+  playerId: string;
+  playerName: string;
+  /** Runs off the bat from the mapped shots */
+  runs: number;
+  shots: ShotPoint[];
+  zones: Record<string, { shots: number; runs: number }>;
+}
+
+export interface PitchPoint {
+  over: number;
+  ball: number;
+  line?: string;
+  length?: string;
+  ballType: string;
+  runs: number;
+  isWicket: boolean;
+}
+
+export interface PitchMap {
+  innings: number;
+  team: TeamSide;
+  playerId: string;
+  playerName: string;
+  deliveries: PitchPoint[];
+  lengths: Record<string, { balls: number; runs: number; wickets: number }>;
+  lines: Record<string, { balls: number; runs: number; wickets: number }>;
+}
+
+/**
+ * Powerplay / middle / death boundaries for an innings of `overs` overs
+ * (1-6, 7-15, 16-20 in a T20; 1-10, 11-40, 41-50 in an ODI)
+ */
+function getPhaseBoundaries(
+  overs: number,
+): Array<Omit<PhaseSummary, 'runs' | 'wickets' | 'balls' | 'runRate'>> {
+  if (overs < 5) return [];
+  const powerplay = overs >= 40 ? 10 : Math.round(overs * 0.3);
+  const death = overs >= 40 ? 10 : Math.round(overs * 0.25);
+  return [
+    { phase: 'powerplay', fromOver: 1, toOver: powerplay },
+    { phase: 'middle', fromOver: powerplay + 1, toOver: overs - death },
+    { phase: 'death', fromOver: overs - death + 1, toOver: overs },
+  ];
+}
+
+function buildInningsAnalytics(
+  inningsNumber: number,
+  battingTeam: TeamSide,
+  deliveries: DeliveryRecord[],
+  context: ScoringContext,
+  playerNames: Map<string, string>,
+): InningsAnalytics {
+  const ballsPerOver = context.ballsPerOver ?? 6;
+  const nameOf = (playerId: string) => playerNames.get(playerId) || 'Unknown Player';
+
+  const partnerships: PartnershipSummary[] = [];
+  const fallOfWickets: FallOfWicket[] = [];
+  const manhattan: OverSummary[] = [];
+  const worm: WormPoint[] = [];
+  const extras = { wides: 0, noBalls: 0, byes: 0, legByes: 0, penalties: 0, total: 0 };
+
+  let runs = 0;
+  let wickets = 0;
+  let legalBalls = 0;
+  let current: PartnershipSummary | null = null;
+
+  const startPartnership = (strikerId: string, nonStrikerId: string): PartnershipSummary => ({
+    wicket: wickets + 1,
+    batter1: { playerId: strikerId, playerName: nameOf(strikerId), runs: 0, balls: 0 },
+    batter2: { playerId: nonStrikerId, playerName: nameOf(nonStrikerId), runs: 0, balls: 0 },
+    runs: 0,
+    balls: 0,
+    isUnbroken: true,
+  });
+
+  for (const delivery of deliveries) {
+    const legal = isLegalDelivery(delivery.ballType);
+    const overIndex = Math.floor(legalBalls / ballsPerOver);
+
+    // A new batter in the pair means the previous stand ended (wicket or retirement)
+    const inPair = (id: string) =>
+      current && (current.batter1.playerId === id || current.batter2.playerId === id);
+    if (!current || !inPair(delivery.strikerId) || !inPair(delivery.nonStrikerId)) {
+      if (current) {
+        current.isUnbroken = false;
+        partnerships.push(current);
+      }
+      current = startPartnership(delivery.strikerId, delivery.nonStrikerId);
+    }
+
+    const penaltyRuns = delivery.penaltyRuns || 0;
+    runs += delivery.runs + penaltyRuns;
+    current.runs += delivery.runs + penaltyRuns;
+    const striker =
+      current.batter1.playerId === delivery.strikerId ? current.batter1 : current.batter2;
+    const batRuns = getRunsOffBat(delivery, context);
+    if (legal) {
+      legalBalls += 1;
+      current.balls += 1;
+    }
+    // A no-ball is a ball faced, as in the scorecard
+    if (legal || delivery.ballType === 'no_ball') {
+      striker.balls += 1;
+    }
+    striker.runs += batRuns;
+
+    if (delivery.ballType === 'wide') extras.wides += delivery.runs;
+    if (delivery.ballType === 'no_ball') extras.noBalls += delivery.runs - batRuns;
+    if (delivery.ballType === 'bye') extras.byes += delivery.runs;
+    if (delivery.ballType === 'leg_bye') extras.legByes += delivery.runs;
+    extras.penalties += penaltyRuns;
+
+    let over = manhattan.find((o) => o.over === overIndex + 1);
+    if (!over) {
+      over = { over: overIndex + 1, runs: 0, wickets: 0, extras: 0, bowlerId: delivery.bowlerId };
+      manhattan.push(over);
+    }
+    over.runs += delivery.runs + penaltyRuns;
+    over.extras += delivery.runs - batRuns + penaltyRuns;
+
+    // Retiring hurt ends the stand but is not a wicket
+    if (delivery.isWicket && !isTeamWicket(delivery)) {
+      current.isUnbroken = false;
+      partnerships.push(current);
+      current = null;
+    } else if (delivery.isWicket) {
+      wickets += 1;
+      over.wickets += 1;
+      const dismissedId = delivery.dismissedBatterId || delivery.strikerId;
+      fallOfWickets.push({
+        wicket: wickets,
+        playerId: dismissedId,
+        playerName: nameOf(dismissedId),
+        score: runs,
+        overs: `${Math.floor(legalBalls / ballsPerOver)}.${legalBalls % ballsPerOver}`,
+        dismissalType: delivery.dismissalType,
+      });
+      current.isUnbroken = false;
+      partnerships.push(current);
+      current = null;
+    }
+
+    if (legal && legalBalls % ballsPerOver === 0) {
+      worm.push({ over: legalBalls / ballsPerOver, runs, wickets });
+    }
+  }
+
+  if (current) {
+    partnerships.push(current);
+  }
+  // Part-completed last over
+  if (legalBalls % ballsPerOver !== 0) {
+    worm.push({ over: Math.ceil(legalBalls / ballsPerOver), runs, wickets });
+  }
+  extras.total = extras.wides + extras.noBalls + extras.byes + extras.legByes + extras.penalties;
+
+  const isSuperOver = isSuperOverInnings(context, inningsNumber);
+  const allotted = isSuperOver ? undefined : getAllottedOvers(context, inningsNumber);
+  const phases = getPhaseBoundaries(allotted || 0).map((boundary) => {
+    const overs = manhattan.filter((o) => o.over >= boundary.fromOver && o.over <= boundary.toOver);
+    const phaseBalls = Math.max(
+      0,
+      Math.min(legalBalls, boundary.toOver * ballsPerOver) - (boundary.fromOver - 1) * ballsPerOver,
+    );
+    const phaseRuns = overs.reduce((total, o) => total + o.runs, 0);
+    return {
+      ...boundary,
+      runs: phaseRuns,
+      wickets: overs.reduce((total, o) => total + o.wickets, 0),
+      balls: phaseBalls,
+      runRate: phaseBalls > 0 ? (phaseRuns / phaseBalls) * ballsPerOver : 0,
+    };
+  });
+
+  return {
+    innings: inningsNumber,
+    battingTeam,
+    isSuperOver,
+    partnerships,
+    fallOfWickets,
+    manhattan,
+    worm,
+    extras,
+    phases,
+  };
+}
+
+// Replayed state and player names for a delivery list
+function getPlayerNames(deliveries: DeliveryRecord[], context: ScoringContext) {
+  const state = replayDeliveries(deliveries, context);
+  const playerNames = new Map<string, string>();
+  for (const entry of [...state.battingStats, ...state.bowlingStats]) {
+    playerNames.set(entry.playerId, entry.playerName);
+  }
+  return { state, playerNames };
+}
+
+/**
+ * Analytics for every innings in the delivery list
+ */
+export function buildMatchAnalytics(
+  deliveries: DeliveryRecord[],
+  context: ScoringContext,
+): InningsAnalytics[] {
+  const { state, playerNames } = getPlayerNames(deliveries, context);
+
+  return state.innings.map((summary) =>
+    buildInningsAnalytics(
+      summary.number,
+      summary.battingTeam,
+      deliveries.filter((d) => d.innings === summary.number),
+      context,
+      playerNames,
+    ),
+  );
+}
+
+/**
+ * Wagon wheel per batter and innings from the deliveries with a shot recorded.
+ * Runs are off the bat only (no byes, leg byes or extras' penalty).
+ */
+export function buildWagonWheels(
+  deliveries: DeliveryRecord[],
+  context: ScoringContext,
+): WagonWheel[] {
+  const { state, playerNames } = getPlayerNames(deliveries, context);
+  const wheels = new Map<string, WagonWheel>();
+
+  for (const delivery of deliveries) {
+    if (!delivery.shotZone && delivery.shotAngle === undefined) continue;
+    if (delivery.ballType !== 'normal' && delivery.ballType !== 'no_ball') continue;
+
+    const team =
+      state.innings.find((i) => i.number === delivery.innings)?.battingTeam ||
+      delivery.battingTeam ||
+      context.firstBattingTeam;
+    const key = `${delivery.innings}:${delivery.strikerId}`;
+    let wheel = wheels.get(key);
+    if (!wheel) {
+      wheel = {
+        innings: delivery.innings,
+        team,
+        playerId: delivery.strikerId,
+        playerName: playerNames.get(delivery.strikerId) || 'Unknown Player',
+        runs: 0,
+        shots: [],
+        zones: {},
+      };
+      wheels.set(key, wheel);
+    }
+
+    const runs = Math.max(0, delivery.runs - getExtraPenalty(delivery.ballType, context));
+    wheel.runs += runs;
+    wheel.shots.push({
+      over: delivery.over,
+      ball: delivery.ball,
+      zone: delivery.shotZone,
+      angle: delivery.shotAngle,
+      distance: delivery.shotDistance,
+      runs,
+      isBoundary: !!delivery.isBoundary,
+      isSix: !!delivery.isSix,
+      isWicket:
+        delivery.isWicket &&
+        (delivery.dismissedBatterId || delivery.strikerId) === delivery.strikerId,
+    });
+    if (delivery.shotZone) {
+      const zone = (wheel.zones[delivery.shotZone] ??= { shots: 0, runs: 0 });
+      zone.shots += 1;
+      zone.runs += runs;
+    }
+  }
+
+  return [...wheels.values()];
+}
+
+/**
+ * Pitch map per bowler and innings from the deliveries with a line or length
+ * recorded. Runs are those charged to the bowler.
+ */
+export function buildPitchMaps(deliveries: DeliveryRecord[], context: ScoringContext): PitchMap[] {
+  const { state, playerNames } = getPlayerNames(deliveries, context);
+  const maps = new Map<string, PitchMap>();
+  const tally = (
+    buckets: PitchMap['lengths'],
+    bucket: string | undefined,
+    runs: number,
+    wicket: boolean,
+  ) => {
+    if (!bucket) return;
+    const entry = (buckets[bucket] ??= { balls: 0, runs: 0, wickets: 0 });
+    entry.balls += 1;
+    entry.runs += runs;
+    if (wicket) entry.wickets += 1;
+  };
+
+  for (const delivery of deliveries) {
+    if (!delivery.pitchLine && !delivery.pitchLength) continue;
+
+    const battingTeam =
+      state.innings.find((i) => i.number === delivery.innings)?.battingTeam ||
+      delivery.battingTeam ||
+      context.firstBattingTeam;
+    const key = `${delivery.innings}:${delivery.bowlerId}`;
+    let map = maps.get(key);
+    if (!map) {
+      map = {
+        innings: delivery.innings,
+        team: oppositeTeam(battingTeam),
+        playerId: delivery.bowlerId,
+        playerName: playerNames.get(delivery.bowlerId) || 'Unknown Player',
+        deliveries: [],
+        lengths: {},
+        lines: {},
+      };
+      maps.set(key, map);
+    }
+
+    const runs = bowlerRunsConceded(delivery);
+    const wicket = isBowlerWicket(delivery);
+    map.deliveries.push({
+      over: delivery.over,
+      ball: delivery.ball,
+      line: delivery.pitchLine,
+      length: delivery.pitchLength,
+      ballType: delivery.ballType,
+      runs,
+      isWicket: wicket,
+    });
+    tally(map.lengths, delivery.pitchLength, runs, wicket);
+    tally(map.lines, delivery.pitchLine, runs, wicket);
+  }
+
+  return [...maps.values()];
+}
@@ -0,0 +1,63 @@
+import {
+  alignDeliveryStreams,
+  getStreamAccuracy,
+  resolveDeliveryStreams,
+} from './local-reconciliation';
+import { DeliveryRecord, toDeliveryRecord } from './local-scoring-engine';
+
+function ball(ballNumber: number, overrides: Partial<DeliveryRecord> = {}) {
+  return {
+    innings: 1,
+    over: 0,
+    ball: ballNumber,
+    strikerId: 'a',
+    nonStrikerId: 'b',
+    bowlerId: 'x',
+    runs: 0,
+    ballType: 'normal',
+    isWicket: false,
+    ...overrides,
+  } as DeliveryRecord;
+}
+
+describe('local reconciliation', () => {
+  const primary = [
+    ball(0, { runs: 4, shotZone: 'cover', shotAngle: 70, shotDistance: 65, recordedBy: 's1' }),
+    ball(1, { runs: 1, pitchLine: 'off_stump', pitchLength: 'good', recordedBy: 's1' }),
+  ];
+  const secondary = [
+    ball(0, { runs: 4, shotZone: 'cover', recordedBy: 's2' }),
+    ball(1, { runs: 2, shotZone: 'midwicket', pitchLength: 'short', recordedBy: 's2' }),
+  ];
+
+  it('flags the fields on which the streams disagree', () => {
+    const aligned = alignDeliveryStreams(primary, secondary);
+    expect(aligned.map((position) => position.differences)).toEqual([[], ['runs']]);
+  });
+
+  it('keeps shot and pitch data from the stream each ball is taken from', () => {
+    // As when finalizing: stored balls are copied, resolved, then copied back
+    const aligned = alignDeliveryStreams(
+      primary.map(toDeliveryRecord),
+      secondary.map(toDeliveryRecord),
+    );
+    const resolved = resolveDeliveryStreams(aligned, (position) =>
+      position.ball === 1 ? 'secondary' : undefined,
+    ).map(toDeliveryRecord);
+
+    expect(resolved[0]).toMatchObject({
+      runs: 4,
+      shotZone: 'cover',
+      shotAngle: 70,
+      shotDistance: 65,
+      recordedBy: 's1',
+    });
+    expect(resolved[1]).toMatchObject({
+      runs: 2,
+      shotZone: 'midwicket',
+      pitchLength: 'short',
+      recordedBy: 's2',
+    });
+    expect(getStreamAccuracy(primary, resolved)).toEqual({ matched: 1, total: 2, score: 50 });
+  });
+});
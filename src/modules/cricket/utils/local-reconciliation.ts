@@ -0,0 +1,120 @@
+import { DeliveryRecord } from './local-scoring-engine';
+
+/**
+ * Alignment of two independently scored ball streams for the same local match.
+ * Deliveries are matched by innings, over, ball and occurrence (wides and
+ * no-balls share the slot of the legal ball that follows them).
+ */
+
+export interface AlignedDelivery {
+  innings: number;
+  over: number;
+  ball: number;
+  /** Index among deliveries at the same innings/over/ball (0 = first) */
+  occurrence: number;
+  primary?: DeliveryRecord;
+  secondary?: DeliveryRecord;
+  /** Fields that disagree; 'delivery' when only one stream has the ball */
+  differences: string[];
+}
+
+const COMPARED_FIELDS: Array<keyof DeliveryRecord> = [
+  'runs',
+  'ballType',
+  'isWicket',
+  'dismissalType',
+  'dismissedBatterId',
+  'strikerId',
+  'bowlerId',
+];
+
+// Treat missing optional values alike (undefined, null, false, '')
+function normalize(value: unknown): unknown {
+  return value === undefined || value === null || value === false || value === '' ? null : value;
+}
+
+/**
+ * Fields on which two records of the same delivery disagree
+ */
+export function compareDeliveries(a?: DeliveryRecord, b?: DeliveryRecord): string[] {
+  if (!a || !b) return a || b ? ['delivery'] : [];
+  return COMPARED_FIELDS.filter((field) => normalize(a[field]) !== normalize(b[field]));
+}
+
+function positionKey(innings: number, over: number, ball: number, occurrence: number): string {
+  return `${innings}-${over}-${ball}-${occurrence}`;
+}
+
+function indexStream(stream: DeliveryRecord[]): Map<string, DeliveryRecord> {
+  const indexed = new Map<string, DeliveryRecord>();
+  const occurrences = new Map<string, number>();
+  for (const delivery of stream) {
+    const slot = `${delivery.innings}-${delivery.over}-${delivery.ball}`;
+    const occurrence = occurrences.get(slot) ?? 0;
+    occurrences.set(slot, occurrence + 1);
+    indexed.set(positionKey(delivery.innings, delivery.over, delivery.ball, occurrence), delivery);
+  }
+  return indexed;
+}
+
+/**
+ * Every delivery position found in either stream, in playing order
+ */
+export function alignDeliveryStreams(
+  primary: DeliveryRecord[],
+  secondary: DeliveryRecord[],
+): AlignedDelivery[] {
+  const primaryIndex = indexStream(primary);
+  const secondaryIndex = indexStream(secondary);
+  const keys = new Set([...primaryIndex.keys(), ...secondaryIndex.keys()]);
+
+  return [...keys]
+    .map((key) => {
+      const [innings, over, ball, occurrence] = key.split('-').map(Number);
+      const a = primaryIndex.get(key);
+      const b = secondaryIndex.get(key);
+      return {
+        innings,
+        over,
+        ball,
+        occurrence,
+        primary: a,
+        secondary: b,
+        differences: compareDeliveries(a, b),
+      };
+    })
+    .sort(
+      (x, y) =>
+        x.innings - y.innings || x.over - y.over || x.ball - y.ball || x.occurrence - y.occurrence,
+    );
+}
+
+/**
+ * The agreed record: at each position the delivery from the stream its
+ * discrepancy was resolved in favour of, otherwise the primary's
+ */
+export function resolveDeliveryStreams(
+  aligned: AlignedDelivery[],
+  resolutionOf: (position: AlignedDelivery) => 'primary' | 'secondary' | undefined,
+): DeliveryRecord[] {
+  return aligned
+    .map((position) =>
+      resolutionOf(position) === 'secondary' ? position.secondary : position.primary,
+    )
+    .filter((delivery): delivery is DeliveryRecord => !!delivery);
+}
+
+/**
+ * How closely a scorer's stream matched the resolved record, as the share of
+ * delivery positions (in either) where the two agree
+ */
+export function getStreamAccuracy(
+  stream: DeliveryRecord[],
+  resolved: DeliveryRecord[],
+): { matched: number; total: number; score: number } {
+  const aligned = alignDeliveryStreams(stream, resolved);
+  const matched = aligned.filter((position) => position.differences.length === 0).length;
+  const total = aligned.length;
+  const score = total > 0 ? Math.round((matched / total) * 1000) / 10 : 100;
+  return { matched, total, score };
+}
@@ -0,0 +1,169 @@
+import {
+  applyDelivery,
+  createInitialScoringState,
+  DeliveryRecord,
+  replayDeliveries,
+  ScoringContext,
+} from './local-scoring-engine';
+
+const context: ScoringContext = { firstBattingTeam: 'home', maxOvers: 20 };
+
+function ball(over: number, ballNumber: number, overrides: Partial<DeliveryRecord> = {}) {
+  return {
+    innings: 1,
+    over,
+    ball: ballNumber,
+    strikerId: 'a',
+    nonStrikerId: 'b',
+    bowlerId: 'x',
+    runs: 0,
+    ballType: 'normal',
+    isWicket: false,
+    ...overrides,
+  } as DeliveryRecord;
+}
+
+describe('local scoring engine', () => {
+  it('does not mutate the state it is given', () => {
+    const state = createInitialScoringState(context);
+    const next = applyDelivery(state, ball(0, 0, { runs: 4 }), context);
+
+    expect(state.deliveries).toBe(0);
+    expect(state.innings).toHaveLength(0);
+    expect(next.innings[0].runs).toBe(4);
+  });
+
+  describe('strike rotation', () => {
+    it('swaps ends on an odd number of runs', () => {
+      const state = replayDeliveries([ball(0, 0, { runs: 1 })], context);
+      expect(state.liveState).toMatchObject({ strikerId: 'b', nonStrikerId: 'a' });
+    });
+
+    it('keeps the striker on an even number of runs', () => {
+      const state = replayDeliveries([ball(0, 0, { runs: 2 })], context);
+      expect(state.liveState).toMatchObject({ strikerId: 'a', nonStrikerId: 'b' });
+    });
+
+    it('swaps ends at the end of an over and asks for a new bowler', () => {
+      const deliveries = [0, 1, 2, 3, 4, 5].map((b) => ball(0, b));
+      const state = replayDeliveries(deliveries, context);
+
+      expect(state.liveState).toMatchObject({
+        strikerId: 'b',
+        nonStrikerId: 'a',
+        currentOver: 1,
+        currentBall: 0,
+        bowlerId: undefined,
+      });
+      expect(state.bowlingStats[0]).toMatchObject({ overs: 1, balls: 0, maidens: 1 });
+    });
+
+    it('ignores the wide penalty when counting runs run', () => {
+      const state = replayDeliveries([ball(0, 0, { ballType: 'wide', runs: 2 })], context);
+      expect(state.liveState).toMatchObject({ strikerId: 'b', nonStrikerId: 'a' });
+    });
+
+    it("sends the incoming batter to the dismissed batter's end", () => {
+      const state = replayDeliveries(
+        [
+          ball(0, 0, {
+            isWicket: true,
+            dismissalType: 'run_out',
+            dismissedBatterId: 'b',
+            incomingBatterId: 'c',
+          }),
+        ],
+        context,
+      );
+      expect(state.liveState).toMatchObject({ strikerId: 'a', nonStrikerId: 'c' });
+    });
+  });
+
+  describe('extras', () => {
+    it('does not count wides and no-balls as legal deliveries', () => {
+      const state = replayDeliveries(
+        [ball(0, 0, { ballType: 'wide', runs: 1 }), ball(0, 0, { ballType: 'no_ball', runs: 1 })],
+        context,
+      );
+      const [innings] = state.innings;
+
+      expect(innings).toMatchObject({ runs: 2, overs: 0, balls: 0 });
+      expect(innings.extras).toMatchObject({ wides: 1, noBalls: 1 });
+      // Only the no-ball was faced
+      expect(state.battingStats.find((s) => s.playerId === 'a')?.balls).toBe(1);
+      expect(state.bowlingStats[0]).toMatchObject({ runs: 2, wides: 1, noBalls: 1 });
+    });
+
+    it('credits runs hit off a no-ball to the batter', () => {
+      const state = replayDeliveries(
+        [ball(0, 0, { ballType: 'no_ball', runs: 5, isBoundary: true })],
+        context,
+      );
+
+      expect(state.innings[0]).toMatchObject({ runs: 5, balls: 0 });
+      expect(state.innings[0].extras.noBalls).toBe(1);
+      expect(state.battingStats.find((s) => s.playerId === 'a')).toMatchObject({
+        runs: 4,
+        balls: 1,
+        fours: 1,
+      });
+      expect(state.bowlingStats[0]).toMatchObject({ runs: 5, balls: 0, noBalls: 1 });
+    });
+
+    it('charges byes to the team but not the batter or bowler', () => {
+      const state = replayDeliveries([ball(0, 0, { ballType: 'bye', runs: 4 })], context);
+
+      expect(state.innings[0]).toMatchObject({ runs: 4, balls: 1 });
+      expect(state.innings[0].extras.byes).toBe(4);
+      expect(state.battingStats.find((s) => s.playerId === 'a')).toMatchObject({
+        runs: 0,
+        balls: 1,
+      });
+      expect(state.bowlingStats[0].runs).toBe(0);
+    });
+  });
+
+  describe('end of innings', () => {
+    it('completes the innings when the side is all out', () => {
+      const xi = Array.from({ length: 11 }, (_, i) => ({ id: `p${i}`, name: `Player ${i}` }));
+      const allOutContext: ScoringContext = { ...context, playingXI: { home: xi } };
+      const deliveries = Array.from({ length: 10 }, (_, i) =>
+        ball(Math.floor(i / 6), i % 6, {
+          strikerId: `p${i}`,
+          nonStrikerId: 'p10',
+          isWicket: true,
+          dismissalType: 'bowled',
+          incomingBatterId: i < 9 ? `p${i + 1}` : undefined,
+        }),
+      );
+
+      const nineDown = replayDeliveries(deliveries, allOutContext, 9);
+      const allOut = replayDeliveries(deliveries, allOutContext);
+
+      expect(nineDown.innings[0].isComplete).toBe(false);
+      expect(allOut.innings[0]).toMatchObject({ wickets: 10, isComplete: true });
+      expect(allOut.bowlingStats[0].wickets).toBe(10);
+    });
+
+    it('completes the innings when its overs run out', () => {
+      const oneOver: ScoringContext = { ...context, maxOvers: 1 };
+      const deliveries = [0, 1, 2, 3, 4, 5].map((b) => ball(0, b, { runs: 1 }));
+
+      expect(replayDeliveries(deliveries, oneOver, 5).innings[0].isComplete).toBe(false);
+      expect(replayDeliveries(deliveries, oneOver).innings[0].isComplete).toBe(true);
+    });
+
+    it('completes the chase once the target is reached', () => {
+      const deliveries = [
+        ball(0, 0, { runs: 4 }),
+        ball(0, 0, { innings: 2, runs: 4, battingTeam: 'away', strikerId: 'c', nonStrikerId: 'd' }),
+        ball(0, 1, { innings: 2, runs: 1, battingTeam: 'away', strikerId: 'c', nonStrikerId: 'd' }),
+      ];
+      const state = replayDeliveries(deliveries, context);
+      const chase = state.innings.find((i) => i.number === 2);
+
+      expect(state.liveState?.target).toBe(5);
+      expect(chase).toMatchObject({ runs: 5, isComplete: true });
+    });
+  });
+});
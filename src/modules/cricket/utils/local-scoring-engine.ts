@@ -0,0 +1,1015 @@
+import { getResourcePercentage, scaleScore } from './dls-resources';
+
+/**
+ * Ball-by-ball scoring engine for local matches.
+ *
+ * `ballHistory` is the single source of truth for a local match. Every derived
+ * field (currentScore, liveState, battingStats, bowlingStats) is rebuilt by
+ * folding the deliveries through `applyDelivery`, so undo/edit/delete always
+ * produce a consistent scorecard. Nothing in this file touches the database.
+ */
+
+export type TeamSide = 'home' | 'away';
+
+export interface DeliveryRecord {
+  deliveryId?: string;
+  innings: number;
+  battingTeam?: TeamSide;
+  over: number;
+  ball: number;
+  strikerId: string;
+  nonStrikerId: string;
+  bowlerId: string;
+  runs: number;
+  ballType: string;
+  isWicket: boolean;
+  dismissalType?: string;
+  dismissedBatterId?: string;
+  fielderId?: string;
+  incomingBatterId?: string;
+  isBoundary?: boolean;
+  isSix?: boolean;
+  /** Penalty runs awarded to the batting side, on top of `runs` */
+  penaltyRuns?: number;
+  /** Set by the engine: the delivery followed a no-ball */
+  isFreeHit?: boolean;
+  /** Shot direction and pitch-map capture (not used in scoring) */
+  shotZone?: string;
+  shotAngle?: number;
+  shotDistance?: number;
+  pitchLine?: string;
+  pitchLength?: string;
+  /** Scorer who recorded the delivery (not used in scoring) */
+  recordedBy?: string;
+  timestamp?: Date;
+}
+
+/**
+ * Innings transitions recorded by the scorer (who batted, declarations, follow-on)
+ */
+export interface InningsMeta {
+  number: number;
+  battingTeam: TeamSide;
+  isDeclared?: boolean;
+  isFollowOn?: boolean;
+}
+
+/**
+ * Play lost to weather in a limited-overs innings
+ */
+export interface Interruption {
+  innings: number;
+  /** Legal deliveries bowled in the innings when play stopped */
+  ballsBowled: number;
+  wickets: number;
+  oversLost: number;
+}
+
+export interface ScoringContext {
+  /** Team batting in innings 1 (used for legacy deliveries without battingTeam) */
+  firstBattingTeam: TeamSide;
+  /** Overs per innings for limited-overs formats */
+  maxOvers?: number;
+  /** Legal deliveries per over (default 6) */
+  ballsPerOver?: number;
+  /** Penalty runs included in a wide / no-ball delivery's runs (default 1) */
+  wideRuns?: number;
+  noBallRuns?: number;
+  /** Whether the delivery after a no-ball is a free hit */
+  freeHits?: boolean;
+  /** Innings per match: 2 for limited-overs, 4 for Test/first-class (default 2) */
+  totalInnings?: number;
+  inningsMeta?: InningsMeta[];
+  interruptions?: Interruption[];
+  playingXI?: {
+    home?: Array<{ id: string; name: string; role?: string }>;
+    away?: Array<{ id: string; name: string; role?: string }>;
+  };
+}
+
+export interface TeamScore {
+  runs: number;
+  wickets: number;
+  overs: number;
+  balls: number;
+}
+
+export interface InningsSummary {
+  number: number;
+  battingTeam: TeamSide;
+  runs: number;
+  wickets: number;
+  overs: number;
+  balls: number;
+  extras: { wides: number; noBalls: number; byes: number; legByes: number; penalties: number };
+  isDeclared: boolean;
+  isFollowOn: boolean;
+  /** All out, overs exhausted, target reached or declared */
+  isComplete: boolean;
+  isSuperOver: boolean;
+}
+
+export interface BattingEntry {
+  innings: number;
+  team: TeamSide;
+  playerId: string;
+  playerName: string;
+  runs: number;
+  balls: number;
+  fours: number;
+  sixes: number;
+  strikeRate: number;
+  isOut: boolean;
+  /** Retired hurt and not (yet) resumed; not out */
+  isRetiredHurt?: boolean;
+  dismissalType?: string;
+  dismissedBy?: string;
+  fielderId?: string;
+  fowScore?: number;
+  fowBalls?: number;
+}
+
+export interface BowlingEntry {
+  innings: number;
+  team: TeamSide;
+  playerId: string;
+  playerName: string;
+  overs: number;
+  balls: number;
+  maidens: number;
+  runs: number;
+  wickets: number;
+  economy: number;
+  wides: number;
+  noBalls: number;
+}
+
+export interface LiveSnapshot {
+  currentInnings: number;
+  battingTeam: TeamSide;
+  strikerId: string;
+  nonStrikerId: string;
+  bowlerId?: string;
+  currentOver: number;
+  currentBall: number;
+  partnershipRuns: number;
+  partnershipBalls: number;
+  currentRunRate: number;
+  requiredRunRate?: number;
+  target?: number;
+  /** Batting team's aggregate minus the opposition's (negative = trailing) */
+  lead?: number;
+  /** Overs available to this innings after any reduction */
+  oversLimit?: number;
+  /** DLS par score at this point of a rain-affected chase */
+  parScore?: number;
+  /** The next delivery is a free hit */
+  isFreeHit?: boolean;
+}
+
+export interface ScoringState {
+  deliveries: number;
+  currentScore: { home: TeamScore; away: TeamScore };
+  innings: InningsSummary[];
+  battingStats: BattingEntry[];
+  bowlingStats: BowlingEntry[];
+  liveState: LiveSnapshot | null;
+  /** Runs conceded by the bowler in the over in progress (for maidens) */
+  overRunsConceded: number;
+}
+
+export interface MatchOutcome {
+  isComplete: boolean;
+  winner?: TeamSide | 'tie';
+  marginType?: 'runs' | 'wickets' | 'innings';
+  /** Runs or wickets (for an innings win: the runs on top of the innings) */
+  margin?: number;
+  /** Legal deliveries left in a successful limited-overs chase */
+  ballsRemaining?: number;
+  /** Set when the target was revised for lost overs */
+  method?: 'dls';
+  /** Set when a super over decided the winner */
+  superOver?: boolean;
+}
+
+const DEFAULT_BALLS_PER_OVER = 6;
+const DEFAULT_ALL_OUT_WICKETS = 10;
+const SUPER_OVER_OVERS = 1;
+const SUPER_OVER_WICKETS = 2;
+
+/** Runs awarded for each penalty (Law 41) */
+export const PENALTY_RUNS = 5;
+
+// Dismissals that are not credited to the bowler
+const NON_BOWLER_DISMISSALS = [
+  'run_out',
+  'retired_hurt',
+  'retired_out',
+  'handled_ball',
+  'obstructing_field',
+  'timed_out',
+];
+
+// The only ways a batter can be out off a free hit (retirements aside)
+const FREE_HIT_DISMISSALS = [
+  'run_out',
+  'obstructing_field',
+  'handled_ball',
+  'retired_hurt',
+  'retired_out',
+];
+
+/**
+ * Overs per innings implied by the match format (undefined for unlimited formats)
+ */
+export function getFormatMaxOvers(format?: string): number | undefined {
+  const normalized = format?.toLowerCase() || '';
+  if (normalized.includes('t20')) return 20;
+  if (normalized.includes('odi') || normalized === 'list-a') return 50;
+  return undefined;
+}
+
+/**
+ * Innings per match implied by the match format
+ */
+export function getFormatInnings(format?: string): number {
+  const normalized = format?.toLowerCase() || '';
+  return normalized === 'test' || normalized === 'first-class' ? 4 : 2;
+}
+
+/**
+ * Minimum first-innings lead needed to enforce the follow-on (Law 14:
+ * 200 runs for a match of five days or more, 150 for three or four days)
+ */
+export function getFollowOnMargin(format?: string): number {
+  return format?.toLowerCase() === 'test' ? 200 : 150;
+}
+
+export function oppositeTeam(team: TeamSide): TeamSide {
+  return team === 'home' ? 'away' : 'home';
+}
+
+/**
+ * Wides, no-balls and dead balls are not legal deliveries
+ */
+export function isLegalDelivery(ballType: string): boolean {
+  return ballType !== 'wide' && ballType !== 'no_ball' && ballType !== 'dead_ball';
+}
+
+/**
+ * Whether a dismissal counts against the batting side. A batter retired hurt
+ * is not out and may resume the innings.
+ */
+export function isTeamWicket(
+  delivery: Pick<DeliveryRecord, 'isWicket' | 'dismissalType'>,
+): boolean {
+  return delivery.isWicket && delivery.dismissalType !== 'retired_hurt';
+}
+
+export function isFreeHitDismissal(dismissalType?: string): boolean {
+  return !!dismissalType && FREE_HIT_DISMISSALS.includes(dismissalType);
+}
+
+export function isBowlerWicket(
+  delivery: Pick<DeliveryRecord, 'isWicket' | 'dismissalType'>,
+): boolean {
+  return (
+    delivery.isWicket &&
+    (!delivery.dismissalType || !NON_BOWLER_DISMISSALS.includes(delivery.dismissalType))
+  );
+}
+
+/**
+ * Penalty runs a wide / no-ball carries under the match rules (0 for other deliveries)
+ */
+export function getExtraPenalty(ballType: string, context: ScoringContext): number {
+  if (ballType === 'wide') return context.wideRuns ?? 1;
+  if (ballType === 'no_ball') return context.noBallRuns ?? 1;
+  return 0;
+}
+
+/**
+ * Runs charged to the bowler (byes and leg-byes are not)
+ */
+export function bowlerRunsConceded(delivery: Pick<DeliveryRecord, 'runs' | 'ballType'>): number {
+  return delivery.ballType === 'bye' || delivery.ballType === 'leg_bye' ? 0 : delivery.runs;
+}
+
+/**
+ * Runs credited to the striker: all of a normal delivery's, and whatever a
+ * no-ball carries beyond its penalty (taken to be off the bat)
+ */
+export function getRunsOffBat(
+  delivery: Pick<DeliveryRecord, 'runs' | 'ballType'>,
+  context: ScoringContext,
+): number {
+  if (delivery.ballType === 'normal') return delivery.runs;
+  if (delivery.ballType === 'no_ball') {
+    return Math.max(0, delivery.runs - getExtraPenalty(delivery.ballType, context));
+  }
+  return 0;
+}
+
+export function resolveBattingTeam(delivery: DeliveryRecord, context: ScoringContext): TeamSide {
+  if (delivery.battingTeam) return delivery.battingTeam;
+  const meta = context.inningsMeta?.find((i) => i.number === delivery.innings);
+  if (meta) return meta.battingTeam;
+  return delivery.innings % 2 === 1
+    ? context.firstBattingTeam
+    : oppositeTeam(context.firstBattingTeam);
+}
+
+/**
+ * Plain copy of a stored delivery (ballHistory entries may be Mongoose subdocuments)
+ */
+export function toDeliveryRecord(delivery: DeliveryRecord): DeliveryRecord {
+  return {
+    deliveryId: delivery.deliveryId,
+    innings: delivery.innings,
+    battingTeam: delivery.battingTeam,
+    over: delivery.over,
+    ball: delivery.ball,
+    strikerId: delivery.strikerId,
+    nonStrikerId: delivery.nonStrikerId,
+    bowlerId: delivery.bowlerId,
+    runs: delivery.runs,
+    ballType: delivery.ballType,
+    isWicket: delivery.isWicket,
+    dismissalType: delivery.dismissalType,
+    dismissedBatterId: delivery.dismissedBatterId,
+    fielderId: delivery.fielderId,
+    incomingBatterId: delivery.incomingBatterId,
+    isBoundary: delivery.isBoundary,
+    isSix: delivery.isSix,
+    penaltyRuns: delivery.penaltyRuns,
+    isFreeHit: delivery.isFreeHit,
+    shotZone: delivery.shotZone,
+    shotAngle: delivery.shotAngle,
+    shotDistance: delivery.shotDistance,
+    pitchLine: delivery.pitchLine,
+    pitchLength: delivery.pitchLength,
+    recordedBy: delivery.recordedBy,
+    timestamp: delivery.timestamp,
+  };
+}
+
+/**
+ * Runs `team` leads the opposition by across all innings (negative = trailing)
+ */
+export function getLead(innings: InningsSummary[], team: TeamSide): number {
+  return innings.reduce((lead, i) => (i.battingTeam === team ? lead + i.runs : lead - i.runs), 0);
+}
+
+/**
+ * Innings after the second in a limited-overs match are super overs, played
+ * in pairs after a tie
+ */
+export function isSuperOverInnings(context: ScoringContext, inningsNumber: number): boolean {
+  return (context.totalInnings ?? 2) === 2 && inningsNumber > 2;
+}
+
+function getOversLost(context: ScoringContext, inningsNumber: number): number {
+  return (context.interruptions || [])
+    .filter((i) => i.innings === inningsNumber)
+    .reduce((total, i) => total + i.oversLost, 0);
+}
+
+/**
+ * Whether a limited-overs match has been shortened, so the chase target is
+ * set by DLS rather than the first-innings total
+ */
+export function isRainAffected(context: ScoringContext): boolean {
+  return !!context.maxOvers && (context.interruptions || []).some((i) => i.oversLost > 0);
+}
+
+/**
+ * Overs an innings may last after weather reductions. When the first innings
+ * is shortened the second is cut by the same amount.
+ */
+export function getAllottedOvers(
+  context: ScoringContext,
+  inningsNumber: number,
+): number | undefined {
+  if (isSuperOverInnings(context, inningsNumber)) return SUPER_OVER_OVERS;
+  if (!context.maxOvers) return undefined;
+  let lost = getOversLost(context, inningsNumber);
+  if (inningsNumber === 2) {
+    lost += getOversLost(context, 1);
+  }
+  return Math.max(0, context.maxOvers - lost);
+}
+
+/**
+ * DLS resources available to an innings: the resources at its start less
+ * whatever each interruption took away
+ */
+function getInningsResources(context: ScoringContext, inningsNumber: number): number {
+  const ballsPerOver = context.ballsPerOver ?? DEFAULT_BALLS_PER_OVER;
+  let allotted = context.maxOvers || 0;
+  if (inningsNumber === 2) {
+    allotted = Math.max(0, allotted - getOversLost(context, 1));
+  }
+
+  let resources = getResourcePercentage(allotted, 0);
+  const interruptions = (context.interruptions || [])
+    .filter((i) => i.innings === inningsNumber)
+    .sort((a, b) => a.ballsBowled - b.ballsBowled);
+  for (const interruption of interruptions) {
+    const leftBefore = Math.max(0, allotted - interruption.ballsBowled / ballsPerOver);
+    const leftAfter = Math.max(0, leftBefore - interruption.oversLost);
+    resources -=
+      getResourcePercentage(leftBefore, interruption.wickets) -
+      getResourcePercentage(leftAfter, interruption.wickets);
+    allotted -= interruption.oversLost;
+  }
+  return resources;
+}
+
+/**
+ * Target for the side batting in the final innings of the match, or
+ * undefined if `inningsNumber` is not the final innings. Rain-affected
+ * limited-overs chases get the DLS revised target.
+ */
+export function getChaseTarget(
+  innings: InningsSummary[],
+  inningsNumber: number,
+  team: TeamSide,
+  context: ScoringContext,
+): number | undefined {
+  if (isSuperOverInnings(context, inningsNumber)) {
+    if (inningsNumber % 2 === 1) return undefined;
+    const firstHalf = innings.find((i) => i.number === inningsNumber - 1);
+    return (firstHalf?.runs || 0) + 1;
+  }
+  if (inningsNumber !== (context.totalInnings ?? 2)) return undefined;
+  const previous = innings.filter((i) => i.number < inningsNumber);
+
+  if (inningsNumber === 2 && isRainAffected(context)) {
+    const firstInningsRuns = previous.find((i) => i.number === 1)?.runs || 0;
+    const revised = scaleScore(
+      firstInningsRuns,
+      getInningsResources(context, 1),
+      getInningsResources(context, 2),
+    );
+    return Math.floor(revised) + 1;
+  }
+
+  return Math.max(1, 1 - getLead(previous, team));
+}
+
+/**
+ * DLS par score for a rain-affected chase at the given point of the innings
+ */
+export function getParScore(
+  innings: InningsSummary[],
+  chase: InningsSummary,
+  context: ScoringContext,
+): number | undefined {
+  if (chase.number !== 2 || !isRainAffected(context)) return undefined;
+  const ballsPerOver = context.ballsPerOver ?? DEFAULT_BALLS_PER_OVER;
+  const oversLeft =
+    (getAllottedOvers(context, 2) || 0) - (chase.overs + chase.balls / ballsPerOver);
+  const used = getInningsResources(context, 2) - getResourcePercentage(oversLeft, chase.wickets);
+  const firstInningsRuns = innings.find((i) => i.number === 1)?.runs || 0;
+  return Math.floor(scaleScore(firstInningsRuns, getInningsResources(context, 1), used));
+}
+
+function createInningsSummary(
+  number: number,
+  battingTeam: TeamSide,
+  context?: ScoringContext,
+): InningsSummary {
+  return {
+    number,
+    battingTeam,
+    runs: 0,
+    wickets: 0,
+    overs: 0,
+    balls: 0,
+    extras: { wides: 0, noBalls: 0, byes: 0, legByes: 0, penalties: 0 },
+    isDeclared: false,
+    isFollowOn: false,
+    isComplete: false,
+    isSuperOver: !!context && isSuperOverInnings(context, number),
+  };
+}
+
+/**
+ * Empty state, with an innings entry for every transition the scorer has recorded
+ */
+export function createInitialScoringState(context?: ScoringContext): ScoringState {
+  return {
+    deliveries: 0,
+    currentScore: {
+      home: { runs: 0, wickets: 0, overs: 0, balls: 0 },
+      away: { runs: 0, wickets: 0, overs: 0, balls: 0 },
+    },
+    innings: (context?.inningsMeta || [])
+      .map((meta) => ({
+        ...createInningsSummary(meta.number, meta.battingTeam, context),
+        isDeclared: !!meta.isDeclared,
+        isFollowOn: !!meta.isFollowOn,
+        isComplete: !!meta.isDeclared,
+      }))
+      .sort((a, b) => a.number - b.number),
+    battingStats: [],
+    bowlingStats: [],
+    liveState: null,
+    overRunsConceded: 0,
+  };
+}
+
+function cloneState(state: ScoringState): ScoringState {
+  return {
+    deliveries: state.deliveries,
+    currentScore: {
+      home: { ...state.currentScore.home },
+      away: { ...state.currentScore.away },
+    },
+    innings: state.innings.map((i) => ({ ...i, extras: { ...i.extras } })),
+    battingStats: state.battingStats.map((s) => ({ ...s })),
+    bowlingStats: state.bowlingStats.map((s) => ({ ...s })),
+    liveState: state.liveState ? { ...state.liveState } : null,
+    overRunsConceded: state.overRunsConceded,
+  };
+}
+
+/**
+ * Wickets that end an innings: one fewer than the playing XI (10 if unknown),
+ * or two in a super over
+ */
+export function getAllOutWickets(
+  context: ScoringContext,
+  team: TeamSide,
+  inningsNumber: number,
+): number {
+  if (isSuperOverInnings(context, inningsNumber)) return SUPER_OVER_WICKETS;
+  const squadSize = context.playingXI?.[team]?.length || 0;
+  return squadSize > 1 ? squadSize - 1 : DEFAULT_ALL_OUT_WICKETS;
+}
+
+function getPlayerName(context: ScoringContext, playerId: string, team: TeamSide): string {
+  const player = context.playingXI?.[team]?.find((p) => p.id === playerId);
+  return player?.name || 'Unknown Player';
+}
+
+function getBattingEntry(
+  state: ScoringState,
+  context: ScoringContext,
+  innings: number,
+  team: TeamSide,
+  playerId: string,
+): BattingEntry {
+  let entry = state.battingStats.find(
+    (s) => s.playerId === playerId && s.innings === innings && s.team === team,
+  );
+  if (!entry) {
+    entry = {
+      innings,
+      team,
+      playerId,
+      playerName: getPlayerName(context, playerId, team),
+      runs: 0,
+      balls: 0,
+      fours: 0,
+      sixes: 0,
+      strikeRate: 0,
+      isOut: false,
+    };
+    state.battingStats.push(entry);
+  }
+  return entry;
+}
+
+function getBowlingEntry(
+  state: ScoringState,
+  context: ScoringContext,
+  innings: number,
+  team: TeamSide,
+  playerId: string,
+): BowlingEntry {
+  let entry = state.bowlingStats.find(
+    (s) => s.playerId === playerId && s.innings === innings && s.team === team,
+  );
+  if (!entry) {
+    entry = {
+      innings,
+      team,
+      playerId,
+      playerName: getPlayerName(context, playerId, team),
+      overs: 0,
+      balls: 0,
+      maidens: 0,
+      runs: 0,
+      wickets: 0,
+      economy: 0,
+      wides: 0,
+      noBalls: 0,
+    };
+    state.bowlingStats.push(entry);
+  }
+  return entry;
+}
+
+function getInningsSummary(
+  state: ScoringState,
+  context: ScoringContext,
+  number: number,
+  battingTeam: TeamSide,
+): InningsSummary {
+  let summary = state.innings.find((i) => i.number === number);
+  if (!summary) {
+    summary = createInningsSummary(number, battingTeam, context);
+    state.innings.push(summary);
+    state.innings.sort((a, b) => a.number - b.number);
+  }
+  return summary;
+}
+
+function resumeInnings(entry: BattingEntry): void {
+  entry.isRetiredHurt = false;
+  entry.dismissalType = undefined;
+}
+
+/**
+ * Fold one delivery into a draft state (mutates the draft)
+ */
+function reduceInto(draft: ScoringState, delivery: DeliveryRecord, context: ScoringContext): void {
+  const ballsPerOver = context.ballsPerOver ?? DEFAULT_BALLS_PER_OVER;
+  const battingTeam = resolveBattingTeam(delivery, context);
+  const bowlingTeam = oppositeTeam(battingTeam);
+  const legal = isLegalDelivery(delivery.ballType);
+  const innings = getInningsSummary(draft, context, delivery.innings, battingTeam);
+
+  const previousLive = draft.liveState;
+  const isNewInnings = !previousLive || previousLive.currentInnings !== delivery.innings;
+  if (isNewInnings) {
+    draft.overRunsConceded = 0;
+  }
+  const isFreeHit = !isNewInnings && !!previousLive!.isFreeHit;
+  const penaltyRuns = delivery.penaltyRuns ?? 0;
+  const batRuns = getRunsOffBat(delivery, context);
+
+  // Team score and extras (penalty runs are extras charged to no one)
+  innings.runs += delivery.runs + penaltyRuns;
+  if (isTeamWicket(delivery)) {
+    innings.wickets += 1;
+  }
+  if (delivery.ballType === 'wide') innings.extras.wides += delivery.runs;
+  if (delivery.ballType === 'no_ball') innings.extras.noBalls += delivery.runs - batRuns;
+  if (delivery.ballType === 'bye') innings.extras.byes += delivery.runs;
+  if (delivery.ballType === 'leg_bye') innings.extras.legByes += delivery.runs;
+  innings.extras.penalties += penaltyRuns;
+
+  let overCompleted = false;
+  if (legal) {
+    innings.balls += 1;
+    if (innings.balls >= ballsPerOver) {
+      innings.overs += 1;
+      innings.balls = 0;
+      overCompleted = true;
+    }
+  }
+
+  // Batting stats (byes, leg-byes and no-balls are balls faced, wides are not)
+  const striker = getBattingEntry(
+    draft,
+    context,
+    delivery.innings,
+    battingTeam,
+    delivery.strikerId,
+  );
+  const nonStriker = getBattingEntry(
+    draft,
+    context,
+    delivery.innings,
+    battingTeam,
+    delivery.nonStrikerId,
+  );
+  // A retired batter back at the crease has resumed the innings
+  for (const batter of [striker, nonStriker]) {
+    if (batter.isRetiredHurt) resumeInnings(batter);
+  }
+
+  if (legal || delivery.ballType === 'no_ball') {
+    striker.runs += batRuns;
+    if (batRuns > 0 && (delivery.isSix || batRuns === 6)) {
+      striker.sixes += 1;
+    } else if (batRuns > 0 && (delivery.isBoundary || batRuns === 4)) {
+      striker.fours += 1;
+    }
+    striker.balls += 1;
+    striker.strikeRate = (striker.runs / striker.balls) * 100;
+  }
+
+  const bowlerCredited = isBowlerWicket(delivery);
+  if (delivery.isWicket) {
+    const dismissedId = delivery.dismissedBatterId || delivery.strikerId;
+    const dismissed = getBattingEntry(draft, context, delivery.innings, battingTeam, dismissedId);
+    dismissed.dismissalType = delivery.dismissalType;
+    if (isTeamWicket(delivery)) {
+      dismissed.isOut = true;
+      dismissed.dismissedBy = bowlerCredited ? delivery.bowlerId : undefined;
+      dismissed.fielderId = delivery.fielderId;
+      dismissed.fowScore = innings.runs;
+      dismissed.fowBalls = innings.overs * ballsPerOver + innings.balls;
+    } else {
+      dismissed.isRetiredHurt = true;
+    }
+    if (delivery.incomingBatterId) {
+      const incoming = getBattingEntry(
+        draft,
+        context,
+        delivery.innings,
+        battingTeam,
+        delivery.incomingBatterId,
+      );
+      if (incoming.isRetiredHurt) resumeInnings(incoming);
+    }
+  }
+
+  // Bowling stats
+  const bowler = getBowlingEntry(draft, context, delivery.innings, bowlingTeam, delivery.bowlerId);
+  const conceded = bowlerRunsConceded(delivery);
+  bowler.runs += conceded;
+  draft.overRunsConceded += conceded;
+  if (delivery.ballType === 'wide') {
+    bowler.wides += 1;
+  } else if (delivery.ballType === 'no_ball') {
+    bowler.noBalls += 1;
+  } else if (legal) {
+    bowler.balls += 1;
+    if (bowler.balls >= ballsPerOver) {
+      bowler.overs += 1;
+      bowler.balls = 0;
+    }
+  }
+  if (bowlerCredited) {
+    bowler.wickets += 1;
+  }
+  if (overCompleted) {
+    if (draft.overRunsConceded === 0) {
+      bowler.maidens += 1;
+    }
+    draft.overRunsConceded = 0;
+  }
+  const bowlerOvers = bowler.overs + bowler.balls / ballsPerOver;
+  bowler.economy = bowlerOvers > 0 ? bowler.runs / bowlerOvers : 0;
+
+  // Strike rotation: the incoming batter takes the dismissed batter's end,
+  // then an odd number of runs actually run (penalty excluded) swaps the ends
+  let strikerId = delivery.strikerId;
+  let nonStrikerId = delivery.nonStrikerId;
+  if (delivery.isWicket && delivery.incomingBatterId) {
+    if (delivery.dismissedBatterId && delivery.dismissedBatterId === delivery.nonStrikerId) {
+      nonStrikerId = delivery.incomingBatterId;
+    } else {
+      strikerId = delivery.incomingBatterId;
+    }
+  }
+  const runsRun = Math.max(0, delivery.runs - getExtraPenalty(delivery.ballType, context));
+  if (runsRun % 2 === 1) {
+    [strikerId, nonStrikerId] = [nonStrikerId, strikerId];
+  }
+  if (overCompleted) {
+    [strikerId, nonStrikerId] = [nonStrikerId, strikerId];
+  }
+
+  // Partnership since the last wicket in this innings
+  let partnershipRuns = isNewInnings ? 0 : previousLive!.partnershipRuns;
+  let partnershipBalls = isNewInnings ? 0 : previousLive!.partnershipBalls;
+  partnershipRuns += delivery.runs + penaltyRuns;
+  if (legal) partnershipBalls += 1;
+  if (delivery.isWicket) {
+    partnershipRuns = 0;
+    partnershipBalls = 0;
+  }
+
+  const inningsOvers = innings.overs + innings.balls / ballsPerOver;
+  const live: LiveSnapshot = {
+    currentInnings: delivery.innings,
+    battingTeam,
+    strikerId,
+    nonStrikerId,
+    // A new over needs a new bowler, which the scorer picks
+    bowlerId: overCompleted ? undefined : delivery.bowlerId,
+    currentOver: innings.overs,
+    currentBall: innings.balls,
+    partnershipRuns,
+    partnershipBalls,
+    currentRunRate: inningsOvers > 0 ? innings.runs / inningsOvers : 0,
+    // A free hit follows a no-ball, and carries over a wide, no-ball or dead ball
+    isFreeHit: !!context.freeHits && (delivery.ballType === 'no_ball' || (isFreeHit && !legal)),
+  };
+
+  if (delivery.innings > 1 && !innings.isSuperOver) {
+    live.lead = getLead(draft.innings, battingTeam);
+  }
+
+  const oversLimit = getAllottedOvers(context, delivery.innings);
+  live.oversLimit = oversLimit;
+
+  // Final innings: target is the runs needed to pass the opposition's aggregate
+  const target = getChaseTarget(draft.innings, delivery.innings, battingTeam, context);
+  if (target !== undefined) {
+    live.target = target;
+    live.parScore = getParScore(draft.innings, innings, context);
+    if (oversLimit !== undefined) {
+      const runsNeeded = Math.max(0, live.target - innings.runs);
+      const oversRemaining = oversLimit - inningsOvers;
+      live.requiredRunRate = oversRemaining > 0 ? runsNeeded / oversRemaining : 0;
+    }
+  }
+
+  // Batters retired hurt are unavailable until they resume
+  const retired = draft.battingStats.filter(
+    (s) => s.innings === delivery.innings && s.team === battingTeam && s.isRetiredHurt,
+  ).length;
+  innings.isComplete =
+    innings.isDeclared ||
+    innings.wickets + retired >= getAllOutWickets(context, battingTeam, delivery.innings) ||
+    (oversLimit !== undefined && inningsOvers >= oversLimit) ||
+    (target !== undefined && innings.runs >= target);
+
+  draft.liveState = live;
+  // currentScore keeps the main match totals; super overs live in `innings`
+  if (!innings.isSuperOver) {
+    draft.currentScore[battingTeam] = {
+      runs: innings.runs,
+      wickets: innings.wickets,
+      overs: innings.overs,
+      balls: innings.balls,
+    };
+  }
+  draft.deliveries += 1;
+}
+
+/**
+ * Pure reducer: returns the state after one more delivery
+ */
+export function applyDelivery(
+  state: ScoringState,
+  delivery: DeliveryRecord,
+  context: ScoringContext,
+): ScoringState {
+  const draft = cloneState(state);
+  reduceInto(draft, delivery, context);
+  return draft;
+}
+
+/**
+ * Rebuild the full scoring state from a delivery list
+ * @param upTo - Number of deliveries to replay (default: all)
+ */
+export function replayDeliveries(
+  deliveries: DeliveryRecord[],
+  context: ScoringContext,
+  upTo: number = deliveries.length,
+): ScoringState {
+  const draft = createInitialScoringState(context);
+  const count = Math.max(0, Math.min(upTo, deliveries.length));
+  for (let i = 0; i < count; i++) {
+    reduceInto(draft, deliveries[i], context);
+  }
+  return draft;
+}
+
+/**
+ * Whether the match has been decided on the field. Draws, abandonments and
+ * declarations in the final innings are left to the scorer.
+ */
+export function getMatchOutcome(state: ScoringState, context: ScoringContext): MatchOutcome {
+  const totalInnings = context.totalInnings ?? 2;
+  const last = state.innings[state.innings.length - 1];
+  if (!last || !last.isComplete) {
+    return { isComplete: false };
+  }
+
+  if (last.isSuperOver) {
+    // Decided once the second side in the latest super over has batted
+    if (last.number % 2 === 1) return { isComplete: false };
+    const firstHalf = state.innings.find((i) => i.number === last.number - 1);
+    const difference = last.runs - (firstHalf?.runs || 0);
+    if (difference === 0) return { isComplete: true, winner: 'tie', superOver: true };
+    return {
+      isComplete: true,
+      winner: difference > 0 ? last.battingTeam : oppositeTeam(last.battingTeam),
+      superOver: true,
+    };
+  }
+
+  const lead = getLead(state.innings, last.battingTeam);
+
+  if (last.number === totalInnings) {
+    // Runs ahead of (positive) or behind the score needed to tie
+    const target = getChaseTarget(state.innings, last.number, last.battingTeam, context) ?? 1;
+    const difference = last.runs - (target - 1);
+    const method = isRainAffected(context) ? ('dls' as const) : undefined;
+
+    if (difference > 0) {
+      const outcome: MatchOutcome = {
+        isComplete: true,
+        winner: last.battingTeam,
+        marginType: 'wickets',
+        margin: getAllOutWickets(context, last.battingTeam, last.number) - last.wickets,
+        method,
+      };
+      const oversLimit = getAllottedOvers(context, last.number);
+      if (oversLimit !== undefined) {
+        const ballsPerOver = context.ballsPerOver ?? DEFAULT_BALLS_PER_OVER;
+        const bowled = last.overs * ballsPerOver + last.balls;
+        outcome.ballsRemaining = Math.max(0, oversLimit * ballsPerOver - bowled);
+      }
+      return outcome;
+    }
+    if (difference < 0) {
+      return {
+        isComplete: true,
+        winner: oppositeTeam(last.battingTeam),
+        marginType: 'runs',
+        margin: -difference,
+        method,
+      };
+    }
+    return last.isDeclared ? { isComplete: false } : { isComplete: true, winner: 'tie', method };
+  }
+
+  // Innings defeat: the side batting third is bowled out still behind
+  if (totalInnings === 4 && last.number === 3 && !last.isDeclared && lead < 0) {
+    return {
+      isComplete: true,
+      winner: oppositeTeam(last.battingTeam),
+      marginType: 'innings',
+      margin: -lead,
+    };
+  }
+
+  return { isComplete: false };
+}
+
+export interface DeliveryRealignment {
+  index: number;
+  over: number;
+  ball: number;
+  strikerId: string;
+  nonStrikerId: string;
+  isFreeHit: boolean;
+}
+
+/**
+ * Re-derive over/ball numbering, strike ends and free-hit flags for every
+ * delivery after an earlier one was edited or removed. Ends are only swapped when the recorded
+ * pair is the same two batters the engine expects; a different pair means the
+ * scorer changed batters on purpose, so it is left alone.
+ * @returns Corrections for the deliveries that changed
+ */
+export function realignDeliveries(
+  deliveries: DeliveryRecord[],
+  context: ScoringContext,
+): DeliveryRealignment[] {
+  const draft = createInitialScoringState(context);
+  const corrections: DeliveryRealignment[] = [];
+
+  deliveries.forEach((original, index) => {
+    const delivery = toDeliveryRecord(original);
+    const live = draft.liveState;
+
+    if (live && live.currentInnings === delivery.innings) {
+      delivery.over = live.currentOver;
+      delivery.ball = live.currentBall;
+      const samePair =
+        (delivery.strikerId === live.strikerId && delivery.nonStrikerId === live.nonStrikerId) ||
+        (delivery.strikerId === live.nonStrikerId && delivery.nonStrikerId === live.strikerId);
+      if (samePair) {
+        delivery.strikerId = live.strikerId;
+        delivery.nonStrikerId = live.nonStrikerId;
+      }
+      delivery.isFreeHit = !!live.isFreeHit;
+    } else {
+      delivery.over = 0;
+      delivery.ball = 0;
+      delivery.isFreeHit = false;
+    }
+
+    if (
+      delivery.over !== original.over ||
+      delivery.ball !== original.ball ||
+      delivery.strikerId !== original.strikerId ||
+      delivery.nonStrikerId !== original.nonStrikerId ||
+      delivery.isFreeHit !== !!original.isFreeHit
+    ) {
+      corrections.push({
+        index,
+        over: delivery.over,
+        ball: delivery.ball,
+        strikerId: delivery.strikerId,
+        nonStrikerId: delivery.nonStrikerId,
+        isFreeHit: delivery.isFreeHit,
+      });
+    }
+
+    reduceInto(draft, delivery, context);
+  });
+
+  return corrections;
+}
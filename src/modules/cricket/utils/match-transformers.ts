@@ -160,6 +160,64 @@ export function parseApiResultNote(
   }
 }
 
+/**
+ * Build a result note in the same wording SportsMonks uses, so it round-trips
+ * through parseApiResultNote
+ *
+ * @param winner - Winning side, or the kind of undecided result
+ * @param winnerName - Winning team name (ignored for ties, draws and no results)
+ * @param method - 'dls' when the target was revised for lost overs
+ * @param superOver - true when a super over broke a tie
+ * @returns e.g. "Tigers won by 7 wickets (with 12 balls remaining)", "Match tied"
+ */
+export function formatResultNote(
+  winner: 'home' | 'away' | 'tie' | 'draw' | 'no_result',
+  winnerName?: string,
+  margin?: number,
+  marginType?: 'runs' | 'wickets' | 'innings',
+  ballsRemaining?: number,
+  method?: 'dls',
+  superOver?: boolean,
+): string {
+  if (superOver && (winner === 'home' || winner === 'away')) {
+    return `Match tied (${winnerName} won the super over)`;
+  }
+
+  const note = formatResultText(winner, winnerName, margin, marginType, ballsRemaining);
+  return method === 'dls' && winner !== 'draw' && winner !== 'no_result'
+    ? `${note} (DLS method)`
+    : note;
+}
+
+function formatResultText(
+  winner: 'home' | 'away' | 'tie' | 'draw' | 'no_result',
+  winnerName?: string,
+  margin?: number,
+  marginType?: 'runs' | 'wickets' | 'innings',
+  ballsRemaining?: number,
+): string {
+  if (winner === 'tie') return 'Match tied';
+  if (winner === 'draw') return 'Match drawn';
+  if (winner === 'no_result') return 'No result';
+
+  if (margin === undefined || !marginType) {
+    return `${winnerName} won`;
+  }
+
+  if (marginType === 'innings') {
+    return `${winnerName} won by an innings and ${margin} run${margin !== 1 ? 's' : ''}`;
+  }
+
+  if (marginType === 'wickets') {
+    const text = `${winnerName} won by ${margin} wicket${margin !== 1 ? 's' : ''}`;
+    return ballsRemaining !== undefined
+      ? `${text} (with ${ballsRemaining} ball${ballsRemaining !== 1 ? 's' : ''} remaining)`
+      : text;
+  }
+
+  return `${winnerName} won by ${margin} run${margin !== 1 ? 's' : ''}`;
+}
+
 /**
  * @deprecated This function is no longer used.
  * All match results MUST come from the SportsMonks API (via parseApiResultNote).
@@ -0,0 +1,145 @@
+import { InningsSummary, ScoringContext } from './local-scoring-engine';
+import {
+  buildPointsTable,
+  getRunRateTotals,
+  oversToDecimal,
+  StandingsResult,
+} from './points-table';
+
+const context: ScoringContext = { firstBattingTeam: 'home', maxOvers: 20 };
+
+function innings(
+  number: number,
+  battingTeam: 'home' | 'away',
+  runs: number,
+  wickets: number,
+  overs: number,
+  balls: number = 0,
+): InningsSummary {
+  return {
+    number,
+    battingTeam,
+    runs,
+    wickets,
+    overs,
+    balls,
+    extras: { wides: 0, noBalls: 0, byes: 0, legByes: 0, penalties: 0 },
+    isDeclared: false,
+    isFollowOn: false,
+    isComplete: true,
+    isSuperOver: false,
+  };
+}
+
+const teams = [
+  { id: 'a', name: 'Alpha' },
+  { id: 'b', name: 'Bravo' },
+  { id: 'c', name: 'Charlie' },
+];
+
+describe('points table', () => {
+  describe('getRunRateTotals', () => {
+    it('counts the overs actually faced', () => {
+      const totals = getRunRateTotals(
+        [innings(1, 'home', 150, 6, 20), innings(2, 'away', 151, 3, 18, 3)],
+        context,
+      );
+      expect(totals?.home).toEqual({ runs: 150, overs: 20 });
+      expect(totals?.away).toEqual({ runs: 151, overs: 18.5 });
+    });
+
+    it('treats a side bowled out as having faced its full overs', () => {
+      const totals = getRunRateTotals(
+        [innings(1, 'home', 180, 4, 20), innings(2, 'away', 90, 10, 12, 2)],
+        context,
+      );
+      expect(totals?.away).toEqual({ runs: 90, overs: 20 });
+    });
+
+    it('skips super overs and unlimited formats', () => {
+      const superOver = { ...innings(3, 'away', 12, 1, 1), isSuperOver: true };
+      const totals = getRunRateTotals(
+        [innings(1, 'home', 150, 6, 20), innings(2, 'away', 150, 6, 20), superOver],
+        context,
+      );
+      expect(totals?.away.runs).toBe(150);
+      expect(
+        getRunRateTotals([innings(1, 'home', 300, 10, 90)], { firstBattingTeam: 'home' }),
+      ).toBeUndefined();
+    });
+  });
+
+  it('converts overs notation to decimal overs', () => {
+    expect(oversToDecimal(19.4)).toBeCloseTo(19.667, 3);
+    expect(oversToDecimal(7)).toBe(7);
+  });
+
+  describe('buildPointsTable', () => {
+    const results: StandingsResult[] = [
+      {
+        homeTeamId: 'a',
+        awayTeamId: 'b',
+        outcome: 'home',
+        runRate: { home: { runs: 180, overs: 20 }, away: { runs: 150, overs: 20 } },
+      },
+      {
+        homeTeamId: 'b',
+        awayTeamId: 'c',
+        outcome: 'home',
+        runRate: { home: { runs: 160, overs: 20 }, away: { runs: 100, overs: 20 } },
+      },
+      { homeTeamId: 'c', awayTeamId: 'a', outcome: 'no_result' },
+    ];
+
+    it('awards points and works out net run rate', () => {
+      const table = buildPointsTable(teams, results);
+      const alpha = table.find((row) => row.teamId === 'a')!;
+      const bravo = table.find((row) => row.teamId === 'b')!;
+
+      expect(alpha).toMatchObject({ played: 2, won: 1, noResult: 1, points: 3 });
+      expect(alpha.netRunRate).toBe(1.5);
+      // 310 for in 40 overs, 280 against in 40 overs
+      expect(bravo).toMatchObject({ won: 1, lost: 1, points: 2, netRunRate: 0.75 });
+      expect(table.map((row) => row.teamId)).toEqual(['a', 'b', 'c']);
+    });
+
+    it('leaves no-result matches out of net run rate', () => {
+      const table = buildPointsTable(teams, results);
+      expect(table.find((row) => row.teamId === 'c')).toMatchObject({
+        runsFor: 100,
+        oversFor: 20,
+        runsAgainst: 160,
+        netRunRate: -3,
+      });
+    });
+
+    it('separates teams level on points with the tie-breakers in order', () => {
+      const level: StandingsResult[] = [
+        {
+          homeTeamId: 'a',
+          awayTeamId: 'b',
+          outcome: 'away',
+          runRate: { home: { runs: 100, overs: 20 }, away: { runs: 101, overs: 19 } },
+        },
+        {
+          homeTeamId: 'a',
+          awayTeamId: 'c',
+          outcome: 'home',
+          runRate: { home: { runs: 200, overs: 20 }, away: { runs: 100, overs: 20 } },
+        },
+        {
+          homeTeamId: 'b',
+          awayTeamId: 'c',
+          outcome: 'away',
+          runRate: { home: { runs: 120, overs: 20 }, away: { runs: 125, overs: 19 } },
+        },
+      ];
+
+      const byRunRate = buildPointsTable(teams, level, { tieBreakers: ['netRunRate'] });
+      expect(byRunRate.map((row) => row.teamId)).toEqual(['a', 'b', 'c']);
+
+      const byRuns = buildPointsTable(teams, level, { tieBreakers: ['runsFor'] });
+      expect(byRuns.map((row) => row.teamId)).toEqual(['a', 'c', 'b']);
+    });
+  });
+});
@@ -0,0 +1,255 @@
+import {
+  getAllOutWickets,
+  getAllottedOvers,
+  InningsSummary,
+  ScoringContext,
+  TeamSide,
+} from './local-scoring-engine';
+
+/**
+ * League standings: points, results and net run rate (NRR) from completed
+ * matches. NRR = runs scored per over faced - runs conceded per over bowled,
+ * where a side bowled out is treated as having faced its full allotted overs.
+ * Teams level on points are separated by configurable tie-breakers.
+ */
+
+export interface PointsRules {
+  win: number;
+  loss: number;
+  tie: number;
+  draw: number;
+  noResult: number;
+}
+
+export const DEFAULT_POINTS_RULES: PointsRules = {
+  win: 2,
+  loss: 0,
+  tie: 1,
+  draw: 1,
+  noResult: 1,
+};
+
+/**
+ * Applied in order to teams level on points; team name is the final fallback.
+ * headToHead compares points earned in matches among all the level teams.
+ */
+export type TieBreaker = 'wins' | 'netRunRate' | 'headToHead' | 'runsFor';
+
+export const DEFAULT_TIE_BREAKERS: TieBreaker[] = ['wins', 'netRunRate'];
+
+export interface StandingsOptions {
+  rules?: PointsRules;
+  tieBreakers?: TieBreaker[];
+}
+
+/** Runs and overs counted towards NRR for one side of a match */
+export interface RunRateTotals {
+  runs: number;
+  /** Overs as a decimal (e.g. 19.5 overs of six balls = 19.833) */
+  overs: number;
+}
+
+export interface StandingsResult {
+  homeTeamId: string;
+  awayTeamId: string;
+  outcome: TeamSide | 'tie' | 'draw' | 'no_result';
+  /** Batting totals per side; omitted when the match does not count for NRR */
+  runRate?: { home: RunRateTotals; away: RunRateTotals };
+  /** Used to order the form guide */
+  playedAt?: Date;
+}
+
+export interface PointsTableRow {
+  position: number;
+  teamId: string;
+  teamName: string;
+  played: number;
+  won: number;
+  lost: number;
+  tied: number;
+  drawn: number;
+  noResult: number;
+  points: number;
+  runsFor: number;
+  oversFor: number;
+  runsAgainst: number;
+  oversAgainst: number;
+  netRunRate: number;
+  /** Last five results, most recent first (W, L, T, D or N) */
+  form: string[];
+}
+
+/**
+ * NRR totals for a limited-overs match from its innings. Super overs and
+ * unlimited formats do not count.
+ */
+export function getRunRateTotals(
+  innings: InningsSummary[],
+  context: ScoringContext,
+): { home: RunRateTotals; away: RunRateTotals } | undefined {
+  if (!context.maxOvers) return undefined;
+  const ballsPerOver = context.ballsPerOver ?? 6;
+  const totals = { home: { runs: 0, overs: 0 }, away: { runs: 0, overs: 0 } };
+
+  for (const entry of innings) {
+    if (entry.isSuperOver) continue;
+    const allOut = entry.wickets >= getAllOutWickets(context, entry.battingTeam, entry.number);
+    const balls = entry.overs * ballsPerOver + entry.balls;
+    const allotted = getAllottedOvers(context, entry.number);
+    totals[entry.battingTeam].runs += entry.runs;
+    totals[entry.battingTeam].overs +=
+      allOut && allotted !== undefined ? allotted : balls / ballsPerOver;
+  }
+  return totals;
+}
+
+/**
+ * Overs in cricket notation (19.4 = 19 overs and 4 balls) as a decimal
+ */
+export function oversToDecimal(overs: number, ballsPerOver = 6): number {
+  const whole = Math.floor(overs);
+  return whole + Math.round((overs - whole) * 10) / ballsPerOver;
+}
+
+function roundTo(value: number, places: number): number {
+  const factor = Math.pow(10, places);
+  return Math.round(value * factor) / factor;
+}
+
+function pointsFor(result: StandingsResult, side: TeamSide, rules: PointsRules): number {
+  if (result.outcome === side) return rules.win;
+  if (result.outcome === 'home' || result.outcome === 'away') return rules.loss;
+  if (result.outcome === 'tie') return rules.tie;
+  if (result.outcome === 'draw') return rules.draw;
+  return rules.noResult;
+}
+
+// Points each team took from matches against teams level with it on points
+function headToHeadPoints(
+  table: PointsTableRow[],
+  results: StandingsResult[],
+  rules: PointsRules,
+): Map<string, number> {
+  const pointsOf = new Map(table.map((row) => [row.teamId, row.points]));
+  const h2h = new Map(table.map((row) => [row.teamId, 0]));
+  for (const result of results) {
+    const home = pointsOf.get(result.homeTeamId);
+    if (home === undefined || home !== pointsOf.get(result.awayTeamId)) continue;
+    h2h.set(
+      result.homeTeamId,
+      (h2h.get(result.homeTeamId) ?? 0) + pointsFor(result, 'home', rules),
+    );
+    h2h.set(
+      result.awayTeamId,
+      (h2h.get(result.awayTeamId) ?? 0) + pointsFor(result, 'away', rules),
+    );
+  }
+  return h2h;
+}
+
+/**
+ * Standings for `teams` from their results, sorted by points, then the
+ * tie-breakers, then name
+ */
+export function buildPointsTable(
+  teams: Array<{ id: string; name: string }>,
+  results: StandingsResult[],
+  options: StandingsOptions = {},
+): PointsTableRow[] {
+  const rules = options.rules ?? DEFAULT_POINTS_RULES;
+  const tieBreakers = options.tieBreakers ?? DEFAULT_TIE_BREAKERS;
+  const rows = new Map<string, PointsTableRow>();
+  for (const team of teams) {
+    rows.set(team.id, {
+      position: 0,
+      teamId: team.id,
+      teamName: team.name,
+      played: 0,
+      won: 0,
+      lost: 0,
+      tied: 0,
+      drawn: 0,
+      noResult: 0,
+      points: 0,
+      runsFor: 0,
+      oversFor: 0,
+      runsAgainst: 0,
+      oversAgainst: 0,
+      netRunRate: 0,
+      form: [],
+    });
+  }
+
+  const ordered = [...results].sort(
+    (a, b) => (b.playedAt?.getTime() ?? 0) - (a.playedAt?.getTime() ?? 0),
+  );
+  for (const result of ordered) {
+    const sides: Array<[TeamSide, string]> = [
+      ['home', result.homeTeamId],
+      ['away', result.awayTeamId],
+    ];
+    for (const [side, teamId] of sides) {
+      const row = rows.get(teamId);
+      if (!row) continue;
+      const opponent: TeamSide = side === 'home' ? 'away' : 'home';
+
+      row.played += 1;
+      row.points += pointsFor(result, side, rules);
+      if (result.outcome === side) {
+        row.won += 1;
+        row.form.push('W');
+      } else if (result.outcome === opponent) {
+        row.lost += 1;
+        row.form.push('L');
+      } else if (result.outcome === 'tie') {
+        row.tied += 1;
+        row.form.push('T');
+      } else if (result.outcome === 'draw') {
+        row.drawn += 1;
+        row.form.push('D');
+      } else {
+        row.noResult += 1;
+        row.form.push('N');
+      }
+
+      if (result.runRate && result.outcome !== 'no_result') {
+        row.runsFor += result.runRate[side].runs;
+        row.oversFor += result.runRate[side].overs;
+        row.runsAgainst += result.runRate[opponent].runs;
+        row.oversAgainst += result.runRate[opponent].overs;
+      }
+    }
+  }
+
+  const table = [...rows.values()].map((row) => {
+    const scoringRate = row.oversFor > 0 ? row.runsFor / row.oversFor : 0;
+    const concedingRate = row.oversAgainst > 0 ? row.runsAgainst / row.oversAgainst : 0;
+    return {
+      ...row,
+      oversFor: roundTo(row.oversFor, 3),
+      oversAgainst: roundTo(row.oversAgainst, 3),
+      netRunRate: roundTo(scoringRate - concedingRate, 3),
+      form: row.form.slice(0, 5),
+    };
+  });
+
+  const h2h = headToHeadPoints(table, results, rules);
+  const compareBy: Record<TieBreaker, (a: PointsTableRow, b: PointsTableRow) => number> = {
+    wins: (a, b) => b.won - a.won,
+    netRunRate: (a, b) => b.netRunRate - a.netRunRate,
+    headToHead: (a, b) => (h2h.get(b.teamId) ?? 0) - (h2h.get(a.teamId) ?? 0),
+    runsFor: (a, b) => b.runsFor - a.runsFor,
+  };
+  table.sort((a, b) => {
+    if (a.points !== b.points) return b.points - a.points;
+    for (const tieBreaker of tieBreakers) {
+      const order = compareBy[tieBreaker](a, b);
+      if (order !== 0) return order;
+    }
+    return a.teamName.localeCompare(b.teamName);
+  });
+  table.forEach((row, index) => {
+    row.position = index + 1;
+  });
+  return table;
+}
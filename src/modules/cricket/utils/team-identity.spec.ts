@@ -0,0 +1,15 @@
+import { generateTeamId, getTeamShortName } from './team-identity';
+
+describe('team identity', () => {
+  it('derives a stable ID from the team name', () => {
+    expect(generateTeamId('Riverside CC')).toBe(generateTeamId('Riverside CC'));
+    expect(generateTeamId('Riverside CC')).toMatch(/^TEAM-riverside-cc-[0-9a-f]{8}$/);
+    expect(generateTeamId('Riverside CC')).not.toBe(generateTeamId('Riverside Cc'));
+  });
+
+  it('shortens names to initials or the first three letters', () => {
+    expect(getTeamShortName('Riverside Cricket Club')).toBe('RCC');
+    expect(getTeamShortName('North East Valley Sports Club')).toBe('NEVS');
+    expect(getTeamShortName('  Strikers ')).toBe('STR');
+  });
+});
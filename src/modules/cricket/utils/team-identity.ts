@@ -0,0 +1,27 @@
+import * as crypto from 'crypto';
+
+/**
+ * Team ID derived from a local team's name. Local matches, league fixtures and
+ * the team registry all use it, so a team keeps one ID wherever it is named.
+ */
+export function generateTeamId(teamName: string): string {
+  const normalized = teamName.toLowerCase().replace(/\s+/g, '-');
+  const hash = crypto.createHash('md5').update(teamName).digest('hex').substring(0, 8);
+  return `TEAM-${normalized}-${hash}`;
+}
+
+/**
+ * Short name from a team name: the first three letters of a single word, or
+ * the initials (up to four) of several
+ */
+export function getTeamShortName(teamName: string): string {
+  const words = teamName.trim().split(/\s+/);
+  if (words.length === 1) {
+    return words[0].substring(0, 3).toUpperCase();
+  }
+  return words
+    .map((word) => word[0])
+    .join('')
+    .toUpperCase()
+    .substring(0, 4);
+}
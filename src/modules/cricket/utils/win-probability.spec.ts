@@ -0,0 +1,118 @@
+import { DeliveryRecord, ScoringContext } from './local-scoring-engine';
+import {
+  buildLocalWinProbability,
+  DEFAULT_WIN_PROBABILITY_MODELS,
+  fitWinProbabilityModel,
+  getWinProbabilityFormat,
+  InningsPosition,
+  oversToBalls,
+  projectInnings,
+  toWinProbabilityPoint,
+} from './win-probability';
+
+const t20 = DEFAULT_WIN_PROBABILITY_MODELS.t20;
+
+function position(overrides: Partial<InningsPosition> = {}): InningsPosition {
+  return { inningsNumber: 1, runs: 0, wickets: 0, balls: 0, allottedOvers: 20, ...overrides };
+}
+
+describe('win probability', () => {
+  it('converts overs notation to legal balls', () => {
+    expect(oversToBalls(12.3)).toBe(75);
+    expect(oversToBalls(7.4, 8)).toBe(60);
+  });
+
+  it('picks the model from the overs per innings, then the format', () => {
+    expect(getWinProbabilityFormat('T20')).toBe('t20');
+    expect(getWinProbabilityFormat('custom', 10)).toBe('t20');
+    expect(getWinProbabilityFormat('t20', 50)).toBe('odi');
+    expect(getWinProbabilityFormat('List-A')).toBe('odi');
+    expect(getWinProbabilityFormat('test')).toBeUndefined();
+  });
+
+  describe('fitWinProbabilityModel', () => {
+    it('keeps the defaults with too few innings', () => {
+      expect(fitWinProbabilityModel('t20', [150, 170])).toEqual(t20);
+    });
+
+    it('fits the mean and standard deviation of the totals', () => {
+      const totals = Array.from({ length: 30 }, (_, i) => (i % 2 ? 180 : 140));
+      expect(fitWinProbabilityModel('t20', totals)).toEqual({
+        format: 't20',
+        overs: 20,
+        averageTotal: 160,
+        standardDeviation: 20.3,
+        matches: 30,
+      });
+    });
+  });
+
+  describe('projectInnings', () => {
+    it('projects the average total at the start of a match', () => {
+      const projection = projectInnings(position(), t20);
+      expect(projection.projectedScore).toBe(160);
+      expect(projection.battingWinProbability).toBeCloseTo(0.5);
+    });
+
+    it('favours the side scoring faster than the average', () => {
+      const fast = projectInnings(position({ runs: 100, balls: 60 }), t20);
+      const slow = projectInnings(position({ runs: 50, balls: 60 }), t20);
+
+      expect(fast.projectedScore).toBeGreaterThan(160);
+      expect(fast.battingWinProbability).toBeGreaterThan(0.5);
+      expect(slow.battingWinProbability).toBeLessThan(0.5);
+    });
+
+    it('settles the chase once the innings is over', () => {
+      const chase = position({ inningsNumber: 2, target: 150 });
+
+      expect(projectInnings({ ...chase, runs: 150, balls: 100 }, t20)).toEqual({
+        projectedScore: 150,
+        battingWinProbability: 1,
+      });
+      expect(projectInnings({ ...chase, runs: 149, balls: 120 }, t20).battingWinProbability).toBe(
+        0.5,
+      );
+      expect(
+        projectInnings({ ...chase, runs: 120, wickets: 10, balls: 90 }, t20).battingWinProbability,
+      ).toBe(0);
+    });
+  });
+
+  it('splits the percentages between the two sides', () => {
+    const point = toWinProbabilityPoint(position({ runs: 100, balls: 63 }), 'away', t20);
+
+    expect(point).toMatchObject({ innings: 1, battingTeam: 'away', over: 10, ball: 3 });
+    expect(point.winProbability.home + point.winProbability.away).toBeCloseTo(100);
+    expect(point.winProbability.away).toBeGreaterThan(50);
+  });
+
+  describe('buildLocalWinProbability', () => {
+    const context: ScoringContext = { firstBattingTeam: 'home', maxOvers: 20 };
+    const deliveries = [0, 1, 2].map(
+      (ball) =>
+        ({
+          innings: 1,
+          over: 0,
+          ball,
+          strikerId: 'a',
+          nonStrikerId: 'b',
+          bowlerId: 'x',
+          runs: 4,
+          ballType: 'normal',
+          isWicket: false,
+        }) as DeliveryRecord,
+    );
+
+    it('adds a point after every delivery', () => {
+      const points = buildLocalWinProbability(deliveries, context, t20);
+
+      expect(points).toHaveLength(3);
+      expect(points[2]).toMatchObject({ battingTeam: 'home', over: 0, ball: 3, runs: 12 });
+    });
+
+    it('has no points for unlimited-overs matches', () => {
+      expect(buildLocalWinProbability(deliveries, { firstBattingTeam: 'home' }, t20)).toEqual([]);
+    });
+  });
+});
@@ -0,0 +1,258 @@
+import { getResourcePercentage } from './dls-resources';
+import {
+  applyDelivery,
+  createInitialScoringState,
+  DeliveryRecord,
+  getAllottedOvers,
+  getAllOutWickets,
+  getChaseTarget,
+  isSuperOverInnings,
+  ScoringContext,
+  TeamSide,
+} from './local-scoring-engine';
+
+/**
+ * Win probability and projected score for limited-overs matches. This is a
+ * heuristic, not a model calibrated against results. A side's final total is
+ * projected from the DLS resources it has left, blending its scoring rate so
+ * far with the format's average first-innings total. The spread of totals
+ * around that projection is assumed normal, narrowing as resources are used
+ * up. Only the scale is fitted: the mean and standard deviation of completed
+ * first-innings totals. The blend, the spread and how fast it narrows are
+ * fixed choices.
+ */
+
+export type WinProbabilityFormat = 't20' | 'odi';
+
+export interface WinProbabilityModelParams {
+  format: WinProbabilityFormat;
+  /** Overs per innings the totals were fitted on */
+  overs: number;
+  averageTotal: number;
+  standardDeviation: number;
+  /** Completed first innings the model was fitted on (0 = defaults) */
+  matches: number;
+}
+
+export interface InningsPosition {
+  inningsNumber: number;
+  runs: number;
+  wickets: number;
+  /** Legal deliveries bowled */
+  balls: number;
+  allottedOvers: number;
+  ballsPerOver?: number;
+  /** Wickets that end the innings (default 10) */
+  allOutWickets?: number;
+  /** Set for the chasing side */
+  target?: number;
+  isComplete?: boolean;
+}
+
+export interface WinProjection {
+  projectedScore: number;
+  /** Chance (0-1) the batting side wins */
+  battingWinProbability: number;
+}
+
+export interface WinProbabilityPoint {
+  innings: number;
+  battingTeam: TeamSide;
+  /** Completed overs and legal balls into the current over */
+  over: number;
+  ball: number;
+  runs: number;
+  wickets: number;
+  target?: number;
+  projectedScore: number;
+  /** Percentages, to one decimal place */
+  winProbability: { home: number; away: number };
+}
+
+export const WIN_PROBABILITY_FORMATS: WinProbabilityFormat[] = ['t20', 'odi'];
+
+export const DEFAULT_WIN_PROBABILITY_MODELS: Record<
+  WinProbabilityFormat,
+  WinProbabilityModelParams
+> = {
+  t20: { format: 't20', overs: 20, averageTotal: 160, standardDeviation: 30, matches: 0 },
+  odi: { format: 'odi', overs: 50, averageTotal: 270, standardDeviation: 45, matches: 0 },
+};
+
+// Fewest completed first innings a fit is trusted with
+const MIN_FIT_MATCHES = 30;
+// Formats up to this many overs use the T20 model
+const T20_MAX_OVERS = 30;
+
+/**
+ * Model used for a match of `format` with `maxOvers` per innings, or undefined
+ * for unlimited-overs cricket
+ */
+export function getWinProbabilityFormat(
+  format?: string,
+  maxOvers?: number,
+): WinProbabilityFormat | undefined {
+  const normalized = format?.toLowerCase() || '';
+  if (maxOvers) return maxOvers <= T20_MAX_OVERS ? 't20' : 'odi';
+  if (normalized.includes('t20')) return 't20';
+  if (normalized.includes('odi') || normalized === 'list-a') return 'odi';
+  return undefined;
+}
+
+/**
+ * Legal balls in overs notation (12.3 = 12 overs and 3 balls)
+ */
+export function oversToBalls(overs: number, ballsPerOver: number = 6): number {
+  const completed = Math.floor(overs);
+  return completed * ballsPerOver + Math.round((overs - completed) * 10);
+}
+
+// Standard normal cumulative distribution (Abramowitz and Stegun 7.1.26)
+function normalCdf(z: number): number {
+  const x = Math.abs(z) / Math.SQRT2;
+  const t = 1 / (1 + 0.3275911 * x);
+  const erf =
+    1 -
+    t *
+      (0.254829592 +
+        t * (-0.284496736 + t * (1.421413741 + t * (-1.453152027 + t * 1.061405429)))) *
+      Math.exp(-x * x);
+  return z >= 0 ? (1 + erf) / 2 : (1 - erf) / 2;
+}
+
+/**
+ * Projected total and win chance for the side batting at `position`. The
+ * chance is a normal tail estimate, not a calibrated probability.
+ */
+export function projectInnings(
+  position: InningsPosition,
+  model: WinProbabilityModelParams,
+): WinProjection {
+  const ballsPerOver = position.ballsPerOver ?? 6;
+  const allOut = position.allOutWickets ?? 10;
+  // Resource tables assume ten wickets; scale for smaller sides
+  const wickets = (position.wickets * 10) / allOut;
+  const fullResources = getResourcePercentage(position.allottedOvers, 0);
+  const oversLeft = position.allottedOvers - position.balls / ballsPerOver;
+  const ended = position.isComplete || position.wickets >= allOut || oversLeft <= 0;
+  const left =
+    ended || fullResources <= 0 ? 0 : getResourcePercentage(oversLeft, wickets) / fullResources;
+
+  // Model totals scaled to the overs this innings has
+  const scale = fullResources / getResourcePercentage(model.overs, 0);
+  const average = model.averageTotal * scale;
+  const deviation = model.standardDeviation * scale;
+
+  // Runs so far plus the remaining share of a full innings, at a rate that
+  // moves from the format average towards the side's own as resources go
+  const projected = position.runs + left * (position.runs + left * average);
+
+  let probability: number;
+  if (position.target === undefined) {
+    // The chasing side is expected to make the average from full resources
+    probability = normalCdf((projected - average) / (deviation * Math.sqrt(1 + left)));
+  } else if (position.runs >= position.target) {
+    probability = 1;
+  } else if (left === 0) {
+    probability = position.runs === position.target - 1 ? 0.5 : 0;
+  } else {
+    const spread = Math.max(deviation * Math.sqrt(left), 1);
+    probability = normalCdf((projected - (position.target - 0.5)) / spread);
+  }
+
+  return {
+    projectedScore: Math.round(
+      position.target === undefined ? projected : Math.min(projected, position.target),
+    ),
+    battingWinProbability: probability,
+  };
+}
+
+/**
+ * Timeline point for the side batting at `position`
+ */
+export function toWinProbabilityPoint(
+  position: InningsPosition,
+  battingTeam: TeamSide,
+  model: WinProbabilityModelParams,
+): WinProbabilityPoint {
+  const ballsPerOver = position.ballsPerOver ?? 6;
+  const projection = projectInnings(position, model);
+  const batting = Math.round(projection.battingWinProbability * 1000) / 10;
+  const fielding = Math.round((100 - batting) * 10) / 10;
+
+  return {
+    innings: position.inningsNumber,
+    battingTeam,
+    over: Math.floor(position.balls / ballsPerOver),
+    ball: position.balls % ballsPerOver,
+    runs: position.runs,
+    wickets: position.wickets,
+    target: position.target,
+    projectedScore: projection.projectedScore,
+    winProbability:
+      battingTeam === 'home'
+        ? { home: batting, away: fielding }
+        : { home: fielding, away: batting },
+  };
+}
+
+/**
+ * Scale parameters (mean and standard deviation) of completed first-innings
+ * totals. Too few innings keep the format defaults.
+ */
+export function fitWinProbabilityModel(
+  format: WinProbabilityFormat,
+  totals: number[],
+): WinProbabilityModelParams {
+  const defaults = DEFAULT_WIN_PROBABILITY_MODELS[format];
+  if (totals.length < MIN_FIT_MATCHES) return { ...defaults };
+
+  const mean = totals.reduce((sum, total) => sum + total, 0) / totals.length;
+  const variance =
+    totals.reduce((sum, total) => sum + (total - mean) ** 2, 0) / (totals.length - 1);
+
+  return {
+    format,
+    overs: defaults.overs,
+    averageTotal: Math.round(mean * 10) / 10,
+    standardDeviation: Math.round(Math.sqrt(variance) * 10) / 10,
+    matches: totals.length,
+  };
+}
+
+/**
+ * Win probability after every delivery of the first two innings of a local
+ * match. Unlimited-overs matches and super overs have no points.
+ */
+export function buildLocalWinProbability(
+  deliveries: DeliveryRecord[],
+  context: ScoringContext,
+  model: WinProbabilityModelParams,
+): WinProbabilityPoint[] {
+  if (!context.maxOvers) return [];
+  const points: WinProbabilityPoint[] = [];
+  let state = createInitialScoringState(context);
+
+  for (const delivery of deliveries) {
+    state = applyDelivery(state, delivery, context);
+    if (delivery.innings > 2 || isSuperOverInnings(context, delivery.innings)) continue;
+    const innings = state.innings.find((i) => i.number === delivery.innings);
+    if (!innings) continue;
+
+    const position: InningsPosition = {
+      inningsNumber: innings.number,
+      runs: innings.runs,
+      wickets: innings.wickets,
+      balls: innings.overs * (context.ballsPerOver ?? 6) + innings.balls,
+      allottedOvers: getAllottedOvers(context, innings.number) ?? context.maxOvers,
+      ballsPerOver: context.ballsPerOver,
+      allOutWickets: getAllOutWickets(context, innings.battingTeam, innings.number),
+      target: getChaseTarget(state.innings, innings.number, innings.battingTeam, context),
+      isComplete: innings.isComplete,
+    };
+    points.push(toWinProbabilityPoint(position, innings.battingTeam, model));
+  }
+
+  return points;
+}
@@ -0,0 +1,131 @@
+import {
+  IsString,
+  IsEnum,
+  IsOptional,
+  IsNotEmpty,
+  IsInt,
+  IsBoolean,
+  IsDateString,
+  Min,
+  Max,
+  ValidateNested,
+} from 'class-validator';
+import { Type } from 'class-transformer';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { FixtureFormat } from '../schemas/league.schema';
+
+class FixtureVenueDto {
+  @ApiProperty({ description: 'Venue name' })
+  @IsString()
+  @IsNotEmpty()
+  name: string;
+
+  @ApiProperty({ description: 'Venue city' })
+  @IsString()
+  @IsNotEmpty()
+  city: string;
+
+  @ApiPropertyOptional({ description: 'Venue address' })
+  @IsString()
+  @IsOptional()
+  address?: string;
+}
+
+export class GenerateFixturesDto {
+  @ApiProperty({ enum: ['round_robin', 'double_round_robin', 'knockout', 'groups_knockout'] })
+  @IsEnum(['round_robin', 'double_round_robin', 'knockout', 'groups_knockout'])
+  format: FixtureFormat;
+
+  @ApiPropertyOptional({ description: 'Number of groups (groups_knockout)', default: 2 })
+  @IsInt()
+  @Min(2)
+  @Max(16)
+  @IsOptional()
+  groupCount?: number;
+
+  @ApiPropertyOptional({
+    description: 'Teams per group that reach the knockouts (groups_knockout)',
+    default: 2,
+  })
+  @IsInt()
+  @Min(1)
+  @Max(8)
+  @IsOptional()
+  qualifiersPerGroup?: number;
+
+  @ApiPropertyOptional({ description: 'Date of the first round (ISO 8601)' })
+  @IsDateString()
+  @IsOptional()
+  startDate?: string;
+
+  @ApiPropertyOptional({ description: 'Days between rounds', default: 7 })
+  @IsInt()
+  @Min(0)
+  @Max(60)
+  @IsOptional()
+  daysBetweenRounds?: number;
+
+  @ApiPropertyOptional({ description: 'Replace existing fixtures that have not been played' })
+  @IsBoolean()
+  @IsOptional()
+  replace?: boolean;
+}
+
+export class CreateFixtureDto {
+  @ApiProperty({ description: 'Round the fixture belongs to' })
+  @IsString()
+  @IsNotEmpty()
+  roundId: string;
+
+  @ApiProperty({ description: 'Home team ID' })
+  @IsString()
+  @IsNotEmpty()
+  homeTeamId: string;
+
+  @ApiProperty({ description: 'Away team ID' })
+  @IsString()
+  @IsNotEmpty()
+  awayTeamId: string;
+
+  @ApiPropertyOptional({ description: 'Group the fixture counts towards' })
+  @IsString()
+  @IsOptional()
+  groupId?: string;
+
+  @ApiPropertyOptional({ description: 'Scheduled start (ISO 8601)' })
+  @IsDateString()
+  @IsOptional()
+  scheduledAt?: string;
+
+  @ApiPropertyOptional({ type: FixtureVenueDto })
+  @ValidateNested()
+  @Type(() => FixtureVenueDto)
+  @IsOptional()
+  venue?: FixtureVenueDto;
+}
+
+export class UpdateFixtureDto {
+  @ApiPropertyOptional({ description: 'Scheduled start (ISO 8601)' })
+  @IsDateString()
+  @IsOptional()
+  scheduledAt?: string;
+
+  @ApiPropertyOptional({ type: FixtureVenueDto })
+  @ValidateNested()
+  @Type(() => FixtureVenueDto)
+  @IsOptional()
+  venue?: FixtureVenueDto;
+}
+
+export class StartFixtureMatchDto {
+  @ApiPropertyOptional({ description: 'Match start time (defaults to the fixture schedule)' })
+  @IsDateString()
+  @IsOptional()
+  startTime?: string;
+
+  @ApiPropertyOptional({ type: FixtureVenueDto, description: 'Defaults to the fixture venue' })
+  @ValidateNested()
+  @Type(() => FixtureVenueDto)
+  @IsOptional()
+  venue?: FixtureVenueDto;
+}
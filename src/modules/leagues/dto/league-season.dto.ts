@@ -0,0 +1,189 @@
+import {
+  IsString,
+  IsEnum,
+  IsOptional,
+  IsNotEmpty,
+  IsInt,
+  IsArray,
+  IsDateString,
+  Min,
+  Max,
+  MaxLength,
+  ArrayMinSize,
+  ArrayMaxSize,
+  ArrayUnique,
+  ValidateNested,
+} from 'class-validator';
+import { Type } from 'class-transformer';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { TieBreaker } from '../../cricket/utils/points-table';
+
+const TIE_BREAKERS: TieBreaker[] = ['wins', 'netRunRate', 'headToHead', 'runsFor'];
+
+class PointsRulesDto {
+  @ApiPropertyOptional({ default: 2 })
+  @IsInt()
+  @Min(0)
+  @IsOptional()
+  win?: number;
+
+  @ApiPropertyOptional({ default: 0 })
+  @IsInt()
+  @Min(0)
+  @IsOptional()
+  loss?: number;
+
+  @ApiPropertyOptional({ default: 1 })
+  @IsInt()
+  @Min(0)
+  @IsOptional()
+  tie?: number;
+
+  @ApiPropertyOptional({ default: 1 })
+  @IsInt()
+  @Min(0)
+  @IsOptional()
+  draw?: number;
+
+  @ApiPropertyOptional({ default: 1 })
+  @IsInt()
+  @Min(0)
+  @IsOptional()
+  noResult?: number;
+}
+
+export class CreateSeasonDto {
+  @ApiProperty({ description: 'Season name, e.g. "2026" or "Winter 2026"' })
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(100)
+  name: string;
+
+  @ApiProperty({ description: 'Season year' })
+  @IsInt()
+  @Min(1900)
+  @Max(2100)
+  year: number;
+
+  @ApiPropertyOptional({ description: 'Season start date (ISO 8601)' })
+  @IsDateString()
+  @IsOptional()
+  startDate?: string;
+
+  @ApiPropertyOptional({ description: 'Season end date (ISO 8601)' })
+  @IsDateString()
+  @IsOptional()
+  endDate?: string;
+
+  @ApiPropertyOptional({ type: PointsRulesDto, description: 'Points for each result' })
+  @ValidateNested()
+  @Type(() => PointsRulesDto)
+  @IsOptional()
+  pointsRules?: PointsRulesDto;
+
+  @ApiPropertyOptional({
+    enum: TIE_BREAKERS,
+    isArray: true,
+    description: 'Order used to separate teams level on points',
+    default: ['wins', 'netRunRate'],
+  })
+  @IsArray()
+  @ArrayUnique()
+  @IsEnum(TIE_BREAKERS, { each: true })
+  @IsOptional()
+  tieBreakers?: TieBreaker[];
+}
+
+export class UpdateSeasonDto {
+  @ApiPropertyOptional()
+  @IsString()
+  @IsNotEmpty()
+  @IsOptional()
+  @MaxLength(100)
+  name?: string;
+
+  @ApiPropertyOptional()
+  @IsDateString()
+  @IsOptional()
+  startDate?: string;
+
+  @ApiPropertyOptional()
+  @IsDateString()
+  @IsOptional()
+  endDate?: string;
+
+  @ApiPropertyOptional({ enum: ['upcoming', 'ongoing', 'completed'] })
+  @IsEnum(['upcoming', 'ongoing', 'completed'])
+  @IsOptional()
+  status?: 'upcoming' | 'ongoing' | 'completed';
+
+  @ApiPropertyOptional({ type: PointsRulesDto })
+  @ValidateNested()
+  @Type(() => PointsRulesDto)
+  @IsOptional()
+  pointsRules?: PointsRulesDto;
+
+  @ApiPropertyOptional({ enum: TIE_BREAKERS, isArray: true })
+  @IsArray()
+  @ArrayUnique()
+  @IsEnum(TIE_BREAKERS, { each: true })
+  @IsOptional()
+  tieBreakers?: TieBreaker[];
+}
+
+class SeasonTeamDto {
+  @ApiProperty({ description: 'Team name' })
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(100)
+  name: string;
+
+  @ApiPropertyOptional({ description: 'Short name (derived from the name if omitted)' })
+  @IsString()
+  @IsOptional()
+  @MaxLength(10)
+  shortName?: string;
+}
+
+export class AddSeasonTeamsDto {
+  @ApiProperty({ type: [SeasonTeamDto], description: 'Teams in seeding order' })
+  @IsArray()
+  @ArrayMinSize(1)
+  @ArrayMaxSize(64)
+  @ValidateNested({ each: true })
+  @Type(() => SeasonTeamDto)
+  teams: SeasonTeamDto[];
+}
+
+class SeasonGroupDto {
+  @ApiProperty({ description: 'Group name, e.g. "Group A"' })
+  @IsString()
+  @IsNotEmpty()
+  name: string;
+
+  @ApiProperty({ type: [String], description: 'Team IDs in the group' })
+  @IsArray()
+  @ArrayMinSize(2)
+  @IsString({ each: true })
+  teamIds: string[];
+}
+
+export class SetSeasonGroupsDto {
+  @ApiProperty({ type: [SeasonGroupDto] })
+  @IsArray()
+  @ValidateNested({ each: true })
+  @Type(() => SeasonGroupDto)
+  groups: SeasonGroupDto[];
+}
+
+export class CreateRoundDto {
+  @ApiProperty({ description: 'Round name, e.g. "Round 1" or "Semi-finals"' })
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(100)
+  name: string;
+
+  @ApiProperty({ enum: ['league', 'knockout'] })
+  @IsEnum(['league', 'knockout'])
+  stage: 'league' | 'knockout';
+}
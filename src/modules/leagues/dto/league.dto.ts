@@ -0,0 +1,174 @@
+import {
+  IsString,
+  IsEnum,
+  IsOptional,
+  IsNotEmpty,
+  IsObject,
+  IsInt,
+  Min,
+  MaxLength,
+  ValidateNested,
+} from 'class-validator';
+import { Type } from 'class-transformer';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { MatchRulesDto } from '../../cricket/dto/match-rules.dto';
+import { LeagueLevel } from '../schemas/league.schema';
+
+const LEAGUE_LEVELS = ['national', 'state', 'district', 'city', 'ward', 'club'];
+const MATCH_FORMATS = ['test', 'odi', 't20i', 't20', 'first-class', 'list-a'];
+
+class LeagueLocationDto {
+  @ApiProperty({ description: 'Country' })
+  @IsString()
+  @IsNotEmpty()
+  country: string;
+
+  @ApiPropertyOptional({ description: 'State/Province' })
+  @IsString()
+  @IsOptional()
+  state?: string;
+
+  @ApiProperty({ description: 'City' })
+  @IsString()
+  @IsNotEmpty()
+  city: string;
+
+  @ApiPropertyOptional({ description: 'District' })
+  @IsString()
+  @IsOptional()
+  district?: string;
+
+  @ApiPropertyOptional({ description: 'Area/Locality' })
+  @IsString()
+  @IsOptional()
+  area?: string;
+}
+
+export class CreateLeagueDto {
+  @ApiProperty({ description: 'League or tournament name', maxLength: 200 })
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(200)
+  name: string;
+
+  @ApiPropertyOptional({ description: 'Short name, e.g. "DPL"', maxLength: 10 })
+  @IsString()
+  @IsOptional()
+  @MaxLength(10)
+  shortName?: string;
+
+  @ApiPropertyOptional({ maxLength: 2000 })
+  @IsString()
+  @IsOptional()
+  @MaxLength(2000)
+  description?: string;
+
+  @ApiProperty({ enum: LEAGUE_LEVELS })
+  @IsEnum(LEAGUE_LEVELS)
+  level: LeagueLevel;
+
+  @ApiProperty({ enum: MATCH_FORMATS, description: 'Format of every match in the league' })
+  @IsEnum(MATCH_FORMATS)
+  format: 'test' | 'odi' | 't20i' | 't20' | 'first-class' | 'list-a';
+
+  @ApiPropertyOptional({
+    type: MatchRulesDto,
+    description: 'Playing conditions for matches created from fixtures',
+  })
+  @ValidateNested()
+  @Type(() => MatchRulesDto)
+  @IsOptional()
+  rules?: MatchRulesDto;
+
+  @ApiProperty({ type: LeagueLocationDto })
+  @ValidateNested()
+  @Type(() => LeagueLocationDto)
+  @IsObject()
+  location: LeagueLocationDto;
+}
+
+export class UpdateLeagueDto {
+  @ApiPropertyOptional({ maxLength: 200 })
+  @IsString()
+  @IsNotEmpty()
+  @IsOptional()
+  @MaxLength(200)
+  name?: string;
+
+  @ApiPropertyOptional({ maxLength: 10 })
+  @IsString()
+  @IsOptional()
+  @MaxLength(10)
+  shortName?: string;
+
+  @ApiPropertyOptional({ maxLength: 2000 })
+  @IsString()
+  @IsOptional()
+  @MaxLength(2000)
+  description?: string;
+
+  @ApiPropertyOptional({ enum: LEAGUE_LEVELS })
+  @IsEnum(LEAGUE_LEVELS)
+  @IsOptional()
+  level?: LeagueLevel;
+
+  @ApiPropertyOptional({ type: MatchRulesDto })
+  @ValidateNested()
+  @Type(() => MatchRulesDto)
+  @IsOptional()
+  rules?: MatchRulesDto;
+
+  @ApiPropertyOptional({ type: LeagueLocationDto })
+  @ValidateNested()
+  @Type(() => LeagueLocationDto)
+  @IsOptional()
+  location?: LeagueLocationDto;
+
+  @ApiPropertyOptional({ enum: ['active', 'archived'] })
+  @IsEnum(['active', 'archived'])
+  @IsOptional()
+  status?: 'active' | 'archived';
+}
+
+export class GetLeaguesDto {
+  @ApiPropertyOptional({ default: 1 })
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  page?: number = 1;
+
+  @ApiPropertyOptional({ default: 20 })
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  limit?: number = 20;
+
+  @ApiPropertyOptional()
+  @IsOptional()
+  @IsString()
+  city?: string;
+
+  @ApiPropertyOptional()
+  @IsOptional()
+  @IsString()
+  district?: string;
+
+  @ApiPropertyOptional({ enum: LEAGUE_LEVELS })
+  @IsOptional()
+  @IsEnum(LEAGUE_LEVELS)
+  level?: string;
+
+  @ApiPropertyOptional({ enum: ['active', 'archived'], default: 'active' })
+  @IsOptional()
+  @IsEnum(['active', 'archived'])
+  status?: string;
+}
+
+export class AssignLeagueScorerDto {
+  @ApiProperty({ description: 'Scorer ID of the registered scorer to assign' })
+  @IsString()
+  @IsNotEmpty()
+  scorerId: string;
+}
@@ -0,0 +1,475 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Put,
+  Delete,
+  Param,
+  Query,
+  Body,
+  UseGuards,
+  ForbiddenException,
+} from '@nestjs/common';
+import { ApiTags, ApiOperation, ApiResponse, ApiBearerAuth, ApiParam } from '@nestjs/swagger';
+import { LeaguesService } from './leagues.service';
+import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+import { RolesGuard } from '../auth/guards/roles.guard';
+import { Roles } from '../auth/decorators/roles.decorator';
+import { Public } from '../auth/decorators/public.decorator';
+import { CurrentUser } from '../auth/decorators/current-user.decorator';
+import { UserDocument } from '../users/schemas/user.schema';
+import {
+  CreateLeagueDto,
+  UpdateLeagueDto,
+  GetLeaguesDto,
+  AssignLeagueScorerDto,
+} from './dto/league.dto';
+import {
+  CreateSeasonDto,
+  UpdateSeasonDto,
+  AddSeasonTeamsDto,
+  SetSeasonGroupsDto,
+  CreateRoundDto,
+} from './dto/league-season.dto';
+import {
+  GenerateFixturesDto,
+  CreateFixtureDto,
+  UpdateFixtureDto,
+  StartFixtureMatchDto,
+} from './dto/league-fixture.dto';
+
+@ApiTags('leagues')
+@Controller('leagues')
+export class LeaguesController {
+  constructor(private readonly leaguesService: LeaguesService) {}
+
+  @Get()
+  @Public()
+  @ApiOperation({ summary: 'List local leagues and tournaments' })
+  @ApiResponse({ status: 200, description: 'Leagues retrieved successfully' })
+  async getLeagues(@Query() query: GetLeaguesDto) {
+    const result = await this.leaguesService.getLeagues(query);
+    return {
+      success: true,
+      data: result,
+    };
+  }
+
+  // Declared before :id so "fixtures" is not taken as a league ID
+  @Get('fixtures/assigned')
+  @UseGuards(JwtAuthGuard)
+  @ApiBearerAuth('JWT-auth')
+  @ApiOperation({ summary: 'Unplayed fixtures in the leagues the scorer is assigned to' })
+  @ApiResponse({ status: 200, description: 'Assigned fixtures retrieved successfully' })
+  @ApiResponse({ status: 403, description: 'User is not a registered scorer' })
+  async getAssignedFixtures(@CurrentUser() user: UserDocument) {
+    if (!user.scorerProfile?.isScorer || !user.scorerProfile?.scorerId) {
+      throw new ForbiddenException('User is not a registered scorer');
+    }
+
+    const fixtures = await this.leaguesService.getAssignedFixtures(user.scorerProfile.scorerId);
+    return {
+      success: true,
+      data: fixtures,
+    };
+  }
+
+  @Get(':id')
+  @Public()
+  @ApiOperation({ summary: 'Get a league with its seasons' })
+  @ApiParam({ name: 'id', description: 'League ID' })
+  @ApiResponse({ status: 200, description: 'League retrieved successfully' })
+  @ApiResponse({ status: 404, description: 'League not found' })
+  async getLeague(@Param('id') id: string) {
+    const league = await this.leaguesService.getLeagueById(id);
+    return {
+      success: true,
+      data: league,
+    };
+  }
+
+  @Post()
+  @UseGuards(JwtAuthGuard, RolesGuard)
+  @Roles('admin')
+  @ApiBearerAuth('JWT-auth')
+  @ApiOperation({ summary: 'Create a league (admin only)' })
+  @ApiResponse({ status: 201, description: 'League created successfully' })
+  async createLeague(@Body() createDto: CreateLeagueDto, @CurrentUser() user: UserDocument) {
+    const league = await this.leaguesService.createLeague(createDto, user._id.toString());
+    return {
+      success: true,
+      data: league,
+    };
+  }
+
+  @Put(':id')
+  @UseGuards(JwtAuthGuard, RolesGuard)
+  @Roles('admin')
+  @ApiBearerAuth('JWT-auth')
+  @ApiOperation({ summary: 'Update a league (admin only)' })
+  @ApiParam({ name: 'id', description: 'League ID' })
+  @ApiResponse({ status: 200, description: 'League updated successfully' })
+  @ApiResponse({ status: 404, description: 'League not found' })
+  async updateLeague(@Param('id') id: string, @Body() updateDto: UpdateLeagueDto) {
+    const league = await this.leaguesService.updateLeague(id, updateDto);
+    return {
+      success: true,
+      data: league,
+    };
+  }
+
+  @Delete(':id')
+  @UseGuards(JwtAuthGuard, RolesGuard)
+  @Roles('admin')
+  @ApiBearerAuth('JWT-auth')
+  @ApiOperation({ summary: 'Delete a league (admin only)' })
+  @ApiParam({ name: 'id', description: 'League ID' })
+  @ApiResponse({ status: 200, description: 'League deleted successfully' })
+  @ApiResponse({ status: 404, description: 'League not found' })
+  async deleteLeague(@Param('id') id: string) {
+    const result = await this.leaguesService.deleteLeague(id);
+    return {
+      success: true,
+      data: result,
+    };
+  }
+
+  @Post(':id/scorers')
+  @UseGuards(JwtAuthGuard, RolesGuard)
+  @Roles('admin')
+  @ApiBearerAuth('JWT-auth')
+  @ApiOperation({ summary: 'Assign a scorer to a league (admin only)' })
+  @ApiParam({ name: 'id', description: 'League ID' })
+  @ApiResponse({ status: 201, description: 'Scorer assigned successfully' })
+  @ApiResponse({ status: 404, description: 'League or scorer not found' })
+  async assignScorer(@Param('id') id: string, @Body() assignDto: AssignLeagueScorerDto) {
+    const result = await this.leaguesService.assignScorer(id, assignDto.scorerId);
+    return {
+      success: true,
+      data: result,
+    };
+  }
+
+  @Delete(':id/scorers/:scorerId')
+  @UseGuards(JwtAuthGuard, RolesGuard)
+  @Roles('admin')
+  @ApiBearerAuth('JWT-auth')
+  @ApiOperation({ summary: 'Remove a scorer from a league (admin only)' })
+  @ApiParam({ name: 'id', description: 'League ID' })
+  @ApiParam({ name: 'scorerId', description: 'Scorer ID' })
+  @ApiResponse({ status: 200, description: 'Scorer removed successfully' })
+  @ApiResponse({ status: 404, description: 'League not found or scorer not assigned' })
+  async unassignScorer(@Param('id') id: string, @Param('scorerId') scorerId: string) {
+    const result = await this.leaguesService.unassignScorer(id, scorerId);
+    return {
+      success: true,
+      data: result,
+    };
+  }
+
+  @Post(':id/seasons')
+  @UseGuards(JwtAuthGuard, RolesGuard)
+  @Roles('admin')
+  @ApiBearerAuth('JWT-auth')
+  @ApiOperation({ summary: 'Add a season (admin only)' })
+  @ApiParam({ name: 'id', description: 'League ID' })
+  @ApiResponse({ status: 201, description: 'Season created successfully' })
+  @ApiResponse({ status: 409, description: 'Season already exists' })
+  async addSeason(@Param('id') id: string, @Body() seasonDto: CreateSeasonDto) {
+    const season = await this.leaguesService.addSeason(id, seasonDto);
+    return {
+      success: true,
+      data: season,
+    };
+  }
+
+  @Put(':id/seasons/:seasonId')
+  @UseGuards(JwtAuthGuard, RolesGuard)
+  @Roles('admin')
+  @ApiBearerAuth('JWT-auth')
+  @ApiOperation({ summary: 'Update a season (admin only)' })
+  @ApiParam({ name: 'id', description: 'League ID' })
+  @ApiParam({ name: 'seasonId', description: 'Season ID' })
+  @ApiResponse({ status: 200, description: 'Season updated successfully' })
+  async updateSeason(
+    @Param('id') id: string,
+    @Param('seasonId') seasonId: string,
+    @Body() updateDto: UpdateSeasonDto,
+  ) {
+    const season = await this.leaguesService.updateSeason(id, seasonId, updateDto);
+    return {
+      success: true,
+      data: season,
+    };
+  }
+
+  @Delete(':id/seasons/:seasonId')
+  @UseGuards(JwtAuthGuard, RolesGuard)
+  @Roles('admin')
+  @ApiBearerAuth('JWT-auth')
+  @ApiOperation({ summary: 'Delete a season with no matches played (admin only)' })
+  @ApiParam({ name: 'id', description: 'League ID' })
+  @ApiParam({ name: 'seasonId', description: 'Season ID' })
+  @ApiResponse({ status: 200, description: 'Season deleted successfully' })
+  @ApiResponse({ status: 409, description: 'Matches already played' })
+  async deleteSeason(@Param('id') id: string, @Param('seasonId') seasonId: string) {
+    const result = await this.leaguesService.deleteSeason(id, seasonId);
+    return {
+      success: true,
+      data: result,
+    };
+  }
+
+  @Post(':id/seasons/:seasonId/teams')
+  @UseGuards(JwtAuthGuard, RolesGuard)
+  @Roles('admin')
+  @ApiBearerAuth('JWT-auth')
+  @ApiOperation({ summary: 'Add teams to a season, in seeding order (admin only)' })
+  @ApiParam({ name: 'id', description: 'League ID' })
+  @ApiParam({ name: 'seasonId', description: 'Season ID' })
+  @ApiResponse({ status: 201, description: 'Teams added successfully' })
+  @ApiResponse({ status: 409, description: 'Team already in the season' })
+  async addSeasonTeams(
+    @Param('id') id: string,
+    @Param('seasonId') seasonId: string,
+    @Body() teamsDto: AddSeasonTeamsDto,
+  ) {
+    const teams = await this.leaguesService.addSeasonTeams(id, seasonId, teamsDto);
+    return {
+      success: true,
+      data: teams,
+    };
+  }
+
+  @Delete(':id/seasons/:seasonId/teams/:teamId')
+  @UseGuards(JwtAuthGuard, RolesGuard)
+  @Roles('admin')
+  @ApiBearerAuth('JWT-auth')
+  @ApiOperation({ summary: 'Remove a team with no fixtures from a season (admin only)' })
+  @ApiParam({ name: 'id', description: 'League ID' })
+  @ApiParam({ name: 'seasonId', description: 'Season ID' })
+  @ApiParam({ name: 'teamId', description: 'Team ID' })
+  @ApiResponse({ status: 200, description: 'Team removed successfully' })
+  async removeSeasonTeam(
+    @Param('id') id: string,
+    @Param('seasonId') seasonId: string,
+    @Param('teamId') teamId: string,
+  ) {
+    const teams = await this.leaguesService.removeSeasonTeam(id, seasonId, teamId);
+    return {
+      success: true,
+      data: teams,
+    };
+  }
+
+  @Put(':id/seasons/:seasonId/groups')
+  @UseGuards(JwtAuthGuard, RolesGuard)
+  @Roles('admin')
+  @ApiBearerAuth('JWT-auth')
+  @ApiOperation({ summary: "Replace a season's groups (admin only)" })
+  @ApiParam({ name: 'id', description: 'League ID' })
+  @ApiParam({ name: 'seasonId', description: 'Season ID' })
+  @ApiResponse({ status: 200, description: 'Groups updated successfully' })
+  async setSeasonGroups(
+    @Param('id') id: string,
+    @Param('seasonId') seasonId: string,
+    @Body() groupsDto: SetSeasonGroupsDto,
+  ) {
+    const groups = await this.leaguesService.setSeasonGroups(id, seasonId, groupsDto);
+    return {
+      success: true,
+      data: groups,
+    };
+  }
+
+  @Post(':id/seasons/:seasonId/rounds')
+  @UseGuards(JwtAuthGuard, RolesGuard)
+  @Roles('admin')
+  @ApiBearerAuth('JWT-auth')
+  @ApiOperation({ summary: 'Add a round (admin only)' })
+  @ApiParam({ name: 'id', description: 'League ID' })
+  @ApiParam({ name: 'seasonId', description: 'Season ID' })
+  @ApiResponse({ status: 201, description: 'Round created successfully' })
+  async addRound(
+    @Param('id') id: string,
+    @Param('seasonId') seasonId: string,
+    @Body() roundDto: CreateRoundDto,
+  ) {
+    const round = await this.leaguesService.addRound(id, seasonId, roundDto);
+    return {
+      success: true,
+      data: round,
+    };
+  }
+
+  @Delete(':id/seasons/:seasonId/rounds/:roundId')
+  @UseGuards(JwtAuthGuard, RolesGuard)
+  @Roles('admin')
+  @ApiBearerAuth('JWT-auth')
+  @ApiOperation({ summary: 'Delete a round with no fixtures (admin only)' })
+  @ApiParam({ name: 'id', description: 'League ID' })
+  @ApiParam({ name: 'seasonId', description: 'Season ID' })
+  @ApiParam({ name: 'roundId', description: 'Round ID' })
+  @ApiResponse({ status: 200, description: 'Round deleted successfully' })
+  async deleteRound(
+    @Param('id') id: string,
+    @Param('seasonId') seasonId: string,
+    @Param('roundId') roundId: string,
+  ) {
+    const rounds = await this.leaguesService.deleteRound(id, seasonId, roundId);
+    return {
+      success: true,
+      data: rounds,
+    };
+  }
+
+  @Get(':id/seasons/:seasonId/fixtures')
+  @Public()
+  @ApiOperation({ summary: 'Get season fixtures with knockout slots resolved' })
+  @ApiParam({ name: 'id', description: 'League ID' })
+  @ApiParam({ name: 'seasonId', description: 'Season ID' })
+  @ApiResponse({ status: 200, description: 'Fixtures retrieved successfully' })
+  @ApiResponse({ status: 404, description: 'League or season not found' })
+  async getFixtures(@Param('id') id: string, @Param('seasonId') seasonId: string) {
+    const fixtures = await this.leaguesService.getFixtures(id, seasonId);
+    return {
+      success: true,
+      data: fixtures,
+    };
+  }
+
+  @Post(':id/seasons/:seasonId/fixtures/generate')
+  @UseGuards(JwtAuthGuard, RolesGuard)
+  @Roles('admin')
+  @ApiBearerAuth('JWT-auth')
+  @ApiOperation({
+    summary: 'Generate round robin, knockout or groups + knockout fixtures (admin only)',
+  })
+  @ApiParam({ name: 'id', description: 'League ID' })
+  @ApiParam({ name: 'seasonId', description: 'Season ID' })
+  @ApiResponse({ status: 201, description: 'Fixtures generated successfully' })
+  @ApiResponse({ status: 409, description: 'Fixtures exist or matches already played' })
+  async generateFixtures(
+    @Param('id') id: string,
+    @Param('seasonId') seasonId: string,
+    @Body() generateDto: GenerateFixturesDto,
+  ) {
+    const fixtures = await this.leaguesService.generateFixtures(id, seasonId, generateDto);
+    return {
+      success: true,
+      data: fixtures,
+    };
+  }
+
+  @Post(':id/seasons/:seasonId/fixtures')
+  @UseGuards(JwtAuthGuard, RolesGuard)
+  @Roles('admin')
+  @ApiBearerAuth('JWT-auth')
+  @ApiOperation({ summary: 'Add a fixture manually (admin only)' })
+  @ApiParam({ name: 'id', description: 'League ID' })
+  @ApiParam({ name: 'seasonId', description: 'Season ID' })
+  @ApiResponse({ status: 201, description: 'Fixture created successfully' })
+  async addFixture(
+    @Param('id') id: string,
+    @Param('seasonId') seasonId: string,
+    @Body() fixtureDto: CreateFixtureDto,
+  ) {
+    const fixture = await this.leaguesService.addFixture(id, seasonId, fixtureDto);
+    return {
+      success: true,
+      data: fixture,
+    };
+  }
+
+  @Put(':id/seasons/:seasonId/fixtures/:fixtureId')
+  @UseGuards(JwtAuthGuard, RolesGuard)
+  @Roles('admin')
+  @ApiBearerAuth('JWT-auth')
+  @ApiOperation({ summary: 'Reschedule a fixture or change its venue (admin only)' })
+  @ApiParam({ name: 'id', description: 'League ID' })
+  @ApiParam({ name: 'seasonId', description: 'Season ID' })
+  @ApiParam({ name: 'fixtureId', description: 'Fixture ID' })
+  @ApiResponse({ status: 200, description: 'Fixture updated successfully' })
+  async updateFixture(
+    @Param('id') id: string,
+    @Param('seasonId') seasonId: string,
+    @Param('fixtureId') fixtureId: string,
+    @Body() updateDto: UpdateFixtureDto,
+  ) {
+    const fixture = await this.leaguesService.updateFixture(id, seasonId, fixtureId, updateDto);
+    return {
+      success: true,
+      data: fixture,
+    };
+  }
+
+  @Delete(':id/seasons/:seasonId/fixtures/:fixtureId')
+  @UseGuards(JwtAuthGuard, RolesGuard)
+  @Roles('admin')
+  @ApiBearerAuth('JWT-auth')
+  @ApiOperation({ summary: 'Delete an unplayed fixture (admin only)' })
+  @ApiParam({ name: 'id', description: 'League ID' })
+  @ApiParam({ name: 'seasonId', description: 'Season ID' })
+  @ApiParam({ name: 'fixtureId', description: 'Fixture ID' })
+  @ApiResponse({ status: 200, description: 'Fixture deleted successfully' })
+  @ApiResponse({ status: 409, description: 'Fixture played or needed by a later fixture' })
+  async deleteFixture(
+    @Param('id') id: string,
+    @Param('seasonId') seasonId: string,
+    @Param('fixtureId') fixtureId: string,
+  ) {
+    const result = await this.leaguesService.deleteFixture(id, seasonId, fixtureId);
+    return {
+      success: true,
+      data: result,
+    };
+  }
+
+  @Post(':id/seasons/:seasonId/fixtures/:fixtureId/match')
+  @UseGuards(JwtAuthGuard)
+  @ApiBearerAuth('JWT-auth')
+  @ApiOperation({ summary: 'Create the local match for a fixture (assigned scorers only)' })
+  @ApiParam({ name: 'id', description: 'League ID' })
+  @ApiParam({ name: 'seasonId', description: 'Season ID' })
+  @ApiParam({ name: 'fixtureId', description: 'Fixture ID' })
+  @ApiResponse({ status: 201, description: 'Match created for the fixture' })
+  @ApiResponse({ status: 400, description: 'Teams not decided yet or venue missing' })
+  @ApiResponse({ status: 403, description: 'Not assigned to this league' })
+  @ApiResponse({ status: 409, description: 'Fixture already started' })
+  async startFixtureMatch(
+    @Param('id') id: string,
+    @Param('seasonId') seasonId: string,
+    @Param('fixtureId') fixtureId: string,
+    @Body() startDto: StartFixtureMatchDto,
+    @CurrentUser() user: UserDocument,
+  ) {
+    if (!user.scorerProfile?.isScorer || !user.scorerProfile?.scorerId) {
+      throw new ForbiddenException('User is not a registered scorer');
+    }
+
+    const match = await this.leaguesService.startFixtureMatch(id, seasonId, fixtureId, startDto, {
+      scorerId: user.scorerProfile.scorerId,
+      name: user.name,
+      scorerType: user.scorerProfile.scorerType || 'community',
+    });
+    return {
+      success: true,
+      data: match,
+    };
+  }
+
+  @Get(':id/seasons/:seasonId/points-table')
+  @Public()
+  @ApiOperation({ summary: 'Live points table with net run rate' })
+  @ApiParam({ name: 'id', description: 'League ID' })
+  @ApiParam({ name: 'seasonId', description: 'Season ID' })
+  @ApiResponse({ status: 200, description: 'Points table retrieved successfully' })
+  @ApiResponse({ status: 404, description: 'League or season not found' })
+  async getPointsTable(@Param('id') id: string, @Param('seasonId') seasonId: string) {
+    const table = await this.leaguesService.getPointsTable(id, seasonId);
+    return {
+      success: true,
+      data: table,
+    };
+  }
+}
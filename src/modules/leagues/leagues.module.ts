@@ -0,0 +1,23 @@
+import { Module } from '@nestjs/common';
+import { MongooseModule } from '@nestjs/mongoose';
+import { LeaguesController } from './leagues.controller';
+import { LeaguesService } from './leagues.service';
+import { League, LeagueSchema } from './schemas/league.schema';
+import { LocalMatch, LocalMatchSchema } from '../cricket/schemas/local-match.schema';
+import { User, UserSchema } from '../users/schemas/user.schema';
+import { CricketModule } from '../cricket/cricket.module';
+
+@Module({
+  imports: [
+    MongooseModule.forFeature([
+      { name: League.name, schema: LeagueSchema },
+      { name: LocalMatch.name, schema: LocalMatchSchema },
+      { name: User.name, schema: UserSchema },
+    ]),
+    CricketModule,
+  ],
+  controllers: [LeaguesController],
+  providers: [LeaguesService],
+  exports: [LeaguesService],
+})
+export class LeaguesModule {}
@@ -0,0 +1,863 @@
+import {
+  Injectable,
+  Logger,
+  NotFoundException,
+  BadRequestException,
+  ConflictException,
+  ForbiddenException,
+} from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { Model } from 'mongoose';
+import * as crypto from 'crypto';
+import {
+  League,
+  LeagueDocument,
+  LeagueFixture,
+  LeagueSeason,
+  FixtureSlotSource,
+} from './schemas/league.schema';
+import { LocalMatch, LocalMatchDocument } from '../cricket/schemas/local-match.schema';
+import { User, UserDocument } from '../users/schemas/user.schema';
+import { LocalMatchService } from '../cricket/services/local-match.service';
+import { StandingsService } from '../cricket/services/standings.service';
+import {
+  buildPointsTable,
+  DEFAULT_TIE_BREAKERS,
+  PointsTableRow,
+  StandingsResult,
+} from '../cricket/utils/points-table';
+import { generateTeamId, getTeamShortName } from '../cricket/utils/team-identity';
+import { generateSchedule } from './utils/fixture-generator';
+import { CreateLeagueDto, UpdateLeagueDto, GetLeaguesDto } from './dto/league.dto';
+import {
+  CreateSeasonDto,
+  UpdateSeasonDto,
+  AddSeasonTeamsDto,
+  SetSeasonGroupsDto,
+  CreateRoundDto,
+} from './dto/league-season.dto';
+import {
+  GenerateFixturesDto,
+  CreateFixtureDto,
+  UpdateFixtureDto,
+  StartFixtureMatchDto,
+} from './dto/league-fixture.dto';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+@Injectable()
+export class LeaguesService {
+  private readonly logger = new Logger(LeaguesService.name);
+
+  constructor(
+    @InjectModel(League.name) private leagueModel: Model<LeagueDocument>,
+    @InjectModel(LocalMatch.name) private localMatchModel: Model<LocalMatchDocument>,
+    @InjectModel(User.name) private userModel: Model<UserDocument>,
+    private localMatchService: LocalMatchService,
+    private standingsService: StandingsService,
+  ) {}
+
+  /**
+   * Generate unique league ID
+   */
+  private generateLeagueId(): string {
+    const timestamp = Date.now().toString(36);
+    const random = crypto.randomBytes(4).toString('hex').toUpperCase();
+    return `LEAGUE-${timestamp}-${random}`;
+  }
+
+  private async findLeague(leagueId: string): Promise<LeagueDocument> {
+    const league = await this.leagueModel.findOne({ leagueId });
+    if (!league) {
+      throw new NotFoundException(`League with ID ${leagueId} not found`);
+    }
+    return league;
+  }
+
+  private findSeason(league: League, seasonId: string): LeagueSeason {
+    const season = league.seasons.find((s) => s.seasonId === seasonId);
+    if (!season) {
+      throw new NotFoundException(`Season ${seasonId} not found`);
+    }
+    return season;
+  }
+
+  private findFixture(season: LeagueSeason, fixtureId: string): LeagueFixture {
+    const fixture = season.fixtures.find((f) => f.fixtureId === fixtureId);
+    if (!fixture) {
+      throw new NotFoundException(`Fixture ${fixtureId} not found`);
+    }
+    return fixture;
+  }
+
+  // Teams, groups and generated fixtures are fixed once a fixture has been played
+  private assertNoMatchesStarted(season: LeagueSeason): void {
+    if (season.fixtures.some((f) => f.matchId)) {
+      throw new ConflictException('Matches have already been played in this season');
+    }
+  }
+
+  async createLeague(createDto: CreateLeagueDto, createdBy: string) {
+    const league = await this.leagueModel.create({
+      leagueId: this.generateLeagueId(),
+      name: createDto.name.trim(),
+      shortName: createDto.shortName?.trim(),
+      description: createDto.description?.trim(),
+      level: createDto.level,
+      format: createDto.format,
+      rules: createDto.rules,
+      location: {
+        country: createDto.location.country.trim(),
+        state: createDto.location.state?.trim(),
+        city: createDto.location.city.trim(),
+        district: createDto.location.district?.trim(),
+        area: createDto.location.area?.trim(),
+      },
+      status: 'active',
+      createdBy,
+      scorerIds: [],
+      seasons: [],
+    });
+
+    this.logger.log(`League ${league.leagueId} created by ${createdBy}`);
+    return league.toObject();
+  }
+
+  async getLeagues(query: GetLeaguesDto) {
+    const page = query.page || 1;
+    const limit = Math.min(query.limit || 20, 100);
+    const filter: Record<string, unknown> = { status: query.status || 'active' };
+    if (query.city) filter['location.city'] = new RegExp(`^${this.escapeRegex(query.city)}$`, 'i');
+    if (query.district) {
+      filter['location.district'] = new RegExp(`^${this.escapeRegex(query.district)}$`, 'i');
+    }
+    if (query.level) filter.level = query.level;
+
+    const [leagues, total] = await Promise.all([
+      this.leagueModel
+        .find(filter)
+        .select('-seasons.fixtures -seasons.groups -seasons.rounds')
+        .sort({ createdAt: -1 })
+        .skip((page - 1) * limit)
+        .limit(limit)
+        .lean(),
+      this.leagueModel.countDocuments(filter),
+    ]);
+
+    return {
+      leagues,
+      pagination: { current: page, pages: Math.ceil(total / limit), total, limit },
+    };
+  }
+
+  private escapeRegex(value: string): string {
+    return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+  }
+
+  async getLeagueById(leagueId: string) {
+    const league = await this.leagueModel.findOne({ leagueId }).lean();
+    if (!league) {
+      throw new NotFoundException(`League with ID ${leagueId} not found`);
+    }
+    return league;
+  }
+
+  async updateLeague(leagueId: string, updateDto: UpdateLeagueDto) {
+    const league = await this.findLeague(leagueId);
+
+    if (updateDto.name !== undefined) league.name = updateDto.name.trim();
+    if (updateDto.shortName !== undefined) league.shortName = updateDto.shortName.trim();
+    if (updateDto.description !== undefined) league.description = updateDto.description.trim();
+    if (updateDto.level !== undefined) league.level = updateDto.level;
+    if (updateDto.status !== undefined) league.status = updateDto.status;
+    if (updateDto.rules !== undefined) {
+      league.rules = { ...league.rules, ...updateDto.rules } as League['rules'];
+    }
+    if (updateDto.location !== undefined) league.location = updateDto.location;
+
+    await league.save();
+    return league.toObject();
+  }
+
+  /**
+   * Delete a league. Matches already played keep their embedded league details.
+   */
+  async deleteLeague(leagueId: string) {
+    const league = await this.findLeague(leagueId);
+
+    await this.userModel.updateMany(
+      { 'scorerProfile.assignedLeagues': leagueId },
+      { $pull: { 'scorerProfile.assignedLeagues': leagueId } },
+    );
+    await this.leagueModel.deleteOne({ leagueId });
+
+    this.logger.log(`League ${leagueId} deleted`);
+    return { leagueId: league.leagueId };
+  }
+
+  async addSeason(leagueId: string, seasonDto: CreateSeasonDto) {
+    const league = await this.findLeague(leagueId);
+
+    const name = seasonDto.name.trim();
+    if (league.seasons.some((s) => s.name.toLowerCase() === name.toLowerCase())) {
+      throw new ConflictException(`Season "${name}" already exists`);
+    }
+
+    const season: LeagueSeason = {
+      seasonId: `SEASON-${crypto.randomBytes(3).toString('hex').toUpperCase()}`,
+      name,
+      year: seasonDto.year,
+      startDate: seasonDto.startDate ? new Date(seasonDto.startDate) : undefined,
+      endDate: seasonDto.endDate ? new Date(seasonDto.endDate) : undefined,
+      status: 'upcoming',
+      pointsRules: { win: 2, loss: 0, tie: 1, draw: 1, noResult: 1, ...seasonDto.pointsRules },
+      tieBreakers: seasonDto.tieBreakers ?? DEFAULT_TIE_BREAKERS,
+      teams: [],
+      groups: [],
+      rounds: [],
+      fixtures: [],
+    };
+    league.seasons.push(season);
+
+    await league.save();
+    return season;
+  }
+
+  async updateSeason(leagueId: string, seasonId: string, updateDto: UpdateSeasonDto) {
+    const league = await this.findLeague(leagueId);
+    const season = this.findSeason(league, seasonId);
+
+    if (updateDto.name !== undefined) season.name = updateDto.name.trim();
+    if (updateDto.startDate !== undefined) season.startDate = new Date(updateDto.startDate);
+    if (updateDto.endDate !== undefined) season.endDate = new Date(updateDto.endDate);
+    if (updateDto.status !== undefined) season.status = updateDto.status;
+    if (updateDto.pointsRules !== undefined) {
+      season.pointsRules = { ...season.pointsRules, ...updateDto.pointsRules };
+    }
+    if (updateDto.tieBreakers !== undefined) season.tieBreakers = updateDto.tieBreakers;
+
+    await league.save();
+    return this.findSeason(league.toObject(), seasonId);
+  }
+
+  async deleteSeason(leagueId: string, seasonId: string) {
+    const league = await this.findLeague(leagueId);
+    this.assertNoMatchesStarted(this.findSeason(league, seasonId));
+
+    league.seasons = league.seasons.filter((s) => s.seasonId !== seasonId);
+    await league.save();
+    return { leagueId, seasonId };
+  }
+
+  async addSeasonTeams(leagueId: string, seasonId: string, teamsDto: AddSeasonTeamsDto) {
+    const league = await this.findLeague(leagueId);
+    const season = this.findSeason(league, seasonId);
+
+    for (const team of teamsDto.teams) {
+      const name = team.name.trim();
+      const teamId = generateTeamId(name);
+      if (season.teams.some((t) => t.teamId === teamId)) {
+        throw new ConflictException(`Team "${name}" is already in this season`);
+      }
+      season.teams.push({
+        teamId,
+        name,
+        shortName: team.shortName?.trim() || getTeamShortName(name),
+      });
+    }
+
+    await league.save();
+    return this.findSeason(league.toObject(), seasonId).teams;
+  }
+
+  async removeSeasonTeam(leagueId: string, seasonId: string, teamId: string) {
+    const league = await this.findLeague(leagueId);
+    const season = this.findSeason(league, seasonId);
+
+    if (!season.teams.some((t) => t.teamId === teamId)) {
+      throw new NotFoundException(`Team ${teamId} is not in this season`);
+    }
+    if (season.fixtures.some((f) => f.homeTeamId === teamId || f.awayTeamId === teamId)) {
+      throw new ConflictException('Remove the team from its fixtures first');
+    }
+
+    season.teams = season.teams.filter((t) => t.teamId !== teamId);
+    season.groups.forEach((group) => {
+      group.teamIds = group.teamIds.filter((id) => id !== teamId);
+    });
+
+    await league.save();
+    return this.findSeason(league.toObject(), seasonId).teams;
+  }
+
+  /**
+   * Replace the season's groups. A team can only be in one group.
+   */
+  async setSeasonGroups(leagueId: string, seasonId: string, groupsDto: SetSeasonGroupsDto) {
+    const league = await this.findLeague(leagueId);
+    const season = this.findSeason(league, seasonId);
+    this.assertNoMatchesStarted(season);
+
+    const seen = new Set<string>();
+    for (const group of groupsDto.groups) {
+      for (const teamId of group.teamIds) {
+        if (!season.teams.some((t) => t.teamId === teamId)) {
+          throw new BadRequestException(`Team ${teamId} is not in this season`);
+        }
+        if (seen.has(teamId)) {
+          throw new BadRequestException(`Team ${teamId} is in more than one group`);
+        }
+        seen.add(teamId);
+      }
+    }
+
+    season.groups = groupsDto.groups.map((group, index) => ({
+      groupId: `G${index + 1}`,
+      name: group.name.trim(),
+      teamIds: group.teamIds,
+    }));
+
+    await league.save();
+    return this.findSeason(league.toObject(), seasonId).groups;
+  }
+
+  async addRound(leagueId: string, seasonId: string, roundDto: CreateRoundDto) {
+    const league = await this.findLeague(leagueId);
+    const season = this.findSeason(league, seasonId);
+
+    const order = Math.max(0, ...season.rounds.map((r) => r.order)) + 1;
+    const round = {
+      roundId: `R${order}`,
+      name: roundDto.name.trim(),
+      stage: roundDto.stage,
+      order,
+    };
+    season.rounds.push(round);
+
+    await league.save();
+    return round;
+  }
+
+  async deleteRound(leagueId: string, seasonId: string, roundId: string) {
+    const league = await this.findLeague(leagueId);
+    const season = this.findSeason(league, seasonId);
+
+    if (!season.rounds.some((r) => r.roundId === roundId)) {
+      throw new NotFoundException(`Round ${roundId} not found`);
+    }
+    if (season.fixtures.some((f) => f.roundId === roundId)) {
+      throw new ConflictException('Only rounds without fixtures can be deleted');
+    }
+
+    season.rounds = season.rounds.filter((r) => r.roundId !== roundId);
+    await league.save();
+    return this.findSeason(league.toObject(), seasonId).rounds;
+  }
+
+  /**
+   * Generate the season's rounds and fixtures from its teams (in seeding
+   * order). Knockout slots are filled in as earlier results come in.
+   */
+  async generateFixtures(leagueId: string, seasonId: string, generateDto: GenerateFixturesDto) {
+    const league = await this.findLeague(leagueId);
+    const season = this.findSeason(league, seasonId);
+    this.assertNoMatchesStarted(season);
+
+    if (season.fixtures.length > 0 && !generateDto.replace) {
+      throw new ConflictException(
+        'The season already has fixtures; set replace to regenerate them',
+      );
+    }
+
+    const teamIds = season.teams.map((t) => t.teamId);
+    if (teamIds.length < 2) {
+      throw new BadRequestException('A season needs at least two teams');
+    }
+
+    const groupCount = generateDto.groupCount ?? 2;
+    const qualifiers = generateDto.qualifiersPerGroup ?? 2;
+    if (generateDto.format === 'groups_knockout') {
+      const smallestGroup = Math.floor(teamIds.length / groupCount);
+      if (smallestGroup < 2) {
+        throw new BadRequestException(`${groupCount} groups need at least ${groupCount * 2} teams`);
+      }
+      if (qualifiers > smallestGroup) {
+        throw new BadRequestException(
+          `Groups of ${smallestGroup} cannot send ${qualifiers} teams to the knockouts`,
+        );
+      }
+      if (groupCount * qualifiers < 2) {
+        throw new BadRequestException('At least two teams must reach the knockouts');
+      }
+    }
+
+    const schedule = generateSchedule(teamIds, {
+      format: generateDto.format,
+      groupCount,
+      qualifiersPerGroup: qualifiers,
+    });
+
+    if (generateDto.startDate) {
+      const start = new Date(generateDto.startDate).getTime();
+      const gap = (generateDto.daysBetweenRounds ?? 7) * DAY_MS;
+      const roundOrder = new Map(schedule.rounds.map((r) => [r.roundId, r.order]));
+      schedule.fixtures.forEach((fixture) => {
+        fixture.scheduledAt = new Date(start + ((roundOrder.get(fixture.roundId) || 1) - 1) * gap);
+      });
+    }
+
+    season.fixtureFormat = generateDto.format;
+    season.groups = schedule.groups;
+    season.rounds = schedule.rounds;
+    season.fixtures = schedule.fixtures;
+
+    await league.save();
+    this.logger.log(
+      `Generated ${schedule.fixtures.length} ${generateDto.format} fixtures for ${leagueId}/${seasonId}`,
+    );
+    return this.getFixtures(leagueId, seasonId);
+  }
+
+  async addFixture(leagueId: string, seasonId: string, fixtureDto: CreateFixtureDto) {
+    const league = await this.findLeague(leagueId);
+    const season = this.findSeason(league, seasonId);
+
+    if (!season.rounds.some((r) => r.roundId === fixtureDto.roundId)) {
+      throw new BadRequestException(`Round ${fixtureDto.roundId} not found`);
+    }
+    if (fixtureDto.groupId && !season.groups.some((g) => g.groupId === fixtureDto.groupId)) {
+      throw new BadRequestException(`Group ${fixtureDto.groupId} not found`);
+    }
+    for (const teamId of [fixtureDto.homeTeamId, fixtureDto.awayTeamId]) {
+      if (!season.teams.some((t) => t.teamId === teamId)) {
+        throw new BadRequestException(`Team ${teamId} is not in this season`);
+      }
+    }
+    if (fixtureDto.homeTeamId === fixtureDto.awayTeamId) {
+      throw new BadRequestException('Home and away teams must be different');
+    }
+
+    const matchNumber = Math.max(0, ...season.fixtures.map((f) => f.matchNumber)) + 1;
+    const fixture: LeagueFixture = {
+      fixtureId: `F${matchNumber}`,
+      roundId: fixtureDto.roundId,
+      groupId: fixtureDto.groupId,
+      matchNumber,
+      homeTeamId: fixtureDto.homeTeamId,
+      awayTeamId: fixtureDto.awayTeamId,
+      scheduledAt: fixtureDto.scheduledAt ? new Date(fixtureDto.scheduledAt) : undefined,
+      venue: fixtureDto.venue,
+    };
+    season.fixtures.push(fixture);
+
+    await league.save();
+    return fixture;
+  }
+
+  async updateFixture(
+    leagueId: string,
+    seasonId: string,
+    fixtureId: string,
+    updateDto: UpdateFixtureDto,
+  ) {
+    const league = await this.findLeague(leagueId);
+    const fixture = this.findFixture(this.findSeason(league, seasonId), fixtureId);
+
+    if (updateDto.scheduledAt !== undefined) fixture.scheduledAt = new Date(updateDto.scheduledAt);
+    if (updateDto.venue !== undefined) fixture.venue = updateDto.venue;
+
+    await league.save();
+    return this.findFixture(this.findSeason(league.toObject(), seasonId), fixtureId);
+  }
+
+  async deleteFixture(leagueId: string, seasonId: string, fixtureId: string) {
+    const league = await this.findLeague(leagueId);
+    const season = this.findSeason(league, seasonId);
+    const fixture = this.findFixture(season, fixtureId);
+
+    if (fixture.matchId) {
+      throw new ConflictException('This fixture has already been played');
+    }
+    if (
+      season.fixtures.some(
+        (f) => f.homeSource?.fixtureId === fixtureId || f.awaySource?.fixtureId === fixtureId,
+      )
+    ) {
+      throw new ConflictException('A later knockout fixture depends on this one');
+    }
+
+    season.fixtures = season.fixtures.filter((f) => f.fixtureId !== fixtureId);
+    await league.save();
+    return { fixtureId };
+  }
+
+  /**
+   * Local matches played for the season's fixtures, by match ID
+   */
+  private async getFixtureMatches(season: LeagueSeason): Promise<Map<string, LocalMatch>> {
+    const matchIds = season.fixtures.map((f) => f.matchId).filter((id): id is string => !!id);
+    if (matchIds.length === 0) return new Map();
+
+    const matches = await this.localMatchModel
+      .find({ matchId: { $in: matchIds } })
+      .select('-ballHistory -verificationStream -auditLog -battingStats -bowlingStats')
+      .lean();
+    return new Map(matches.map((match) => [match.matchId, match as LocalMatch]));
+  }
+
+  /**
+   * A fixture's result for standings, with the match's sides mapped back to
+   * the fixture's home and away teams
+   */
+  private toStandingsResult(fixture: LeagueFixture, match?: LocalMatch): StandingsResult | null {
+    if (!match || !fixture.homeTeamId || !fixture.awayTeamId) return null;
+    const result = this.standingsService.fromLocalMatch(match);
+    if (!result) return null;
+
+    const swapped = match.teams.home.id === fixture.awayTeamId;
+    return {
+      ...result,
+      homeTeamId: swapped ? fixture.awayTeamId : fixture.homeTeamId,
+      awayTeamId: swapped ? fixture.homeTeamId : fixture.awayTeamId,
+    };
+  }
+
+  private buildSeasonTables(season: LeagueSeason, matches: Map<string, LocalMatch>) {
+    const leagueRounds = new Set(
+      season.rounds.filter((r) => r.stage === 'league').map((r) => r.roundId),
+    );
+    const options = { rules: season.pointsRules, tieBreakers: season.tieBreakers };
+    const teamName = (teamId: string) => season.teams.find((t) => t.teamId === teamId)?.name || '';
+    const resultsFor = (groupId?: string) =>
+      season.fixtures
+        .filter((f) => leagueRounds.has(f.roundId) && (!groupId || f.groupId === groupId))
+        .map((f) => this.toStandingsResult(f, f.matchId ? matches.get(f.matchId) : undefined))
+        .filter((result): result is StandingsResult => !!result);
+
+    if (season.groups.length === 0) {
+      return [
+        {
+          name: 'Overall',
+          rows: buildPointsTable(
+            season.teams.map((t) => ({ id: t.teamId, name: t.name })),
+            resultsFor(),
+            options,
+          ),
+        },
+      ];
+    }
+
+    return season.groups.map((group) => ({
+      groupId: group.groupId,
+      name: group.name,
+      rows: buildPointsTable(
+        group.teamIds.map((id) => ({ id, name: teamName(id) })),
+        resultsFor(group.groupId),
+        options,
+      ),
+    }));
+  }
+
+  /**
+   * Live points table with NRR, from the completed local matches played for
+   * the season's league-stage fixtures
+   */
+  async getPointsTable(leagueId: string, seasonId: string) {
+    const league = await this.getLeagueById(leagueId);
+    const season = this.findSeason(league, seasonId);
+    const matches = await this.getFixtureMatches(season);
+
+    return {
+      leagueId,
+      seasonId,
+      pointsRules: season.pointsRules,
+      tieBreakers: season.tieBreakers ?? DEFAULT_TIE_BREAKERS,
+      tables: this.buildSeasonTables(season, matches),
+    };
+  }
+
+  /**
+   * The team in a knockout slot, once the result it depends on is known
+   */
+  private resolveSlot(
+    season: LeagueSeason,
+    matches: Map<string, LocalMatch>,
+    tables: Array<{ groupId?: string; rows: PointsTableRow[] }>,
+    teamId?: string,
+    source?: FixtureSlotSource,
+  ): string | undefined {
+    if (teamId || !source) return teamId;
+
+    if (source.kind === 'winner') {
+      const feeder = season.fixtures.find((f) => f.fixtureId === source.fixtureId);
+      if (!feeder) return undefined;
+      const homeTeamId = this.resolveSlot(
+        season,
+        matches,
+        tables,
+        feeder.homeTeamId,
+        feeder.homeSource,
+      );
+      const awayTeamId = this.resolveSlot(
+        season,
+        matches,
+        tables,
+        feeder.awayTeamId,
+        feeder.awaySource,
+      );
+      const result = this.toStandingsResult(
+        { ...feeder, homeTeamId, awayTeamId },
+        feeder.matchId ? matches.get(feeder.matchId) : undefined,
+      );
+      if (result?.outcome === 'home') return result.homeTeamId;
+      if (result?.outcome === 'away') return result.awayTeamId;
+      return undefined;
+    }
+
+    // Group positions are final once every group fixture has a result
+    const groupFixtures = season.fixtures.filter((f) => f.groupId === source.groupId);
+    const groupComplete = groupFixtures.every(
+      (f) => !!this.toStandingsResult(f, f.matchId ? matches.get(f.matchId) : undefined),
+    );
+    if (!groupComplete) return undefined;
+    const table = tables.find((t) => t.groupId === source.groupId);
+    return table?.rows[(source.position || 1) - 1]?.teamId;
+  }
+
+  private describeSlot(season: LeagueSeason, source?: FixtureSlotSource): string | undefined {
+    if (!source) return undefined;
+    if (source.kind === 'winner') {
+      const feeder = season.fixtures.find((f) => f.fixtureId === source.fixtureId);
+      return `Winner of match ${feeder?.matchNumber ?? source.fixtureId}`;
+    }
+    const group = season.groups.find((g) => g.groupId === source.groupId);
+    return `${group?.name || source.groupId} #${source.position}`;
+  }
+
+  /**
+   * Fixtures with teams resolved where possible and each played match's
+   * status and result
+   */
+  private buildFixtureViews(season: LeagueSeason, matches: Map<string, LocalMatch>) {
+    const tables = this.buildSeasonTables(season, matches);
+    const team = (teamId?: string) => season.teams.find((t) => t.teamId === teamId);
+
+    return [...season.fixtures]
+      .sort((a, b) => a.matchNumber - b.matchNumber)
+      .map((fixture) => {
+        const match = fixture.matchId ? matches.get(fixture.matchId) : undefined;
+        const homeTeamId = this.resolveSlot(
+          season,
+          matches,
+          tables,
+          fixture.homeTeamId,
+          fixture.homeSource,
+        );
+        const awayTeamId = this.resolveSlot(
+          season,
+          matches,
+          tables,
+          fixture.awayTeamId,
+          fixture.awaySource,
+        );
+        return {
+          ...fixture,
+          round: season.rounds.find((r) => r.roundId === fixture.roundId)?.name,
+          homeTeam: team(homeTeamId) || null,
+          awayTeam: team(awayTeamId) || null,
+          homePlaceholder: homeTeamId ? undefined : this.describeSlot(season, fixture.homeSource),
+          awayPlaceholder: awayTeamId ? undefined : this.describeSlot(season, fixture.awaySource),
+          status: match ? match.status : 'scheduled',
+          result: match?.matchResult?.resultText,
+        };
+      });
+  }
+
+  async getFixtures(leagueId: string, seasonId: string) {
+    const league = await this.getLeagueById(leagueId);
+    const season = this.findSeason(league, seasonId);
+    const matches = await this.getFixtureMatches(season);
+
+    return {
+      leagueId,
+      seasonId,
+      fixtureFormat: season.fixtureFormat,
+      groups: season.groups,
+      rounds: [...season.rounds].sort((a, b) => a.order - b.order),
+      fixtures: this.buildFixtureViews(season, matches),
+    };
+  }
+
+  private async findAssignableScorer(scorerId: string): Promise<UserDocument> {
+    const scorer = await this.userModel.findOne({
+      'scorerProfile.scorerId': scorerId,
+      'scorerProfile.isScorer': true,
+    });
+    if (!scorer?.scorerProfile) {
+      throw new NotFoundException(`Scorer ${scorerId} not found`);
+    }
+    if (scorer.scorerProfile.verificationStatus === 'suspended') {
+      throw new BadRequestException(`Scorer ${scorerId} is suspended`);
+    }
+    return scorer;
+  }
+
+  async assignScorer(leagueId: string, scorerId: string) {
+    await this.findLeague(leagueId);
+    await this.findAssignableScorer(scorerId);
+
+    await this.userModel.updateOne(
+      { 'scorerProfile.scorerId': scorerId },
+      { $addToSet: { 'scorerProfile.assignedLeagues': leagueId } },
+    );
+    const league = await this.leagueModel
+      .findOneAndUpdate({ leagueId }, { $addToSet: { scorerIds: scorerId } }, { new: true })
+      .lean();
+
+    this.logger.log(`Scorer ${scorerId} assigned to league ${leagueId}`);
+    return { leagueId, scorerIds: league?.scorerIds || [] };
+  }
+
+  async unassignScorer(leagueId: string, scorerId: string) {
+    const league = await this.findLeague(leagueId);
+    if (!league.scorerIds.includes(scorerId)) {
+      throw new NotFoundException(`Scorer ${scorerId} is not assigned to this league`);
+    }
+
+    await this.userModel.updateOne(
+      { 'scorerProfile.scorerId': scorerId },
+      { $pull: { 'scorerProfile.assignedLeagues': leagueId } },
+    );
+    const updated = await this.leagueModel
+      .findOneAndUpdate({ leagueId }, { $pull: { scorerIds: scorerId } }, { new: true })
+      .lean();
+
+    return { leagueId, scorerIds: updated?.scorerIds || [] };
+  }
+
+  /**
+   * Unplayed fixtures in every active league the scorer is assigned to,
+   * soonest first
+   */
+  async getAssignedFixtures(scorerId: string) {
+    const leagues = await this.leagueModel.find({ scorerIds: scorerId, status: 'active' }).lean();
+
+    const fixtures = [];
+    for (const league of leagues) {
+      for (const season of league.seasons) {
+        if (season.status === 'completed') continue;
+        const matches = await this.getFixtureMatches(season);
+        for (const fixture of this.buildFixtureViews(season, matches)) {
+          if (fixture.matchId) continue;
+          fixtures.push({
+            leagueId: league.leagueId,
+            leagueName: league.name,
+            seasonId: season.seasonId,
+            seasonName: season.name,
+            ...fixture,
+          });
+        }
+      }
+    }
+
+    return fixtures.sort(
+      (a, b) =>
+        (a.scheduledAt ? new Date(a.scheduledAt).getTime() : Infinity) -
+          (b.scheduledAt ? new Date(b.scheduledAt).getTime() : Infinity) ||
+        a.matchNumber - b.matchNumber,
+    );
+  }
+
+  /**
+   * Create the local match for a fixture (assigned scorers only). The scorer
+   * becomes the match's primary scorer.
+   */
+  async startFixtureMatch(
+    leagueId: string,
+    seasonId: string,
+    fixtureId: string,
+    startDto: StartFixtureMatchDto,
+    scorer: { scorerId: string; name: string; scorerType: string },
+  ) {
+    const league = await this.getLeagueById(leagueId);
+    if (!league.scorerIds.includes(scorer.scorerId)) {
+      throw new ForbiddenException('You are not assigned to score this league');
+    }
+    if (league.status !== 'active') {
+      throw new BadRequestException('This league is archived');
+    }
+
+    const season = this.findSeason(league, seasonId);
+    const fixture = this.buildFixtureViews(season, await this.getFixtureMatches(season)).find(
+      (f) => f.fixtureId === fixtureId,
+    );
+    if (!fixture) {
+      throw new NotFoundException(`Fixture ${fixtureId} not found`);
+    }
+    if (fixture.matchId) {
+      throw new ConflictException(`Fixture ${fixtureId} already has match ${fixture.matchId}`);
+    }
+    if (!fixture.homeTeam || !fixture.awayTeam) {
+      throw new BadRequestException('The teams for this fixture are not decided yet');
+    }
+
+    const venue = startDto.venue || fixture.venue;
+    if (!venue?.name || !venue?.city) {
+      throw new BadRequestException('A venue is required for this fixture');
+    }
+
+    const match = await this.localMatchService.createMatch(
+      {
+        series: `${league.name} ${season.name}`,
+        format: league.format as 'test' | 'odi' | 't20i' | 't20' | 'first-class' | 'list-a',
+        startTime: startDto.startTime || (fixture.scheduledAt || new Date()).toISOString(),
+        venue: { name: venue.name, city: venue.city, address: venue.address },
+        teams: { home: fixture.homeTeam.name, away: fixture.awayTeam.name },
+        league: {
+          id: league.leagueId,
+          name: league.name,
+          level: league.level,
+          season: season.name,
+          year: season.year,
+        },
+        location: league.location,
+        rules: league.rules,
+      },
+      scorer.scorerId,
+      scorer.name,
+      scorer.scorerType,
+    );
+
+    // Link atomically so two scorers cannot both start the fixture
+    const linked = await this.leagueModel.updateOne(
+      { leagueId },
+      {
+        $set: {
+          'seasons.$[season].fixtures.$[fixture].matchId': match.matchId,
+          'seasons.$[season].fixtures.$[fixture].homeTeamId': fixture.homeTeam.teamId,
+          'seasons.$[season].fixtures.$[fixture].awayTeamId': fixture.awayTeam.teamId,
+        },
+      },
+      {
+        arrayFilters: [
+          { 'season.seasonId': seasonId },
+          { 'fixture.fixtureId': fixtureId, 'fixture.matchId': { $exists: false } },
+        ],
+      },
+    );
+    if (linked.modifiedCount === 0) {
+      await this.localMatchModel.deleteOne({ matchId: match.matchId });
+      throw new ConflictException(`Fixture ${fixtureId} was started by another scorer`);
+    }
+
+    if (season.status === 'upcoming') {
+      await this.leagueModel.updateOne(
+        { leagueId, 'seasons.seasonId': seasonId },
+        { $set: { 'seasons.$.status': 'ongoing' } },
+      );
+    }
+
+    this.logger.log(`Fixture ${leagueId}/${seasonId}/${fixtureId} started as ${match.matchId}`);
+    return match;
+  }
+}
@@ -0,0 +1,201 @@
+import { Prop, Schema, SchemaFactory } from '@nestjs/mongoose';
+import { Document } from 'mongoose';
+import { TieBreaker } from '../../cricket/utils/points-table';
+
+export type LeagueDocument = League & Document;
+
+export type LeagueLevel = 'national' | 'state' | 'district' | 'city' | 'ward' | 'club';
+
+export type FixtureFormat = 'round_robin' | 'double_round_robin' | 'knockout' | 'groups_knockout';
+
+// Where a knockout slot's team comes from until it is known
+export interface FixtureSlotSource {
+  kind: 'winner' | 'group_position';
+  fixtureId?: string;
+  groupId?: string;
+  position?: number;
+}
+
+export interface LeagueFixture {
+  fixtureId: string;
+  roundId: string;
+  groupId?: string;
+  matchNumber: number;
+  homeTeamId?: string;
+  awayTeamId?: string;
+  homeSource?: FixtureSlotSource;
+  awaySource?: FixtureSlotSource;
+  scheduledAt?: Date;
+  venue?: { name: string; city: string; address?: string };
+  matchId?: string; // Local match scored for this fixture
+}
+
+export interface LeagueSeason {
+  seasonId: string;
+  name: string;
+  year: number;
+  startDate?: Date;
+  endDate?: Date;
+  status: 'upcoming' | 'ongoing' | 'completed';
+  fixtureFormat?: FixtureFormat;
+  pointsRules: { win: number; loss: number; tie: number; draw: number; noResult: number };
+  /** Order used to separate teams level on points */
+  tieBreakers?: TieBreaker[];
+  teams: Array<{ teamId: string; name: string; shortName: string }>;
+  groups: Array<{ groupId: string; name: string; teamIds: string[] }>;
+  rounds: Array<{ roundId: string; name: string; stage: 'league' | 'knockout'; order: number }>;
+  fixtures: LeagueFixture[];
+}
+
+const SLOT_SOURCE_FIELDS = {
+  kind: { type: String, enum: ['winner', 'group_position'] },
+  fixtureId: { type: String },
+  groupId: { type: String },
+  position: { type: Number },
+};
+
+@Schema({ timestamps: true, collection: 'local_leagues' })
+export class League {
+  @Prop({ required: true, unique: true, index: true })
+  leagueId: string;
+
+  @Prop({ required: true, trim: true, maxlength: 200, index: true })
+  name: string;
+
+  @Prop({ trim: true, maxlength: 10 })
+  shortName?: string;
+
+  @Prop({ trim: true, maxlength: 2000 })
+  description?: string;
+
+  @Prop({ enum: ['national', 'state', 'district', 'city', 'ward', 'club'], required: true })
+  level: LeagueLevel;
+
+  @Prop({ enum: ['test', 'odi', 't20i', 't20', 'first-class', 'list-a'], required: true })
+  format: string;
+
+  // Playing conditions for matches created from fixtures
+  @Prop({
+    type: {
+      oversPerInnings: { type: Number },
+      ballsPerOver: { type: Number, default: 6 },
+      wideRuns: { type: Number, default: 1 },
+      noBallRuns: { type: Number, default: 1 },
+    },
+  })
+  rules?: {
+    oversPerInnings?: number;
+    ballsPerOver: number;
+    wideRuns: number;
+    noBallRuns: number;
+  };
+
+  @Prop({
+    type: {
+      country: { type: String, required: true },
+      state: { type: String },
+      city: { type: String, required: true },
+      district: { type: String },
+      area: { type: String },
+    },
+    required: true,
+  })
+  location: {
+    country: string;
+    state?: string;
+    city: string;
+    district?: string;
+    area?: string;
+  };
+
+  @Prop({ enum: ['active', 'archived'], default: 'active', index: true })
+  status: 'active' | 'archived';
+
+  @Prop({ required: true })
+  createdBy: string;
+
+  // Scorers who may score this league's fixtures (mirrors scorerProfile.assignedLeagues)
+  @Prop({ type: [String], default: [], index: true })
+  scorerIds: string[];
+
+  @Prop({
+    type: [
+      {
+        seasonId: { type: String, required: true },
+        name: { type: String, required: true },
+        year: { type: Number, required: true },
+        startDate: { type: Date },
+        endDate: { type: Date },
+        status: {
+          type: String,
+          enum: ['upcoming', 'ongoing', 'completed'],
+          default: 'upcoming',
+        },
+        fixtureFormat: {
+          type: String,
+          enum: ['round_robin', 'double_round_robin', 'knockout', 'groups_knockout'],
+        },
+        pointsRules: {
+          win: { type: Number, default: 2 },
+          loss: { type: Number, default: 0 },
+          tie: { type: Number, default: 1 },
+          draw: { type: Number, default: 1 },
+          noResult: { type: Number, default: 1 },
+        },
+        tieBreakers: {
+          type: [{ type: String, enum: ['wins', 'netRunRate', 'headToHead', 'runsFor'] }],
+          default: ['wins', 'netRunRate'],
+        },
+        teams: [
+          {
+            teamId: { type: String, required: true },
+            name: { type: String, required: true },
+            shortName: { type: String, required: true },
+          },
+        ],
+        groups: [
+          {
+            groupId: { type: String, required: true },
+            name: { type: String, required: true },
+            teamIds: { type: [String], default: [] },
+          },
+        ],
+        rounds: [
+          {
+            roundId: { type: String, required: true },
+            name: { type: String, required: true },
+            stage: { type: String, enum: ['league', 'knockout'], required: true },
+            order: { type: Number, required: true },
+          },
+        ],
+        fixtures: [
+          {
+            fixtureId: { type: String, required: true },
+            roundId: { type: String, required: true },
+            groupId: { type: String },
+            matchNumber: { type: Number, required: true },
+            homeTeamId: { type: String },
+            awayTeamId: { type: String },
+            homeSource: SLOT_SOURCE_FIELDS,
+            awaySource: SLOT_SOURCE_FIELDS,
+            scheduledAt: { type: Date },
+            venue: {
+              name: { type: String },
+              city: { type: String },
+              address: { type: String },
+            },
+            matchId: { type: String },
+          },
+        ],
+      },
+    ],
+    default: [],
+  })
+  seasons: LeagueSeason[];
+}
+
+export const LeagueSchema = SchemaFactory.createForClass(League);
+
+LeagueSchema.index({ 'location.city': 1, status: 1 });
+LeagueSchema.index({ 'location.district': 1, status: 1 });
+LeagueSchema.index({ 'seasons.fixtures.matchId': 1 });
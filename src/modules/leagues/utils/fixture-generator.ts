@@ -0,0 +1,197 @@
+import {
+  FixtureFormat,
+  FixtureSlotSource,
+  LeagueFixture,
+  LeagueSeason,
+} from '../schemas/league.schema';
+
+/**
+ * Fixture generation for a season: round robin (circle method), seeded
+ * knockout brackets with byes, and groups followed by knockouts. IDs
+ * (R1, F1, G1...) are unique within the season.
+ */
+
+export interface ScheduleOptions {
+  format: FixtureFormat;
+  /** groups_knockout only */
+  groupCount?: number;
+  /** groups_knockout only: teams per group that reach the knockouts */
+  qualifiersPerGroup?: number;
+}
+
+export interface GeneratedSchedule {
+  groups: LeagueSeason['groups'];
+  rounds: LeagueSeason['rounds'];
+  fixtures: LeagueFixture[];
+}
+
+// A fixture slot is either a known team or a placeholder
+interface Slot {
+  teamId?: string;
+  source?: FixtureSlotSource;
+}
+
+/**
+ * Pairings per round for a single round robin. With an odd number of teams
+ * one team sits out each round.
+ */
+export function roundRobinPairings(teamIds: string[]): Array<Array<[string, string]>> {
+  const teams: Array<string | null> = [...teamIds];
+  if (teams.length % 2 === 1) teams.push(null);
+  const rounds: Array<Array<[string, string]>> = [];
+
+  for (let round = 0; round < teams.length - 1; round++) {
+    const pairings: Array<[string, string]> = [];
+    for (let i = 0; i < teams.length / 2; i++) {
+      const a = teams[i];
+      const b = teams[teams.length - 1 - i];
+      if (!a || !b) continue;
+      // Alternate the fixed team's home games
+      pairings.push(i === 0 && round % 2 === 1 ? [b, a] : [a, b]);
+    }
+    rounds.push(pairings);
+    // Rotate every team but the first
+    teams.splice(1, 0, teams.pop() as string | null);
+  }
+  return rounds;
+}
+
+/**
+ * Seed order of a bracket of `size` slots, so that seed 1 meets seed 2 only
+ * in the final (e.g. 1, 8, 4, 5, 2, 7, 3, 6)
+ */
+export function bracketOrder(size: number): number[] {
+  let order = [1];
+  while (order.length < size) {
+    const slots = order.length * 2;
+    order = order.flatMap((seed) => [seed, slots + 1 - seed]);
+  }
+  return order;
+}
+
+function knockoutRoundName(slots: number): string {
+  if (slots === 2) return 'Final';
+  if (slots === 4) return 'Semi-finals';
+  if (slots === 8) return 'Quarter-finals';
+  return `Round of ${slots}`;
+}
+
+function groupName(index: number): string {
+  return `Group ${String.fromCharCode(65 + index)}`;
+}
+
+/**
+ * Groups, rounds and fixtures for `teamIds`, given in seeding order
+ */
+export function generateSchedule(teamIds: string[], options: ScheduleOptions): GeneratedSchedule {
+  const schedule: GeneratedSchedule = { groups: [], rounds: [], fixtures: [] };
+
+  const addRound = (name: string, stage: 'league' | 'knockout') => {
+    const order = schedule.rounds.length + 1;
+    const round = { roundId: `R${order}`, name, stage, order };
+    schedule.rounds.push(round);
+    return round;
+  };
+
+  const addFixture = (roundId: string, home: Slot, away: Slot, groupId?: string) => {
+    const matchNumber = schedule.fixtures.length + 1;
+    const fixture: LeagueFixture = {
+      fixtureId: `F${matchNumber}`,
+      roundId,
+      groupId,
+      matchNumber,
+      homeTeamId: home.teamId,
+      awayTeamId: away.teamId,
+      homeSource: home.source,
+      awaySource: away.source,
+    };
+    schedule.fixtures.push(fixture);
+    return fixture;
+  };
+
+  const addKnockout = (entrants: Slot[]) => {
+    let size = 1;
+    while (size < entrants.length) size *= 2;
+    // Seeds beyond the entrants are byes
+    let slots: Array<Slot | null> = bracketOrder(size).map((seed) => entrants[seed - 1] ?? null);
+
+    while (slots.length > 1) {
+      const round = addRound(knockoutRoundName(slots.length), 'knockout');
+      const next: Array<Slot | null> = [];
+      for (let i = 0; i < slots.length; i += 2) {
+        const [a, b] = [slots[i], slots[i + 1]];
+        if (!a || !b) {
+          next.push(a || b);
+          continue;
+        }
+        const fixture = addFixture(round.roundId, a, b);
+        next.push({ source: { kind: 'winner', fixtureId: fixture.fixtureId } });
+      }
+      slots = next;
+    }
+  };
+
+  switch (options.format) {
+    case 'round_robin':
+    case 'double_round_robin': {
+      const legs = roundRobinPairings(teamIds);
+      if (options.format === 'double_round_robin') {
+        legs.push(...legs.map((pairings) => pairings.map(([a, b]): [string, string] => [b, a])));
+      }
+      legs.forEach((pairings, index) => {
+        const round = addRound(`Round ${index + 1}`, 'league');
+        pairings.forEach(([home, away]) =>
+          addFixture(round.roundId, { teamId: home }, { teamId: away }),
+        );
+      });
+      break;
+    }
+
+    case 'knockout':
+      addKnockout(teamIds.map((teamId) => ({ teamId })));
+      break;
+
+    case 'groups_knockout': {
+      const groupCount = options.groupCount ?? 2;
+      const qualifiers = options.qualifiersPerGroup ?? 2;
+      // Snake seeding: A B C C B A A B C ...
+      for (let i = 0; i < groupCount; i++) {
+        schedule.groups.push({ groupId: `G${i + 1}`, name: groupName(i), teamIds: [] });
+      }
+      teamIds.forEach((teamId, index) => {
+        const pass = Math.floor(index / groupCount);
+        const offset = index % groupCount;
+        const group = pass % 2 === 0 ? offset : groupCount - 1 - offset;
+        schedule.groups[group].teamIds.push(teamId);
+      });
+
+      const groupRounds = schedule.groups.map((group) => roundRobinPairings(group.teamIds));
+      const matchdays = Math.max(...groupRounds.map((rounds) => rounds.length));
+      for (let day = 0; day < matchdays; day++) {
+        const round = addRound(`Matchday ${day + 1}`, 'league');
+        groupRounds.forEach((rounds, groupIndex) => {
+          for (const [home, away] of rounds[day] || []) {
+            addFixture(
+              round.roundId,
+              { teamId: home },
+              { teamId: away },
+              schedule.groups[groupIndex].groupId,
+            );
+          }
+        });
+      }
+
+      // Group winners are the top seeds, then runners-up, and so on
+      const entrants: Slot[] = [];
+      for (let position = 1; position <= qualifiers; position++) {
+        for (const group of schedule.groups) {
+          entrants.push({ source: { kind: 'group_position', groupId: group.groupId, position } });
+        }
+      }
+      addKnockout(entrants);
+      break;
+    }
+  }
+
+  return schedule;
+}
@@ -0,0 +1,260 @@
+import { Injectable } from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { Model } from 'mongoose';
+import { Cron, CronExpression } from '@nestjs/schedule';
+import { User, UserDocument } from '../users/schemas/user.schema';
+import { LocalMatch, LocalMatchDocument } from '../cricket/schemas/local-match.schema';
+import { WinstonLoggerService } from '../../common/logger/winston-logger.service';
+
+/** Scorers below this reputation are suspended automatically */
+export const REPUTATION_SUSPEND_THRESHOLD = 40;
+/** Reviewed matches needed before a scorer can be suspended automatically */
+const MIN_REVIEWED_MATCHES = 5;
+/** Reputation history entries kept per scorer */
+const HISTORY_LIMIT = 30;
+
+export interface ReputationSignals {
+  matchesScored: number;
+  verifiedMatches: number;
+  rejectedMatches: number;
+  /**
+   * Balls the scorer recorded, whoever was primary at the time, including
+   * their verification stream in reconciled matches
+   */
+  deliveries: number;
+  /** Balls the scorer undid */
+  undos: number;
+  /**
+   * Reconciliation rulings that went against the scorer, and balls of theirs
+   * another scorer edited or deleted
+   */
+  corrections: number;
+  /** Balls the scorer recorded in reconciled matches */
+  reconciledDeliveries: number;
+  /** Average dual-scorer agreement (0-100), if the scorer was ever reconciled */
+  agreement?: number;
+}
+
+interface ScorerMatchSummary {
+  isPrimary: boolean;
+  status: string;
+  verificationStatus: string;
+  deliveries: number;
+  undos: number;
+  edits: number;
+  verifierId?: string;
+  reconciliation?: LocalMatch['reconciliation'];
+}
+
+/**
+ * Recomputes scorer reputation from their local matches: verified vs
+ * rejected matches, admin corrections, undo frequency and dual-scorer
+ * agreement. Runs nightly; scorers below the threshold are suspended.
+ */
+@Injectable()
+export class ScorerReputationService {
+  constructor(
+    @InjectModel(User.name) private userModel: Model<UserDocument>,
+    @InjectModel(LocalMatch.name) private localMatchModel: Model<LocalMatchDocument>,
+    private logger: WinstonLoggerService,
+  ) {}
+
+  @Cron(CronExpression.EVERY_DAY_AT_3AM)
+  async recomputeAllReputations(): Promise<void> {
+    this.logger.log('Starting scorer reputation update', 'ScorerReputationService');
+
+    const scorers = await this.userModel
+      .find({ 'scorerProfile.isScorer': true, 'scorerProfile.scorerId': { $exists: true } })
+      .select('scorerProfile.scorerId')
+      .lean();
+
+    let updated = 0;
+    let suspended = 0;
+    for (const scorer of scorers) {
+      try {
+        const result = await this.recomputeReputation(scorer.scorerProfile!.scorerId!);
+        updated += 1;
+        if (result?.suspended) suspended += 1;
+      } catch (error: any) {
+        this.logger.error(
+          `Failed to update reputation for scorer ${scorer.scorerProfile?.scorerId}`,
+          error.stack,
+          'ScorerReputationService',
+        );
+      }
+    }
+
+    this.logger.log(
+      `Updated reputation for ${updated} scorers, ${suspended} suspended`,
+      'ScorerReputationService',
+    );
+  }
+
+  /**
+   * Recompute one scorer's reputation, record it in their history and
+   * suspend them if it fell below the threshold
+   */
+  async recomputeReputation(scorerId: string) {
+    const user = await this.userModel.findOne({ 'scorerProfile.scorerId': scorerId });
+    if (!user?.scorerProfile) {
+      return null;
+    }
+
+    const signals = await this.collectSignals(scorerId);
+    const score = this.computeScore(signals);
+    const reviewed = signals.verifiedMatches + signals.rejectedMatches;
+    const shouldSuspend =
+      score < REPUTATION_SUSPEND_THRESHOLD &&
+      reviewed >= MIN_REVIEWED_MATCHES &&
+      user.scorerProfile.verificationStatus !== 'suspended';
+
+    const history = [
+      ...(user.scorerProfile.reputationHistory || []),
+      { score, computedAt: new Date(), signals: { ...signals } },
+    ].slice(-HISTORY_LIMIT);
+
+    user.scorerProfile.matchesScored = signals.matchesScored;
+    if (signals.agreement !== undefined) {
+      user.scorerProfile.accuracyScore = signals.agreement;
+    }
+    user.scorerProfile.reputationScore = score;
+    user.scorerProfile.reputationHistory = history;
+    if (shouldSuspend) {
+      user.scorerProfile.verificationStatus = 'suspended';
+    }
+    user.markModified('scorerProfile');
+    await user.save();
+
+    if (shouldSuspend) {
+      this.logger.warn(
+        `Scorer ${scorerId} suspended automatically with reputation ${score}`,
+        'ScorerReputationService',
+      );
+    }
+
+    return { scorerId, score, signals, suspended: shouldSuspend };
+  }
+
+  private async collectSignals(scorerId: string): Promise<ReputationSignals> {
+    // Balls recorded before deliveries carried their scorer belong to the primary
+    const recordedByScorer = (recordedBy: string) => ({
+      $or: [
+        { $eq: [recordedBy, scorerId] },
+        { $and: [{ $not: [recordedBy] }, { $eq: ['$scorerInfo.scorerId', scorerId] }] },
+      ],
+    });
+
+    const matches: ScorerMatchSummary[] = await this.localMatchModel.aggregate([
+      { $match: { $or: [{ 'scorerInfo.scorerId': scorerId }, { 'scorers.scorerId': scorerId }] } },
+      {
+        $project: {
+          isPrimary: { $eq: ['$scorerInfo.scorerId', scorerId] },
+          status: 1,
+          verificationStatus: '$scorerInfo.verificationStatus',
+          deliveries: {
+            $size: {
+              $filter: {
+                input: { $ifNull: ['$ballHistory', []] },
+                as: 'delivery',
+                cond: recordedByScorer('$$delivery.recordedBy'),
+              },
+            },
+          },
+          // Edits and deletions of the scorer's balls by someone else
+          edits: {
+            $size: {
+              $filter: {
+                input: { $ifNull: ['$auditLog', []] },
+                as: 'entry',
+                cond: {
+                  $and: [
+                    { $in: ['$$entry.action', ['edit_ball', 'delete_ball']] },
+                    { $ne: ['$$entry.changedBy', scorerId] },
+                    recordedByScorer('$$entry.before.recordedBy'),
+                  ],
+                },
+              },
+            },
+          },
+          undos: {
+            $size: {
+              $filter: {
+                input: { $ifNull: ['$auditLog', []] },
+                as: 'entry',
+                cond: {
+                  $and: [
+                    { $eq: ['$$entry.action', 'undo_ball'] },
+                    { $eq: ['$$entry.changedBy', scorerId] },
+                  ],
+                },
+              },
+            },
+          },
+          verifierId: '$verificationStream.scorerId',
+          reconciliation: 1,
+        },
+      },
+    ]);
+
+    const signals: ReputationSignals = {
+      matchesScored: 0,
+      verifiedMatches: 0,
+      rejectedMatches: 0,
+      deliveries: 0,
+      undos: 0,
+      corrections: 0,
+      reconciledDeliveries: 0,
+    };
+    const agreementScores: number[] = [];
+
+    for (const match of matches) {
+      if (match.status !== 'cancelled') {
+        if (match.isPrimary) {
+          signals.matchesScored += 1;
+          if (match.verificationStatus === 'verified') signals.verifiedMatches += 1;
+          if (match.verificationStatus === 'rejected') signals.rejectedMatches += 1;
+        }
+        signals.deliveries += match.deliveries;
+        signals.undos += match.undos;
+        signals.corrections += match.edits;
+      }
+
+      const reconciliation = match.reconciliation;
+      const accuracy = reconciliation?.accuracy?.find((a) => a.scorerId === scorerId);
+      if (reconciliation?.status !== 'finalized' || !accuracy) continue;
+
+      // Rulings for the other stream are corrections of this scorer's record
+      const side = match.verifierId === scorerId ? 'secondary' : 'primary';
+      signals.corrections += reconciliation.discrepancies.filter(
+        (d) => d.resolution && d.resolution !== side,
+      ).length;
+      signals.reconciledDeliveries += accuracy.total;
+      if (side === 'secondary') signals.deliveries += accuracy.total;
+      agreementScores.push(accuracy.score);
+    }
+
+    if (agreementScores.length > 0) {
+      const average = agreementScores.reduce((sum, s) => sum + s, 0) / agreementScores.length;
+      signals.agreement = Math.round(average * 10) / 10;
+    }
+    return signals;
+  }
+
+  /**
+   * Weighted 0-100 score. Signals a scorer has no data for count as perfect,
+   * so new scorers start at 100.
+   */
+  private computeScore(signals: ReputationSignals): number {
+    const reviewed = signals.verifiedMatches + signals.rejectedMatches;
+    const verification = reviewed > 0 ? signals.verifiedMatches / reviewed : 1;
+    const agreement = signals.agreement !== undefined ? signals.agreement / 100 : 1;
+    // Correcting or undoing one ball in five counts as zero
+    const corrections =
+      signals.deliveries > 0 ? Math.max(0, 1 - (signals.corrections / signals.deliveries) * 5) : 1;
+    const undos =
+      signals.deliveries > 0 ? Math.max(0, 1 - (signals.undos / signals.deliveries) * 5) : 1;
+
+    const score = verification * 0.35 + agreement * 0.3 + corrections * 0.2 + undos * 0.15;
+    return Math.round(score * 1000) / 10;
+  }
+}
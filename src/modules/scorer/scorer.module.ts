@@ -2,17 +2,22 @@ import { Module, forwardRef } from '@nestjs/common';
 import { MongooseModule } from '@nestjs/mongoose';
 import { ScorerController } from './scorer.controller';
 import { ScorerService } from './scorer.service';
+import { ScorerReputationService } from './scorer-reputation.service';
 import { User, UserSchema } from '../users/schemas/user.schema';
+import { LocalMatch, LocalMatchSchema } from '../cricket/schemas/local-match.schema';
 import { CricketModule } from '../cricket/cricket.module';
 
 @Module({
   imports: [
-    MongooseModule.forFeature([{ name: User.name, schema: UserSchema }]),
+    MongooseModule.forFeature([
+      { name: User.name, schema: UserSchema },
+      { name: LocalMatch.name, schema: LocalMatchSchema },
+    ]),
     forwardRef(() => CricketModule),
   ],
   controllers: [ScorerController],
-  providers: [ScorerService],
-  exports: [ScorerService],
+  providers: [ScorerService, ScorerReputationService],
+  exports: [ScorerService, ScorerReputationService],
 })
 export class ScorerModule {}
 
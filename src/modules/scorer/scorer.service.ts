@@ -166,9 +166,9 @@ export class ScorerService {
     // Get match with includeUnverified = true (scorer can see their own matches)
     const match = await this.localMatchService.getMatchById(matchId, true);
     
-    // Verify the scorer owns this match
-    if (match.scorerInfo.scorerId !== user.scorerProfile.scorerId) {
-      throw new ForbiddenException('You can only access matches you created');
+    // Verify the scorer is on this match's roster
+    if (!this.localMatchService.getScorerRole(match, user.scorerProfile.scorerId)) {
+      throw new ForbiddenException('You can only access matches you score');
     }
 
     // Transform LocalMatch to match frontend expectations
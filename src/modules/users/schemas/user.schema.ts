@@ -97,6 +97,17 @@ export class User {
       },
       matchesScored: { type: Number, default: 0 },
       accuracyScore: { type: Number, default: 100, min: 0, max: 100 },
+      reputationScore: { type: Number, min: 0, max: 100 },
+      reputationHistory: {
+        type: [
+          {
+            score: { type: Number, required: true },
+            computedAt: { type: Date, required: true },
+            signals: { type: Object },
+          },
+        ],
+        default: [],
+      },
       assignedLeagues: { type: [String], default: [] },
       phone: { type: String },
     },
@@ -114,6 +125,12 @@ export class User {
     };
     matchesScored: number;
     accuracyScore: number;
+    reputationScore?: number;
+    reputationHistory?: Array<{
+      score: number;
+      computedAt: Date;
+      signals?: Record<string, number>;
+    }>;
     assignedLeagues: string[];
     phone?: string;
   };
@@ -4,12 +4,15 @@ import {
   SubscribeMessage,
   OnGatewayConnection,
   OnGatewayDisconnect,
+  OnGatewayInit,
   MessageBody,
   ConnectedSocket,
 } from '@nestjs/websockets';
 import { Server, Socket } from 'socket.io';
 import { Logger } from '@nestjs/common';
 import { CricketService } from '../modules/cricket/cricket.service';
+import { LocalMatchService } from '../modules/cricket/services/local-match.service';
+import { WinProbabilityService } from '../modules/cricket/services/win-probability.service';
 import { FootballService } from '../modules/football/football.service';
 
 // Helper function to get CORS origins from environment variable
@@ -39,7 +42,7 @@ function getCorsOrigins(): string[] {
   transports: ['websocket', 'polling'], // Explicitly allow both transports
   allowEIO3: true, // Allow Engine.IO v3 clients
 })
-export class WebsocketGateway implements OnGatewayConnection, OnGatewayDisconnect {
+export class WebsocketGateway implements OnGatewayInit, OnGatewayConnection, OnGatewayDisconnect {
   @WebSocketServer()
   server: Server;
 
@@ -52,8 +55,17 @@ export class WebsocketGateway implements OnGatewayConnection, OnGatewayDisconnec
   constructor(
     private cricketService: CricketService,
     private footballService: FootballService,
+    private localMatchService: LocalMatchService,
+    private winProbabilityService: WinProbabilityService,
   ) {}
 
+  afterInit() {
+    // Relay every new win probability point to the match's viewers
+    this.winProbabilityService.updates$.subscribe((update) => {
+      this.server.to(`win-probability:${update.matchId}`).emit('win-probability', update);
+    });
+  }
+
   handleConnection(client: Socket) {
     this.logger.log(`Client connected: ${client.id}`);
     this.connectedClients.set(client.id, client);
@@ -200,6 +212,45 @@ export class WebsocketGateway implements OnGatewayConnection, OnGatewayDisconnec
     }
   }
 
+  @SubscribeMessage('subscribe:win-probability')
+  async handleSubscribeWinProbability(
+    @ConnectedSocket() client: Socket,
+    @MessageBody() data: { matchId: string; source: 'live' | 'local' },
+  ) {
+    const { matchId, source } = data;
+    this.logger.log(
+      `Client ${client.id} subscribed to win probability for match ${matchId} (${source})`,
+    );
+
+    // Send the timeline so far. The room is only joined once the match is
+    // known to be public (local matches must be verified).
+    try {
+      const winProbability =
+        source === 'local'
+          ? await this.localMatchService.getWinProbability(matchId, false)
+          : await this.winProbabilityService.getMatchWinProbability(matchId);
+
+      client.emit('win-probability-timeline', winProbability);
+
+      // Updates are pushed as points are recorded, so no polling is needed
+      client.join(`win-probability:${matchId}`);
+    } catch (error) {
+      this.logger.error(`Error fetching win probability for match ${matchId}`, error);
+      client.emit('error', { message: 'Failed to fetch win probability' });
+    }
+  }
+
+  @SubscribeMessage('unsubscribe:win-probability')
+  handleUnsubscribeWinProbability(
+    @ConnectedSocket() client: Socket,
+    @MessageBody() data: { matchId: string },
+  ) {
+    this.logger.log(
+      `Client ${client.id} unsubscribed from win probability for match ${data.matchId}`,
+    );
+    client.leave(`win-probability:${data.matchId}`);
+  }
+
   // Broadcast match update to all clients in a match room
   broadcastMatchUpdate(sport: 'cricket' | 'football', matchId: string, matchData: any) {
     this.server.to(`match:${sport}:${matchId}`).emit('match-update', matchData);